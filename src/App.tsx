@@ -2,13 +2,31 @@ import { ThemeProvider, CssBaseline } from "@mui/material";
 import { theme } from "./theme";
 import { Navigation } from "./components/Navigation";
 import { Dashboard } from "./components/Dashboard";
+import { SignIn } from "./components/SignIn";
+import { AuthProvider, useAuth } from "./contexts/AuthContext";
+
+const AppContent = () => {
+  const { authEnabled, user } = useAuth();
+
+  if (authEnabled && !user) {
+    return <SignIn />;
+  }
+
+  return (
+    <>
+      <Navigation />
+      <Dashboard />
+    </>
+  );
+};
 
 function App() {
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <Navigation />
-      <Dashboard />
+      <AuthProvider>
+        <AppContent />
+      </AuthProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,417 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Alert,
+  Tooltip,
+  MenuItem,
+  Stack,
+  Chip,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import {
+  Badge as RosterIcon,
+  Close as CloseIcon,
+  Edit as EditIcon,
+  Save as SaveIcon,
+} from "@mui/icons-material";
+import { Agent } from "../types/agents";
+import { agentService } from "../services/agentService";
+import { useLocations } from "../utils/locations";
+import { getBusinessDate } from "../utils/dates";
+import {
+  createAgentId,
+  isAgentActiveOn,
+  normalizeAgentName,
+  useAgentRoster,
+} from "../utils/agents";
+
+const ALL_SITES = "all";
+
+// Form values for the agent being added or edited; dates are yyyy-MM-dd
+interface AgentDraft {
+  id: string | null; // null for a new agent
+  name: string;
+  aliases: string; // Comma-separated
+  site: string;
+  supervisor: string;
+  hireDate: string;
+  activeFrom: string;
+  terminatedOn: string;
+}
+
+const emptyDraft = (site: string): AgentDraft => ({
+  id: null,
+  name: "",
+  aliases: "",
+  site,
+  supervisor: "",
+  hireDate: "",
+  activeFrom: "",
+  terminatedOn: "",
+});
+
+const toDraft = (agent: Agent): AgentDraft => ({
+  id: agent.id,
+  name: agent.name,
+  aliases: (agent.aliases ?? []).join(", "),
+  site: agent.site,
+  supervisor: agent.supervisor ?? "",
+  hireDate: agent.hireDate ?? "",
+  activeFrom: agent.activeFrom ?? "",
+  terminatedOn: agent.terminatedOn ?? "",
+});
+
+// Roster of lead agents. Lead imports resolve CSV names to these agents by
+// name and alias.
+export const AgentRoster: React.FC = () => {
+  const locations = useLocations();
+  const roster = useAgentRoster();
+  const [open, setOpen] = useState(false);
+  const [siteFilter, setSiteFilter] = useState<string>(ALL_SITES);
+  const [search, setSearch] = useState("");
+  const [showTerminated, setShowTerminated] = useState(false);
+  const [draft, setDraft] = useState<AgentDraft>(() =>
+    emptyDraft(locations[0]?.leadSiteKey ?? "")
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const today = getBusinessDate();
+
+  const siteName = (site: string) =>
+    locations.find((location) => location.leadSiteKey === site)?.name ?? site;
+
+  const resetDraft = () => {
+    setDraft(
+      emptyDraft(
+        siteFilter !== ALL_SITES ? siteFilter : locations[0]?.leadSiteKey ?? ""
+      )
+    );
+    setError(null);
+  };
+
+  const handleOpen = () => {
+    resetDraft();
+    setOpen(true);
+  };
+
+  const handleClose = () => {
+    setOpen(false);
+  };
+
+  const searchKey = normalizeAgentName(search);
+  const visibleAgents = roster.filter(
+    (agent) =>
+      (siteFilter === ALL_SITES || agent.site === siteFilter) &&
+      (showTerminated ||
+        !agent.terminatedOn ||
+        agent.terminatedOn >= today) &&
+      (!searchKey ||
+        [agent.name, ...(agent.aliases ?? [])].some((name) =>
+          normalizeAgentName(name).includes(searchKey)
+        ))
+  );
+
+  const describeStatus = (agent: Agent) => {
+    if (isAgentActiveOn(agent, today)) {
+      return <Chip label="Active" color="success" size="small" />;
+    }
+    if (agent.terminatedOn && agent.terminatedOn < today) {
+      return <Chip label="Terminated" size="small" />;
+    }
+    return <Chip label="Starting" color="info" size="small" />;
+  };
+
+  const updateDraft = (field: keyof AgentDraft, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name || !draft.site) {
+      setError("An agent needs a name and a site");
+      return;
+    }
+    const start = draft.activeFrom || draft.hireDate;
+    if (draft.terminatedOn && start && draft.terminatedOn < start) {
+      setError("The termination date is before the agent started");
+      return;
+    }
+    const key = normalizeAgentName(name);
+    const duplicate = roster.find(
+      (agent) =>
+        agent.id !== draft.id &&
+        agent.site === draft.site &&
+        !agent.terminatedOn &&
+        normalizeAgentName(agent.name) === key
+    );
+    if (duplicate) {
+      setError(
+        `${duplicate.name} is already on the ${siteName(draft.site)} roster`
+      );
+      return;
+    }
+
+    const agent: Agent = {
+      id: draft.id ?? createAgentId(name, roster),
+      name,
+      site: draft.site,
+    };
+    const aliases = draft.aliases
+      .split(",")
+      .map((alias) => alias.trim())
+      .filter(Boolean);
+    if (aliases.length > 0) agent.aliases = aliases;
+    if (draft.supervisor.trim()) agent.supervisor = draft.supervisor.trim();
+    if (draft.hireDate) agent.hireDate = draft.hireDate;
+    if (draft.activeFrom) agent.activeFrom = draft.activeFrom;
+    if (draft.terminatedOn) agent.terminatedOn = draft.terminatedOn;
+
+    setSaving(true);
+    try {
+      const saved = await agentService.saveAgents([agent]);
+      if (saved) {
+        resetDraft();
+      } else {
+        setError("Failed to save the agent. Please try again.");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Agent Roster">
+        <IconButton
+          color="primary"
+          onClick={handleOpen}
+          data-testid="agent-roster-button"
+        >
+          <RosterIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Agent Roster</Typography>
+            <IconButton onClick={handleClose} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Lead imports match agent names in the file to this roster by name
+            and alias. Add other spellings of a name as aliases. Terminated
+            agents stay on the roster so past imports keep their matches.
+          </Typography>
+
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2} mb={2}>
+            <TextField
+              select
+              label="Site"
+              size="small"
+              value={siteFilter}
+              onChange={(e) => setSiteFilter(e.target.value)}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value={ALL_SITES}>All sites</MenuItem>
+              {locations.map((location) => (
+                <MenuItem key={location.id} value={location.leadSiteKey}>
+                  {location.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Search"
+              size="small"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={showTerminated}
+                  onChange={(e) => setShowTerminated(e.target.checked)}
+                />
+              }
+              label="Show terminated"
+            />
+          </Stack>
+
+          {visibleAgents.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No agents on the roster{roster.length > 0 ? " match" : ""}.
+            </Typography>
+          ) : (
+            <TableContainer sx={{ maxHeight: 360 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Site</TableCell>
+                    <TableCell>Supervisor</TableCell>
+                    <TableCell>Hired</TableCell>
+                    <TableCell>Active From</TableCell>
+                    <TableCell>Terminated</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleAgents.map((agent) => (
+                    <TableRow key={agent.id} selected={agent.id === draft.id}>
+                      <TableCell>
+                        {agent.name}
+                        {agent.aliases && (
+                          <Typography
+                            variant="caption"
+                            color="text.secondary"
+                            component="div"
+                          >
+                            Also: {agent.aliases.join(", ")}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{siteName(agent.site)}</TableCell>
+                      <TableCell>{agent.supervisor ?? "—"}</TableCell>
+                      <TableCell>{agent.hireDate ?? "—"}</TableCell>
+                      <TableCell>{agent.activeFrom ?? "—"}</TableCell>
+                      <TableCell>{agent.terminatedOn ?? "—"}</TableCell>
+                      <TableCell>{describeStatus(agent)}</TableCell>
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          onClick={() => {
+                            setDraft(toDraft(agent));
+                            setError(null);
+                          }}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, mt: 3 }}>
+            {draft.id ? `Edit ${draft.name || "Agent"}` : "Add Agent"}
+          </Typography>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2} mt={2}>
+            <TextField
+              label="Name"
+              size="small"
+              value={draft.name}
+              onChange={(e) => updateDraft("name", e.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Aliases"
+              size="small"
+              value={draft.aliases}
+              onChange={(e) => updateDraft("aliases", e.target.value)}
+              helperText="Comma-separated"
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              label="Site"
+              size="small"
+              value={draft.site}
+              onChange={(e) => updateDraft("site", e.target.value)}
+              sx={{ minWidth: 160 }}
+            >
+              {locations.map((location) => (
+                <MenuItem key={location.id} value={location.leadSiteKey}>
+                  {location.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2} mt={2}>
+            <TextField
+              label="Supervisor"
+              size="small"
+              value={draft.supervisor}
+              onChange={(e) => updateDraft("supervisor", e.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Hire Date"
+              type="date"
+              size="small"
+              value={draft.hireDate}
+              onChange={(e) => updateDraft("hireDate", e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Active From"
+              type="date"
+              size="small"
+              value={draft.activeFrom}
+              onChange={(e) => updateDraft("activeFrom", e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              helperText="Hire date if empty"
+            />
+            <TextField
+              label="Terminated On"
+              type="date"
+              size="small"
+              value={draft.terminatedOn}
+              onChange={(e) => updateDraft("terminatedOn", e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              helperText="Last day on the roster"
+            />
+          </Stack>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {draft.id && <Button onClick={resetDraft}>Cancel Edit</Button>}
+          <Button
+            onClick={handleSave}
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            disabled={saving}
+          >
+            {draft.id ? "Save Agent" : "Add Agent"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
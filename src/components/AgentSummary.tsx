@@ -27,22 +27,21 @@ import {
   Today,
 } from "@mui/icons-material";
 import { format, subDays, startOfMonth, endOfMonth, isWeekend, parseISO, differenceInDays } from "date-fns";
-import { leadService, LeadEntryStored, SiteKey } from "../services/leadService";
+import { leadService, SiteKey } from "../services/leadService";
+import { getLocationColor, useLocations } from "../utils/locations";
+import { getNow } from "../utils/asOf";
+import { parseDateKey } from "../utils/dates";
+
+interface SiteDailyMetrics {
+  agents: number;
+  meetingMin: number;
+  attainmentPct: number;
+  absent: number; // agents with 0 leads
+}
 
 interface DailyMetrics {
   date: string;
-  atx: {
-    agents: number;
-    meetingMin: number;
-    attainmentPct: number;
-    absent: number; // agents with 0 leads
-  };
-  clt: {
-    agents: number;
-    meetingMin: number;
-    attainmentPct: number;
-    absent: number; // agents with 0 leads
-  };
+  sites: Record<SiteKey, SiteDailyMetrics>;
   total: {
     agents: number;
     meetingMin: number;
@@ -60,6 +59,22 @@ interface LocationStats {
   outages: number; // days with <80% of average agents
 }
 
+const EMPTY_DAY: SiteDailyMetrics = {
+  agents: 0,
+  meetingMin: 0,
+  attainmentPct: 0,
+  absent: 0,
+};
+
+const EMPTY_STATS: LocationStats = {
+  avgAgents: 0,
+  avgMeetingMin: 0,
+  avgAttainment: 0,
+  avgAbsent: 0,
+  daysWithData: 0,
+  outages: 0,
+};
+
 type DateRangePreset = "yesterday" | "7d" | "30d" | "mtd" | "custom";
 
 export const AgentSummary: React.FC = () => {
@@ -67,14 +82,14 @@ export const AgentSummary: React.FC = () => {
   const [selectedDayMetrics, setSelectedDayMetrics] = useState<DailyMetrics | null>(null);
   const [rangeMetrics, setRangeMetrics] = useState<DailyMetrics[]>([]);
   const [locationStats, setLocationStats] = useState<{
-    atx: LocationStats;
-    clt: LocationStats;
+    sites: Record<SiteKey, LocationStats>;
     combined: LocationStats;
   }>({
-    atx: { avgAgents: 0, avgMeetingMin: 0, avgAttainment: 0, avgAbsent: 0, daysWithData: 0, outages: 0 },
-    clt: { avgAgents: 0, avgMeetingMin: 0, avgAttainment: 0, avgAbsent: 0, daysWithData: 0, outages: 0 },
-    combined: { avgAgents: 0, avgMeetingMin: 0, avgAttainment: 0, avgAbsent: 0, daysWithData: 0, outages: 0 },
+    sites: {},
+    combined: EMPTY_STATS,
   });
+  const locations = useLocations();
+  const siteKeys = locations.map((location) => location.leadSiteKey);
   
   const [preset, setPreset] = useState<DateRangePreset>("yesterday");
   const [customStartDate, setCustomStartDate] = useState("");
@@ -82,7 +97,7 @@ export const AgentSummary: React.FC = () => {
   
   // Calculate date range based on preset
   const getDateRange = () => {
-    const today = new Date();
+    const today = getNow();
     let start: Date;
     let end: Date;
 
@@ -104,8 +119,8 @@ export const AgentSummary: React.FC = () => {
         end = subDays(today, 1);
         break;
       case "custom":
-        start = customStartDate ? new Date(customStartDate) : subDays(today, 7);
-        end = customEndDate ? new Date(customEndDate) : subDays(today, 1);
+        start = customStartDate ? parseDateKey(customStartDate) : subDays(today, 7);
+        end = customEndDate ? parseDateKey(customEndDate) : subDays(today, 1);
         break;
       default:
         start = subDays(today, 1);
@@ -124,7 +139,7 @@ export const AgentSummary: React.FC = () => {
   // Initialize custom dates when switching to custom preset
   useEffect(() => {
     if (preset === "custom" && !customStartDate && !customEndDate) {
-      const today = new Date();
+      const today = getNow();
       const sevenDaysAgo = subDays(today, 7);
       const yesterday = subDays(today, 1);
       setCustomStartDate(format(sevenDaysAgo, "yyyy-MM-dd"));
@@ -146,27 +161,25 @@ export const AgentSummary: React.FC = () => {
       const metrics: DailyMetrics[] = [];
       
       dataMap.forEach((dayData, date) => {
-        const atx = dayData.ATX;
-        const clt = dayData.CLT;
+        const sites: Record<SiteKey, SiteDailyMetrics> = {};
+        siteKeys.forEach((site) => {
+          const entry = dayData?.[site];
+          sites[site] = {
+            agents: entry?.availableAgents || 0,
+            meetingMin: entry?.agentsMeetingMin || 0,
+            attainmentPct: entry?.derived?.attainmentPct ? entry.derived.attainmentPct * 100 : 0,
+            absent: entry?.openOrderZeroLeads || 0,
+          };
+        });
         
-        const totalAgents = (atx?.availableAgents || 0) + (clt?.availableAgents || 0);
-        const totalMeetingMin = (atx?.agentsMeetingMin || 0) + (clt?.agentsMeetingMin || 0);
-        const totalAbsent = (atx?.openOrderZeroLeads || 0) + (clt?.openOrderZeroLeads || 0);
+        const siteMetrics = Object.values(sites);
+        const totalAgents = siteMetrics.reduce((sum, site) => sum + site.agents, 0);
+        const totalMeetingMin = siteMetrics.reduce((sum, site) => sum + site.meetingMin, 0);
+        const totalAbsent = siteMetrics.reduce((sum, site) => sum + site.absent, 0);
         
         metrics.push({
           date,
-          atx: {
-            agents: atx?.availableAgents || 0,
-            meetingMin: atx?.agentsMeetingMin || 0,
-            attainmentPct: atx?.derived?.attainmentPct ? atx.derived.attainmentPct * 100 : 0,
-            absent: atx?.openOrderZeroLeads || 0,
-          },
-          clt: {
-            agents: clt?.availableAgents || 0,
-            meetingMin: clt?.agentsMeetingMin || 0,
-            attainmentPct: clt?.derived?.attainmentPct ? clt.derived.attainmentPct * 100 : 0,
-            absent: clt?.openOrderZeroLeads || 0,
-          },
+          sites,
           total: {
             agents: totalAgents,
             meetingMin: totalMeetingMin,
@@ -188,41 +201,40 @@ export const AgentSummary: React.FC = () => {
       }
       
       // Calculate statistics from the range metrics
-      const stats = {
-        atx: { totalAgents: 0, totalMeetingMin: 0, totalAttainment: 0, totalAbsent: 0, daysWithData: 0, agentsByDay: [] as number[] },
-        clt: { totalAgents: 0, totalMeetingMin: 0, totalAttainment: 0, totalAbsent: 0, daysWithData: 0, agentsByDay: [] as number[] },
-      };
+      const createSiteTotals = () => ({
+        totalAgents: 0,
+        totalMeetingMin: 0,
+        totalAttainment: 0,
+        totalAbsent: 0,
+        daysWithData: 0,
+        agentsByDay: [] as number[],
+      });
+      const stats: Record<SiteKey, ReturnType<typeof createSiteTotals>> = Object.fromEntries(
+        siteKeys.map((site) => [site, createSiteTotals()])
+      );
 
       // Process each day's metrics
       metrics.forEach((dayMetrics) => {
         // Skip weekends for business metrics
-        if (isWeekend(new Date(dayMetrics.date))) return;
+        if (isWeekend(parseDateKey(dayMetrics.date))) return;
         
-        // ATX stats
-        if (dayMetrics.atx.agents > 0) {
-          stats.atx.daysWithData++;
-          stats.atx.totalAgents += dayMetrics.atx.agents;
-          stats.atx.totalMeetingMin += dayMetrics.atx.meetingMin;
-          stats.atx.totalAttainment += dayMetrics.atx.attainmentPct / 100; // Convert back to decimal
-          stats.atx.totalAbsent += dayMetrics.atx.absent;
-          stats.atx.agentsByDay.push(dayMetrics.atx.agents);
-        }
-        
-        // CLT stats
-        if (dayMetrics.clt.agents > 0) {
-          stats.clt.daysWithData++;
-          stats.clt.totalAgents += dayMetrics.clt.agents;
-          stats.clt.totalMeetingMin += dayMetrics.clt.meetingMin;
-          stats.clt.totalAttainment += dayMetrics.clt.attainmentPct / 100; // Convert back to decimal
-          stats.clt.totalAbsent += dayMetrics.clt.absent;
-          stats.clt.agentsByDay.push(dayMetrics.clt.agents);
-        }
+        siteKeys.forEach((site) => {
+          const day = dayMetrics.sites[site];
+          if (day && day.agents > 0) {
+            stats[site].daysWithData++;
+            stats[site].totalAgents += day.agents;
+            stats[site].totalMeetingMin += day.meetingMin;
+            stats[site].totalAttainment += day.attainmentPct / 100; // Convert back to decimal
+            stats[site].totalAbsent += day.absent;
+            stats[site].agentsByDay.push(day.agents);
+          }
+        });
       });
 
       // Calculate averages and outages
-      const calculateLocationStats = (data: typeof stats.atx): LocationStats => {
+      const calculateLocationStats = (data: ReturnType<typeof createSiteTotals>): LocationStats => {
         if (data.daysWithData === 0) {
-          return { avgAgents: 0, avgMeetingMin: 0, avgAttainment: 0, avgAbsent: 0, daysWithData: 0, outages: 0 };
+          return EMPTY_STATS;
         }
         
         const avgAgents = data.totalAgents / data.daysWithData;
@@ -243,26 +255,27 @@ export const AgentSummary: React.FC = () => {
         };
       };
 
-      const atxStats = calculateLocationStats(stats.atx);
-      const cltStats = calculateLocationStats(stats.clt);
+      const siteStats: Record<SiteKey, LocationStats> = Object.fromEntries(
+        siteKeys.map((site) => [site, calculateLocationStats(stats[site])])
+      );
+      const allSiteStats = Object.values(siteStats);
       
       // Combined stats
-      const combinedDays = Math.max(stats.atx.daysWithData, stats.clt.daysWithData);
+      const combinedDays = Math.max(0, ...allSiteStats.map((site) => site.daysWithData));
+      const totalSiteDays = allSiteStats.reduce((sum, site) => sum + site.daysWithData, 0);
       const combinedStats: LocationStats = {
-        avgAgents: atxStats.avgAgents + cltStats.avgAgents,
-        avgMeetingMin: atxStats.avgMeetingMin + cltStats.avgMeetingMin,
-        avgAttainment: combinedDays > 0 
-          ? ((atxStats.avgAttainment * atxStats.daysWithData + cltStats.avgAttainment * cltStats.daysWithData) / 
-             (atxStats.daysWithData + cltStats.daysWithData))
+        avgAgents: allSiteStats.reduce((sum, site) => sum + site.avgAgents, 0),
+        avgMeetingMin: allSiteStats.reduce((sum, site) => sum + site.avgMeetingMin, 0),
+        avgAttainment: totalSiteDays > 0 
+          ? allSiteStats.reduce((sum, site) => sum + site.avgAttainment * site.daysWithData, 0) / totalSiteDays
           : 0,
-        avgAbsent: atxStats.avgAbsent + cltStats.avgAbsent,
+        avgAbsent: allSiteStats.reduce((sum, site) => sum + site.avgAbsent, 0),
         daysWithData: combinedDays,
-        outages: Math.max(atxStats.outages, cltStats.outages), // Use max outages from either location
+        outages: Math.max(0, ...allSiteStats.map((site) => site.outages)), // Use max outages from any location
       };
 
       setLocationStats({
-        atx: atxStats,
-        clt: cltStats,
+        sites: siteStats,
         combined: combinedStats,
       });
       
@@ -272,7 +285,7 @@ export const AgentSummary: React.FC = () => {
     return () => {
       unsubRange();
     };
-  }, [dateRange.start, dateRange.end]);
+  }, [dateRange.start, dateRange.end, siteKeys.join(",")]);
 
   if (loading) {
     return (
@@ -292,10 +305,13 @@ export const AgentSummary: React.FC = () => {
   }
 
   const hasSelectedDayData = selectedDayMetrics && selectedDayMetrics.total.agents > 0;
-  const selectedDate = selectedDayMetrics ? new Date(selectedDayMetrics.date) : new Date();
-  const isSelectedDateWeekend = selectedDayMetrics ? isWeekend(new Date(selectedDayMetrics.date)) : false;
+  const selectedDate = selectedDayMetrics ? parseDateKey(selectedDayMetrics.date) : getNow();
+  const isSelectedDateWeekend = selectedDayMetrics ? isWeekend(parseDateKey(selectedDayMetrics.date)) : false;
   const isSingleDay = dateRange.start === dateRange.end;
-  const dayCount = differenceInDays(new Date(dateRange.end), new Date(dateRange.start)) + 1;
+  const getSiteStats = (site: SiteKey) => locationStats.sites[site] ?? EMPTY_STATS;
+  const getSiteDay = (site: SiteKey) => selectedDayMetrics?.sites[site] ?? EMPTY_DAY;
+  const breakdownColumns = Math.max(3, Math.floor(12 / locations.length));
+  const dayCount = differenceInDays(parseDateKey(dateRange.end), parseDateKey(dateRange.start)) + 1;
 
   return (
     <Paper
@@ -318,8 +334,8 @@ export const AgentSummary: React.FC = () => {
               </Typography>
               <Typography variant="caption" color="text.secondary">
                 {isSingleDay 
-                  ? format(new Date(dateRange.start), "MMMM d, yyyy")
-                  : `${format(new Date(dateRange.start), "MMM d")} - ${format(new Date(dateRange.end), "MMM d, yyyy")}`
+                  ? format(parseDateKey(dateRange.start), "MMMM d, yyyy")
+                  : `${format(parseDateKey(dateRange.start), "MMM d")} - ${format(parseDateKey(dateRange.end), "MMM d, yyyy")}`
                 } performance {!isSingleDay && `(${dayCount} days)`}
               </Typography>
             </Box>
@@ -430,16 +446,14 @@ export const AgentSummary: React.FC = () => {
                 <Stack direction="row" spacing={1}>
                   {hasSelectedDayData || locationStats.combined.avgAgents > 0 ? (
                     <>
-                      <Chip 
-                        label={`ATX: ${isSingleDay ? selectedDayMetrics.atx.agents : locationStats.atx.avgAgents.toFixed(0)}`} 
-                        size="small" 
-                        sx={{ bgcolor: "background.paper" }}
-                      />
-                      <Chip 
-                        label={`CLT: ${isSingleDay ? selectedDayMetrics.clt.agents : locationStats.clt.avgAgents.toFixed(0)}`} 
-                        size="small"
-                        sx={{ bgcolor: "background.paper" }}
-                      />
+                      {locations.map((location) => (
+                        <Chip 
+                          key={location.id}
+                          label={`${location.leadSiteKey}: ${isSingleDay ? getSiteDay(location.leadSiteKey).agents : getSiteStats(location.leadSiteKey).avgAgents.toFixed(0)}`} 
+                          size="small" 
+                          sx={{ bgcolor: "background.paper" }}
+                        />
+                      ))}
                     </>
                   ) : (
                     <Typography variant="caption" color="text.secondary">
@@ -510,16 +524,14 @@ export const AgentSummary: React.FC = () => {
                   {locationStats.combined.avgAgents.toFixed(0)}
                 </Typography>
                 <Stack direction="row" spacing={1}>
-                  <Chip 
-                    label={`ATX: ${locationStats.atx.avgAgents.toFixed(0)}`} 
-                    size="small" 
-                    variant="outlined"
-                  />
-                  <Chip 
-                    label={`CLT: ${locationStats.clt.avgAgents.toFixed(0)}`} 
-                    size="small"
-                    variant="outlined"
-                  />
+                  {locations.map((location) => (
+                    <Chip 
+                      key={location.id}
+                      label={`${location.leadSiteKey}: ${getSiteStats(location.leadSiteKey).avgAgents.toFixed(0)}`} 
+                      size="small" 
+                      variant="outlined"
+                    />
+                  ))}
                 </Stack>
               </Stack>
             </Box>
@@ -586,12 +598,11 @@ export const AgentSummary: React.FC = () => {
                 <Stack direction="row" spacing={1}>
                   {selectedDayMetrics || locationStats.combined.avgAbsent > 0 ? (
                     <>
-                      <Typography variant="caption" color="text.secondary">
-                        ATX: {isSingleDay && selectedDayMetrics ? selectedDayMetrics.atx.absent : locationStats.atx.avgAbsent.toFixed(1)}
-                      </Typography>
-                      <Typography variant="caption" color="text.secondary">
-                        CLT: {isSingleDay && selectedDayMetrics ? selectedDayMetrics.clt.absent : locationStats.clt.avgAbsent.toFixed(1)}
-                      </Typography>
+                      {locations.map((location) => (
+                        <Typography key={location.id} variant="caption" color="text.secondary">
+                          {location.leadSiteKey}: {isSingleDay && selectedDayMetrics ? getSiteDay(location.leadSiteKey).absent : getSiteStats(location.leadSiteKey).avgAbsent.toFixed(1)}
+                        </Typography>
+                      ))}
                     </>
                   ) : (
                     <Typography variant="caption" color="text.secondary">
@@ -672,58 +683,37 @@ export const AgentSummary: React.FC = () => {
             Location Performance Breakdown
           </Typography>
           <Grid container spacing={2}>
-            <Grid item xs={12} md={6}>
-              <Box sx={{ p: 2, bgcolor: "grey.50", borderRadius: 1 }}>
-                <Stack spacing={1}>
-                  <Stack direction="row" alignItems="center" spacing={1}>
-                    <LocationOn fontSize="small" sx={{ color: "primary.main" }} />
-                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
-                      Austin (ATX)
-                    </Typography>
-                  </Stack>
-                  <Stack spacing={0.5}>
-                    <Typography variant="caption">
-                      • Avg daily agents: <strong>{locationStats.atx.avgAgents.toFixed(1)}</strong>
-                    </Typography>
-                    <Typography variant="caption">
-                      • Lead attainment: <strong>{locationStats.atx.avgAttainment.toFixed(0)}%</strong>
-                    </Typography>
-                    <Typography variant="caption">
-                      • Avg absent agents: <strong>{locationStats.atx.avgAbsent.toFixed(1)}</strong> ({locationStats.atx.avgAgents > 0 ? ((locationStats.atx.avgAbsent / locationStats.atx.avgAgents) * 100).toFixed(0) : 0}%)
-                    </Typography>
-                    <Typography variant="caption">
-                      • Days with low staffing: <strong>{locationStats.atx.outages}</strong> ({locationStats.atx.daysWithData > 0 ? ((locationStats.atx.outages / locationStats.atx.daysWithData) * 100).toFixed(0) : 0}%)
-                    </Typography>
-                  </Stack>
-                </Stack>
-              </Box>
-            </Grid>
-            <Grid item xs={12} md={6}>
-              <Box sx={{ p: 2, bgcolor: "grey.50", borderRadius: 1 }}>
-                <Stack spacing={1}>
-                  <Stack direction="row" alignItems="center" spacing={1}>
-                    <LocationOn fontSize="small" sx={{ color: "secondary.main" }} />
-                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
-                      Charlotte (CLT)
-                    </Typography>
-                  </Stack>
-                  <Stack spacing={0.5}>
-                    <Typography variant="caption">
-                      • Avg daily agents: <strong>{locationStats.clt.avgAgents.toFixed(1)}</strong>
-                    </Typography>
-                    <Typography variant="caption">
-                      • Lead attainment: <strong>{locationStats.clt.avgAttainment.toFixed(0)}%</strong>
-                    </Typography>
-                    <Typography variant="caption">
-                      • Avg absent agents: <strong>{locationStats.clt.avgAbsent.toFixed(1)}</strong> ({locationStats.clt.avgAgents > 0 ? ((locationStats.clt.avgAbsent / locationStats.clt.avgAgents) * 100).toFixed(0) : 0}%)
-                    </Typography>
-                    <Typography variant="caption">
-                      • Days with low staffing: <strong>{locationStats.clt.outages}</strong> ({locationStats.clt.daysWithData > 0 ? ((locationStats.clt.outages / locationStats.clt.daysWithData) * 100).toFixed(0) : 0}%)
-                    </Typography>
-                  </Stack>
-                </Stack>
-              </Box>
-            </Grid>
+            {locations.map((location) => {
+              const stats = getSiteStats(location.leadSiteKey);
+              return (
+                <Grid item xs={12} md={breakdownColumns} key={location.id}>
+                  <Box sx={{ p: 2, bgcolor: "grey.50", borderRadius: 1 }}>
+                    <Stack spacing={1}>
+                      <Stack direction="row" alignItems="center" spacing={1}>
+                        <LocationOn fontSize="small" sx={{ color: getLocationColor(location, locations) }} />
+                        <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                          {location.name} ({location.leadSiteKey})
+                        </Typography>
+                      </Stack>
+                      <Stack spacing={0.5}>
+                        <Typography variant="caption">
+                          • Avg daily agents: <strong>{stats.avgAgents.toFixed(1)}</strong>
+                        </Typography>
+                        <Typography variant="caption">
+                          • Lead attainment: <strong>{stats.avgAttainment.toFixed(0)}%</strong>
+                        </Typography>
+                        <Typography variant="caption">
+                          • Avg absent agents: <strong>{stats.avgAbsent.toFixed(1)}</strong> ({stats.avgAgents > 0 ? ((stats.avgAbsent / stats.avgAgents) * 100).toFixed(0) : 0}%)
+                        </Typography>
+                        <Typography variant="caption">
+                          • Days with low staffing: <strong>{stats.outages}</strong> ({stats.daysWithData > 0 ? ((stats.outages / stats.daysWithData) * 100).toFixed(0) : 0}%)
+                        </Typography>
+                      </Stack>
+                    </Stack>
+                  </Box>
+                </Grid>
+              );
+            })}
           </Grid>
         </Box>
 
@@ -764,17 +754,14 @@ export const AgentSummary: React.FC = () => {
             )}
             
             {/* Performance insights */}
-            {locationStats.atx.avgAttainment < 100 && locationStats.atx.daysWithData > 0 && (
-              <Typography variant="caption" color="warning.dark">
-                • Austin is averaging {(100 - locationStats.atx.avgAttainment).toFixed(0)}% below lead targets {!isSingleDay && "in this period"}
-              </Typography>
-            )}
-            
-            {locationStats.clt.avgAttainment < 100 && locationStats.clt.daysWithData > 0 && (
-              <Typography variant="caption" color="warning.dark">
-                • Charlotte is averaging {(100 - locationStats.clt.avgAttainment).toFixed(0)}% below lead targets {!isSingleDay && "in this period"}
-              </Typography>
-            )}
+            {locations.map((location) => {
+              const stats = getSiteStats(location.leadSiteKey);
+              return stats.avgAttainment < 100 && stats.daysWithData > 0 ? (
+                <Typography key={location.id} variant="caption" color="warning.dark">
+                  • {location.name} is averaging {(100 - stats.avgAttainment).toFixed(0)}% below lead targets {!isSingleDay && "in this period"}
+                </Typography>
+              ) : null;
+            })}
             
             {/* Outage warnings */}
             {locationStats.combined.outages > 0 && (
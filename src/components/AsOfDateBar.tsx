@@ -0,0 +1,58 @@
+import React from "react";
+import { Alert, Box, Button, Paper, TextField } from "@mui/material";
+import { Today as TodayIcon } from "@mui/icons-material";
+import { format } from "date-fns";
+import { setAsOfDate, useAsOfDate } from "../utils/asOf";
+import { getBusinessDate, parseDateKey } from "../utils/dates";
+
+// Pick a day to see every tab as it stood then: entries after it are left
+// out and month-to-date, pace and missing days are worked out as of it
+export const AsOfDateBar: React.FC = () => {
+  const asOfDate = useAsOfDate();
+  const today = getBusinessDate();
+
+  const handleChange = (value: string) => {
+    setAsOfDate(value && value < today ? value : null);
+  };
+
+  return (
+    <Paper sx={{ mb: 3, p: 2 }}>
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+        }}
+      >
+        <TextField
+          type="date"
+          size="small"
+          label="As of"
+          value={asOfDate ?? today}
+          onChange={(e) => handleChange(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ max: today }}
+          data-testid="as-of-date"
+        />
+        {asOfDate && (
+          <>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<TodayIcon />}
+              onClick={() => setAsOfDate(null)}
+            >
+              Back to Today
+            </Button>
+            <Alert severity="info" sx={{ flexGrow: 1, py: 0 }}>
+              Showing the dashboard as of{" "}
+              {format(parseDateKey(asOfDate), "EEEE, MMM d, yyyy")}. Entries
+              made here are still saved for the dates you pick.
+            </Alert>
+          </>
+        )}
+      </Box>
+    </Paper>
+  );
+};
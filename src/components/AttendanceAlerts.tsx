@@ -28,6 +28,12 @@ import { format, parseISO, subDays, startOfWeek, endOfWeek } from "date-fns";
 import { RevenueData, TargetSettings } from "../types/revenue";
 import { calculateLocationMetrics } from "../utils/calculations";
 import { formatCurrency } from "../utils/formatters";
+import { getNow } from "../utils/asOf";
+import {
+  findLocation,
+  getRevenueForLocation,
+  useLocations,
+} from "../utils/locations";
 
 interface AttendanceAlertsProps {
   revenueData: RevenueData[];
@@ -36,7 +42,8 @@ interface AttendanceAlertsProps {
 
 interface DailyAlert {
   date: string;
-  location: "Austin" | "Charlotte" | "Combined";
+  // Location display name, or "Combined"
+  location: string;
   currentRevenue: number;
   previousRevenue: number;
   dropPercentage: number;
@@ -45,7 +52,7 @@ interface DailyAlert {
 }
 
 interface WeeklyComparison {
-  location: "Austin" | "Charlotte" | "Combined";
+  location: string;
   currentWeekTotal: number;
   previousWeekTotal: number;
   changePercentage: number;
@@ -61,13 +68,14 @@ export const AttendanceAlerts: React.FC<AttendanceAlertsProps> = ({
   const [expandedLocation, setExpandedLocation] = React.useState<string | null>(
     null
   );
+  const locations = useLocations();
 
   const weeklyComparisons = useMemo(() => {
     if (!revenueData || revenueData.length === 0 || !targetSettings) {
       return [];
     }
 
-    const today = new Date();
+    const today = getNow();
     const currentWeekStart = startOfWeek(today, { weekStartsOn: 1 }); // Monday
     const currentWeekEnd = endOfWeek(today, { weekStartsOn: 1 });
     const previousWeekStart = subDays(currentWeekStart, 7);
@@ -87,7 +95,12 @@ export const AttendanceAlerts: React.FC<AttendanceAlertsProps> = ({
     const comparisons: WeeklyComparison[] = [];
 
     // Analyze each location
-    ["Austin", "Charlotte", "Combined"].forEach((location) => {
+    [...locations.map((l) => l.name), "Combined"].forEach((location) => {
+      const locationId = findLocation(location, locations)?.id;
+      const selectMetric = (
+        metrics: ReturnType<typeof calculateLocationMetrics>
+      ) => (locationId ? metrics.locations[locationId] : metrics.total);
+
       const currentMetrics = calculateLocationMetrics(
         currentWeekData,
         targetSettings,
@@ -102,33 +115,10 @@ export const AttendanceAlerts: React.FC<AttendanceAlertsProps> = ({
         "custom"
       );
 
-      const currentTotal =
-        location === "Austin"
-          ? currentMetrics.austin.revenue
-          : location === "Charlotte"
-          ? currentMetrics.charlotte.revenue
-          : currentMetrics.total.revenue;
-
-      const previousTotal =
-        location === "Austin"
-          ? previousMetrics.austin.revenue
-          : location === "Charlotte"
-          ? previousMetrics.charlotte.revenue
-          : previousMetrics.total.revenue;
-
-      const currentAttainment =
-        location === "Austin"
-          ? currentMetrics.austin.attainment
-          : location === "Charlotte"
-          ? currentMetrics.charlotte.attainment
-          : currentMetrics.total.attainment;
-
-      const previousAttainment =
-        location === "Austin"
-          ? previousMetrics.austin.attainment
-          : location === "Charlotte"
-          ? previousMetrics.charlotte.attainment
-          : previousMetrics.total.attainment;
+      const currentTotal = selectMetric(currentMetrics).revenue;
+      const previousTotal = selectMetric(previousMetrics).revenue;
+      const currentAttainment = selectMetric(currentMetrics).attainment;
+      const previousAttainment = selectMetric(previousMetrics).attainment;
 
       const changePercentage =
         previousTotal > 0
@@ -156,19 +146,14 @@ export const AttendanceAlerts: React.FC<AttendanceAlertsProps> = ({
         );
 
         if (currentDayData && previousDayData) {
-          const currentRevenue =
-            location === "Austin"
-              ? currentDayData.austin
-              : location === "Charlotte"
-              ? currentDayData.charlotte
-              : currentDayData.austin + currentDayData.charlotte;
-
-          const previousRevenue =
-            location === "Austin"
-              ? previousDayData.austin
-              : location === "Charlotte"
-              ? previousDayData.charlotte
-              : previousDayData.austin + previousDayData.charlotte;
+          const currentRevenue = getRevenueForLocation(
+            currentDayData,
+            location
+          );
+          const previousRevenue = getRevenueForLocation(
+            previousDayData,
+            location
+          );
 
           const dropPercentage =
             previousRevenue > 0
@@ -190,24 +175,14 @@ export const AttendanceAlerts: React.FC<AttendanceAlertsProps> = ({
             "custom"
           );
 
-          const currentDayAttainment =
-            location === "Austin"
-              ? dailyMetrics.austin.attainment
-              : location === "Charlotte"
-              ? dailyMetrics.charlotte.attainment
-              : dailyMetrics.total.attainment;
-
+          const currentDayAttainment = selectMetric(dailyMetrics).attainment;
           const previousDayAttainment =
-            location === "Austin"
-              ? previousDailyMetrics.austin.attainment
-              : location === "Charlotte"
-              ? previousDailyMetrics.charlotte.attainment
-              : previousDailyMetrics.total.attainment;
+            selectMetric(previousDailyMetrics).attainment;
 
           if (dropPercentage > 7) {
             dailyAlerts.push({
               date: currentDateStr,
-              location: location as "Austin" | "Charlotte" | "Combined",
+              location,
               currentRevenue,
               previousRevenue,
               dropPercentage,
@@ -220,7 +195,7 @@ export const AttendanceAlerts: React.FC<AttendanceAlertsProps> = ({
 
       if (changePercentage < -7 || dailyAlerts.length > 0) {
         comparisons.push({
-          location: location as "Austin" | "Charlotte" | "Combined",
+          location,
           currentWeekTotal: currentTotal,
           previousWeekTotal: previousTotal,
           changePercentage,
@@ -232,7 +207,7 @@ export const AttendanceAlerts: React.FC<AttendanceAlertsProps> = ({
     });
 
     return comparisons.sort((a, b) => a.changePercentage - b.changePercentage);
-  }, [revenueData, targetSettings]);
+  }, [revenueData, targetSettings, locations]);
 
   if (weeklyComparisons.length === 0) {
     return (
@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  List,
+  ListItemButton,
+  ListItemText,
+  Stack,
+} from "@mui/material";
+import {
+  Close as CloseIcon,
+  EventBusy as NonWorkingIcon,
+} from "@mui/icons-material";
+import { format, parseISO } from "date-fns";
+import { RevenueData, TargetSettings } from "../types/revenue";
+import { BackfillStep, withNonWorkingDay } from "../utils/backfill";
+import { isLocationWorkingDay } from "../utils/calculations";
+import { useLocations } from "../utils/locations";
+import { useAuth } from "../contexts/AuthContext";
+import { DailyEntryForm } from "./DailyEntryForm";
+import { LeadEntryForm } from "./LeadEntryForm";
+
+interface BackfillWizardProps {
+  open: boolean;
+  onClose: () => void;
+  steps: BackfillStep[]; // Missing dates when the wizard was opened
+  revenueData: RevenueData[];
+  leadDates: Map<string, Set<string>>; // Dates with a lead entry, by site
+  targetSettings: TargetSettings;
+  onRevenueSubmit: (
+    data: RevenueData,
+    baseSavedAt?: number | null,
+    reason?: string
+  ) => Promise<void>;
+  onTargetsChange: (settings: TargetSettings) => Promise<void>;
+}
+
+type StepStatus = "open" | "filled" | "nonWorking";
+
+const STATUS_CHIPS: Record<
+  StepStatus,
+  { label: string; color: "default" | "success" | "info" }
+> = {
+  open: { label: "Missing", color: "default" },
+  filled: { label: "Entered", color: "success" },
+  nonWorking: { label: "Non-working", color: "info" },
+};
+
+const stepKey = (step: BackfillStep) =>
+  step.kind === "revenue"
+    ? `revenue-${step.date}`
+    : `leads-${step.date}-${step.site}`;
+
+// Steps through missing revenue and lead dates with entry forms set to each
+// date, or marks a date as not worked so it stops counting as missing
+export const BackfillWizard: React.FC<BackfillWizardProps> = ({
+  open,
+  onClose,
+  steps,
+  revenueData,
+  leadDates,
+  targetSettings,
+  onRevenueSubmit,
+  onTargetsChange,
+}) => {
+  const locations = useLocations();
+  const { permissions } = useAuth();
+  const [index, setIndex] = useState(0);
+  const [marking, setMarking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) setIndex(0);
+  }, [open, steps]);
+
+  const revenueDates = new Set(
+    revenueData.filter((entry) => !entry.deletedAt).map((entry) => entry.date)
+  );
+
+  const getStatus = (step: BackfillStep): StepStatus => {
+    const day = parseISO(step.date);
+    if (step.kind === "revenue") {
+      if (revenueDates.has(step.date)) return "filled";
+      return locations.some((location) =>
+        isLocationWorkingDay(day, location.id, targetSettings)
+      )
+        ? "open"
+        : "nonWorking";
+    }
+    if (leadDates.get(step.site)?.has(step.date)) return "filled";
+    return isLocationWorkingDay(day, step.locationId, targetSettings)
+      ? "open"
+      : "nonWorking";
+  };
+
+  const statuses = steps.map(getStatus);
+  const remaining = statuses.filter((status) => status === "open").length;
+  const step = steps[index] as BackfillStep | undefined;
+  const status = step ? statuses[index] : undefined;
+
+  // The next missing date after the current one, wrapping around. The
+  // current step is passed over even when its data has not arrived yet.
+  const goToNextOpen = () => {
+    for (let offset = 1; offset < steps.length; offset++) {
+      const next = (index + offset) % steps.length;
+      if (statuses[next] === "open") {
+        setIndex(next);
+        return;
+      }
+    }
+  };
+
+  const locationName = (step: BackfillStep) =>
+    step.kind === "leads"
+      ? locations.find((location) => location.id === step.locationId)?.name ??
+        step.site
+      : "";
+
+  const describe = (step: BackfillStep) => {
+    const day = format(parseISO(step.date), "EEE, MMM d, yyyy");
+    return step.kind === "revenue"
+      ? `Revenue for ${day}`
+      : `${locationName(step)} leads for ${day}`;
+  };
+
+  const handleRevenueSubmit = async (
+    data: RevenueData,
+    baseSavedAt?: number | null,
+    reason?: string
+  ) => {
+    await onRevenueSubmit(data, baseSavedAt, reason);
+    goToNextOpen();
+  };
+
+  const handleMarkNonWorking = async () => {
+    if (!step) return;
+    const day = format(parseISO(step.date), "MMM d, yyyy");
+    const message =
+      step.kind === "revenue"
+        ? `Mark ${day} as a non-working day for every location? ` +
+          "It is taken out of the month's working days and targets."
+        : `Mark ${day} as a non-working day for ${locationName(step)}? ` +
+          "It is taken out of the location's working days and targets.";
+    if (!window.confirm(message)) return;
+
+    setMarking(true);
+    setError(null);
+    try {
+      await onTargetsChange(
+        withNonWorkingDay(
+          targetSettings,
+          step.date,
+          step.kind === "leads" ? step.locationId : undefined
+        )
+      );
+      goToNextOpen();
+    } catch (err) {
+      console.error("Error marking non-working day:", err);
+      setError("Failed to update the working days. Please try again.");
+    } finally {
+      setMarking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Box
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+          }}
+        >
+          <Typography variant="h6">Fix Missing Days</Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+      <Divider />
+      <DialogContent>
+        {steps.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No missing days.
+          </Typography>
+        ) : (
+          <Stack direction={{ xs: "column", md: "row" }} spacing={3}>
+            <Box sx={{ width: { md: 280 }, flexShrink: 0 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                {remaining === 0
+                  ? "All caught up"
+                  : `${remaining} of ${steps.length} still missing`}
+              </Typography>
+              <List dense sx={{ maxHeight: 480, overflow: "auto" }}>
+                {steps.map((item, itemIndex) => (
+                  <ListItemButton
+                    key={stepKey(item)}
+                    selected={itemIndex === index}
+                    onClick={() => setIndex(itemIndex)}
+                  >
+                    <ListItemText
+                      primary={format(parseISO(item.date), "EEE, MMM d")}
+                      secondary={
+                        item.kind === "revenue"
+                          ? "Revenue"
+                          : `Leads · ${locationName(item)}`
+                      }
+                    />
+                    <Chip
+                      label={STATUS_CHIPS[statuses[itemIndex]].label}
+                      color={STATUS_CHIPS[statuses[itemIndex]].color}
+                      size="small"
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            </Box>
+
+            {step && (
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Stack
+                  direction="row"
+                  alignItems="center"
+                  justifyContent="space-between"
+                  sx={{ mb: 2 }}
+                >
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                    {describe(step)}
+                  </Typography>
+                  {permissions.manageSettings && status === "open" && (
+                    <Button
+                      size="small"
+                      startIcon={<NonWorkingIcon />}
+                      onClick={handleMarkNonWorking}
+                      disabled={marking}
+                    >
+                      Mark Non-Working Day
+                    </Button>
+                  )}
+                </Stack>
+
+                {error && (
+                  <Alert severity="error" sx={{ mb: 2 }}>
+                    {error}
+                  </Alert>
+                )}
+
+                {status === "filled" ? (
+                  <Alert severity="success">This day has been entered.</Alert>
+                ) : status === "nonWorking" ? (
+                  <Alert severity="info">
+                    This day is no longer a working day, so nothing is
+                    expected for it.
+                  </Alert>
+                ) : step.kind === "revenue" ? (
+                  <DailyEntryForm
+                    key={stepKey(step)}
+                    defaultDate={step.date}
+                    onSubmit={handleRevenueSubmit}
+                    existingData={revenueData}
+                    targets={targetSettings}
+                  />
+                ) : (
+                  <LeadEntryForm
+                    key={stepKey(step)}
+                    defaultDate={parseISO(step.date)}
+                    defaultSite={step.site}
+                    onEntrySuccess={goToNextOpen}
+                  />
+                )}
+              </Box>
+            )}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setIndex(index - 1)} disabled={index === 0}>
+          Back
+        </Button>
+        <Button
+          onClick={() => setIndex(index + 1)}
+          disabled={index >= steps.length - 1}
+        >
+          Skip
+        </Button>
+        <Button onClick={onClose} variant="contained">
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
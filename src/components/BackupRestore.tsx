@@ -0,0 +1,361 @@
+import React, { useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Tooltip,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from "@mui/material";
+import {
+  Backup as BackupIcon,
+  Close as CloseIcon,
+  CloudDownload,
+  Restore as RestoreIcon,
+  UploadFile,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import { RestoreMode, RestorePlan } from "../types/backup";
+import { backupService } from "../services/backupService";
+import { BACKUP_SECTIONS } from "../utils/backup";
+
+const MODE_HELP: Record<RestoreMode, string> = {
+  merge:
+    "Adds what is missing and updates entries older than the backup's; " +
+    "nothing is removed",
+  replace:
+    "Makes the data match the backup; anything not in it is removed",
+};
+
+// Download everything as a versioned JSON backup, and restore one after
+// checking it and showing what the restore will change
+export const BackupRestore: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<"backup" | "plan" | "restore" | null>(
+    null
+  );
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [file, setFile] = useState<File | null>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [result, setResult] = useState<{
+    severity: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const handleClose = () => {
+    if (busy) return;
+    setOpen(false);
+    setFile(null);
+    setPlan(null);
+    setErrors([]);
+    setResult(null);
+  };
+
+  const handleBackup = async () => {
+    setBusy("backup");
+    setResult(null);
+    try {
+      backupService.downloadBackup(await backupService.createBackup());
+    } catch (err) {
+      console.error("Error creating backup:", err);
+      setResult({
+        severity: "error",
+        message: "Failed to read the data for the backup. Please try again.",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const loadPlan = async (selected: File, selectedMode: RestoreMode) => {
+    setBusy("plan");
+    setPlan(null);
+    setErrors([]);
+    setResult(null);
+    try {
+      const checked = await backupService.planRestore(selected, selectedMode);
+      setPlan(checked.plan);
+      setErrors(checked.errors);
+    } catch (err) {
+      console.error("Error checking backup:", err);
+      setErrors(["Failed to read the current data. Please try again."]);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+    setFile(selected);
+    loadPlan(selected, mode);
+  };
+
+  const handleModeChange = (value: RestoreMode) => {
+    setMode(value);
+    if (file) loadPlan(file, value);
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    if (
+      plan.mode === "replace" &&
+      !window.confirm(
+        "Replace all data with this backup? Entries, settings and imports " +
+          "that are not in it are removed. Download a backup first if you " +
+          "may need them."
+      )
+    ) {
+      return;
+    }
+    if (backupService.hasUnsyncedChanges()) {
+      setResult({
+        severity: "error",
+        message:
+          "Changes made on this device are waiting to sync. Restore once " +
+          "they have synced or been resolved.",
+      });
+      return;
+    }
+    setBusy("restore");
+    setResult(null);
+    try {
+      await backupService.restore(plan);
+      setResult({
+        severity: "success",
+        message: `Restored the backup from ${format(
+          plan.archive.createdAt,
+          "MMM d, yyyy h:mm a"
+        )}.`,
+      });
+      setPlan(null);
+      setFile(null);
+    } catch (err) {
+      console.error("Error restoring backup:", err);
+      setResult({
+        severity: "error",
+        message:
+          "The restore was rejected and nothing was changed. " +
+          "Please try again.",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Backup & Restore">
+        <IconButton
+          color="primary"
+          onClick={() => setOpen(true)}
+          data-testid="backup-button"
+        >
+          <BackupIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Backup & Restore</Typography>
+            <IconButton onClick={handleClose} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Stack spacing={3}>
+            {result && (
+              <Alert severity={result.severity}>{result.message}</Alert>
+            )}
+
+            <Box>
+              <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                Back Up
+              </Typography>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Downloads revenue, lead entries, targets and monthly
+                adjustments, locations, holidays, the agent roster, import
+                history and the change log as one JSON file. User accounts
+                are not included.
+              </Typography>
+              <Button
+                variant="contained"
+                startIcon={<CloudDownload />}
+                onClick={handleBackup}
+                disabled={busy !== null}
+              >
+                {busy === "backup" ? "Preparing..." : "Download Backup"}
+              </Button>
+            </Box>
+
+            <Divider />
+
+            <Box>
+              <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                Restore
+              </Typography>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                The backup is checked and the changes are listed before
+                anything is written. The change log stays as it is.
+              </Typography>
+              <input
+                type="file"
+                accept=".json,application/json"
+                style={{ display: "none" }}
+                ref={fileInputRef}
+                onChange={handleFileSelect}
+              />
+              <Stack
+                direction={{ xs: "column", sm: "row" }}
+                spacing={2}
+                alignItems={{ sm: "flex-start" }}
+              >
+                <TextField
+                  select
+                  size="small"
+                  label="Mode"
+                  value={mode}
+                  onChange={(e) =>
+                    handleModeChange(e.target.value as RestoreMode)
+                  }
+                  helperText={MODE_HELP[mode]}
+                  disabled={busy !== null}
+                  sx={{ minWidth: 260, maxWidth: { sm: 360 } }}
+                >
+                  <MenuItem value="merge">Merge into current data</MenuItem>
+                  <MenuItem value="replace">Replace current data</MenuItem>
+                </TextField>
+                <Button
+                  variant="outlined"
+                  startIcon={<UploadFile />}
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={busy !== null}
+                >
+                  {busy === "plan"
+                    ? "Checking..."
+                    : file
+                    ? "Choose Another File"
+                    : "Choose Backup File"}
+                </Button>
+              </Stack>
+            </Box>
+
+            {errors.length > 0 && (
+              <Alert severity="error">
+                {file?.name} cannot be restored:
+                <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </Box>
+              </Alert>
+            )}
+
+            {plan && (
+              <Box>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  Backup of {plan.archive.source} data made by{" "}
+                  {plan.archive.createdBy || "Unknown"} on{" "}
+                  {format(plan.archive.createdAt, "MMM d, yyyy h:mm a")}{" "}
+                  (format version {plan.archive.schemaVersion}).
+                </Typography>
+                {plan.warnings.map((warning) => (
+                  <Alert key={warning} severity="warning" sx={{ mb: 1 }}>
+                    {warning}
+                  </Alert>
+                ))}
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Data</TableCell>
+                        <TableCell align="right">Added</TableCell>
+                        <TableCell align="right">Updated</TableCell>
+                        <TableCell align="right">Removed</TableCell>
+                        <TableCell align="right">Unchanged</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {BACKUP_SECTIONS.map(({ section, label }) => {
+                        const summary = plan.summary[section];
+                        return (
+                          <TableRow key={section}>
+                            <TableCell>{label}</TableCell>
+                            <TableCell align="right">
+                              {summary.added}
+                            </TableCell>
+                            <TableCell align="right">
+                              {summary.updated}
+                            </TableCell>
+                            <TableCell
+                              align="right"
+                              sx={{
+                                color:
+                                  summary.removed > 0
+                                    ? "error.main"
+                                    : undefined,
+                              }}
+                            >
+                              {summary.removed}
+                            </TableCell>
+                            <TableCell align="right">{summary.kept}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose} disabled={busy !== null}>
+            Close
+          </Button>
+          {plan && (
+            <Button
+              variant="contained"
+              color={plan.mode === "replace" ? "error" : "primary"}
+              startIcon={<RestoreIcon />}
+              onClick={handleRestore}
+              disabled={busy !== null}
+            >
+              {busy === "restore"
+                ? "Restoring..."
+                : plan.mode === "replace"
+                ? "Replace Data"
+                : "Merge Backup"}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,506 @@
+import React, { useMemo, useState } from "react";
+import {
+  Alert,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Tooltip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import {
+  GridOn as GridIcon,
+  Close as CloseIcon,
+  Save as SaveIcon,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import { RevenueData, TargetSettings } from "../types/revenue";
+import { revenueService } from "../services/revenueService";
+import { OutboxStatus } from "../services/outbox";
+import {
+  getTargetForDate,
+  getWorkingDaysInMonth,
+} from "../utils/calculations";
+import { formatCurrency, toDateKey } from "../utils/formatters";
+import { useLocations } from "../utils/locations";
+import { formatDateKey, getBusinessNow, parseDateKey } from "../utils/dates";
+import { parseRevenueAmount } from "../utils/revenueImport";
+
+interface BulkRevenueEntryProps {
+  existingData: RevenueData[];
+  targetSettings?: TargetSettings;
+}
+
+type SaveResult = OutboxStatus | "failed";
+
+const RESULT_CHIPS: Record<
+  SaveResult,
+  { label: string; color: "success" | "info" | "warning" | "error" }
+> = {
+  synced: { label: "Saved", color: "success" },
+  pending: { label: "Saved on device", color: "info" },
+  conflict: { label: "Conflict", color: "warning" },
+  failed: { label: "Failed", color: "error" },
+};
+
+// Same bands as the daily entry form
+const attainmentColor = (attainment: number) =>
+  attainment < 75
+    ? "warning.main"
+    : attainment > 125
+    ? "info.main"
+    : "success.main";
+
+// Edited cells as typed, by date then location id
+type CellEdits = Record<string, Record<string, string>>;
+
+// A month of revenue in a grid: one row per working day and one column per
+// location. Cells can be pasted from Excel or Google Sheets, and every
+// changed row is saved in one go.
+export const BulkRevenueEntry: React.FC<BulkRevenueEntryProps> = ({
+  existingData,
+  targetSettings,
+}) => {
+  const locations = useLocations();
+  const [open, setOpen] = useState(false);
+  const [month, setMonth] = useState(() => format(getBusinessNow(), "yyyy-MM"));
+  const [edits, setEdits] = useState<CellEdits>({});
+  const [results, setResults] = useState<Record<string, SaveResult>>({});
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<{
+    severity: "success" | "warning" | "info";
+    message: string;
+  } | null>(null);
+
+  const [year, monthIndex] = month.split("-").map(Number);
+  const dates = useMemo(
+    () =>
+      year && monthIndex
+        ? getWorkingDaysInMonth(year, monthIndex - 1, targetSettings).map(
+            (day) => formatDateKey(new Date(year, monthIndex - 1, day))
+          )
+        : [],
+    [year, monthIndex, targetSettings]
+  );
+
+  const existingByDate = useMemo(() => {
+    const byDate = new Map<string, RevenueData>();
+    existingData.forEach((entry) => {
+      const date = toDateKey(entry.date);
+      if (date) byDate.set(date, entry);
+    });
+    return byDate;
+  }, [existingData]);
+
+  const cellValue = (date: string, locationId: string) => {
+    const edited = edits[date]?.[locationId];
+    if (edited !== undefined) return edited;
+    const existing = existingByDate.get(date);
+    return existing ? String(existing.revenue[locationId] ?? 0) : "";
+  };
+
+  // Parsed values of a row; null where a cell is not an amount
+  const parseRow = (date: string) =>
+    Object.fromEntries(
+      locations.map((location) => [
+        location.id,
+        parseRevenueAmount(cellValue(date, location.id)),
+      ])
+    );
+
+  const isChanged = (date: string) => {
+    if (!edits[date]) return false;
+    const values = parseRow(date);
+    const existing = existingByDate.get(date);
+    if (!existing) {
+      return locations.some(
+        (location) => cellValue(date, location.id).trim() !== ""
+      );
+    }
+    return locations.some(
+      (location) =>
+        values[location.id] !== (existing.revenue[location.id] ?? 0)
+    );
+  };
+
+  const hasInvalidCell = (date: string) =>
+    Object.values(parseRow(date)).some((value) => value === null);
+
+  const changedDates = dates.filter(isChanged);
+  const invalidDates = changedDates.filter(hasInvalidCell);
+
+  const handleOpen = () => {
+    setEdits({});
+    setResults({});
+    setNotice(null);
+    setOpen(true);
+  };
+
+  const handleMonthChange = (value: string) => {
+    setMonth(value);
+    setEdits({});
+    setResults({});
+    setNotice(null);
+  };
+
+  const handleCellChange = (
+    date: string,
+    locationId: string,
+    value: string
+  ) => {
+    setEdits((prev) => ({
+      ...prev,
+      [date]: { ...prev[date], [locationId]: value },
+    }));
+  };
+
+  // Tab-separated text (as copied from a spreadsheet) fills the grid from
+  // the cell pasted into, going right across locations and down the days
+  const handlePaste = (
+    event: React.ClipboardEvent,
+    rowIndex: number,
+    columnIndex: number
+  ) => {
+    const text = event.clipboardData.getData("text/plain");
+    if (!/[\t\n]/.test(text)) return;
+    event.preventDefault();
+
+    const lines = text.replace(/\r/g, "").split("\n");
+    if (lines[lines.length - 1] === "") lines.pop();
+    const next: CellEdits = { ...edits };
+    let dropped = 0;
+    lines.forEach((line, lineIndex) => {
+      const date = dates[rowIndex + lineIndex];
+      if (!date) {
+        dropped++;
+        return;
+      }
+      line.split("\t").forEach((value, valueIndex) => {
+        const location = locations[columnIndex + valueIndex];
+        if (!location) return;
+        next[date] = { ...next[date], [location.id]: value.trim() };
+      });
+    });
+    setEdits(next);
+    setNotice(
+      dropped > 0
+        ? {
+            severity: "info",
+            message:
+              `${dropped} pasted rows went past the last working day ` +
+              "and were left out.",
+          }
+        : null
+    );
+  };
+
+  const handleSave = async () => {
+    const rows = changedDates
+      .filter((date) => !hasInvalidCell(date))
+      .map((date) => {
+        const values = parseRow(date);
+        const existing = existingByDate.get(date);
+        return {
+          entry: {
+            date,
+            revenue: Object.fromEntries(
+              locations.map((location) => [
+                location.id,
+                values[location.id] ?? 0,
+              ])
+            ),
+          },
+          baseSavedAt: existing ? existing.savedAt ?? 0 : null,
+        };
+      });
+    if (rows.length === 0) return;
+
+    setSaving(true);
+    setNotice(null);
+    try {
+      const saved = await revenueService.saveRevenueEntries(rows, "Bulk entry");
+      setResults(saved);
+      // Keep the edits of failed rows so they can be saved again
+      setEdits((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([date]) => saved[date] === "failed")
+        )
+      );
+
+      const count = (result: SaveResult) =>
+        Object.values(saved).filter((value) => value === result).length;
+      const parts = [`Saved ${count("synced")} days`];
+      if (count("pending") > 0) {
+        parts.push(
+          `${count("pending")} will sync when the server is reachable`
+        );
+      }
+      if (count("conflict") > 0) {
+        parts.push(
+          `${count("conflict")} were changed elsewhere; ` +
+            "resolve them from the sync status"
+        );
+      }
+      if (count("failed") > 0) parts.push(`${count("failed")} failed`);
+      setNotice({
+        severity:
+          count("conflict") + count("failed") > 0 ? "warning" : "success",
+        message: `${parts.join(", ")}.`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Totals of the month as shown in the grid, against the targets of the
+  // working days
+  const totals = locations.map((location) =>
+    dates.reduce(
+      (sum, date) => {
+        const value = parseRevenueAmount(cellValue(date, location.id));
+        const target =
+          getTargetForDate(parseDateKey(date), targetSettings)[
+            location.id
+          ] ?? 0;
+        return {
+          revenue: sum.revenue + (value ?? 0),
+          target: sum.target + target,
+        };
+      },
+      { revenue: 0, target: 0 }
+    )
+  );
+
+  return (
+    <>
+      <Tooltip title="Bulk Entry">
+        <IconButton
+          color="primary"
+          onClick={handleOpen}
+          data-testid="bulk-entry-button"
+        >
+          <GridIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog
+        open={open}
+        onClose={() => !saving && setOpen(false)}
+        maxWidth="lg"
+        fullWidth
+      >
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Bulk Revenue Entry</Typography>
+            <IconButton onClick={() => setOpen(false)} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Stack spacing={2}>
+            <Stack
+              direction={{ xs: "column", sm: "row" }}
+              spacing={2}
+              alignItems={{ sm: "center" }}
+            >
+              <TextField
+                label="Month"
+                type="month"
+                size="small"
+                value={month}
+                onChange={(e) => handleMonthChange(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                disabled={saving}
+              />
+              <Typography variant="body2" color="text.secondary">
+                One row per working day of the month. Paste cells copied from
+                Excel or Google Sheets into the first cell to fill the grid.
+              </Typography>
+            </Stack>
+
+            {notice && (
+              <Alert severity={notice.severity}>{notice.message}</Alert>
+            )}
+            {invalidDates.length > 0 && (
+              <Alert severity="error">
+                Fix the highlighted cells on {invalidDates.join(", ")}; those
+                days are not saved until every cell is an amount.
+              </Alert>
+            )}
+
+            {dates.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No working days in this month.
+              </Typography>
+            ) : (
+              <TableContainer
+                component={Paper}
+                variant="outlined"
+                sx={{ maxHeight: 520 }}
+              >
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      {locations.map((location) => (
+                        <TableCell key={location.id}>{location.name}</TableCell>
+                      ))}
+                      <TableCell>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {dates.map((date, rowIndex) => {
+                      const day = parseDateKey(date);
+                      const targets = getTargetForDate(day, targetSettings);
+                      const changed = isChanged(date);
+                      const result = results[date];
+                      return (
+                        <TableRow key={date} selected={changed}>
+                          <TableCell sx={{ whiteSpace: "nowrap" }}>
+                            {format(day, "EEE, MMM d")}
+                          </TableCell>
+                          {locations.map((location, columnIndex) => {
+                            const value = cellValue(date, location.id);
+                            const amount = parseRevenueAmount(value);
+                            const target = targets[location.id] ?? 0;
+                            const attainment =
+                              amount !== null &&
+                              value.trim() !== "" &&
+                              target > 0
+                                ? (amount / target) * 100
+                                : null;
+                            return (
+                              <TableCell key={location.id}>
+                                <TextField
+                                  size="small"
+                                  variant="standard"
+                                  value={value}
+                                  onChange={(e) =>
+                                    handleCellChange(
+                                      date,
+                                      location.id,
+                                      e.target.value
+                                    )
+                                  }
+                                  onPaste={(e) =>
+                                    handlePaste(e, rowIndex, columnIndex)
+                                  }
+                                  error={amount === null}
+                                  disabled={saving}
+                                  inputProps={{
+                                    inputMode: "decimal",
+                                    "aria-label":
+                                      `${location.name} revenue on ${date}`,
+                                  }}
+                                  sx={{ width: 120 }}
+                                />
+                                <Typography
+                                  variant="caption"
+                                  component="div"
+                                  color={
+                                    attainment === null
+                                      ? "text.secondary"
+                                      : attainmentColor(attainment)
+                                  }
+                                >
+                                  {target === 0
+                                    ? "No target"
+                                    : attainment === null
+                                    ? `Target ${formatCurrency(target)}`
+                                    : `${attainment.toFixed(1)}% of target`}
+                                </Typography>
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell>
+                            {changed ? (
+                              <Chip
+                                label={
+                                  existingByDate.has(date) ? "Changed" : "New"
+                                }
+                                size="small"
+                                color="primary"
+                                variant="outlined"
+                              />
+                            ) : result ? (
+                              <Chip
+                                label={RESULT_CHIPS[result].label}
+                                size="small"
+                                color={RESULT_CHIPS[result].color}
+                              />
+                            ) : null}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 600 }}>Month</TableCell>
+                      {locations.map((location, index) => (
+                        <TableCell key={location.id} sx={{ fontWeight: 600 }}>
+                          {formatCurrency(totals[index].revenue)}
+                          <Typography
+                            variant="caption"
+                            component="div"
+                            color="text.secondary"
+                          >
+                            {totals[index].target > 0
+                              ? `${(
+                                  (totals[index].revenue /
+                                    totals[index].target) *
+                                  100
+                                ).toFixed(1)}% of ${formatCurrency(
+                                  totals[index].target
+                                )}`
+                              : "No target"}
+                          </Typography>
+                        </TableCell>
+                      ))}
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)} disabled={saving}>
+            Close
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={saving || changedDates.length === invalidDates.length}
+          >
+            {saving
+              ? "Saving..."
+              : `Save ${changedDates.length - invalidDates.length} Days`}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -77,32 +77,40 @@ export const CalculationExplanation: React.FC<CalculationExplanationProps> = ({
         return {
           title: "Month-End Projection",
           formula:
-            "Projection = Current Revenue + (Weighted Daily Average × Trend Multiplier × Remaining Days)",
+            "Projection = Current Revenue + Σ Forecast Revenue (Remaining Working Days)",
           variables: details?.variables || {},
           methodology: `
-            This projection uses a weighted moving average with trend analysis:
+            Each location's daily revenue is forecast with a seasonal
+            exponential smoothing model (damped Holt-Winters):
             
-            1. Weighted Daily Average:
-               • 70% weight on last 5 business days (recent performance)
-               • 30% weight on full month history (baseline performance)
+            1. Day-of-Week Seasonality:
+               • Tracks how each weekday runs above or below the level
+               • Updated with every day entered
                
-            2. Trend Multiplier:
-               • Calculated from 10-day performance velocity
-               • Capped at ±10% to prevent unrealistic projections
-               • Formula: 1 + (capped_trend_velocity / 100)
+            2. Month-of-Year Seasonality:
+               • Learned once a year of history is available
+               • Each month's factor is kept between 0.5× and 1.5×
                
-            3. Remaining Business Days:
-               • Calculated based on your working day configuration
-               • Excludes weekends and any custom non-working days
+            3. Level and Damped Trend:
+               • Smoothing weights are chosen to best predict each past day
+               • The trend fades over the forecast so it cannot run away
+               
+            4. Remaining Working Days:
+               • Only days the location works are forecast
+               • Excludes weekends, holidays and custom non-working days
+               
+            The 80% prediction interval comes from the model's past
+            one-day-ahead errors, carried forward over the remaining days.
           `,
           interpretation: `
-            The projection becomes more accurate as the month progresses.
-            Early in the month, rely more on historical patterns.
-            Late in the month, the projection is highly reliable.
+            The month-end total should fall within the interval about four
+            months in five. The interval narrows as the month progresses
+            and fewer days are left to forecast.
           `,
           scientificBasis: `
-            Uses exponentially weighted moving average (EWMA) principles and 
-            time-series forecasting with trend dampening to prevent overfitting.
+            Holt-Winters exponential smoothing in its state space (ETS) form,
+            with prediction intervals from the model's forecast variance.
+            Locations are combined assuming independent forecast errors.
           `,
         };
 
@@ -110,24 +118,19 @@ export const CalculationExplanation: React.FC<CalculationExplanationProps> = ({
         return {
           title: "Confidence Score",
           formula:
-            "Confidence = Base Score - Days Penalty + Stability Bonus + Accuracy Bonus",
+            "Confidence = 100 - 2 × (Interval Half-Width / Projection × 100)",
           variables: details?.variables || {},
           methodology: `
-            Confidence is calculated using three key factors:
+            Confidence follows the width of the month-end projection's 80%
+            prediction interval:
             
-            1. Base Confidence (100%):
-               • Reduced by up to 30% based on days remaining
-               • Formula: 100 - (remaining_days / total_days × 30)
-               
-            2. Performance Stability (0-30% bonus):
-               • Measures day-to-day consistency
-               • Low variance = higher confidence
-               • Based on coefficient of variation
+            1. Interval Half-Width:
+               • Half the distance between the low and high projections
+               • Wider when daily revenue is erratic or many days remain
                
-            3. Historical Accuracy (0-40% bonus):
-               • Tracks how accurate past projections were
-               • Self-learning system that improves over time
-               • Based on mean absolute percentage error (MAPE)
+            2. Relative Width:
+               • Half-width as a percentage of the projected total
+               • Each 1% costs two points of confidence
                
             Final score is capped between 30% and 95% for realism.
           `,
@@ -137,8 +140,9 @@ export const CalculationExplanation: React.FC<CalculationExplanationProps> = ({
             • 30-60%: Low confidence - high uncertainty
           `,
           scientificBasis: `
-            Based on statistical confidence intervals and prediction interval theory.
-            Incorporates machine learning concepts of model confidence scoring.
+            Based on statistical prediction interval theory: the interval
+            accounts for both day-to-day noise and uncertainty in the level,
+            trend and seasonal pattern over the remaining days.
           `,
         };
 
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Divider,
+  Drawer,
+  IconButton,
+  List,
+  ListItem,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { Close as CloseIcon, Undo as UndoIcon } from "@mui/icons-material";
+import { format } from "date-fns";
+import {
+  AuditEntry,
+  AuditSubject,
+  AuditValue,
+  auditService,
+} from "../services/auditService";
+
+interface ChangeHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  subject: AuditSubject;
+  // One-line summary of a stored value
+  describe: (value: AuditValue) => string;
+  onRevert: (entry: AuditEntry) => Promise<void>;
+  canRevert?: boolean;
+}
+
+export const ChangeHistoryDrawer: React.FC<ChangeHistoryDrawerProps> = ({
+  open,
+  onClose,
+  title,
+  subject,
+  describe,
+  onRevert,
+  canRevert = true,
+}) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    return auditService.subscribeToHistory(subject, setEntries);
+  }, [open, subject]);
+
+  const handleRevert = async (entry: AuditEntry) => {
+    setReverting(entry.id);
+    try {
+      await onRevert(entry);
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: { xs: "100vw", sm: 420 }, p: 3 }}>
+        <Box
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            mb: 2,
+          }}
+        >
+          <Typography variant="h6">{title}</Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+        <Divider />
+
+        {entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            No changes recorded for this entry.
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {entries.map((entry, index) => (
+              <ListItem
+                key={entry.id}
+                divider={index < entries.length - 1}
+                sx={{ display: "block", px: 0, py: 2 }}
+              >
+                <Stack
+                  direction="row"
+                  justifyContent="space-between"
+                  alignItems="flex-start"
+                  spacing={2}
+                >
+                  <Box>
+                    <Typography variant="subtitle2">
+                      {format(new Date(entry.changedAt), "MMM d, yyyy h:mm a")}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {entry.editor}
+                      {entry.reason ? ` — ${entry.reason}` : ""}
+                    </Typography>
+                  </Box>
+                  <Button
+                    size="small"
+                    startIcon={<UndoIcon />}
+                    onClick={() => handleRevert(entry)}
+                    disabled={
+                      !canRevert || !entry.previous || reverting !== null
+                    }
+                    title={
+                      entry.previous
+                        ? "Restore the values this change replaced"
+                        : "This change created the entry"
+                    }
+                  >
+                    Revert
+                  </Button>
+                </Stack>
+                <Typography variant="caption" component="div" sx={{ mt: 1 }}>
+                  Before: {entry.previous ? describe(entry.previous) : "—"}
+                </Typography>
+                <Typography variant="caption" component="div">
+                  After: {entry.next ? describe(entry.next) : "—"}
+                </Typography>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
@@ -46,12 +46,17 @@ import {
 } from "recharts";
 import { format, parseISO, subDays, startOfMonth, endOfMonth, startOfWeek, endOfWeek } from "date-fns";
 import { leadService, LeadEntryStored, SiteKey } from "../services/leadService";
-import { RevenueData } from "../types/revenue";
-import {
-  filterDataByTimeFrame,
-  calculateLocationMetrics,
-} from "../utils/calculations";
+import { LocationId, RevenueData } from "../types/revenue";
+import { getDailyTargetsOn } from "../utils/calculations";
 import { formatCurrency } from "../utils/formatters";
+import { getNow } from "../utils/asOf";
+import { parseDateKey } from "../utils/dates";
+import {
+  getLocationRevenue,
+  getTotalRevenue,
+  sumLocationValues,
+  useLocations,
+} from "../utils/locations";
 
 interface CombinedInsightsProps {
   revenueData: RevenueData[];
@@ -60,11 +65,9 @@ interface CombinedInsightsProps {
 
 interface DailyMetrics {
   date: string;
-  leadAttainmentATX: number;
-  leadAttainmentCLT: number;
+  leadAttainment: Record<LocationId, number>;
   leadAttainmentCombined: number;
-  salesAttainmentATX: number;
-  salesAttainmentCLT: number;
+  salesAttainment: Record<LocationId, number>;
   salesAttainmentCombined: number;
   totalLeads: number;
   totalRevenue: number;
@@ -77,6 +80,7 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
   targetSettings,
 }) => {
   const [loading, setLoading] = useState(true);
+  const locations = useLocations();
   const [isChangingDates, setIsChangingDates] = useState(false);
   const [hasQueriedData, setHasQueriedData] = useState(false);
   const [leadData, setLeadData] = useState<
@@ -89,7 +93,7 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
 
   // Calculate date range based on preset
   const getDateRange = () => {
-    const today = new Date();
+    const today = getNow();
     let start: Date;
     let end: Date = today;
 
@@ -108,8 +112,8 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
         end = endOfMonth(start);
         break;
       case "custom":
-        start = customStartDate ? new Date(customStartDate) : subDays(today, 29);
-        end = customEndDate ? new Date(customEndDate) : today;
+        start = customStartDate ? parseDateKey(customStartDate) : subDays(today, 29);
+        end = customEndDate ? parseDateKey(customEndDate) : today;
         break;
       default:
         start = startOfMonth(today);
@@ -126,7 +130,7 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
   // Initialize custom dates when switching to custom preset
   useEffect(() => {
     if (preset === "custom" && !customStartDate && !customEndDate) {
-      const today = new Date();
+      const today = getNow();
       const thirtyDaysAgo = subDays(today, 29);
       setCustomStartDate(format(thirtyDaysAgo, "yyyy-MM-dd"));
       setCustomEndDate(format(today, "yyyy-MM-dd"));
@@ -181,42 +185,52 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
       const revenueEntry = filteredRevenue.find((r) => r.date === date);
 
       if (revenueEntry) {
-        const atxLead = leadEntry.ATX;
-        const cltLead = leadEntry.CLT;
+        const siteLeads = locations.map(
+          (location) => leadEntry?.[location.leadSiteKey] ?? null
+        );
 
-        // Calculate daily sales targets
-        const dailyAustinTarget = targetSettings.dailyTargets.austin;
-        const dailyCharlotteTarget = targetSettings.dailyTargets.charlotte;
-        const dailyCombinedTarget = dailyAustinTarget + dailyCharlotteTarget;
+        // Calculate daily sales targets from the targets in force that day
+        const dailyTargets = getDailyTargetsOn(targetSettings, parseISO(date));
+        const dailyCombinedTarget = sumLocationValues(dailyTargets, locations);
 
         // Calculate daily sales attainment (not MTD)
-        const salesAttainmentATX = dailyAustinTarget > 0 
-          ? (revenueEntry.austin / dailyAustinTarget) * 100 
-          : 0;
-        const salesAttainmentCLT = dailyCharlotteTarget > 0 
-          ? (revenueEntry.charlotte / dailyCharlotteTarget) * 100 
-          : 0;
+        const salesAttainment: Record<LocationId, number> = {};
+        const leadAttainment: Record<LocationId, number> = {};
+        locations.forEach((location, index) => {
+          const dailyTarget = dailyTargets?.[location.id] || 0;
+          salesAttainment[location.id] = dailyTarget > 0
+            ? (getLocationRevenue(revenueEntry, location.id) / dailyTarget) * 100
+            : 0;
+          const lead = siteLeads[index];
+          leadAttainment[location.id] = lead ? lead.derived.attainmentPct * 100 : 0;
+        });
+        const totalRevenue = getTotalRevenue(revenueEntry, locations);
         const salesAttainmentCombined = dailyCombinedTarget > 0
-          ? ((revenueEntry.austin + revenueEntry.charlotte) / dailyCombinedTarget) * 100
+          ? (totalRevenue / dailyCombinedTarget) * 100
           : 0;
 
+        // Combined lead attainment is only meaningful once every site reported
+        const allSitesReported = siteLeads.every((lead) => lead !== null);
+        const totalTargetLeads = siteLeads.reduce(
+          (sum, lead) => sum + (lead?.derived.targetLeads || 0),
+          0
+        );
+        const totalLeads = siteLeads.reduce(
+          (sum, lead) => sum + (lead?.totalBillableLeads || 0),
+          0
+        );
+
         metrics.push({
           date,
-          leadAttainmentATX: atxLead ? atxLead.derived.attainmentPct * 100 : 0,
-          leadAttainmentCLT: cltLead ? cltLead.derived.attainmentPct * 100 : 0,
+          leadAttainment,
           leadAttainmentCombined:
-            atxLead && cltLead
-              ? ((atxLead.totalBillableLeads + cltLead.totalBillableLeads) /
-                  (atxLead.derived.targetLeads + cltLead.derived.targetLeads)) *
-                100
+            allSitesReported && totalTargetLeads > 0
+              ? (totalLeads / totalTargetLeads) * 100
               : 0,
-          salesAttainmentATX,
-          salesAttainmentCLT,
+          salesAttainment,
           salesAttainmentCombined,
-          totalLeads:
-            (atxLead?.totalBillableLeads || 0) +
-            (cltLead?.totalBillableLeads || 0),
-          totalRevenue: revenueEntry.austin + revenueEntry.charlotte,
+          totalLeads,
+          totalRevenue,
         });
       }
     });
@@ -224,7 +238,7 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
     // Sort by date
     metrics.sort((a, b) => a.date.localeCompare(b.date));
     setCombinedMetrics(metrics);
-  }, [leadData, revenueData, targetSettings, dateRange.start, dateRange.end]);
+  }, [leadData, revenueData, targetSettings, dateRange.start, dateRange.end, locations]);
 
   // Show loading spinner only on initial load or when actively changing dates
   if ((loading && !hasQueriedData) || !targetSettings) {
@@ -242,7 +256,7 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
 
   // Show different messages based on the state
   if (!hasData && !isChangingDates) {
-    const dateRangeText = `${format(new Date(dateRange.start), "MMM d, yyyy")} to ${format(new Date(dateRange.end), "MMM d, yyyy")}`;
+    const dateRangeText = `${format(parseDateKey(dateRange.start), "MMM d, yyyy")} to ${format(parseDateKey(dateRange.end), "MMM d, yyyy")}`;
     
     return (
       <Box sx={{ width: "100%", minWidth: 0, maxWidth: "100%", overflow: "visible" }}>
@@ -529,7 +543,7 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
 
         {/* Date range info */}
         <Typography variant="body2" color="text.secondary" sx={{ mt: -2 }}>
-          Showing data from {format(new Date(dateRange.start), "MMM d, yyyy")} to {format(new Date(dateRange.end), "MMM d, yyyy")}
+          Showing data from {format(parseDateKey(dateRange.start), "MMM d, yyyy")} to {format(parseDateKey(dateRange.end), "MMM d, yyyy")}
         </Typography>
 
               {/* Summary Cards */}
@@ -1114,105 +1128,57 @@ export const CombinedInsights: React.FC<CombinedInsightsProps> = ({
 
         {/* Site Comparison */}
         <Grid container spacing={3}>
-          <Grid item xs={12} lg={6}>
-            <Paper
-              elevation={0}
-              sx={{
-                p: 3,
-                border: "1px solid",
-                borderColor: "divider",
-                borderRadius: 2,
-                height: "100%",
-              }}
-            >
-              <Typography variant="h6" sx={{ mb: 3, fontWeight: 600 }}>
-                Austin Performance
-              </Typography>
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={combinedMetrics} margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis
-                    dataKey="date"
-                    tickFormatter={(value) => format(parseISO(value), "MMM d")}
-                  />
-                  <YAxis 
-                    domain={[0, (dataMax) => Math.max(150, Math.ceil(dataMax / 20) * 20)]}
-                    ticks={[0, 25, 50, 75, 100, 125, 150]}
-                    tickFormatter={(value) => `${value}%`}
-                  />
-                  <Tooltip
-                    formatter={(value: number) => `${value.toFixed(1)}%`}
-                    labelFormatter={(label) => format(parseISO(label), "MMM d, yyyy")}
-                    contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.95)', border: '1px solid #e5e7eb' }}
-                  />
-                  <Legend />
-                  <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="5 5" label="Target" />
-                  <Bar
-                    dataKey="leadAttainmentATX"
-                    fill="#3b82f6"
-                    name="Lead %"
-                    radius={[4, 4, 0, 0]}
-                  />
-                  <Bar
-                    dataKey="salesAttainmentATX"
-                    fill="#10b981"
-                    name="Sales %"
-                    radius={[4, 4, 0, 0]}
-                  />
-                </BarChart>
-              </ResponsiveContainer>
-            </Paper>
-          </Grid>
-
-          <Grid item xs={12} lg={6}>
-            <Paper
-              elevation={0}
-              sx={{
-                p: 3,
-                border: "1px solid",
-                borderColor: "divider",
-                borderRadius: 2,
-                height: "100%",
-              }}
-            >
-              <Typography variant="h6" sx={{ mb: 3, fontWeight: 600 }}>
-                Charlotte Performance
-              </Typography>
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={combinedMetrics} margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis
-                    dataKey="date"
-                    tickFormatter={(value) => format(parseISO(value), "MMM d")}
-                  />
-                  <YAxis 
-                    domain={[0, (dataMax) => Math.max(150, Math.ceil(dataMax / 20) * 20)]}
-                    ticks={[0, 25, 50, 75, 100, 125, 150]}
-                    tickFormatter={(value) => `${value}%`}
-                  />
-                  <Tooltip
-                    formatter={(value: number) => `${value.toFixed(1)}%`}
-                    labelFormatter={(label) => format(parseISO(label), "MMM d, yyyy")}
-                    contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.95)', border: '1px solid #e5e7eb' }}
-                  />
-                  <Legend />
-                  <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="5 5" label="Target" />
-                  <Bar
-                    dataKey="leadAttainmentCLT"
-                    fill="#3b82f6"
-                    name="Lead %"
-                    radius={[4, 4, 0, 0]}
-                  />
-                  <Bar
-                    dataKey="salesAttainmentCLT"
-                    fill="#10b981"
-                    name="Sales %"
-                    radius={[4, 4, 0, 0]}
-                  />
-                </BarChart>
-              </ResponsiveContainer>
-            </Paper>
-          </Grid>
+          {locations.map((location) => (
+            <Grid item xs={12} lg={6} key={location.id}>
+              <Paper
+                elevation={0}
+                sx={{
+                  p: 3,
+                  border: "1px solid",
+                  borderColor: "divider",
+                  borderRadius: 2,
+                  height: "100%",
+                }}
+              >
+                <Typography variant="h6" sx={{ mb: 3, fontWeight: 600 }}>
+                  {location.name} Performance
+                </Typography>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={combinedMetrics} margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={(value) => format(parseISO(value), "MMM d")}
+                    />
+                    <YAxis 
+                      domain={[0, (dataMax) => Math.max(150, Math.ceil(dataMax / 20) * 20)]}
+                      ticks={[0, 25, 50, 75, 100, 125, 150]}
+                      tickFormatter={(value) => `${value}%`}
+                    />
+                    <Tooltip
+                      formatter={(value: number) => `${value.toFixed(1)}%`}
+                      labelFormatter={(label) => format(parseISO(label), "MMM d, yyyy")}
+                      contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.95)', border: '1px solid #e5e7eb' }}
+                    />
+                    <Legend />
+                    <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="5 5" label="Target" />
+                    <Bar
+                      dataKey={`leadAttainment.${location.id}`}
+                      fill="#3b82f6"
+                      name="Lead %"
+                      radius={[4, 4, 0, 0]}
+                    />
+                    <Bar
+                      dataKey={`salesAttainment.${location.id}`}
+                      fill="#10b981"
+                      name="Sales %"
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </Paper>
+            </Grid>
+          ))}
         </Grid>
       </Stack>
     </Box>
@@ -26,44 +26,79 @@ import {
   CheckCircle as CheckCircleIcon,
   Error as ErrorIcon,
   Save as SaveIcon,
+  History as HistoryIcon,
+  Delete as DeleteIcon,
 } from "@mui/icons-material";
 import { RevenueData, TargetSettings } from "../types/revenue";
 import { isBusinessDay, getTargetForDate } from "../utils/calculations";
-import { parseISO, format } from "date-fns";
+import {
+  createLocationValues,
+  getLocationRevenue,
+  useLocations,
+} from "../utils/locations";
+import { format } from "date-fns";
+import { getBusinessDate, parseDateKey } from "../utils/dates";
+import { ChangeHistoryDrawer } from "./ChangeHistoryDrawer";
+import { revenueService } from "../services/revenueService";
+import {
+  AuditEntry,
+  AuditValue,
+  auditService,
+  revenueSubject,
+} from "../services/auditService";
+import { useAuth } from "../contexts/AuthContext";
+
+type FieldWarning = {
+  message: string;
+  type: "success" | "error" | "warning" | null;
+};
 
 interface DailyEntryFormProps {
-  onSubmit: (data: RevenueData) => Promise<void>;
+  // baseSavedAt is the savedAt of the entry being overwritten, null if new;
+  // reason is recorded in the entry's change history
+  onSubmit: (
+    data: RevenueData,
+    baseSavedAt?: number | null,
+    reason?: string
+  ) => Promise<void>;
   existingData: RevenueData[];
   targets: TargetSettings;
+  defaultDate?: string; // yyyy-MM-dd; today when omitted
 }
 
 export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
   onSubmit,
   existingData,
   targets,
+  defaultDate,
 }) => {
-  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
-  const [austinRevenue, setAustinRevenue] = useState("");
-  const [charlotteRevenue, setCharlotteRevenue] = useState("");
+  const locations = useLocations();
+  const { user, permissions } = useAuth();
+  const readOnly = !permissions.enterData;
+  const [date, setDate] = useState(
+    defaultDate ?? getBusinessDate()
+  );
+  const [revenueInputs, setRevenueInputs] = useState<Record<string, string>>(
+    {}
+  );
   const [showSuccess, setShowSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showOverwriteDialog, setShowOverwriteDialog] = useState(false);
   const [existingEntry, setExistingEntry] = useState<RevenueData | null>(null);
   const [warnings, setWarnings] = useState<{
-    austin: { message: string; type: "success" | "error" | "warning" | null };
-    charlotte: {
-      message: string;
-      type: "success" | "error" | "warning" | null;
-    };
+    locations: Record<string, FieldWarning>;
     future: { message: string; type: "error" | null };
     weekend: { message: string; type: "error" | null };
   }>({
-    austin: { message: "", type: null },
-    charlotte: { message: "", type: null },
+    locations: {},
     future: { message: "", type: null },
     weekend: { message: "", type: null },
   });
   const [submitting, setSubmitting] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [editorName, setEditorName] = useState(auditService.getEditorName);
+  const [reason, setReason] = useState("");
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
   // Check for existing data and validate whenever date or revenue values change
   useEffect(() => {
@@ -72,50 +107,41 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
 
     // Only validate if we have targets
     if (targets) {
-      const dateObj = new Date(date);
-      const austinValue = parseFloat(austinRevenue);
-      const charlotteValue = parseFloat(charlotteRevenue);
-
-      const austinWarning = !isNaN(austinValue)
-        ? validateEntry(austinValue, "austin", dateObj)
-        : null;
-      const charlotteWarning = !isNaN(charlotteValue)
-        ? validateEntry(charlotteValue, "charlotte", dateObj)
-        : null;
-
-      setWarnings((prevWarnings) => ({
-        ...prevWarnings,
-        austin: {
-          message: austinWarning || "",
-          type: austinWarning
-            ? austinWarning.includes("Warning")
-              ? "warning"
-              : "success"
-            : null,
-        },
-        charlotte: {
-          message: charlotteWarning || "",
-          type: charlotteWarning
-            ? charlotteWarning.includes("Warning")
+      const dateObj = parseDateKey(date);
+      const locationWarnings: Record<string, FieldWarning> = {};
+
+      locations.forEach((location) => {
+        const value = parseFloat(revenueInputs[location.id] ?? "");
+        const warning = !isNaN(value)
+          ? validateEntry(value, location.id, dateObj)
+          : null;
+
+        locationWarnings[location.id] = {
+          message: warning || "",
+          type: warning
+            ? warning.includes("Warning")
               ? "warning"
               : "success"
             : null,
-        },
+        };
+      });
+
+      setWarnings((prevWarnings) => ({
+        ...prevWarnings,
+        locations: locationWarnings,
       }));
     }
-  }, [date, austinRevenue, charlotteRevenue, existingData, targets]);
+  }, [date, revenueInputs, existingData, targets, locations]);
 
   // Validate entry against targets
   const validateEntry = (
     value: number,
-    location: "austin" | "charlotte",
+    locationId: string,
     date: Date
   ): string | null => {
     if (value <= 0 || !targets) return null;
 
-    const dailyTarget = getTargetForDate(date, targets);
-    const target =
-      location === "austin" ? dailyTarget.austin : dailyTarget.charlotte;
+    const target = getTargetForDate(date, targets)[locationId] || 0;
 
     // Skip validation for non-working days
     if (target === 0) return null;
@@ -173,27 +199,32 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
     return {};
   };
 
+  const parseRevenueInputs = () =>
+    createLocationValues(
+      (location) => parseFloat(revenueInputs[location.id] ?? ""),
+      locations
+    );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setShowSuccess(false);
 
     // Validate date
-    if (!isBusinessDay(parseISO(date))) {
-      setError("Cannot add revenue for weekend days (non-working days)");
+    if (!isBusinessDay(parseDateKey(date))) {
+      setError("Cannot add revenue for weekends or holidays (non-working days)");
       return;
     }
 
     // Validate inputs
-    const austinValue = parseFloat(austinRevenue);
-    const charlotteValue = parseFloat(charlotteRevenue);
+    const revenue = parseRevenueInputs();
 
-    if (isNaN(austinValue) || isNaN(charlotteValue)) {
+    if (Object.values(revenue).some((value) => isNaN(value))) {
       setError("Revenue values must be valid numbers");
       return;
     }
 
-    if (austinValue < 0 || charlotteValue < 0) {
+    if (Object.values(revenue).some((value) => value < 0)) {
       setError("Revenue values cannot be negative");
       return;
     }
@@ -209,11 +240,10 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
     try {
       const newEntry: RevenueData = {
         date,
-        austin: austinValue,
-        charlotte: charlotteValue,
+        revenue,
       };
 
-      await onSubmit(newEntry);
+      await onSubmit(newEntry, null);
       setShowSuccess(true);
       resetForm();
     } catch (err) {
@@ -230,11 +260,12 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
     try {
       const newEntry: RevenueData = {
         date,
-        austin: parseFloat(austinRevenue),
-        charlotte: parseFloat(charlotteRevenue),
+        revenue: parseRevenueInputs(),
       };
 
-      await onSubmit(newEntry);
+      // Conflicts are detected against the entry shown in the dialog
+      auditService.setEditorName(editorName);
+      await onSubmit(newEntry, existingEntry?.savedAt ?? 0, reason);
       setShowSuccess(true);
       resetForm();
     } catch (err) {
@@ -249,10 +280,47 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
     setSubmitting(false);
   };
 
+  const handleDeleteConfirm = async () => {
+    if (!existingEntry) return;
+    setShowDeleteDialog(false);
+    setSubmitting(true);
+    auditService.setEditorName(editorName);
+    const deleted = await revenueService.voidRevenueEntry(
+      existingEntry,
+      reason
+    );
+    setSubmitting(false);
+    if (deleted) {
+      resetForm();
+    } else {
+      setError("Failed to delete the entry. Please try again.");
+    }
+  };
+
+  const handleRevert = async (change: AuditEntry) => {
+    const reverted = await revenueService.revertRevenueChange(
+      change,
+      existingEntry
+    );
+    if (!reverted) {
+      setError("Failed to revert the change. Please try again.");
+    }
+  };
+
+  const describeEntry = (value: AuditValue) =>
+    locations
+      .map(
+        (location) =>
+          `${location.name} ${formatCurrency(
+            getLocationRevenue(value as RevenueData, location.id)
+          )}`
+      )
+      .join(", ");
+
   const resetForm = () => {
-    setAustinRevenue("");
-    setCharlotteRevenue("");
-    setDate(new Date().toISOString().split("T")[0]);
+    setRevenueInputs({});
+    setReason("");
+    setDate(getBusinessDate());
     setError(null);
     setShowSuccess(false);
   };
@@ -265,16 +333,13 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
       maximumFractionDigits: 0,
     }).format(value);
 
+  // Date takes 4 of 12 columns; revenue fields share the rest of the row
+  const revenueColumns = Math.max(3, Math.floor(8 / locations.length));
+
   const isFormValid = () => {
-    const austinValue = parseFloat(austinRevenue);
-    const charlotteValue = parseFloat(charlotteRevenue);
-
-    if (
-      isNaN(austinValue) ||
-      isNaN(charlotteValue) ||
-      austinValue < 0 ||
-      charlotteValue < 0
-    ) {
+    const revenue = parseRevenueInputs();
+
+    if (Object.values(revenue).some((value) => isNaN(value) || value < 0)) {
       return false;
     }
 
@@ -306,6 +371,13 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
           Daily Revenue Entry
         </Typography>
 
+        {readOnly && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            You have read-only access. Ask an admin for the Entry Clerk role to
+            enter revenue.
+          </Alert>
+        )}
+
         <Box component="form" onSubmit={handleSubmit}>
           <Grid container spacing={2}>
             <Grid xs={12} sm={4}>
@@ -331,41 +403,38 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
               />
             </Grid>
 
-            <Grid xs={12} sm={4}>
-              <TextField
-                fullWidth
-                label="Austin Revenue"
-                type="number"
-                value={austinRevenue}
-                onChange={(e) => setAustinRevenue(e.target.value)}
-                InputProps={{
-                  startAdornment: <Typography sx={{ mr: 1 }}>$</Typography>,
-                  ...getInputProps(warnings.austin.type),
-                }}
-                helperText={warnings.austin.message}
-                FormHelperTextProps={{
-                  sx: { color: getHelperTextColor(warnings.austin.type) },
-                }}
-              />
-            </Grid>
-
-            <Grid xs={12} sm={4}>
-              <TextField
-                fullWidth
-                label="Charlotte Revenue"
-                type="number"
-                value={charlotteRevenue}
-                onChange={(e) => setCharlotteRevenue(e.target.value)}
-                InputProps={{
-                  startAdornment: <Typography sx={{ mr: 1 }}>$</Typography>,
-                  ...getInputProps(warnings.charlotte.type),
-                }}
-                helperText={warnings.charlotte.message}
-                FormHelperTextProps={{
-                  sx: { color: getHelperTextColor(warnings.charlotte.type) },
-                }}
-              />
-            </Grid>
+            {locations.map((location) => {
+              const warning = warnings.locations[location.id] ?? {
+                message: "",
+                type: null,
+              };
+              return (
+                <Grid xs={12} sm={revenueColumns} key={location.id}>
+                  <TextField
+                    fullWidth
+                    label={`${location.name} Revenue`}
+                    type="number"
+                    value={revenueInputs[location.id] ?? ""}
+                    onChange={(e) =>
+                      setRevenueInputs((prev) => ({
+                        ...prev,
+                        [location.id]: e.target.value,
+                      }))
+                    }
+                    InputProps={{
+                      startAdornment: (
+                        <Typography sx={{ mr: 1 }}>$</Typography>
+                      ),
+                      ...getInputProps(warning.type),
+                    }}
+                    helperText={warning.message}
+                    FormHelperTextProps={{
+                      sx: { color: getHelperTextColor(warning.type) },
+                    }}
+                  />
+                </Grid>
+              );
+            })}
 
             {existingEntry && (
               <Grid item xs={12}>
@@ -375,18 +444,16 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
                   </Typography>
                   <Table size="small">
                     <TableBody>
-                      <TableRow>
-                        <TableCell>Austin Revenue:</TableCell>
-                        <TableCell>
-                          {formatCurrency(existingEntry.austin)}
-                        </TableCell>
-                      </TableRow>
-                      <TableRow>
-                        <TableCell>Charlotte Revenue:</TableCell>
-                        <TableCell>
-                          {formatCurrency(existingEntry.charlotte)}
-                        </TableCell>
-                      </TableRow>
+                      {locations.map((location) => (
+                        <TableRow key={location.id}>
+                          <TableCell>{location.name} Revenue:</TableCell>
+                          <TableCell>
+                            {formatCurrency(
+                              getLocationRevenue(existingEntry, location.id)
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
                     </TableBody>
                   </Table>
                 </Alert>
@@ -395,11 +462,29 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
 
             <Grid xs={12}>
               <Stack direction="row" spacing={2} justifyContent="flex-end">
+                {existingEntry && (
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    startIcon={<DeleteIcon />}
+                    onClick={() => setShowDeleteDialog(true)}
+                    disabled={submitting || readOnly}
+                  >
+                    Delete Entry
+                  </Button>
+                )}
+                <Button
+                  variant="outlined"
+                  startIcon={<HistoryIcon />}
+                  onClick={() => setHistoryOpen(true)}
+                >
+                  History
+                </Button>
                 <Button
                   variant="contained"
                   color="primary"
                   type="submit"
-                  disabled={!isFormValid() || submitting}
+                  disabled={!isFormValid() || submitting || readOnly}
                   startIcon={<SaveIcon />}
                 >
                   Save Entry
@@ -462,19 +547,37 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
               Existing Data:
             </Typography>
             <Grid container spacing={2}>
-              <Grid xs={6}>
-                <Typography>
-                  Austin: {formatCurrency(Number(existingEntry?.austin || 0))}
-                </Typography>
-              </Grid>
-              <Grid xs={6}>
-                <Typography>
-                  Charlotte:{" "}
-                  {formatCurrency(Number(existingEntry?.charlotte || 0))}
-                </Typography>
-              </Grid>
+              {locations.map((location) => (
+                <Grid xs={6} key={location.id}>
+                  <Typography>
+                    {location.name}:{" "}
+                    {formatCurrency(
+                      existingEntry
+                        ? getLocationRevenue(existingEntry, location.id)
+                        : 0
+                    )}
+                  </Typography>
+                </Grid>
+              ))}
             </Grid>
           </Box>
+          <Stack spacing={2} sx={{ mt: 3 }}>
+            {!user && (
+              <TextField
+                label="Your Name"
+                size="small"
+                value={editorName}
+                onChange={(e) => setEditorName(e.target.value)}
+              />
+            )}
+            <TextField
+              label="Reason for Change"
+              size="small"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              helperText="Recorded in the entry's change history"
+            />
+          </Stack>
         </DialogContent>
         <DialogActions>
           <Button onClick={handleOverwriteCancel} color="inherit">
@@ -489,6 +592,59 @@ export const DailyEntryForm: React.FC<DailyEntryFormProps> = ({
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={showDeleteDialog}
+        onClose={() => setShowDeleteDialog(false)}
+      >
+        <DialogTitle>Delete Entry for {date}?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            The entry is moved to the trash and no longer counts towards
+            metrics or charts. It can be restored from the trash.
+          </Typography>
+          <Stack spacing={2} sx={{ mt: 3 }}>
+            {!user && (
+              <TextField
+                label="Your Name"
+                size="small"
+                value={editorName}
+                onChange={(e) => setEditorName(e.target.value)}
+              />
+            )}
+            <TextField
+              label="Reason for Deletion"
+              size="small"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              helperText="Recorded in the entry's change history"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowDeleteDialog(false)} color="inherit">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDeleteConfirm}
+            color="error"
+            variant="contained"
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ChangeHistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        title={`Revenue History · ${date}`}
+        subject={revenueSubject(date)}
+        describe={describeEntry}
+        onRevert={handleRevert}
+        canRevert={!readOnly}
+      />
     </>
   );
 };
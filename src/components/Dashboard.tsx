@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Box,
   Container,
@@ -20,8 +20,24 @@ import Grid from "@mui/material/Grid";
 import {
   Settings as SettingsIcon,
   CalendarMonth as CalendarIcon,
+  Place as PlaceIcon,
+  DeleteOutline as TrashIcon,
+  Event as HolidayIcon,
+  Badge as RosterIcon,
+  History as ImportHistoryIcon,
+  GridOn as BulkEntryIcon,
+  Backup as BackupIcon,
+  DateRange as FiscalIcon,
 } from "@mui/icons-material";
-import { RevenueData, TimeFrame, TargetSettings } from "../types/revenue";
+import {
+  RevenueData,
+  TimeFrame,
+  TargetSettings,
+  DailyTarget,
+  LocationConfig,
+  RevenueImportResult,
+  HolidayCalendar,
+} from "../types/revenue";
 import { FilterPanel } from "./FilterPanel";
 import { DataImportExport } from "./DataImportExport";
 import { DailyAttainmentChart } from "./charts/DailyAttainmentChart";
@@ -30,9 +46,21 @@ import { RevenueComparisonChart } from "./charts/RevenueComparisonChart";
 import { DistributionCharts } from "./charts/DistributionCharts";
 import SummaryMetrics from "./SummaryMetrics";
 import { DailyEntryForm } from "./DailyEntryForm";
-import { revenueService } from "../services/firebase";
+import { revenueService } from "../services/revenueService";
+import { outboxService } from "../services/outbox";
+import { importBatchService } from "../services/importBatchService";
 import { TargetSettings as TargetSettingsComponent } from "./TargetSettings";
 import { MonthlyTargetSettings as MonthlyTargetSettingsComponent } from "./MonthlyTargetSettings";
+import { FiscalCalendarSettings } from "./FiscalCalendarSettings";
+import { LocationSettings } from "./LocationSettings";
+import { HolidaySettings } from "./HolidaySettings";
+import { AgentRoster } from "./AgentRoster";
+import { Trash } from "./Trash";
+import { ImportHistory } from "./ImportHistory";
+import { BulkRevenueEntry } from "./BulkRevenueEntry";
+import { BackupRestore } from "./BackupRestore";
+import { AsOfDateBar } from "./AsOfDateBar";
+import { useAuth } from "../contexts/AuthContext";
 import { HistoricalTrendsView } from "./charts/HistoricalTrendsView";
 import { DailyPatternsView } from "./charts/DailyPatternsView";
 import { LocationDailyChart } from "./charts/LocationDailyChart";
@@ -44,8 +72,10 @@ import {
   validateDataIntegrity,
   validateDataConsistency,
   recalculateMonthlyGoals,
-  getBusinessDaysInMonth,
+  getDefaultWorkingDays,
+  calculatePeriodComparison,
 } from "../utils/calculations";
+import { forecastMonthEnd } from "../utils/forecasting";
 import { DaysBehindAlert } from "./DaysBehindAlert";
 import { LeadEntryForm } from "./LeadEntryForm";
 import { LeadAttainmentSummary } from "./LeadAttainmentSummary";
@@ -54,6 +84,12 @@ import { CombinedInsights } from "./CombinedInsights";
 import { AttendanceAlerts } from "./AttendanceAlerts";
 import { AgentSummary } from "./AgentSummary";
 import { GoalPrompt } from "./GoalPrompt";
+import { SyncStatus } from "./SyncStatus";
+import { getDefaultDailyTargets, setLocations } from "../utils/locations";
+import { setHolidayCalendar } from "../utils/holidays";
+import { setAgentRoster } from "../utils/agents";
+import { agentService } from "../services/agentService";
+import { getNow, useAsOfDate } from "../utils/asOf";
 
 interface DashboardState {
   revenueData: RevenueData[];
@@ -73,6 +109,7 @@ interface DashboardState {
     location: string;
     startDate: string | null;
     endDate: string | null;
+    comparePrevious: boolean;
   };
   targetSettings: TargetSettings;
 }
@@ -96,12 +133,10 @@ export const Dashboard: React.FC = () => {
       location: "Combined",
       startDate: null,
       endDate: null,
+      comparePrevious: false,
     },
     targetSettings: {
-      dailyTargets: {
-        austin: 5000,
-        charlotte: 4000,
-      },
+      dailyTargets: getDefaultDailyTargets(),
       monthlyAdjustments: [],
     },
   });
@@ -109,9 +144,22 @@ export const Dashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<number>(0);
   const [isTabLoading, setIsTabLoading] = useState(false);
   const [goalPromptOpen, setGoalPromptOpen] = useState(false);
+  const asOfDate = useAsOfDate();
+  const { permissions } = useAuth();
   const showLocationCharts = state.filters.location !== "Combined";
 
   useEffect(() => {
+    // Replay writes queued while the dashboard was offline or closed
+    outboxService.start();
+
+    const unsubscribeLocations =
+      revenueService.subscribeToLocations(setLocations);
+
+    const unsubscribeHolidays =
+      revenueService.subscribeToHolidays(setHolidayCalendar);
+
+    const unsubscribeAgents = agentService.subscribeToAgents(setAgentRoster);
+
     const unsubscribeRevenue = revenueService.subscribeToRevenueData((data) => {
       setState((prevState) => ({
         ...prevState,
@@ -131,6 +179,9 @@ export const Dashboard: React.FC = () => {
     );
 
     return () => {
+      unsubscribeLocations();
+      unsubscribeHolidays();
+      unsubscribeAgents();
       unsubscribeRevenue();
       unsubscribeTargets();
     };
@@ -323,19 +374,66 @@ export const Dashboard: React.FC = () => {
     }
   };
 
-  const handleSaveGoal = (goal: { austin: number; charlotte: number }) => {
+  const handleLocationsChange = async (locations: LocationConfig[]) => {
+    const saved = await revenueService.saveLocations(locations);
+    if (!saved) {
+      // Keep the registry usable for this session even if saving fails
+      setLocations(locations);
+    }
+    setState((prevState) => ({
+      ...prevState,
+      snackbar: {
+        open: true,
+        message: saved
+          ? "Locations updated successfully!"
+          : "Locations updated locally only. Changes will not persist after reload.",
+        severity: saved ? "success" : "warning",
+      },
+    }));
+  };
+
+  const handleHolidaysChange = async (calendar: HolidayCalendar) => {
+    const saved = await revenueService.saveHolidays(calendar);
+    if (!saved) {
+      // Keep the calendar usable for this session even if saving fails
+      setHolidayCalendar(calendar);
+    }
+    setState((prevState) => ({
+      ...prevState,
+      snackbar: {
+        open: true,
+        message: saved
+          ? "Holiday calendar updated successfully!"
+          : "Holiday calendar updated locally only. Changes will not persist after reload.",
+        severity: saved ? "success" : "warning",
+      },
+    }));
+  };
+
+  const handleMigrateLegacyData = async () => {
+    const result = await revenueService.migrateLegacyRevenueRecords();
+    setState((prevState) => ({
+      ...prevState,
+      snackbar: {
+        open: true,
+        message: result.success
+          ? `Migrated ${result.migrated} legacy revenue records`
+          : "Failed to migrate legacy revenue records. Please try again.",
+        severity: result.success ? "success" : "error",
+      },
+    }));
+  };
+
+  const handleSaveGoal = (goal: DailyTarget) => {
     const today = new Date();
     const currentMonth = today.getMonth();
     const currentYear = today.getFullYear();
 
-    const businessDays = getBusinessDaysInMonth(currentYear, currentMonth);
-
     const newAdjustment = {
       month: currentMonth,
       year: currentYear,
-      austin: goal.austin,
-      charlotte: goal.charlotte,
-      workingDays: businessDays,
+      targets: goal,
+      ...getDefaultWorkingDays(currentYear, currentMonth),
     };
 
     const newSettings = {
@@ -350,25 +448,43 @@ export const Dashboard: React.FC = () => {
     setGoalPromptOpen(false);
   };
 
-  const handleDataUpdate = async (newData: RevenueData[]) => {
+  const handleDataUpdate = async (
+    newData: RevenueData[],
+    fileName: string
+  ): Promise<RevenueImportResult | null> => {
     setState((prevState) => ({
       ...prevState,
       loading: true,
     }));
     try {
-      // This will trigger the Firebase subscription update
-      await Promise.all(
-        newData.map((entry) => revenueService.addRevenueEntry(entry))
+      // This will trigger the data store subscription update. The batch
+      // lets the whole import be rolled back from the import history.
+      const batch = importBatchService.createBatch(
+        "revenue",
+        fileName,
+        newData.length
+      );
+      const result = await revenueService.importRevenueEntries(
+        newData,
+        state.revenueData,
+        batch
       );
+      await importBatchService.saveBatch(batch);
+      const problems = result.invalid.length + result.failed.length;
       setState((prevState) => ({
         ...prevState,
         loading: false,
         snackbar: {
           open: true,
-          message: `Successfully imported ${newData.length} entries`,
-          severity: "success",
+          message: `Imported ${result.inserted.length} new and ${
+            result.updated.length
+          } updated entries, skipped ${result.skipped.length}${
+            problems > 0 ? `, ${problems} could not be imported` : ""
+          }`,
+          severity: problems > 0 ? "warning" : "success",
         },
       }));
+      return result;
     } catch (err) {
       setState((prevState) => ({
         ...prevState,
@@ -379,23 +495,49 @@ export const Dashboard: React.FC = () => {
           severity: "error",
         },
       }));
+      return null;
     }
   };
 
-  const handleDailyDataAdd = async (newEntry: RevenueData) => {
+  const handleDeduplicate = async () => {
+    const result = await revenueService.deduplicateRevenueRecords();
+    setState((prevState) => ({
+      ...prevState,
+      snackbar: {
+        open: true,
+        message: !result.success
+          ? "Failed to merge duplicate entries. Please try again."
+          : result.merged > 0
+          ? `Merged ${result.merged} dates, removed ${result.removed} duplicate entries`
+          : "No duplicate entries found",
+        severity: result.success ? "success" : "error",
+      },
+    }));
+  };
+
+  const handleDailyDataAdd = async (
+    newEntry: RevenueData,
+    baseSavedAt?: number | null,
+    reason?: string
+  ) => {
     setState((prevState) => ({
       ...prevState,
       loading: true,
     }));
     try {
-      await revenueService.addRevenueEntry(newEntry);
+      await revenueService.addRevenueEntry(newEntry, baseSavedAt, reason);
+      const unsynced = outboxService
+        .getItems()
+        .some((item) => item.status !== "synced");
       setState((prevState) => ({
         ...prevState,
         loading: false,
         snackbar: {
           open: true,
-          message: "Revenue data added successfully!",
-          severity: "success",
+          message: unsynced
+            ? "Revenue data saved on this device and will sync when the server is reachable"
+            : "Revenue data added successfully!",
+          severity: unsynced ? "info" : "success",
         },
       }));
     } catch (err) {
@@ -431,6 +573,25 @@ export const Dashboard: React.FC = () => {
     }, 300);
   };
 
+  // Views leave out entries after the as-of date, so they show the
+  // dashboard as it stood on that day
+  const viewData = useMemo(
+    () =>
+      asOfDate
+        ? state.revenueData.filter((entry) => entry.date <= asOfDate)
+        : state.revenueData,
+    [asOfDate, state.revenueData]
+  );
+
+  // Month-end revenue forecast for the month-to-date cards
+  const monthEndProjection = useMemo(
+    () =>
+      state.filters.timeFrame === "MTD"
+        ? forecastMonthEnd(viewData, state.targetSettings)
+        : null,
+    [viewData, state.targetSettings, state.filters.timeFrame]
+  );
+
   const renderActiveView = () => {
     const view = (() => {
       switch (activeTab) {
@@ -440,14 +601,16 @@ export const Dashboard: React.FC = () => {
               {/* Days Behind Alert */}
               <Box>
                 <DaysBehindAlert
-                  data={state.revenueData}
+                  data={viewData}
                   targetSettings={state.targetSettings}
+                  onRevenueSubmit={handleDailyDataAdd}
+                  onTargetsChange={handleTargetsChange}
                 />
               </Box>
 
               {/* Attendance Alerts */}
               <AttendanceAlerts
-                revenueData={state.revenueData}
+                revenueData={viewData}
                 targetSettings={state.targetSettings}
               />
 
@@ -458,7 +621,7 @@ export const Dashboard: React.FC = () => {
               <Box>
                 <SummaryMetrics
                   data={filterDataByTimeFrame(
-                    state.revenueData,
+                    viewData,
                     state.filters.timeFrame,
                     state.filters.attainmentThreshold,
                     state.targetSettings,
@@ -471,6 +634,19 @@ export const Dashboard: React.FC = () => {
                   startDate={state.filters.startDate}
                   endDate={state.filters.endDate}
                   location={state.filters.location}
+                  comparison={
+                    state.filters.comparePrevious
+                      ? calculatePeriodComparison(
+                          viewData,
+                          state.filters.timeFrame,
+                          state.targetSettings,
+                          state.filters.location,
+                          state.filters.startDate,
+                          state.filters.endDate
+                        )
+                      : null
+                  }
+                  projection={monthEndProjection}
                 />
               </Box>
 
@@ -500,11 +676,16 @@ export const Dashboard: React.FC = () => {
                           <FilterPanel
                             filters={state.filters}
                             onFilterChange={handleFilterChange}
+                            fiscalCalendar={
+                              state.targetSettings.fiscalCalendar
+                            }
                           />
                         </Grid>
                         <Grid item xs={12} md={4}>
                           <DataImportExport
                             onDataUpdate={handleDataUpdate}
+                            onDeduplicate={handleDeduplicate}
+                            readOnly={!permissions.enterData}
                             currentData={state.revenueData}
                             targetSettings={state.targetSettings}
                           />
@@ -533,12 +714,13 @@ export const Dashboard: React.FC = () => {
                       }}
                     >
                       <RevenueComparisonChart
-                        data={state.revenueData}
+                        data={viewData}
                         timeFrame={state.filters.timeFrame}
                         targetSettings={state.targetSettings}
                         startDate={state.filters.startDate}
                         endDate={state.filters.endDate}
                         location={state.filters.location}
+                        comparePrevious={state.filters.comparePrevious}
                       />
                     </Paper>
                   </Box>
@@ -557,7 +739,7 @@ export const Dashboard: React.FC = () => {
                       }}
                     >
                       <DailyAttainmentChart
-                        data={state.revenueData}
+                        data={viewData}
                         filters={state.filters}
                         targets={state.targetSettings}
                       />
@@ -578,7 +760,7 @@ export const Dashboard: React.FC = () => {
                       }}
                     >
                       <TimePeriodsChart
-                        data={state.revenueData}
+                        data={viewData}
                         filters={state.filters}
                         targets={state.targetSettings}
                       />
@@ -599,7 +781,7 @@ export const Dashboard: React.FC = () => {
                       }}
                     >
                       <DistributionCharts
-                        data={state.revenueData}
+                        data={viewData}
                         filters={state.filters}
                         targets={state.targetSettings}
                       />
@@ -624,7 +806,7 @@ export const Dashboard: React.FC = () => {
                     >
                       <LocationDailyChart
                         data={filterDataByTimeFrame(
-                          state.revenueData,
+                          viewData,
                           state.filters.timeFrame,
                           state.filters.attainmentThreshold,
                           state.targetSettings,
@@ -653,7 +835,7 @@ export const Dashboard: React.FC = () => {
                     >
                       <LocationMTDChart
                         data={filterDataByTimeFrame(
-                          state.revenueData,
+                          viewData,
                           state.filters.timeFrame,
                           state.filters.attainmentThreshold,
                           state.targetSettings,
@@ -674,7 +856,7 @@ export const Dashboard: React.FC = () => {
         case 1:
           return (
             <HistoricalTrendsView
-              data={state.revenueData}
+              data={viewData}
               targetSettings={state.targetSettings}
               isLoading={isTabLoading}
             />
@@ -682,7 +864,7 @@ export const Dashboard: React.FC = () => {
         case 2:
           return (
             <DailyPatternsView
-              data={state.revenueData}
+              data={viewData}
               targetSettings={state.targetSettings}
               isLoading={isTabLoading}
             />
@@ -693,25 +875,26 @@ export const Dashboard: React.FC = () => {
               <Grid container spacing={3}>
                 <Grid item xs={12} lg={8}>
                   <LeadEntryForm
-                    defaultDate={new Date()}
                     onEntrySuccess={() => {
                       // Force refresh the summary
                       setState((prev) => ({ ...prev }));
                     }}
                   />
                 </Grid>
-                <Grid item xs={12} lg={4}>
-                  <LeadDataImport />
-                </Grid>
+                {permissions.enterData && (
+                  <Grid item xs={12} lg={4}>
+                    <LeadDataImport />
+                  </Grid>
+                )}
               </Grid>
-              <LeadAttainmentSummary date={new Date()} showCombined={true} />
+              <LeadAttainmentSummary date={getNow()} showCombined={true} />
             </Stack>
           );
         case 4:
           return (
             <Box sx={{ width: "100%", maxWidth: "100%", overflow: "hidden" }}>
               <CombinedInsights
-                revenueData={state.revenueData}
+                revenueData={viewData}
                 targetSettings={state.targetSettings}
               />
             </Box>
@@ -721,9 +904,12 @@ export const Dashboard: React.FC = () => {
       }
     })();
 
+    // Keyed by the as-of date so views that load their own data start over
     return (
       <Fade in={!isTabLoading} timeout={300}>
-        <Box sx={{ width: "100%" }}>{view}</Box>
+        <Box key={asOfDate ?? "today"} sx={{ width: "100%" }}>
+          {view}
+        </Box>
       </Fade>
     );
   };
@@ -750,7 +936,7 @@ export const Dashboard: React.FC = () => {
         sx={{ px: { xs: 2, sm: 3, md: 4, lg: 6 }, py: 2 }}
       >
         <GoalPrompt
-          open={goalPromptOpen}
+          open={goalPromptOpen && permissions.manageSettings}
           onClose={() => setGoalPromptOpen(false)}
           onSave={handleSaveGoal}
         />
@@ -776,36 +962,165 @@ export const Dashboard: React.FC = () => {
                 Revenue Attainment Dashboard
               </Typography>
               <Box sx={{ display: "flex", gap: 2 }}>
-                <Button
-                  variant="contained"
-                  color="secondary"
-                  startIcon={<SettingsIcon />}
-                  onClick={() => {
-                    const targetSettingsButton = document.querySelector(
-                      '[data-testid="target-settings-button"]'
-                    );
-                    if (targetSettingsButton) {
-                      (targetSettingsButton as HTMLElement).click();
-                    }
-                  }}
-                >
-                  Daily Targets
-                </Button>
-                <Button
-                  variant="contained"
-                  color="secondary"
-                  startIcon={<CalendarIcon />}
-                  onClick={() => {
-                    const monthlySettingsButton = document.querySelector(
-                      '[data-testid="monthly-settings-button"]'
-                    );
-                    if (monthlySettingsButton) {
-                      (monthlySettingsButton as HTMLElement).click();
-                    }
-                  }}
-                >
-                  Monthly Adjustments
-                </Button>
+                <SyncStatus />
+                {permissions.manageSettings && (
+                  <>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<SettingsIcon />}
+                      onClick={() => {
+                        const targetSettingsButton = document.querySelector(
+                          '[data-testid="target-settings-button"]'
+                        );
+                        if (targetSettingsButton) {
+                          (targetSettingsButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Daily Targets
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<CalendarIcon />}
+                      onClick={() => {
+                        const monthlySettingsButton = document.querySelector(
+                          '[data-testid="monthly-settings-button"]'
+                        );
+                        if (monthlySettingsButton) {
+                          (monthlySettingsButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Monthly Adjustments
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<FiscalIcon />}
+                      onClick={() => {
+                        const fiscalCalendarButton = document.querySelector(
+                          '[data-testid="fiscal-calendar-button"]'
+                        );
+                        if (fiscalCalendarButton) {
+                          (fiscalCalendarButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Fiscal Calendar
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<PlaceIcon />}
+                      onClick={() => {
+                        const locationSettingsButton = document.querySelector(
+                          '[data-testid="location-settings-button"]'
+                        );
+                        if (locationSettingsButton) {
+                          (locationSettingsButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Locations
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<HolidayIcon />}
+                      onClick={() => {
+                        const holidaySettingsButton = document.querySelector(
+                          '[data-testid="holiday-settings-button"]'
+                        );
+                        if (holidaySettingsButton) {
+                          (holidaySettingsButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Holidays
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<RosterIcon />}
+                      onClick={() => {
+                        const agentRosterButton = document.querySelector(
+                          '[data-testid="agent-roster-button"]'
+                        );
+                        if (agentRosterButton) {
+                          (agentRosterButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Agents
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<TrashIcon />}
+                      onClick={() => {
+                        const trashButton = document.querySelector(
+                          '[data-testid="trash-button"]'
+                        );
+                        if (trashButton) {
+                          (trashButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Trash
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      startIcon={<BackupIcon />}
+                      onClick={() => {
+                        const backupButton = document.querySelector(
+                          '[data-testid="backup-button"]'
+                        );
+                        if (backupButton) {
+                          (backupButton as HTMLElement).click();
+                        }
+                      }}
+                    >
+                      Backup
+                    </Button>
+                  </>
+                )}
+                {permissions.enterData && (
+                  <Button
+                    variant="contained"
+                    color="secondary"
+                    startIcon={<ImportHistoryIcon />}
+                    onClick={() => {
+                      const importHistoryButton = document.querySelector(
+                        '[data-testid="import-history-button"]'
+                      );
+                      if (importHistoryButton) {
+                        (importHistoryButton as HTMLElement).click();
+                      }
+                    }}
+                  >
+                    Imports
+                  </Button>
+                )}
+                {permissions.enterData && (
+                  <Button
+                    variant="contained"
+                    color="secondary"
+                    startIcon={<BulkEntryIcon />}
+                    onClick={() => {
+                      const bulkEntryButton = document.querySelector(
+                        '[data-testid="bulk-entry-button"]'
+                      );
+                      if (bulkEntryButton) {
+                        (bulkEntryButton as HTMLElement).click();
+                      }
+                    }}
+                  >
+                    Bulk Entry
+                  </Button>
+                )}
               </Box>
             </Toolbar>
           </AppBar>
@@ -851,16 +1166,43 @@ export const Dashboard: React.FC = () => {
           </Box>
         )}
 
+        <AsOfDateBar />
+
         {renderActiveView()}
 
-        <TargetSettingsComponent
-          currentSettings={state.targetSettings}
-          onSettingsChange={handleTargetsChange}
-        />
-        <MonthlyTargetSettingsComponent
-          currentSettings={state.targetSettings}
-          onSettingsChange={handleTargetsChange}
-        />
+        {permissions.manageSettings && (
+          <>
+            <TargetSettingsComponent
+              currentSettings={state.targetSettings}
+              onSettingsChange={handleTargetsChange}
+            />
+            <MonthlyTargetSettingsComponent
+              currentSettings={state.targetSettings}
+              onSettingsChange={handleTargetsChange}
+            />
+            <FiscalCalendarSettings
+              currentSettings={state.targetSettings}
+              onSettingsChange={handleTargetsChange}
+            />
+            <LocationSettings
+              onLocationsChange={handleLocationsChange}
+              onMigrateLegacyData={handleMigrateLegacyData}
+            />
+            <HolidaySettings onHolidaysChange={handleHolidaysChange} />
+            <AgentRoster />
+            <Trash />
+            <BackupRestore />
+          </>
+        )}
+        {permissions.enterData && (
+          <>
+            <ImportHistory />
+            <BulkRevenueEntry
+              existingData={state.revenueData}
+              targetSettings={state.targetSettings}
+            />
+          </>
+        )}
       </Container>
     </Box>
   );
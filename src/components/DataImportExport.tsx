@@ -1,21 +1,124 @@
-import React, { useRef } from "react";
-import { Box, Button, Stack } from "@mui/material";
-import { CloudUpload, CloudDownload, Description, Assessment } from "@mui/icons-material";
-import { RevenueData, TargetSettings } from "../types/revenue";
-import { importCSV, exportCSV, generateTemplate, exportAnalyticsReport } from "../services/csvHandler";
+import React, { useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Paper,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  alpha,
+  Theme,
+} from "@mui/material";
+import {
+  CloudUpload,
+  CloudDownload,
+  Description,
+  Assessment,
+  MergeType,
+} from "@mui/icons-material";
+import {
+  RevenueData,
+  RevenueImportResult,
+  TargetSettings,
+} from "../types/revenue";
+import {
+  previewCSVImport,
+  exportCSV,
+  generateTemplate,
+  exportAnalyticsReport,
+} from "../services/csvHandler";
+import {
+  hasRevenueImportErrors,
+  hasRevenueImportWarnings,
+  isRevenueRowAcceptedByDefault,
+  RevenueCSVLayout,
+  RevenueImportPreview,
+  RevenueImportRow,
+  RevenueImportStatus,
+} from "../utils/revenueImport";
+import { useLocations } from "../utils/locations";
+import { formatCurrency } from "../utils/formatters";
 
 interface DataImportExportProps {
-  onDataUpdate: (data: RevenueData[]) => void;
+  onDataUpdate: (
+    data: RevenueData[],
+    fileName: string
+  ) => Promise<RevenueImportResult | null>;
+  onDeduplicate?: () => Promise<void>;
   currentData: RevenueData[];
   targetSettings?: TargetSettings;
+  // Hides import and merge for users who cannot enter data
+  readOnly?: boolean;
 }
 
+const RESULT_SECTIONS: { key: keyof RevenueImportResult; label: string }[] = [
+  { key: "inserted", label: "Inserted" },
+  { key: "updated", label: "Updated" },
+  { key: "skipped", label: "Skipped (unchanged)" },
+  { key: "invalid", label: "Invalid dates" },
+  { key: "failed", label: "Failed" },
+];
+
+const STATUS_CHIPS: Record<
+  RevenueImportStatus,
+  { label: string; color: "success" | "warning" | "default" }
+> = {
+  new: { label: "New", color: "success" },
+  update: { label: "Update", color: "warning" },
+  unchanged: { label: "Unchanged", color: "default" },
+};
+
+const issueCellSx = (row: RevenueImportRow, locationId?: string) => {
+  const issue = row.issues.find((issue) => issue.locationId === locationId);
+  if (!issue) return undefined;
+  return {
+    bgcolor: (theme: Theme) =>
+      alpha(
+        issue.level === "error"
+          ? theme.palette.error.main
+          : theme.palette.warning.main,
+        0.12
+      ),
+  };
+};
+
 export const DataImportExport: React.FC<DataImportExportProps> = ({
   onDataUpdate,
+  onDeduplicate,
   currentData,
   targetSettings,
+  readOnly = false,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importResult, setImportResult] = useState<RevenueImportResult | null>(
+    null
+  );
+  const [deduplicating, setDeduplicating] = useState(false);
+  const locations = useLocations();
+  const [preview, setPreview] = useState<RevenueImportPreview | null>(null);
+  const [fileName, setFileName] = useState("");
+  // Rows the user accepted for import, by row number
+  const [accepted, setAccepted] = useState<Record<number, boolean>>({});
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const [importing, setImporting] = useState(false);
+  // Layout of exports and the template; imports detect the layout
+  const [layout, setLayout] = useState<RevenueCSVLayout>("wide");
 
   const handleFileSelect = async (
     event: React.ChangeEvent<HTMLInputElement>
@@ -23,9 +126,20 @@ export const DataImportExport: React.FC<DataImportExportProps> = ({
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // Nothing is written until the user reviews the rows and imports them
     try {
-      const data = await importCSV(file);
-      onDataUpdate(data);
+      const result = await previewCSVImport(file, currentData, targetSettings);
+      setPreview(result);
+      setFileName(file.name);
+      setAccepted(
+        Object.fromEntries(
+          result.rows.map((row) => [
+            row.rowNumber,
+            isRevenueRowAcceptedByDefault(row),
+          ])
+        )
+      );
+      setOnlyIssues(false);
     } catch (error) {
       alert("Error importing CSV file. Please check the file format.");
     }
@@ -36,12 +150,48 @@ export const DataImportExport: React.FC<DataImportExportProps> = ({
     }
   };
 
+  const previewRows = preview?.rows ?? [];
+  const importableRows = previewRows.filter(
+    (row) => !hasRevenueImportErrors(row)
+  );
+  const acceptedRows = importableRows.filter((row) => accepted[row.rowNumber]);
+  const errorCount = previewRows.length - importableRows.length;
+  const warningCount = importableRows.filter(hasRevenueImportWarnings).length;
+  const shownRows = onlyIssues
+    ? previewRows.filter((row) => row.issues.length > 0)
+    : previewRows;
+
+  const handleAcceptAll = (checked: boolean) => {
+    setAccepted(
+      Object.fromEntries(
+        importableRows.map((row) => [row.rowNumber, checked])
+      )
+    );
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const result = await onDataUpdate(
+        acceptedRows.map((row) => ({
+          date: row.date as string,
+          revenue: row.revenue,
+        })),
+        fileName
+      );
+      setPreview(null);
+      setImportResult(result);
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleExport = () => {
     if (currentData.length === 0) {
       alert("No data to export.");
       return;
     }
-    exportCSV(currentData);
+    exportCSV(currentData, layout);
   };
 
   const handleAnalyticsExport = () => {
@@ -57,7 +207,17 @@ export const DataImportExport: React.FC<DataImportExportProps> = ({
   };
 
   const handleGenerateTemplate = () => {
-    generateTemplate();
+    generateTemplate(layout);
+  };
+
+  const handleDeduplicate = async () => {
+    if (!onDeduplicate) return;
+    setDeduplicating(true);
+    try {
+      await onDeduplicate();
+    } finally {
+      setDeduplicating(false);
+    }
   };
 
   return (
@@ -71,14 +231,29 @@ export const DataImportExport: React.FC<DataImportExportProps> = ({
           onChange={handleFileSelect}
         />
 
-        <Button
-          variant="contained"
-          startIcon={<CloudUpload />}
-          onClick={() => fileInputRef.current?.click()}
+        {!readOnly && (
+          <Button
+            variant="contained"
+            startIcon={<CloudUpload />}
+            onClick={() => fileInputRef.current?.click()}
+            fullWidth
+          >
+            Import CSV
+          </Button>
+        )}
+
+        <TextField
+          select
+          size="small"
+          label="CSV Layout"
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as RevenueCSVLayout)}
+          helperText="Used for exports and the template; imports read either"
           fullWidth
         >
-          Import CSV
-        </Button>
+          <MenuItem value="wide">One column per location</MenuItem>
+          <MenuItem value="long">One row per date and location</MenuItem>
+        </TextField>
 
         <Button
           variant="outlined"
@@ -109,7 +284,229 @@ export const DataImportExport: React.FC<DataImportExportProps> = ({
         >
           Download Template
         </Button>
+
+        {onDeduplicate && !readOnly && (
+          <Button
+            variant="outlined"
+            startIcon={<MergeType />}
+            onClick={handleDeduplicate}
+            fullWidth
+            disabled={deduplicating}
+            color="inherit"
+          >
+            Merge Duplicate Dates
+          </Button>
+        )}
       </Stack>
+
+      <Dialog
+        open={preview !== null}
+        onClose={() => !importing && setPreview(null)}
+        maxWidth="lg"
+        fullWidth
+      >
+        <DialogTitle>Review Revenue Import</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              Nothing has been saved yet.{" "}
+              {preview?.layout === "long" &&
+                "Rows were combined into one entry per date; locations " +
+                  "without a row for a date keep their saved revenue. "}
+              Rows with errors cannot be imported; rows with warnings are
+              imported only when ticked.
+            </Typography>
+            {preview && preview.unknownLocations.length > 0 && (
+              <Alert severity="warning">
+                Rows for unknown locations are left out:{" "}
+                {preview.unknownLocations.join(", ")}. Location names must match
+                a configured location.
+              </Alert>
+            )}
+            {preview && preview.missingColumns.length > 0 && (
+              <Alert severity="warning">
+                No revenue column for {preview.missingColumns.join(", ")}; its
+                revenue imports as $0.
+              </Alert>
+            )}
+            <Stack
+              direction="row"
+              spacing={1}
+              alignItems="center"
+              flexWrap="wrap"
+            >
+              <Chip
+                label={`${importableRows.length - warningCount} valid`}
+                color="success"
+                size="small"
+              />
+              <Chip
+                label={`${warningCount} with warnings`}
+                color="warning"
+                size="small"
+              />
+              <Chip
+                label={`${errorCount} with errors`}
+                color="error"
+                size="small"
+              />
+              <Box sx={{ flex: 1 }} />
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={onlyIssues}
+                    onChange={(e) => setOnlyIssues(e.target.checked)}
+                  />
+                }
+                label="Only rows with issues"
+              />
+            </Stack>
+            <TableContainer
+              component={Paper}
+              variant="outlined"
+              sx={{ maxHeight: 420 }}
+            >
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        size="small"
+                        checked={
+                          importableRows.length > 0 &&
+                          acceptedRows.length === importableRows.length
+                        }
+                        indeterminate={
+                          acceptedRows.length > 0 &&
+                          acceptedRows.length < importableRows.length
+                        }
+                        disabled={importableRows.length === 0}
+                        onChange={(e) => handleAcceptAll(e.target.checked)}
+                      />
+                    </TableCell>
+                    <TableCell>Row</TableCell>
+                    <TableCell>Date</TableCell>
+                    {locations.map((location) => (
+                      <TableCell key={location.id} align="right">
+                        {location.name}
+                      </TableCell>
+                    ))}
+                    <TableCell>Status</TableCell>
+                    <TableCell>Issues</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {shownRows.map((row) => {
+                    const hasErrors = hasRevenueImportErrors(row);
+                    return (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            size="small"
+                            checked={!hasErrors && !!accepted[row.rowNumber]}
+                            disabled={hasErrors}
+                            onChange={(e) =>
+                              setAccepted((prev) => ({
+                                ...prev,
+                                [row.rowNumber]: e.target.checked,
+                              }))
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell
+                          sx={
+                            row.date ? undefined : issueCellSx(row, undefined)
+                          }
+                        >
+                          {row.date ?? (row.rawDate || "—")}
+                        </TableCell>
+                        {locations.map((location) => (
+                          <TableCell
+                            key={location.id}
+                            align="right"
+                            sx={issueCellSx(row, location.id)}
+                          >
+                            {formatCurrency(row.revenue[location.id] ?? 0)}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          {hasErrors ? (
+                            <Chip label="Error" color="error" size="small" />
+                          ) : (
+                            <Chip
+                              label={STATUS_CHIPS[row.status].label}
+                              color={STATUS_CHIPS[row.status].color}
+                              size="small"
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row.issues.map((issue, index) => (
+                            <Typography
+                              key={index}
+                              variant="caption"
+                              component="div"
+                              color={
+                                issue.level === "error"
+                                  ? "error"
+                                  : "warning.main"
+                              }
+                            >
+                              {issue.message}
+                            </Typography>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPreview(null)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleImport}
+            disabled={importing || acceptedRows.length === 0}
+          >
+            {importing
+              ? "Importing..."
+              : `Import ${acceptedRows.length} of ${previewRows.length} Rows`}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={importResult !== null}
+        onClose={() => setImportResult(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Import Results</DialogTitle>
+        <DialogContent dividers>
+          {importResult &&
+            RESULT_SECTIONS.filter(({ key }) => importResult[key].length > 0)
+              .map(({ key, label }) => (
+                <Box key={key} sx={{ mb: 2 }}>
+                  <Typography variant="subtitle2">
+                    {label} ({importResult[key].length})
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {importResult[key].join(", ")}
+                  </Typography>
+                </Box>
+              ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportResult(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
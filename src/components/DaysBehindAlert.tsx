@@ -1,9 +1,10 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   Alert,
   AlertTitle,
   Box,
   Typography,
+  Button,
   Chip,
   IconButton,
   Collapse,
@@ -17,28 +18,117 @@ import {
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
   CalendarMonth as CalendarIcon,
+  Build as FixIcon,
 } from "@mui/icons-material";
 import { RevenueData, TargetSettings } from "../types/revenue";
 import { calculateMissingDataDays } from "../utils/calculations";
+import {
+  BackfillStep,
+  calculateMissingLeadDays,
+  LEAD_BACKFILL_LOOKBACK_DAYS,
+} from "../utils/backfill";
+import { leadService } from "../services/leadService";
+import { getToday } from "../utils/asOf";
+import { addDaysToKey, parseDateKey } from "../utils/dates";
+import { useAuth } from "../contexts/AuthContext";
+import { BackfillWizard } from "./BackfillWizard";
 
 interface DaysBehindAlertProps {
   data: RevenueData[];
   targetSettings: TargetSettings;
+  onRevenueSubmit: (
+    data: RevenueData,
+    baseSavedAt?: number | null,
+    reason?: string
+  ) => Promise<void>;
+  onTargetsChange: (settings: TargetSettings) => Promise<void>;
 }
 
 export const DaysBehindAlert: React.FC<DaysBehindAlertProps> = ({
   data,
   targetSettings,
+  onRevenueSubmit,
+  onTargetsChange,
 }) => {
   const [expanded, setExpanded] = React.useState(false);
-  
+  const { permissions } = useAuth();
+  const [leadDates, setLeadDates] = useState<Map<string, Set<string>>>(
+    new Map()
+  );
+  const [wizardSteps, setWizardSteps] = useState<BackfillStep[] | null>(null);
+
+  // Dates with lead entries in the lookback window, by site
+  useEffect(() => {
+    const today = getToday();
+    return leadService.subscribeToRange(
+      addDaysToKey(today, -LEAD_BACKFILL_LOOKBACK_DAYS),
+      today,
+      (entries) => {
+        const bySite = new Map<string, Set<string>>();
+        entries.forEach((sites, date) => {
+          Object.keys(sites).forEach((site) => {
+            if (!bySite.has(site)) bySite.set(site, new Set());
+            bySite.get(site)?.add(date);
+          });
+        });
+        setLeadDates(bySite);
+      }
+    );
+  }, []);
+
   const missingData = calculateMissingDataDays(data, targetSettings);
+  const missingLeads = calculateMissingLeadDays(leadDates, targetSettings);
+
+  const openWizard = () => {
+    const steps: BackfillStep[] = [
+      ...missingData.missingDates.map(
+        (date): BackfillStep => ({ kind: 'revenue', date })
+      ),
+      ...missingLeads,
+    ];
+    // Each date's revenue first, then its sites' leads
+    setWizardSteps(
+      steps.sort((a, b) =>
+        a.date.localeCompare(b.date) ||
+        (a.kind === b.kind ? 0 : a.kind === 'revenue' ? -1 : 1)
+      )
+    );
+  };
+
+  const fixButton = permissions.enterData && (
+    <Button
+      size="small"
+      color="inherit"
+      startIcon={<FixIcon />}
+      onClick={openWizard}
+    >
+      Fix missing days
+    </Button>
+  );
+
+  const wizard = (
+    <BackfillWizard
+      open={wizardSteps !== null}
+      onClose={() => setWizardSteps(null)}
+      steps={wizardSteps ?? []}
+      revenueData={data}
+      leadDates={leadDates}
+      targetSettings={targetSettings}
+      onRevenueSubmit={onRevenueSubmit}
+      onTargetsChange={onTargetsChange}
+    />
+  );
+
+  const leadsNote = missingLeads.length > 0 && (
+    <>
+      {' '}
+      {missingLeads.length} site day{missingLeads.length !== 1 ? 's' : ''}{' '}
+      missing lead entries.
+    </>
+  );
   
   const formatDate = (dateStr: string) => {
-    // Parse date string consistently to avoid timezone issues
-    const [year, month, day] = dateStr.split('-').map(num => parseInt(num));
-    const date = new Date(year, month - 1, day);
-    return date.toLocaleDateString('en-US', {
+    return parseDateKey(dateStr).toLocaleDateString('en-US', {
       weekday: 'short',
       month: 'short',
       day: 'numeric'
@@ -47,18 +137,23 @@ export const DaysBehindAlert: React.FC<DaysBehindAlertProps> = ({
   
   if (missingData.missingDays === 0) {
     return (
-      <Alert 
-        severity="success" 
-        icon={<CheckIcon />}
-        sx={{ mb: 3 }}
-      >
-        <AlertTitle>Data Up to Date</AlertTitle>
-        All expected business days have data entries. Last entry: {" "}
-        {missingData.lastDataDate ? 
-          formatDate(missingData.lastDataDate) : 
-          "No data"
-        }
-      </Alert>
+      <>
+        <Alert 
+          severity="success" 
+          icon={<CheckIcon />}
+          sx={{ mb: 3 }}
+          action={missingLeads.length > 0 ? fixButton : undefined}
+        >
+          <AlertTitle>Data Up to Date</AlertTitle>
+          All expected business days have data entries. Last entry: {" "}
+          {missingData.lastDataDate ? 
+            formatDate(missingData.lastDataDate) : 
+            "No data"
+          }
+          {leadsNote}
+        </Alert>
+        {wizard}
+      </>
     );
   }
 
@@ -69,61 +164,66 @@ export const DaysBehindAlert: React.FC<DaysBehindAlertProps> = ({
   };
 
   return (
-    <Alert 
-      severity={getSeverity()} 
-      icon={<WarningIcon />}
-      sx={{ mb: 3 }}
-      action={
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-          <Chip 
-            icon={<CalendarIcon />}
-            label={`${missingData.missingDays} days behind`}
-            color={getSeverity()}
-            size="small"
-          />
-          <IconButton
-            size="small"
-            onClick={() => setExpanded(!expanded)}
-            sx={{ color: 'inherit' }}
-          >
-            {expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
-          </IconButton>
-        </Box>
-      }
-    >
-      <AlertTitle>Missing Data Entries</AlertTitle>
-      <Typography variant="body2">
-        {missingData.missingDays} business day{missingData.missingDays !== 1 ? 's' : ''} missing since last data entry.
-        {missingData.lastDataDate && (
-          <> Last entry was on {formatDate(missingData.lastDataDate)}.</>
-        )}
-      </Typography>
-      
-      <Collapse in={expanded} timeout="auto" unmountOnExit>
-        <Box sx={{ mt: 2 }}>
-          <Typography variant="subtitle2" gutterBottom>
-            Missing dates:
-          </Typography>
-          <List dense sx={{ py: 0 }}>
-            {missingData.missingDates.slice(0, 10).map((date) => (
-              <ListItem key={date} sx={{ py: 0.5, px: 0 }}>
-                <ListItemText 
-                  primary={formatDate(date)}
-                  primaryTypographyProps={{ variant: 'body2' }}
-                />
-              </ListItem>
-            ))}
-            {missingData.missingDates.length > 10 && (
-              <ListItem sx={{ py: 0.5, px: 0 }}>
-                <ListItemText 
-                  primary={`... and ${missingData.missingDates.length - 10} more`}
-                  primaryTypographyProps={{ variant: 'body2', fontStyle: 'italic' }}
-                />
-              </ListItem>
-            )}
-          </List>
-        </Box>
-      </Collapse>
-    </Alert>
+    <>
+      <Alert 
+        severity={getSeverity()} 
+        icon={<WarningIcon />}
+        sx={{ mb: 3 }}
+        action={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {fixButton}
+            <Chip 
+              icon={<CalendarIcon />}
+              label={`${missingData.missingDays} days behind`}
+              color={getSeverity()}
+              size="small"
+            />
+            <IconButton
+              size="small"
+              onClick={() => setExpanded(!expanded)}
+              sx={{ color: 'inherit' }}
+            >
+              {expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            </IconButton>
+          </Box>
+        }
+      >
+        <AlertTitle>Missing Data Entries</AlertTitle>
+        <Typography variant="body2">
+          {missingData.missingDays} business day{missingData.missingDays !== 1 ? 's' : ''} missing since last data entry.
+          {missingData.lastDataDate && (
+            <> Last entry was on {formatDate(missingData.lastDataDate)}.</>
+          )}
+          {leadsNote}
+        </Typography>
+        
+        <Collapse in={expanded} timeout="auto" unmountOnExit>
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Missing dates:
+            </Typography>
+            <List dense sx={{ py: 0 }}>
+              {missingData.missingDates.slice(0, 10).map((date) => (
+                <ListItem key={date} sx={{ py: 0.5, px: 0 }}>
+                  <ListItemText 
+                    primary={formatDate(date)}
+                    primaryTypographyProps={{ variant: 'body2' }}
+                  />
+                </ListItem>
+              ))}
+              {missingData.missingDates.length > 10 && (
+                <ListItem sx={{ py: 0.5, px: 0 }}>
+                  <ListItemText 
+                    primary={`... and ${missingData.missingDates.length - 10} more`}
+                    primaryTypographyProps={{ variant: 'body2', fontStyle: 'italic' }}
+                  />
+                </ListItem>
+              )}
+            </List>
+          </Box>
+        </Collapse>
+      </Alert>
+      {wizard}
+    </>
   );
-}; 
\ No newline at end of file
+};
\ No newline at end of file
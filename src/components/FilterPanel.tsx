@@ -16,6 +16,8 @@ import {
   Button,
   Stack,
   Divider,
+  FormControlLabel,
+  Switch,
 } from "@mui/material";
 import {
   FilterAlt as FilterIcon,
@@ -23,8 +25,15 @@ import {
   Check as CheckIcon,
   Info as InfoIcon,
 } from "@mui/icons-material";
-import { FilterOptions, Location, TimeFrame } from "../types/revenue";
+import {
+  FilterOptions,
+  FiscalCalendar,
+  Location,
+  TimeFrame,
+} from "../types/revenue";
 import { format } from "date-fns";
+import { useLocations } from "../utils/locations";
+import { isFiscalTimeFrame } from "../utils/fiscalCalendar";
 
 interface FilterPanelProps {
   filters: {
@@ -36,8 +45,10 @@ interface FilterPanelProps {
     location: string;
     startDate?: string | null;
     endDate?: string | null;
+    comparePrevious?: boolean;
   };
   onFilterChange: (newFilters: any) => void;
+  fiscalCalendar?: FiscalCalendar; // Offers the fiscal time frames when set
 }
 
 const defaultFilters: FilterOptions = {
@@ -49,22 +60,36 @@ const defaultFilters: FilterOptions = {
     min: 0,
     max: 200,
   },
+  comparePrevious: false,
 };
 
 const timeFrameOptions = [
   { value: "MTD", label: "Month to Date" },
+  { value: "QTD", label: "Quarter to Date" },
   { value: "This Week", label: "This Week" },
   { value: "last30", label: "Last 30 Days" },
   { value: "last90", label: "Last 90 Days" },
+  { value: "lastMonth", label: "Last Month" },
+  { value: "lastQuarter", label: "Last Quarter" },
+  { value: "samePeriodLastYear", label: "Same Period Last Year" },
   { value: "YTD", label: "Year to Date" },
   { value: "all", label: "All Time" },
   { value: "custom", label: "Custom Range" },
 ];
 
+const fiscalTimeFrameOptions = [
+  { value: "FPTD", label: "Fiscal Period to Date" },
+  { value: "FQTD", label: "Fiscal Quarter to Date" },
+  { value: "FYTD", label: "Fiscal Year to Date" },
+];
+
 export const FilterPanel: React.FC<FilterPanelProps> = ({
   filters,
   onFilterChange,
+  fiscalCalendar,
 }) => {
+  const locations = useLocations();
+
   // Local state to track changes before applying
   const [localFilters, setLocalFilters] = useState<FilterOptions>({
     ...filters,
@@ -128,6 +153,7 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     if (localFilters.location !== defaultFilters.location) count++;
     if (localFilters.timeFrame !== defaultFilters.timeFrame) count++;
     if (localFilters.startDate || localFilters.endDate) count++;
+    if (localFilters.comparePrevious) count++;
     if (
       localFilters.attainmentThreshold.min !==
         defaultFilters.attainmentThreshold.min ||
@@ -172,8 +198,11 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
                 handleLocalChange("location", e.target.value as Location)
               }
             >
-              <MenuItem value="Austin">Austin</MenuItem>
-              <MenuItem value="Charlotte">Charlotte</MenuItem>
+              {locations.map((location) => (
+                <MenuItem key={location.id} value={location.id}>
+                  {location.name}
+                </MenuItem>
+              ))}
               <MenuItem value="Combined">Combined</MenuItem>
             </Select>
           </FormControl>
@@ -189,7 +218,14 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
                 handleLocalChange("timeFrame", e.target.value as TimeFrame)
               }
             >
-              {timeFrameOptions.map((option) => (
+              {[
+                ...timeFrameOptions,
+                // Kept while selected so clearing the calendar leaves a
+                // valid choice
+                ...(fiscalCalendar || isFiscalTimeFrame(localFilters.timeFrame)
+                  ? fiscalTimeFrameOptions
+                  : []),
+              ].map((option) => (
                 <MenuItem key={option.value} value={option.value}>
                   {option.label}
                 </MenuItem>
@@ -264,6 +300,27 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
           </Box>
         </Grid>
 
+        <Grid xs={12}>
+          <Box sx={{ px: 2, display: "flex", alignItems: "center" }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={!!localFilters.comparePrevious}
+                  onChange={(e) =>
+                    handleLocalChange("comparePrevious", e.target.checked)
+                  }
+                />
+              }
+              label="Compare with prior period"
+            />
+            <Tooltip title="Shows the period before the selected one next to it: the same days of the prior month for Month to Date, the prior quarter for Quarter to Date, and the same number of days just before for rolling and custom ranges. Not available for All Time.">
+              <IconButton size="small" color="primary">
+                <InfoIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        </Grid>
+
         <Grid xs={12}>
           <Divider sx={{ my: 1 }} />
           <Stack direction="row" spacing={2} justifyContent="flex-end">
@@ -0,0 +1,277 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Tooltip,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import {
+  DateRange as FiscalIcon,
+  Save as SaveIcon,
+  Close as CloseIcon,
+  ChevronLeft as PreviousIcon,
+  ChevronRight as NextIcon,
+} from "@mui/icons-material";
+import { differenceInCalendarDays, format } from "date-fns";
+import {
+  FiscalCalendar,
+  FiscalPeriodPattern,
+  TargetSettings,
+} from "../types/revenue";
+import {
+  FISCAL_PERIOD_PATTERNS,
+  FiscalPeriod,
+  formatFiscalPeriod,
+  getFiscalCalendar,
+  getFiscalPeriodOn,
+  getFiscalPeriods,
+} from "../utils/fiscalCalendar";
+import { getBusinessNow, parseDateKey } from "../utils/dates";
+
+interface FiscalCalendarSettingsProps {
+  currentSettings: TargetSettings;
+  onSettingsChange: (newSettings: TargetSettings) => void;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, month) =>
+  format(new Date(2000, month, 1), "MMMM")
+);
+
+const WEEKDAYS = Array.from({ length: 7 }, (_, day) =>
+  format(new Date(2000, 0, 2 + day), "EEEE")
+);
+
+const formatPeriodDate = (date: string) =>
+  format(parseDateKey(date), "EEE, MMM d, yyyy");
+
+const countWeeks = (period: FiscalPeriod) => {
+  const days =
+    differenceInCalendarDays(
+      parseDateKey(period.end),
+      parseDateKey(period.start)
+    ) + 1;
+  return days / 7;
+};
+
+// Fiscal years of twelve periods in 4-4-5 style quarters, used for the
+// fiscal time frames, their targets and pacing, and the historical trends
+export const FiscalCalendarSettings: React.FC<FiscalCalendarSettingsProps> = ({
+  currentSettings,
+  onSettingsChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<FiscalCalendar>(
+    getFiscalCalendar(currentSettings)
+  );
+  const [fiscalYear, setFiscalYear] = useState(
+    () => getFiscalPeriodOn(getBusinessNow(), draft).fiscalYear
+  );
+
+  const periods = getFiscalPeriods(fiscalYear, draft);
+
+  const handleOpen = () => {
+    const calendar = getFiscalCalendar(currentSettings);
+    setDraft(calendar);
+    setFiscalYear(getFiscalPeriodOn(getBusinessNow(), calendar).fiscalYear);
+    setOpen(true);
+  };
+
+  const handleClose = () => {
+    setOpen(false);
+  };
+
+  const handleDraftChange = (changes: Partial<FiscalCalendar>) => {
+    const calendar = { ...draft, ...changes };
+    setDraft(calendar);
+    setFiscalYear(getFiscalPeriodOn(getBusinessNow(), calendar).fiscalYear);
+  };
+
+  const handleSave = () => {
+    onSettingsChange({ ...currentSettings, fiscalCalendar: draft });
+    setOpen(false);
+  };
+
+  // Back to calendar months; the fiscal time frames are no longer offered
+  const handleClear = () => {
+    const { fiscalCalendar: _removed, ...settings } = currentSettings;
+    onSettingsChange(settings);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Tooltip title="Fiscal Calendar">
+        <IconButton
+          color="primary"
+          onClick={handleOpen}
+          data-testid="fiscal-calendar-button"
+        >
+          <FiscalIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Fiscal Calendar</Typography>
+            <IconButton onClick={handleClose} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            The fiscal year starts on the first chosen weekday of its month
+            and has twelve periods of whole weeks, grouped into quarters by
+            the pattern. The last period takes the extra week in 53-week
+            years. Years starting after January are named for the year they
+            end in.
+          </Typography>
+
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2} mt={2}>
+            <TextField
+              select
+              label="Fiscal Year Starts In"
+              size="small"
+              value={draft.startMonth}
+              onChange={(e) =>
+                handleDraftChange({ startMonth: Number(e.target.value) })
+              }
+              sx={{ minWidth: 180 }}
+            >
+              {MONTHS.map((name, month) => (
+                <MenuItem key={name} value={month}>
+                  {name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Weeks Start On"
+              size="small"
+              value={draft.weekStartsOn}
+              onChange={(e) =>
+                handleDraftChange({ weekStartsOn: Number(e.target.value) })
+              }
+              sx={{ minWidth: 160 }}
+            >
+              {WEEKDAYS.map((name, day) => (
+                <MenuItem key={name} value={day}>
+                  {name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Weeks per Period"
+              size="small"
+              value={draft.pattern}
+              onChange={(e) =>
+                handleDraftChange({
+                  pattern: e.target.value as FiscalPeriodPattern,
+                })
+              }
+              sx={{ minWidth: 160 }}
+            >
+              {FISCAL_PERIOD_PATTERNS.map((pattern) => (
+                <MenuItem key={pattern} value={pattern}>
+                  {pattern}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              mt: 3,
+            }}
+          >
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Periods
+            </Typography>
+            <Box sx={{ display: "flex", alignItems: "center" }}>
+              <IconButton
+                size="small"
+                onClick={() => setFiscalYear(fiscalYear - 1)}
+              >
+                <PreviousIcon />
+              </IconButton>
+              <Typography variant="subtitle2">FY{fiscalYear}</Typography>
+              <IconButton
+                size="small"
+                onClick={() => setFiscalYear(fiscalYear + 1)}
+              >
+                <NextIcon />
+              </IconButton>
+            </Box>
+          </Box>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Period</TableCell>
+                  <TableCell>Quarter</TableCell>
+                  <TableCell>Starts</TableCell>
+                  <TableCell>Ends</TableCell>
+                  <TableCell align="right">Weeks</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {periods.map((period) => (
+                  <TableRow key={period.start}>
+                    <TableCell>{formatFiscalPeriod(period)}</TableCell>
+                    <TableCell>Q{period.quarter}</TableCell>
+                    <TableCell>{formatPeriodDate(period.start)}</TableCell>
+                    <TableCell>{formatPeriodDate(period.end)}</TableCell>
+                    <TableCell align="right">{countWeeks(period)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </DialogContent>
+        <DialogActions>
+          {currentSettings.fiscalCalendar && (
+            <Button color="error" onClick={handleClear} sx={{ mr: "auto" }}>
+              Use Calendar Months
+            </Button>
+          )}
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+          >
+            Save Fiscal Calendar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
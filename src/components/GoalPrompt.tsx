@@ -9,11 +9,13 @@ import {
   Box,
   Typography,
 } from "@mui/material";
+import { DailyTarget } from "../types/revenue";
+import { useLocations } from "../utils/locations";
 
 interface GoalPromptProps {
   open: boolean;
   onClose: () => void;
-  onSave: (goal: { austin: number; charlotte: number }) => void;
+  onSave: (goal: DailyTarget) => void;
 }
 
 export const GoalPrompt: React.FC<GoalPromptProps> = ({
@@ -21,16 +23,18 @@ export const GoalPrompt: React.FC<GoalPromptProps> = ({
   onClose,
   onSave,
 }) => {
-  const [austinGoal, setAustinGoal] = useState("");
-  const [charlotteGoal, setCharlotteGoal] = useState("");
+  const locations = useLocations();
+  const [goals, setGoals] = useState<Record<string, string>>({});
 
   const handleSave = () => {
-    const austin = parseFloat(austinGoal);
-    const charlotte = parseFloat(charlotteGoal);
-
-    if (!isNaN(austin) && !isNaN(charlotte)) {
-      onSave({ austin, charlotte });
+    const parsed: DailyTarget = {};
+    for (const location of locations) {
+      const value = parseFloat(goals[location.id] ?? "");
+      if (isNaN(value)) return;
+      parsed[location.id] = value;
     }
+
+    onSave(parsed);
   };
 
   return (
@@ -41,20 +45,18 @@ export const GoalPrompt: React.FC<GoalPromptProps> = ({
           Please enter the sales goals for next month.
         </Typography>
         <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
-          <TextField
-            label="Austin Goal"
-            type="number"
-            value={austinGoal}
-            onChange={(e) => setAustinGoal(e.target.value)}
-            fullWidth
-          />
-          <TextField
-            label="Charlotte Goal"
-            type="number"
-            value={charlotteGoal}
-            onChange={(e) => setCharlotteGoal(e.target.value)}
-            fullWidth
-          />
+          {locations.map((location) => (
+            <TextField
+              key={location.id}
+              label={`${location.name} Goal`}
+              type="number"
+              value={goals[location.id] ?? ""}
+              onChange={(e) =>
+                setGoals((prev) => ({ ...prev, [location.id]: e.target.value }))
+              }
+              fullWidth
+            />
+          ))}
         </Box>
       </DialogContent>
       <DialogActions>
@@ -0,0 +1,350 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Alert,
+  Tooltip,
+  Checkbox,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import {
+  Event as HolidayIcon,
+  Save as SaveIcon,
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ChevronLeft as PreviousIcon,
+  ChevronRight as NextIcon,
+} from "@mui/icons-material";
+import { format, parseISO } from "date-fns";
+import {
+  CustomHoliday,
+  FederalHolidayId,
+  HolidayCalendar,
+  LocationId,
+} from "../types/revenue";
+import { useLocations } from "../utils/locations";
+import {
+  DEFAULT_HOLIDAY_CALENDAR,
+  getHolidaysInYear,
+  useHolidayCalendar,
+} from "../utils/holidays";
+
+interface HolidaySettingsProps {
+  onHolidaysChange: (calendar: HolidayCalendar) => Promise<void>;
+}
+
+const ALL_LOCATIONS = "all";
+
+const formatHolidayDate = (date: string) =>
+  format(parseISO(date), "EEE, MMM d, yyyy");
+
+export const HolidaySettings: React.FC<HolidaySettingsProps> = ({
+  onHolidaysChange,
+}) => {
+  const locations = useLocations();
+  const calendar = useHolidayCalendar();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<HolidayCalendar>(
+    DEFAULT_HOLIDAY_CALENDAR
+  );
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newLocation, setNewLocation] = useState<string>(ALL_LOCATIONS);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Federal holidays for the selected year; exceptions are applied per
+  // checkbox below, so resolve them against an empty calendar
+  const federalHolidays = getHolidaysInYear(
+    year,
+    DEFAULT_HOLIDAY_CALENDAR,
+    locations
+  );
+
+  const handleOpen = () => {
+    setDraft(calendar);
+    setYear(new Date().getFullYear());
+    setNewDate("");
+    setNewName("");
+    setNewLocation(ALL_LOCATIONS);
+    setError(null);
+    setOpen(true);
+  };
+
+  const handleClose = () => {
+    setOpen(false);
+  };
+
+  const isObserved = (locationId: LocationId, holidayId: FederalHolidayId) =>
+    !draft.federalExceptions[locationId]?.includes(holidayId);
+
+  const handleToggleFederal = (
+    locationId: LocationId,
+    holidayId: FederalHolidayId
+  ) => {
+    setDraft((prev) => {
+      const exceptions = prev.federalExceptions[locationId] || [];
+      const updated = exceptions.includes(holidayId)
+        ? exceptions.filter((id) => id !== holidayId)
+        : [...exceptions, holidayId];
+      const federalExceptions = { ...prev.federalExceptions };
+      if (updated.length > 0) {
+        federalExceptions[locationId] = updated;
+      } else {
+        delete federalExceptions[locationId];
+      }
+      return { ...prev, federalExceptions };
+    });
+  };
+
+  const handleAddCustom = () => {
+    const name = newName.trim();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate) || !name) {
+      setError("A company holiday needs a date and a name");
+      return;
+    }
+
+    const holiday: CustomHoliday = { date: newDate, name };
+    if (newLocation !== ALL_LOCATIONS) holiday.locationIds = [newLocation];
+
+    setDraft((prev) => ({
+      ...prev,
+      customHolidays: [...prev.customHolidays, holiday].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+    }));
+    setNewDate("");
+    setNewName("");
+    setError(null);
+  };
+
+  const handleRemoveCustom = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      customHolidays: prev.customHolidays.filter((_, i) => i !== index),
+    }));
+  };
+
+  const describeLocations = (holiday: CustomHoliday) =>
+    holiday.locationIds && holiday.locationIds.length > 0
+      ? locations
+          .filter((location) => holiday.locationIds!.includes(location.id))
+          .map((location) => location.name)
+          .join(", ") || holiday.locationIds.join(", ")
+      : "All locations";
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onHolidaysChange(draft);
+      setOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Holiday Calendar">
+        <IconButton
+          color="primary"
+          onClick={handleOpen}
+          data-testid="holiday-settings-button"
+        >
+          <HolidayIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Holiday Calendar</Typography>
+            <IconButton onClick={handleClose} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Holidays are not business days: they are left out of working-day
+            counts, monthly working days and missing-data alerts. Untick a
+            federal holiday for locations that stay open.
+          </Typography>
+
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              mt: 2,
+            }}
+          >
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Federal Holidays
+            </Typography>
+            <Box sx={{ display: "flex", alignItems: "center" }}>
+              <IconButton size="small" onClick={() => setYear(year - 1)}>
+                <PreviousIcon />
+              </IconButton>
+              <Typography variant="subtitle2">{year}</Typography>
+              <IconButton size="small" onClick={() => setYear(year + 1)}>
+                <NextIcon />
+              </IconButton>
+            </Box>
+          </Box>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Holiday</TableCell>
+                  <TableCell>Observed</TableCell>
+                  {locations.map((location) => (
+                    <TableCell key={location.id} align="center">
+                      {location.name}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {federalHolidays.map((holiday) => (
+                  <TableRow key={holiday.date + holiday.federalId}>
+                    <TableCell>{holiday.name}</TableCell>
+                    <TableCell>{formatHolidayDate(holiday.date)}</TableCell>
+                    {locations.map((location) => (
+                      <TableCell key={location.id} align="center">
+                        <Checkbox
+                          size="small"
+                          checked={isObserved(location.id, holiday.federalId!)}
+                          onChange={() =>
+                            handleToggleFederal(location.id, holiday.federalId!)
+                          }
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, mt: 3 }}>
+            Company Holidays
+          </Typography>
+          {draft.customHolidays.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No company holidays.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Closed</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {draft.customHolidays.map((holiday, index) => (
+                    <TableRow key={`${holiday.date}-${index}`}>
+                      <TableCell>{formatHolidayDate(holiday.date)}</TableCell>
+                      <TableCell>{holiday.name}</TableCell>
+                      <TableCell>{describeLocations(holiday)}</TableCell>
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleRemoveCustom(index)}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2} mt={2}>
+            <TextField
+              label="Date"
+              type="date"
+              size="small"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Name"
+              size="small"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              label="Location"
+              size="small"
+              value={newLocation}
+              onChange={(e) => setNewLocation(e.target.value)}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value={ALL_LOCATIONS}>All locations</MenuItem>
+              {locations.map((location) => (
+                <MenuItem key={location.id} value={location.id}>
+                  {location.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Button startIcon={<AddIcon />} onClick={handleAddCustom}>
+              Add
+            </Button>
+          </Stack>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            disabled={saving}
+          >
+            Save Holidays
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
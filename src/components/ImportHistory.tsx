@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import {
+  History as HistoryIcon,
+  Close as CloseIcon,
+  Undo as UndoIcon,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import { ImportBatch, ImportRollbackResult } from "../types/importBatch";
+import { importBatchService } from "../services/importBatchService";
+
+const formatTime = (time: number) =>
+  format(new Date(time), "MMM d, yyyy h:mm a");
+
+const describeResult = (result: ImportRollbackResult) => {
+  const parts = [`Restored ${result.restored.length} entries.`];
+  if (result.skipped.length > 0) {
+    parts.push(
+      `Left ${result.skipped.length} changed since the import: ` +
+        `${result.skipped.join(", ")}.`
+    );
+  }
+  if (result.failed.length > 0) {
+    parts.push(`Failed: ${result.failed.join(", ")}. Try again.`);
+  }
+  return parts.join(" ");
+};
+
+// Revenue and lead CSV imports, with roll back of a whole import
+export const ImportHistory: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    severity: "success" | "warning";
+    message: string;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    return importBatchService.subscribeToBatches(setBatches);
+  }, [open]);
+
+  const handleRollBack = async (batch: ImportBatch) => {
+    if (
+      !window.confirm(
+        `Roll back the import of ${batch.fileName}? Its ` +
+          `${batch.entries.length} entries go back to how they were before it.`
+      )
+    ) {
+      return;
+    }
+    setRollingBack(batch.id);
+    setResult(null);
+    try {
+      const outcome = await importBatchService.rollBack(batch);
+      setResult({
+        severity:
+          outcome.skipped.length + outcome.failed.length > 0
+            ? "warning"
+            : "success",
+        message: describeResult(outcome),
+      });
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Import History">
+        <IconButton
+          color="primary"
+          onClick={() => setOpen(true)}
+          data-testid="import-history-button"
+        >
+          <HistoryIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Import History</Typography>
+            <IconButton onClick={() => setOpen(false)} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Rolling back an import restores the entries it replaced and moves
+            the entries it created to the trash. Entries edited since the
+            import are left as they are.
+          </Typography>
+
+          {result && (
+            <Alert severity={result.severity} sx={{ mb: 2 }}>
+              {result.message}
+            </Alert>
+          )}
+
+          {batches.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No imports yet.
+            </Typography>
+          ) : (
+            <TableContainer sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Imported</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>File</TableCell>
+                    <TableCell align="right">Rows</TableCell>
+                    <TableCell align="right">Entries</TableCell>
+                    <TableCell>Imported By</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {batches.map((batch) => (
+                    <TableRow key={batch.id}>
+                      <TableCell>{formatTime(batch.importedAt)}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={batch.kind === "leads" ? "Leads" : "Revenue"}
+                          size="small"
+                          color={batch.kind === "leads" ? "info" : "primary"}
+                        />
+                      </TableCell>
+                      <TableCell>{batch.fileName || "—"}</TableCell>
+                      <TableCell align="right">{batch.rowCount}</TableCell>
+                      <TableCell align="right">
+                        {batch.entries.length}
+                      </TableCell>
+                      <TableCell>{batch.importedBy}</TableCell>
+                      <TableCell align="right">
+                        {batch.rolledBackAt ? (
+                          <Tooltip
+                            title={`By ${batch.rolledBackBy ?? "Unknown"} ` +
+                              `on ${formatTime(batch.rolledBackAt)}`}
+                          >
+                            <Chip label="Rolled back" size="small" />
+                          </Tooltip>
+                        ) : (
+                          <Button
+                            size="small"
+                            startIcon={<UndoIcon />}
+                            onClick={() => handleRollBack(batch)}
+                            disabled={rollingBack !== null}
+                          >
+                            {rollingBack === batch.id
+                              ? "Rolling Back..."
+                              : "Roll Back"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
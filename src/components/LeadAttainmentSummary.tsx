@@ -25,6 +25,8 @@ import {
 } from "@mui/icons-material";
 import { format } from "date-fns";
 import { leadService, LeadEntryStored, SiteKey } from "../services/leadService";
+import { findLocation, useLocations } from "../utils/locations";
+import { getNow } from "../utils/asOf";
 
 interface LeadAttainmentSummaryProps {
   date?: Date;
@@ -115,16 +117,14 @@ const MetricCard: React.FC<{
 };
 
 export const LeadAttainmentSummary: React.FC<LeadAttainmentSummaryProps> = ({
-  date = new Date(),
+  date = getNow(),
   showCombined = true,
 }) => {
   const [loading, setLoading] = useState(true);
   const [siteData, setSiteData] = useState<
     Record<SiteKey, LeadEntryStored | null>
-  >({
-    ATX: null,
-    CLT: null,
-  });
+  >({});
+  const locations = useLocations();
 
   const dateISO = format(date, "yyyy-MM-dd");
 
@@ -136,7 +136,7 @@ export const LeadAttainmentSummary: React.FC<LeadAttainmentSummaryProps> = ({
     });
 
     return () => unsubscribe();
-  }, [dateISO]);
+  }, [dateISO, locations]);
 
   if (loading) {
     return (
@@ -146,7 +146,10 @@ export const LeadAttainmentSummary: React.FC<LeadAttainmentSummaryProps> = ({
     );
   }
 
-  const hasData = siteData.ATX || siteData.CLT;
+  const reportedSites = locations
+    .map((location) => siteData[location.leadSiteKey])
+    .filter((entry): entry is LeadEntryStored => !!entry);
+  const hasData = reportedSites.length > 0;
 
   if (!hasData) {
     return (
@@ -158,22 +161,15 @@ export const LeadAttainmentSummary: React.FC<LeadAttainmentSummaryProps> = ({
   }
 
   // Calculate combined metrics
+  const sumSites = (getValue: (entry: LeadEntryStored) => number | undefined) =>
+    reportedSites.reduce((sum, entry) => sum + (getValue(entry) || 0), 0);
+
   const combinedMetrics = {
-    availableAgents:
-      (siteData.ATX?.availableAgents || 0) +
-      (siteData.CLT?.availableAgents || 0),
-    totalBillableLeads:
-      (siteData.ATX?.totalBillableLeads || 0) +
-      (siteData.CLT?.totalBillableLeads || 0),
-    targetLeads:
-      (siteData.ATX?.derived.targetLeads || 0) +
-      (siteData.CLT?.derived.targetLeads || 0),
-    agentsMeetingMin:
-      (siteData.ATX?.agentsMeetingMin || 0) +
-      (siteData.CLT?.agentsMeetingMin || 0),
-    openOrderZeroLeads:
-      (siteData.ATX?.openOrderZeroLeads || 0) +
-      (siteData.CLT?.openOrderZeroLeads || 0),
+    availableAgents: sumSites((entry) => entry.availableAgents),
+    totalBillableLeads: sumSites((entry) => entry.totalBillableLeads),
+    targetLeads: sumSites((entry) => entry.derived.targetLeads),
+    agentsMeetingMin: sumSites((entry) => entry.agentsMeetingMin),
+    openOrderZeroLeads: sumSites((entry) => entry.openOrderZeroLeads),
   };
 
   const combinedAttainment =
@@ -213,7 +209,7 @@ export const LeadAttainmentSummary: React.FC<LeadAttainmentSummaryProps> = ({
           <Stack direction="row" alignItems="center" spacing={2}>
             <LocationOn sx={{ color: "primary.main" }} />
             <Typography variant="h6" sx={{ fontWeight: 600 }}>
-              {site === "ATX" ? "Austin" : "Charlotte"}
+              {findLocation(site, locations)?.name ?? site}
             </Typography>
             <Chip
               label={`${attainmentPct.toFixed(1)}%`}
@@ -378,72 +374,44 @@ export const LeadAttainmentSummary: React.FC<LeadAttainmentSummaryProps> = ({
       )}
 
       <Grid container spacing={3}>
-        <Grid item xs={12} lg={6}>
-          {siteData.ATX ? (
-            renderSiteMetrics("ATX", siteData.ATX)
-          ) : (
-            <Paper
-              elevation={0}
-              sx={{
-                p: 3,
-                border: "1px solid",
-                borderColor: "divider",
-                borderRadius: 2,
-                bgcolor: "background.default",
-              }}
-            >
-              <Stack spacing={2} alignItems="center">
-                <AddCircleOutline
-                  sx={{ fontSize: 48, color: "text.secondary", opacity: 0.5 }}
-                />
-                <Typography variant="h6" color="text.secondary">
-                  No Austin Data
-                </Typography>
-                <Typography
-                  variant="body2"
-                  color="text.secondary"
-                  textAlign="center"
-                >
-                  Lead attainment data for Austin has not been entered for{" "}
-                  {format(date, "MMMM d, yyyy")}
-                </Typography>
-              </Stack>
-            </Paper>
-          )}
-        </Grid>
-        <Grid item xs={12} lg={6}>
-          {siteData.CLT ? (
-            renderSiteMetrics("CLT", siteData.CLT)
-          ) : (
-            <Paper
-              elevation={0}
-              sx={{
-                p: 3,
-                border: "1px solid",
-                borderColor: "divider",
-                borderRadius: 2,
-                bgcolor: "background.default",
-              }}
-            >
-              <Stack spacing={2} alignItems="center">
-                <AddCircleOutline
-                  sx={{ fontSize: 48, color: "text.secondary", opacity: 0.5 }}
-                />
-                <Typography variant="h6" color="text.secondary">
-                  No Charlotte Data
-                </Typography>
-                <Typography
-                  variant="body2"
-                  color="text.secondary"
-                  textAlign="center"
-                >
-                  Lead attainment data for Charlotte has not been entered for{" "}
-                  {format(date, "MMMM d, yyyy")}
-                </Typography>
-              </Stack>
-            </Paper>
-          )}
-        </Grid>
+        {locations.map((location) => (
+          <Grid item xs={12} lg={6} key={location.id}>
+            {siteData[location.leadSiteKey] ? (
+              renderSiteMetrics(
+                location.leadSiteKey,
+                siteData[location.leadSiteKey]
+              )
+            ) : (
+              <Paper
+                elevation={0}
+                sx={{
+                  p: 3,
+                  border: "1px solid",
+                  borderColor: "divider",
+                  borderRadius: 2,
+                  bgcolor: "background.default",
+                }}
+              >
+                <Stack spacing={2} alignItems="center">
+                  <AddCircleOutline
+                    sx={{ fontSize: 48, color: "text.secondary", opacity: 0.5 }}
+                  />
+                  <Typography variant="h6" color="text.secondary">
+                    No {location.name} Data
+                  </Typography>
+                  <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    textAlign="center"
+                  >
+                    Lead attainment data for {location.name} has not been
+                    entered for {format(date, "MMMM d, yyyy")}
+                  </Typography>
+                </Stack>
+              </Paper>
+            )}
+          </Grid>
+        ))}
       </Grid>
     </Stack>
   );
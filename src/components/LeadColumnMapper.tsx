@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Typography,
+  Stack,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+  alpha,
+  Theme,
+} from "@mui/material";
+import { Delete as DeleteIcon, Save as SaveIcon } from "@mui/icons-material";
+import { leadService } from "../services/leadService";
+import {
+  LeadColumnMapping,
+  LeadImportField,
+  LeadImportProfile,
+} from "../types/leadImport";
+import {
+  createLeadImportProfileId,
+  getUnmappedLeadFields,
+  hasLeadRowErrors,
+  LEAD_IMPORT_FIELDS,
+  ParsedLeadRow,
+} from "../utils/leadImport";
+
+interface LeadColumnMapperProps {
+  headers: string[];
+  rows: ParsedLeadRow[]; // Rows parsed with the current mapping
+  mapping: LeadColumnMapping;
+  profileId: string; // "" when no saved profile is selected
+  profiles: LeadImportProfile[];
+  onChange: (mapping: LeadColumnMapping, profileId: string) => void;
+}
+
+const NO_PROFILE = "";
+const NOT_IN_FILE = "";
+const PREVIEW_ROWS = 50;
+
+// What an import does without the optional fields
+const UNMAPPED_HELP: Partial<Record<LeadImportField, string>> = {
+  openOrder: "Every agent in the file has an open order",
+  date: "Pick one date for the whole file next",
+  site: "Pick one site for the whole file next",
+};
+
+const errorCellSx = (error?: string) =>
+  error
+    ? { bgcolor: (theme: Theme) => alpha(theme.palette.error.main, 0.12) }
+    : undefined;
+
+// First step of the lead CSV import: map the file's headers to fields,
+// optionally from a saved profile, and preview the parsed rows
+export const LeadColumnMapper: React.FC<LeadColumnMapperProps> = ({
+  headers,
+  rows,
+  mapping,
+  profileId,
+  profiles,
+  onChange,
+}) => {
+  const profile = profiles.find((profile) => profile.id === profileId);
+  const [profileName, setProfileName] = useState(profile?.name ?? "");
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProfileName(profile?.name ?? "");
+  }, [profile?.name]);
+
+  const unmapped = getUnmappedLeadFields(mapping, headers);
+  const errorRows = rows.filter(hasLeadRowErrors);
+  const shownRows = (onlyErrors ? errorRows : rows).slice(0, PREVIEW_ROWS);
+  const isModified =
+    !!profile &&
+    LEAD_IMPORT_FIELDS.some(
+      ({ field }) => (profile.columns[field] ?? "") !== (mapping[field] ?? "")
+    );
+
+  const handleProfileChange = (id: string) => {
+    const selected = profiles.find((profile) => profile.id === id);
+    onChange(selected ? { ...selected.columns } : mapping, id);
+  };
+
+  const handleFieldChange = (field: LeadImportField, header: string) => {
+    const updated = { ...mapping };
+    if (header) {
+      updated[field] = header;
+    } else {
+      delete updated[field];
+    }
+    onChange(updated, profileId);
+  };
+
+  const handleSaveProfile = async () => {
+    const name = profileName.trim();
+    if (!name) {
+      setProfileError("Name the report source to save this mapping");
+      return;
+    }
+    const saved: LeadImportProfile = {
+      id: createLeadImportProfileId(name),
+      name,
+      columns: mapping,
+      updatedAt: Date.now(),
+    };
+    try {
+      await leadService.saveImportProfile(saved);
+      setProfileError(null);
+      onChange(mapping, saved.id);
+    } catch (err) {
+      console.error("Error saving lead import profile:", err);
+      setProfileError("Failed to save the profile. Please try again.");
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profile) return;
+    if (!window.confirm(`Delete the "${profile.name}" column mapping?`)) {
+      return;
+    }
+    try {
+      await leadService.deleteImportProfile(profile.id);
+      onChange(mapping, NO_PROFILE);
+    } catch (err) {
+      console.error("Error deleting lead import profile:", err);
+      setProfileError("Failed to delete the profile. Please try again.");
+    }
+  };
+
+  return (
+    <Stack spacing={3}>
+      <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+        <TextField
+          select
+          label="Report Source"
+          value={profileId}
+          onChange={(e) => handleProfileChange(e.target.value)}
+          helperText={
+            isModified ? "Mapping changed; save to update the profile" : " "
+          }
+          SelectProps={{ displayEmpty: true }}
+          InputLabelProps={{ shrink: true }}
+          sx={{ flex: 1 }}
+        >
+          <MenuItem value={NO_PROFILE}>Unsaved mapping</MenuItem>
+          {profiles.map((profile) => (
+            <MenuItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          label="Save Mapping As"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="e.g. Dialer daily export"
+          InputLabelProps={{ shrink: true }}
+          sx={{ flex: 1 }}
+        />
+        <Box sx={{ display: "flex", alignItems: "flex-start", pt: 1 }}>
+          <Button startIcon={<SaveIcon />} onClick={handleSaveProfile}>
+            Save Profile
+          </Button>
+          {profile && (
+            <Tooltip title="Delete profile">
+              <IconButton onClick={handleDeleteProfile}>
+                <DeleteIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Box>
+      </Stack>
+
+      {profileError && <Alert severity="error">{profileError}</Alert>}
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", sm: "repeat(3, 1fr)" },
+          gap: 2,
+        }}
+      >
+        {LEAD_IMPORT_FIELDS.map(({ field, label, required }) => (
+          <TextField
+            key={field}
+            select
+            label={label}
+            value={mapping[field] ?? NOT_IN_FILE}
+            onChange={(e) => handleFieldChange(field, e.target.value)}
+            required={required}
+            error={unmapped.includes(field)}
+            helperText={
+              unmapped.includes(field)
+                ? mapping[field]
+                  ? `"${mapping[field]}" is not in this file`
+                  : "Choose a column"
+                : mapping[field]
+                ? " "
+                : UNMAPPED_HELP[field] ?? " "
+            }
+            SelectProps={{ displayEmpty: true }}
+            InputLabelProps={{ shrink: true }}
+          >
+            <MenuItem value={NOT_IN_FILE}>
+              {required ? "Choose a column" : "Not in file"}
+            </MenuItem>
+            {headers.map((header) => (
+              <MenuItem key={header} value={header}>
+                {header}
+              </MenuItem>
+            ))}
+          </TextField>
+        ))}
+      </Box>
+
+      <Box>
+        <Stack
+          direction="row"
+          alignItems="center"
+          justifyContent="space-between"
+          sx={{ mb: 1 }}
+        >
+          <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+            Parsed Rows ({rows.length - errorRows.length} of {rows.length}{" "}
+            valid)
+          </Typography>
+          {errorRows.length > 0 && (
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={onlyErrors}
+                  onChange={(e) => setOnlyErrors(e.target.checked)}
+                />
+              }
+              label="Only rows with errors"
+            />
+          )}
+        </Stack>
+        {errorRows.length > 0 && unmapped.length === 0 && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            {errorRows.length} rows have errors and will not be imported.
+          </Alert>
+        )}
+        <TableContainer
+          component={Paper}
+          variant="outlined"
+          sx={{ maxHeight: 300 }}
+        >
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Row</TableCell>
+                <TableCell>Agent Name</TableCell>
+                <TableCell align="right">Billable Leads</TableCell>
+                <TableCell align="center">Open Order</TableCell>
+                {mapping.date && <TableCell>Date</TableCell>}
+                {mapping.site && <TableCell>Site</TableCell>}
+                <TableCell>Errors</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {shownRows.map((row) => (
+                <TableRow key={row.rowNumber}>
+                  <TableCell>{row.rowNumber}</TableCell>
+                  <TableCell sx={errorCellSx(row.errors.agentName)}>
+                    {row.name || "—"}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={errorCellSx(row.errors.billableLeads)}
+                  >
+                    {row.errors.billableLeads ? "—" : row.leads}
+                  </TableCell>
+                  <TableCell
+                    align="center"
+                    sx={errorCellSx(row.errors.openOrder)}
+                  >
+                    {row.errors.openOrder
+                      ? "—"
+                      : row.hasOpenOrder
+                      ? "Yes"
+                      : "No"}
+                  </TableCell>
+                  {mapping.date && (
+                    <TableCell sx={errorCellSx(row.errors.date)}>
+                      {row.date ?? "—"}
+                    </TableCell>
+                  )}
+                  {mapping.site && (
+                    <TableCell sx={errorCellSx(row.errors.site)}>
+                      {row.site ?? "—"}
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Typography variant="caption" color="error">
+                      {Object.values(row.errors).join("; ")}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {(onlyErrors ? errorRows : rows).length > PREVIEW_ROWS && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            ... and {(onlyErrors ? errorRows : rows).length - PREVIEW_ROWS}{" "}
+            more rows
+          </Typography>
+        )}
+      </Box>
+    </Stack>
+  );
+};
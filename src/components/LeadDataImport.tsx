@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   Box,
   Button,
@@ -21,89 +21,272 @@ import {
   DialogActions,
   TextField,
   MenuItem,
+  ListSubheader,
+  Stepper,
+  Step,
+  StepLabel,
+  Checkbox,
 } from "@mui/material";
 import {
   Upload as UploadIcon,
   FileUpload,
   Info as InfoIcon,
-  Warning as WarningIcon,
 } from "@mui/icons-material";
 import Papa from "papaparse";
-import { leadService, SiteKey } from "../services/leadService";
+import {
+  leadService,
+  LeadAgentRecord,
+  LeadEntryStored,
+  SiteKey,
+  summarizeAgentLeads,
+} from "../services/leadService";
 import { isBusinessDay } from "../utils/calculations";
+import {
+  findLocation,
+  getLocations,
+  useLocations,
+} from "../utils/locations";
 import { parseISO } from "date-fns";
+import { getBusinessDate } from "../utils/dates";
+import { LocationConfig } from "../types/revenue";
+import { Agent, AgentMatch } from "../types/agents";
+import { agentService } from "../services/agentService";
+import { importBatchService } from "../services/importBatchService";
+import { LeadColumnMapping, LeadImportProfile } from "../types/leadImport";
+import {
+  findLeadImportProfile,
+  getUnmappedLeadFields,
+  groupLeadRows,
+  guessLeadColumns,
+  hasLeadRowErrors,
+  LeadImportGroup,
+  ParsedLeadRow,
+  parseLeadRows,
+} from "../utils/leadImport";
+import { LeadColumnMapper } from "./LeadColumnMapper";
+import {
+  createAgentId,
+  findAgent,
+  matchAgentName,
+  useAgentRoster,
+  withAgentAlias,
+} from "../utils/agents";
 
-interface LeadCSVRow {
-  agent_name?: string;
-  billable_leads?: string | number;
-  open_order?: string | boolean;
-  [key: string]: any;
-}
+type LeadCSVRow = Record<string, string | undefined>;
 
 interface ProcessedLeadData {
   availableAgents: number;
   totalBillableLeads: number;
   agentsMeetingMin: number;
   openOrderZeroLeads: number;
-  agentDetails: {
-    name: string;
-    leads: number;
-    hasOpenOrder: boolean;
-    meetsMin: boolean;
-  }[];
+  agentDetails: LeadAgentRecord[];
 }
 
-interface ExistingDataStatus {
-  ATX: boolean;
-  CLT: boolean;
+// Review choices for a CSV name besides a roster agent id
+const NEW_AGENT = "__new";
+const UNASSIGNED = "__unassigned";
+
+const IMPORT_STEPS = ["Map Columns", "Review & Import"];
+
+// Agent names are matched per site
+interface NameToMatch {
+  name: string;
+  site: SiteKey;
+  match: AgentMatch;
 }
 
+const getNameKey = (site: SiteKey, name: string) => `${site}|${name}`;
+
+// Holidays only block the sites that observe them
+const isGroupBusinessDay = (
+  group: LeadImportGroup,
+  locations: LocationConfig[]
+) => isBusinessDay(parseISO(group.date), findLocation(group.site, locations)?.id);
+
+// Totals from a set of valid rows; all of them are available agents
+const processCSVData = (rows: ParsedLeadRow[]): ProcessedLeadData => {
+  const agentDetails = rows.map(
+    (row): LeadAgentRecord => ({
+      name: row.name,
+      leads: row.leads,
+      hasOpenOrder: row.hasOpenOrder,
+      meetsMin: row.leads >= 8,
+    })
+  );
+
+  return {
+    ...summarizeAgentLeads(agentDetails),
+    agentDetails,
+  };
+};
+
 export const LeadDataImport: React.FC = () => {
   const [showDialog, setShowDialog] = useState(false);
-  const [csvData, setCsvData] = useState<ProcessedLeadData | null>(null);
-  const [selectedDate, setSelectedDate] = useState(
-    new Date().toISOString().split("T")[0]
+  const [step, setStep] = useState(0);
+  const [csvRows, setCsvRows] = useState<LeadCSVRow[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<LeadColumnMapping>({});
+  const [profileId, setProfileId] = useState("");
+  const [profiles, setProfiles] = useState<LeadImportProfile[]>([]);
+  const [selectedDate, setSelectedDate] = useState(getBusinessDate);
+  const locations = useLocations();
+  const [selectedSite, setSelectedSite] = useState<SiteKey>(
+    () => getLocations()[0].leadSiteKey
   );
-  const [selectedSite, setSelectedSite] = useState<SiteKey>("ATX");
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
-  const [existingData, setExistingData] = useState<ExistingDataStatus>({
-    ATX: false,
-    CLT: false,
-  });
+  const [savedCount, setSavedCount] = useState(0);
+  const [existingEntries, setExistingEntries] = useState<
+    Map<string, Record<SiteKey, LeadEntryStored | null>>
+  >(new Map());
+  // Entries on weekends or holidays the user chose to import, and business
+  // days they chose to skip, by entry key
+  const [included, setIncluded] = useState<Record<string, boolean>>({});
+  const roster = useAgentRoster();
+  // Review choices by site and CSV name: an agent id, NEW_AGENT or UNASSIGNED
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+
+  const parsedRows = useMemo(
+    () => parseLeadRows(csvRows, mapping, locations),
+    [csvRows, mapping, locations]
+  );
+  const validRows = useMemo(
+    () => parsedRows.filter((row) => !hasLeadRowErrors(row)),
+    [parsedRows]
+  );
+  const skippedRows = parsedRows.length - validRows.length;
+  const canContinue =
+    getUnmappedLeadFields(mapping, headers).length === 0 &&
+    validRows.length > 0;
+
+  // One lead entry per date and site in the file
+  const groups = useMemo(
+    () =>
+      groupLeadRows(validRows, { date: selectedDate, site: selectedSite }),
+    [validRows, selectedDate, selectedSite]
+  );
+  const isMultiEntry = !!mapping.date || !!mapping.site;
+
+  const isIncluded = (group: LeadImportGroup) =>
+    included[group.key] ?? isGroupBusinessDay(group, locations);
+  const includedGroups = useMemo(
+    () =>
+      groups.filter(
+        (group) => included[group.key] ?? isGroupBusinessDay(group, locations)
+      ),
+    [groups, included, locations]
+  );
+  const hasExisting = (date: string, site: SiteKey) =>
+    !!existingEntries.get(date)?.[site];
+
+  // Totals across the entries being imported
+  const csvData = useMemo(
+    () =>
+      includedGroups.length > 0
+        ? processCSVData(includedGroups.flatMap((group) => group.rows))
+        : null,
+    [includedGroups]
+  );
 
-  // Check for existing data when date changes
-  useEffect(() => {
-    const checkExistingData = async () => {
-      const [atxData, cltData] = await Promise.all([
-        leadService.getLeadEntry(selectedDate, "ATX"),
-        leadService.getLeadEntry(selectedDate, "CLT"),
-      ]);
-
-      setExistingData({
-        ATX: !!atxData,
-        CLT: !!cltData,
-      });
-    };
+  const previewRows = includedGroups.flatMap((group) =>
+    group.rows.map((row) => ({ group, row }))
+  );
+
+  // Roster matches for each distinct name and site being imported
+  const matches = useMemo(() => {
+    const result: Record<string, NameToMatch> = {};
+    if (step !== 1) return result;
+    includedGroups.forEach((group) =>
+      group.rows.forEach((row) => {
+        const key = getNameKey(group.site, row.name);
+        if (result[key]) return;
+        result[key] = {
+          name: row.name,
+          site: group.site,
+          match: matchAgentName(row.name, {
+            site: group.site,
+            date: group.date,
+            roster,
+          }),
+        };
+      })
+    );
+    return result;
+  }, [step, includedGroups, roster]);
+
+  // Exact matches need no review; close matches default to the suggestion
+  const resolutionFor = (key: string) =>
+    resolutions[key] ?? matches[key]?.match.agent?.id ?? "";
+  const namesToReview = Object.keys(matches).filter(
+    (key) => matches[key].match.status !== "exact"
+  );
+  const unresolvedCount = namesToReview.filter(
+    (key) => !resolutionFor(key)
+  ).length;
+  const reviewSites = new Set(namesToReview.map((key) => matches[key].site));
+
+  // Agents offered for a name: close matches first, then the rest of the
+  // site's roster
+  const reviewOptions = (key: string) => {
+    const { site, match } = matches[key];
+    const candidates = match.candidates;
+    const others = roster.filter(
+      (agent) =>
+        agent.site === site &&
+        !agent.terminatedOn &&
+        !candidates.includes(agent)
+    );
+    return { candidates, others };
+  };
 
-    checkExistingData();
-  }, [selectedDate]);
+  const describeResolution = (site: SiteKey, name: string) => {
+    const resolution = resolutionFor(getNameKey(site, name));
+    if (resolution === NEW_AGENT) return <Chip label="New agent" size="small" />;
+    if (resolution === UNASSIGNED) return "—";
+    const agent = findAgent(resolution, roster);
+    if (agent) return agent.name;
+    return <Chip label="Review" size="small" color="warning" />;
+  };
+
+  useEffect(() => leadService.subscribeToImportProfiles(setProfiles), []);
+
+  // Watch existing entries over the dates being imported, to flag overwrites
+  const dates = [selectedDate, ...groups.map((group) => group.date)].sort();
+  const firstDate = dates[0];
+  const lastDate = dates[dates.length - 1];
+  useEffect(() => {
+    if (!showDialog) return;
+    return leadService.subscribeToRange(firstDate, lastDate, setExistingEntries);
+  }, [showDialog, firstDate, lastDate]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setError(null);
-    setSuccess(false);
+    setSuccess(null);
 
     Papa.parse(file, {
       header: true,
       skipEmptyLines: true,
       complete: (results) => {
         try {
-          const processed = processCSVData(results.data as LeadCSVRow[]);
-          setCsvData(processed);
+          // Start from the newest saved profile that fits the file's
+          // headers, else from the known column names
+          const fileHeaders = results.meta.fields ?? [];
+          const profile = findLeadImportProfile(fileHeaders, profiles);
+          setCsvRows(results.data as LeadCSVRow[]);
+          setFileName(file.name);
+          setHeaders(fileHeaders);
+          setMapping(
+            profile ? { ...profile.columns } : guessLeadColumns(fileHeaders)
+          );
+          setProfileId(profile?.id ?? "");
+          setResolutions({});
+          setIncluded({});
+          setStep(0);
           setShowDialog(true);
         } catch (err) {
           setError(`Error processing CSV: ${err}`);
@@ -118,98 +301,112 @@ export const LeadDataImport: React.FC = () => {
     event.target.value = "";
   };
 
-  const processCSVData = (rows: LeadCSVRow[]): ProcessedLeadData => {
-    const agentDetails = rows.map((row) => {
-      // Try different column name variations for billable leads
-      const leadsValue =
-        row.billable_leads ||
-        row["Billable Leads"] ||
-        row["billable_leads"] ||
-        row["Leads"] ||
-        "";
-
-      // Parse leads - empty/null means 0 (absent)
-      const leads =
-        leadsValue === "" || leadsValue === null || leadsValue === undefined
-          ? 0
-          : parseInt(String(leadsValue)) || 0;
-
-      // All agents in the CSV have open orders (inferred by being in the list)
-      const hasOpenOrder = true;
-
-      const name =
-        row.agent_name ||
-        row["Agent Name"] ||
-        row["agent_name"] ||
-        row["Name"] ||
-        "Unknown";
-
-      return {
-        name,
-        leads,
-        hasOpenOrder,
-        meetsMin: leads >= 8,
-      };
-    });
-
-    // Calculate metrics according to the rules
-    // All agents in CSV are available agents
-    const availableAgents = agentDetails.length;
-
-    const totalBillableLeads = agentDetails.reduce(
-      (sum, agent) => sum + agent.leads,
-      0
-    );
-
-    const agentsMeetingMin = agentDetails.filter(
-      (agent) => agent.leads >= 8
-    ).length;
-
-    // Absent agents are those with 0 leads (which includes empty/null)
-    const openOrderZeroLeads = agentDetails.filter(
-      (agent) => agent.leads === 0
-    ).length;
-
-    return {
-      availableAgents,
-      totalBillableLeads,
-      agentsMeetingMin,
-      openOrderZeroLeads,
-      agentDetails,
-    };
+  const handleNext = () => {
+    setResolutions({});
+    setIncluded({});
+    setStep(1);
   };
 
   const handleSave = async () => {
-    if (!csvData) return;
+    if (includedGroups.length === 0) return;
 
-    // Validate business day
-    if (!isBusinessDay(parseISO(selectedDate))) {
-      setError(
-        "Cannot save data for weekend days. Please select a business day."
-      );
+    if (unresolvedCount > 0) {
+      setError("Choose an agent for every unmatched name before importing.");
       return;
     }
 
     setSaving(true);
+    setSavedCount(0);
     setError(null);
 
     try {
-      await leadService.upsertLeadEntry({
-        dateISO: selectedDate,
-        site: selectedSite,
-        availableAgents: csvData.availableAgents,
-        totalBillableLeads: csvData.totalBillableLeads,
-        agentsMeetingMin: csvData.agentsMeetingMin,
-        openOrderZeroLeads: csvData.openOrderZeroLeads,
-        notes: "Imported from CSV",
+      // Add new agents and remember the spellings resolved during review,
+      // so later imports match them automatically
+      const changed = new Map<string, Agent>();
+      const agentIds: Record<string, string | undefined> = {};
+      Object.entries(matches).forEach(([key, { name, site }]) => {
+        const resolution = resolutionFor(key);
+        if (resolution === UNASSIGNED) return;
+        if (resolution === NEW_AGENT) {
+          const agent: Agent = {
+            id: createAgentId(name, [...roster, ...changed.values()]),
+            name,
+            site,
+          };
+          changed.set(agent.id, agent);
+          agentIds[key] = agent.id;
+          return;
+        }
+        const agent = changed.get(resolution) ?? findAgent(resolution, roster);
+        if (!agent) return;
+        const updated = withAgentAlias(agent, name);
+        if (updated !== agent) changed.set(agent.id, updated);
+        agentIds[key] = agent.id;
       });
 
-      setSuccess(true);
+      if (!(await agentService.saveAgents([...changed.values()]))) {
+        setError("Failed to update the agent roster. Please try again.");
+        return;
+      }
+
+      // One entry per date and site; a failed entry does not stop the rest.
+      // The batch records the entries replaced, so the import can be rolled
+      // back from the import history.
+      const batch = importBatchService.createBatch(
+        "leads",
+        fileName,
+        includedGroups.reduce((sum, group) => sum + group.rows.length, 0)
+      );
+      const failed: string[] = [];
+      for (const group of includedGroups) {
+        const data = processCSVData(group.rows);
+        try {
+          const previous = await leadService.getLeadEntry(
+            group.date,
+            group.site
+          );
+          await leadService.upsertLeadEntry({
+            dateISO: group.date,
+            site: group.site,
+            availableAgents: data.availableAgents,
+            totalBillableLeads: data.totalBillableLeads,
+            agentsMeetingMin: data.agentsMeetingMin,
+            openOrderZeroLeads: data.openOrderZeroLeads,
+            notes: "Imported from CSV",
+            importBatchId: batch.id,
+            agents: data.agentDetails.map((agent) => {
+              const agentId = agentIds[getNameKey(group.site, agent.name)];
+              return agentId ? { ...agent, agentId } : agent;
+            }),
+          });
+          batch.entries.push({
+            date: group.date,
+            site: group.site,
+            previous,
+          });
+        } catch (err) {
+          console.error("Error importing lead entry:", err);
+          failed.push(`${group.site} ${group.date}`);
+        }
+        setSavedCount((count) => count + 1);
+      }
+      await importBatchService.saveBatch(batch);
+
+      if (failed.length > 0) {
+        setError(`Failed to import ${failed.join(", ")}. Please try again.`);
+        return;
+      }
+
+      setSuccess(
+        includedGroups.length === 1
+          ? "Lead data imported successfully!"
+          : `Imported ${includedGroups.length} lead entries successfully!`
+      );
       setShowDialog(false);
-      setCsvData(null);
+      setCsvRows([]);
 
       // Show success message for 3 seconds
-      setTimeout(() => setSuccess(false), 3000);
+      setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
       setError(`Error saving data: ${err}`);
     } finally {
@@ -219,7 +416,23 @@ export const LeadDataImport: React.FC = () => {
 
   const handleCancel = () => {
     setShowDialog(false);
-    setCsvData(null);
+    setCsvRows([]);
+    setResolutions({});
+  };
+
+  const handleResolve = (key: string, resolution: string) => {
+    setResolutions((prev) => ({ ...prev, [key]: resolution }));
+  };
+
+  const handleAddAllAsNew = () => {
+    setResolutions((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        namesToReview
+          .filter((key) => !resolutionFor(key))
+          .map((key) => [key, NEW_AGENT])
+      ),
+    }));
   };
 
   return (
@@ -245,15 +458,23 @@ export const LeadDataImport: React.FC = () => {
             <Alert severity="info" icon={<InfoIcon />}>
               <Stack spacing={1}>
                 <Typography variant="body2">
-                  Upload a CSV file with columns: <strong>agent_name</strong>{" "}
-                  and <strong>billable_leads</strong>
+                  Upload a CSV file with an agent name and a billable leads
+                  column, then map its columns or pick a saved report source
+                </Typography>
+                <Typography variant="body2" sx={{ fontSize: "0.875rem" }}>
+                  • Without an open order column, all agents in the CSV are
+                  considered to have open orders
                 </Typography>
                 <Typography variant="body2" sx={{ fontSize: "0.875rem" }}>
-                  • All agents in the CSV are considered to have open orders
+                  • Empty billable leads indicates an absent agent (0 leads)
                 </Typography>
                 <Typography variant="body2" sx={{ fontSize: "0.875rem" }}>
-                  • Empty or null billable_leads indicates an absent agent (0
-                  leads)
+                  • Files with date or site columns import one entry per date
+                  and site; weekends and holidays are skipped unless ticked
+                </Typography>
+                <Typography variant="body2" sx={{ fontSize: "0.875rem" }}>
+                  • Agent names are matched to the agent roster; names that do
+                  not match are reviewed before importing
                 </Typography>
               </Stack>
             </Alert>
@@ -279,201 +500,440 @@ export const LeadDataImport: React.FC = () => {
             </Box>
 
             {error && <Alert severity="error">{error}</Alert>}
-            {success && (
-              <Alert severity="success">Lead data imported successfully!</Alert>
-            )}
+            {success && <Alert severity="success">{success}</Alert>}
           </Stack>
         </CardContent>
       </Card>
 
-      {/* Preview Dialog */}
+      {/* Import Dialog */}
       <Dialog open={showDialog} onClose={handleCancel} maxWidth="md" fullWidth>
         <DialogTitle>
-          <Stack direction="row" alignItems="center" spacing={2}>
-            <Typography variant="h6">CSV Import Preview</Typography>
+          <Stack spacing={2}>
+            <Typography variant="h6">Import Lead CSV</Typography>
+            <Stepper activeStep={step}>
+              {IMPORT_STEPS.map((label) => (
+                <Step key={label}>
+                  <StepLabel>{label}</StepLabel>
+                </Step>
+              ))}
+            </Stepper>
           </Stack>
         </DialogTitle>
 
         <DialogContent>
-          <Stack spacing={3}>
-            <Stack direction="row" spacing={2}>
-              <TextField
-                label="Date"
-                type="date"
-                value={selectedDate}
-                onChange={(e) => setSelectedDate(e.target.value)}
-                InputLabelProps={{ shrink: true }}
-                error={!isBusinessDay(parseISO(selectedDate))}
-                helperText={
-                  !isBusinessDay(parseISO(selectedDate))
-                    ? "Weekend selected - data can only be entered for business days"
-                    : ""
-                }
-                sx={{ flex: 1 }}
-              />
-              <TextField
-                select
-                label="Site"
-                value={selectedSite}
-                onChange={(e) => setSelectedSite(e.target.value as SiteKey)}
-                sx={{ flex: 1 }}
-              >
-                <MenuItem value="ATX">
-                  Austin (ATX){" "}
-                  {existingData.ATX && (
-                    <Chip
-                      label="Has Data"
-                      size="small"
-                      color="warning"
-                      sx={{ ml: 1 }}
+          {step === 0 ? (
+            <LeadColumnMapper
+              headers={headers}
+              rows={parsedRows}
+              mapping={mapping}
+              profileId={profileId}
+              profiles={profiles}
+              onChange={(mapping, profileId) => {
+                setMapping(mapping);
+                setProfileId(profileId);
+              }}
+            />
+          ) : (
+            <Stack spacing={3}>
+              {skippedRows > 0 && (
+                <Alert severity="warning">
+                  {skippedRows} rows with errors will not be imported.
+                </Alert>
+              )}
+
+              {(!mapping.date || !mapping.site) && (
+                <Stack direction="row" spacing={2}>
+                  {!mapping.date && (
+                    <TextField
+                      label="Date"
+                      type="date"
+                      value={selectedDate}
+                      onChange={(e) => setSelectedDate(e.target.value)}
+                      InputLabelProps={{ shrink: true }}
+                      sx={{ flex: 1 }}
                     />
                   )}
-                </MenuItem>
-                <MenuItem value="CLT">
-                  Charlotte (CLT){" "}
-                  {existingData.CLT && (
-                    <Chip
-                      label="Has Data"
-                      size="small"
-                      color="warning"
-                      sx={{ ml: 1 }}
-                    />
+                  {!mapping.site && (
+                    <TextField
+                      select
+                      label="Site"
+                      value={selectedSite}
+                      onChange={(e) =>
+                        setSelectedSite(e.target.value as SiteKey)
+                      }
+                      sx={{ flex: 1 }}
+                    >
+                      {locations.map((location) => (
+                        <MenuItem key={location.id} value={location.leadSiteKey}>
+                          {location.name} ({location.leadSiteKey}){" "}
+                          {!mapping.date &&
+                            hasExisting(selectedDate, location.leadSiteKey) && (
+                              <Chip
+                                label="Has Data"
+                                size="small"
+                                color="warning"
+                                sx={{ ml: 1 }}
+                              />
+                            )}
+                        </MenuItem>
+                      ))}
+                    </TextField>
                   )}
-                </MenuItem>
-              </TextField>
-            </Stack>
+                </Stack>
+              )}
 
-            {existingData[selectedSite] && (
-              <Alert severity="warning" icon={<WarningIcon />}>
-                <Typography variant="body2">
-                  Data already exists for {selectedSite} on {selectedDate}.
-                  Importing will overwrite the existing data.
+              <Box>
+                <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+                  Lead Entries ({includedGroups.length} of {groups.length}{" "}
+                  selected)
                 </Typography>
-              </Alert>
-            )}
-
-            {csvData && (
-              <>
-                <Box
-                  sx={{
-                    display: "grid",
-                    gridTemplateColumns: "repeat(2, 1fr)",
-                    gap: 2,
-                    p: 2,
-                    bgcolor: "background.paper",
-                    borderRadius: 1,
-                    border: "1px solid",
-                    borderColor: "divider",
-                  }}
+                <TableContainer
+                  component={Paper}
+                  variant="outlined"
+                  sx={{ maxHeight: 300 }}
                 >
-                  <Box>
-                    <Typography variant="body2" color="text.secondary">
-                      Available Agents
-                    </Typography>
-                    <Typography variant="h6">
-                      {csvData.availableAgents}
-                    </Typography>
-                  </Box>
-                  <Box>
-                    <Typography variant="body2" color="text.secondary">
-                      Total Billable Leads
-                    </Typography>
-                    <Typography variant="h6">
-                      {csvData.totalBillableLeads}
-                    </Typography>
-                  </Box>
-                  <Box>
-                    <Typography variant="body2" color="text.secondary">
-                      Agents Meeting Min (≥8)
-                    </Typography>
-                    <Typography variant="h6">
-                      {csvData.agentsMeetingMin}
-                    </Typography>
-                  </Box>
-                  <Box>
-                    <Typography variant="body2" color="text.secondary">
-                      Absent Agents
-                    </Typography>
-                    <Typography variant="h6">
-                      {csvData.openOrderZeroLeads}
-                    </Typography>
-                  </Box>
-                </Box>
-
-                <Box>
-                  <Typography
-                    variant="subtitle2"
-                    sx={{ mb: 1, fontWeight: 600 }}
-                  >
-                    Agent Details (First 10)
-                  </Typography>
-                  <TableContainer
-                    component={Paper}
-                    variant="outlined"
-                    sx={{ maxHeight: 300 }}
-                  >
-                    <Table size="small" stickyHeader>
-                      <TableHead>
-                        <TableRow>
-                          <TableCell>Agent Name</TableCell>
-                          <TableCell align="right">Billable Leads</TableCell>
-                          <TableCell align="center">Open Order</TableCell>
-                          <TableCell align="center">Status</TableCell>
-                        </TableRow>
-                      </TableHead>
-                      <TableBody>
-                        {csvData.agentDetails.slice(0, 10).map((agent, idx) => (
-                          <TableRow key={idx}>
-                            <TableCell>{agent.name}</TableCell>
-                            <TableCell align="right">{agent.leads}</TableCell>
-                            <TableCell align="center">
-                              <Chip label="Yes" size="small" color="info" />
-                            </TableCell>
-                            <TableCell align="center">
-                              {agent.meetsMin && (
-                                <Chip label="≥8" size="small" color="success" />
-                              )}
-                              {agent.leads === 0 && (
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell padding="checkbox" />
+                        <TableCell>Date</TableCell>
+                        <TableCell>Site</TableCell>
+                        <TableCell align="right">Agents</TableCell>
+                        <TableCell align="right">Billable Leads</TableCell>
+                        <TableCell>Status</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {groups.map((group) => (
+                        <TableRow key={group.key}>
+                          <TableCell padding="checkbox">
+                            <Checkbox
+                              size="small"
+                              checked={isIncluded(group)}
+                              onChange={(e) =>
+                                setIncluded((prev) => ({
+                                  ...prev,
+                                  [group.key]: e.target.checked,
+                                }))
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>{group.date}</TableCell>
+                          <TableCell>{group.site}</TableCell>
+                          <TableCell align="right">{group.rows.length}</TableCell>
+                          <TableCell align="right">
+                            {group.rows.reduce((sum, row) => sum + row.leads, 0)}
+                          </TableCell>
+                          <TableCell>
+                            <Stack direction="row" spacing={1}>
+                              {hasExisting(group.date, group.site) ? (
                                 <Chip
-                                  label="Absent"
+                                  label="Overwrite"
                                   size="small"
                                   color="warning"
                                 />
+                              ) : (
+                                <Chip label="New" size="small" color="success" />
                               )}
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </TableContainer>
-                  {csvData.agentDetails.length > 10 && (
+                              {!isGroupBusinessDay(group, locations) && (
+                                <Chip label="Weekend or holiday" size="small" />
+                              )}
+                            </Stack>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  component="div"
+                  sx={{ mt: 1 }}
+                >
+                  Weekend and holiday entries are skipped unless ticked.
+                  Overwrites replace the stored entry and its agent rows.
+                </Typography>
+              </Box>
+
+              {csvData && (
+                <>
+                  <Box
+                    sx={{
+                      display: "grid",
+                      gridTemplateColumns: "repeat(2, 1fr)",
+                      gap: 2,
+                      p: 2,
+                      bgcolor: "background.paper",
+                      borderRadius: 1,
+                      border: "1px solid",
+                      borderColor: "divider",
+                    }}
+                  >
+                    <Box>
+                      <Typography variant="body2" color="text.secondary">
+                        Available Agents
+                      </Typography>
+                      <Typography variant="h6">
+                        {csvData.availableAgents}
+                      </Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="body2" color="text.secondary">
+                        Total Billable Leads
+                      </Typography>
+                      <Typography variant="h6">
+                        {csvData.totalBillableLeads}
+                      </Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="body2" color="text.secondary">
+                        Agents Meeting Min (≥8)
+                      </Typography>
+                      <Typography variant="h6">
+                        {csvData.agentsMeetingMin}
+                      </Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="body2" color="text.secondary">
+                        Absent Agents
+                      </Typography>
+                      <Typography variant="h6">
+                        {csvData.openOrderZeroLeads}
+                      </Typography>
+                    </Box>
+                  </Box>
+
+                  {namesToReview.length > 0 && (
+                    <Box>
+                      <Stack
+                        direction="row"
+                        alignItems="center"
+                        justifyContent="space-between"
+                        sx={{ mb: 1 }}
+                      >
+                        <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                          Review Agent Names ({namesToReview.length})
+                        </Typography>
+                        {unresolvedCount > 0 && (
+                          <Button size="small" onClick={handleAddAllAsNew}>
+                            Add Unmatched as New Agents
+                          </Button>
+                        )}
+                      </Stack>
+                      <Typography
+                        variant="body2"
+                        color="text.secondary"
+                        sx={{ mb: 1 }}
+                      >
+                        These names are not on their site's roster as written.
+                        Names resolved to an existing agent are saved as aliases
+                        so later imports match them.
+                      </Typography>
+                      <TableContainer
+                        component={Paper}
+                        variant="outlined"
+                        sx={{ maxHeight: 300 }}
+                      >
+                        <Table size="small" stickyHeader>
+                          <TableHead>
+                            <TableRow>
+                              <TableCell>Name in File</TableCell>
+                              {reviewSites.size > 1 && (
+                                <TableCell>Site</TableCell>
+                              )}
+                              <TableCell>Match</TableCell>
+                              <TableCell>Agent</TableCell>
+                            </TableRow>
+                          </TableHead>
+                          <TableBody>
+                            {namesToReview.map((key) => {
+                              const { name, site, match } = matches[key];
+                              const { candidates, others } = reviewOptions(key);
+                              return (
+                                <TableRow key={key}>
+                                  <TableCell>{name}</TableCell>
+                                  {reviewSites.size > 1 && (
+                                    <TableCell>{site}</TableCell>
+                                  )}
+                                  <TableCell>
+                                    {match.status === "fuzzy" ? (
+                                      <Chip
+                                        label={`Close (${Math.round(
+                                          match.score * 100
+                                        )}%)`}
+                                        size="small"
+                                        color="info"
+                                      />
+                                    ) : (
+                                      <Chip
+                                        label="No match"
+                                        size="small"
+                                        color="warning"
+                                      />
+                                    )}
+                                  </TableCell>
+                                  <TableCell sx={{ minWidth: 240 }}>
+                                    <TextField
+                                      select
+                                      size="small"
+                                      fullWidth
+                                      value={resolutionFor(key)}
+                                      onChange={(e) =>
+                                        handleResolve(key, e.target.value)
+                                      }
+                                      error={!resolutionFor(key)}
+                                      SelectProps={{ displayEmpty: true }}
+                                    >
+                                      <MenuItem value="" disabled>
+                                        Choose...
+                                      </MenuItem>
+                                      <MenuItem value={NEW_AGENT}>
+                                        Add as new agent
+                                      </MenuItem>
+                                      <MenuItem value={UNASSIGNED}>
+                                        Leave unassigned
+                                      </MenuItem>
+                                      {candidates.length > 0 && (
+                                        <ListSubheader>Close matches</ListSubheader>
+                                      )}
+                                      {candidates.map((agent) => (
+                                        <MenuItem key={agent.id} value={agent.id}>
+                                          {agent.name}
+                                          {agent.site !== site
+                                            ? ` (${agent.site})`
+                                            : ""}
+                                        </MenuItem>
+                                      ))}
+                                      {others.length > 0 && (
+                                        <ListSubheader>{site} roster</ListSubheader>
+                                      )}
+                                      {others.map((agent) => (
+                                        <MenuItem key={agent.id} value={agent.id}>
+                                          {agent.name}
+                                        </MenuItem>
+                                      ))}
+                                    </TextField>
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                      </TableContainer>
+                    </Box>
+                  )}
+
+                  <Box>
                     <Typography
-                      variant="body2"
-                      color="text.secondary"
-                      sx={{ mt: 1 }}
+                      variant="subtitle2"
+                      sx={{ mb: 1, fontWeight: 600 }}
                     >
-                      ... and {csvData.agentDetails.length - 10} more agents
+                      Agent Details (First 10)
                     </Typography>
-                  )}
-                </Box>
-              </>
-            )}
-          </Stack>
+                    <TableContainer
+                      component={Paper}
+                      variant="outlined"
+                      sx={{ maxHeight: 300 }}
+                    >
+                      <Table size="small" stickyHeader>
+                        <TableHead>
+                          <TableRow>
+                            {isMultiEntry && <TableCell>Date</TableCell>}
+                            {isMultiEntry && <TableCell>Site</TableCell>}
+                            <TableCell>Agent Name</TableCell>
+                            <TableCell>Roster Agent</TableCell>
+                            <TableCell align="right">Billable Leads</TableCell>
+                            <TableCell align="center">Open Order</TableCell>
+                            <TableCell align="center">Status</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {previewRows.slice(0, 10).map(({ group, row }) => (
+                            <TableRow key={row.rowNumber}>
+                              {isMultiEntry && (
+                                <TableCell>{group.date}</TableCell>
+                              )}
+                              {isMultiEntry && (
+                                <TableCell>{group.site}</TableCell>
+                              )}
+                              <TableCell>{row.name}</TableCell>
+                              <TableCell>
+                                {describeResolution(group.site, row.name)}
+                              </TableCell>
+                              <TableCell align="right">{row.leads}</TableCell>
+                              <TableCell align="center">
+                                <Chip
+                                  label={row.hasOpenOrder ? "Yes" : "No"}
+                                  size="small"
+                                  color={row.hasOpenOrder ? "info" : "default"}
+                                />
+                              </TableCell>
+                              <TableCell align="center">
+                                {row.leads >= 8 && (
+                                  <Chip label="≥8" size="small" color="success" />
+                                )}
+                                {row.hasOpenOrder && row.leads === 0 && (
+                                  <Chip
+                                    label="Absent"
+                                    size="small"
+                                    color="warning"
+                                  />
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                    {previewRows.length > 10 && (
+                      <Typography
+                        variant="body2"
+                        color="text.secondary"
+                        sx={{ mt: 1 }}
+                      >
+                        ... and {previewRows.length - 10} more agents
+                      </Typography>
+                    )}
+                  </Box>
+                </>
+              )}
+            </Stack>
+          )}
         </DialogContent>
 
         <DialogActions>
+          {step === 1 && (
+            <Button onClick={() => setStep(0)} disabled={saving}>
+              Back
+            </Button>
+          )}
           <Button onClick={handleCancel} disabled={saving}>
             Cancel
           </Button>
-          <Button
-            onClick={handleSave}
-            variant="contained"
-            disabled={
-              !csvData || saving || !isBusinessDay(parseISO(selectedDate))
-            }
-          >
-            {saving ? "Saving..." : "Import Data"}
-          </Button>
+          {step === 0 ? (
+            <Button
+              onClick={handleNext}
+              variant="contained"
+              disabled={!canContinue}
+            >
+              Next
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSave}
+              variant="contained"
+              disabled={
+                includedGroups.length === 0 || saving || unresolvedCount > 0
+              }
+            >
+              {saving
+                ? `Saving ${savedCount}/${includedGroups.length}...`
+                : includedGroups.length > 1
+                ? `Import ${includedGroups.length} Entries`
+                : "Import Data"}
+            </Button>
+          )}
         </DialogActions>
       </Dialog>
     </>
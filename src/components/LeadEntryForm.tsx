@@ -22,21 +22,49 @@ import {
   TrendingDown,
   Groups,
   Assignment,
+  History as HistoryIcon,
+  Delete as DeleteIcon,
 } from "@mui/icons-material";
-import { format, parseISO, isAfter, isWeekend } from "date-fns";
+import { parseISO, isWeekend } from "date-fns";
 import { leadService, SiteKey, LeadEntryStored } from "../services/leadService";
+import {
+  findLocation,
+  getLocations,
+  useLocations,
+} from "../utils/locations";
+import { getHolidaysOn } from "../utils/holidays";
+import { formatDateKey, getBusinessDate } from "../utils/dates";
+import { ChangeHistoryDrawer } from "./ChangeHistoryDrawer";
+import {
+  AuditEntry,
+  AuditValue,
+  auditService,
+  leadSubject,
+} from "../services/auditService";
+import { useAuth } from "../contexts/AuthContext";
 
 interface LeadEntryFormProps {
-  defaultDate?: Date;
+  defaultDate?: Date; // Today at the default site when omitted
+  defaultSite?: SiteKey; // The first location's site when omitted
   onEntrySuccess?: () => void;
 }
 
 export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
-  defaultDate = new Date(),
+  defaultDate,
+  defaultSite,
   onEntrySuccess,
 }) => {
-  const [date, setDate] = useState(format(defaultDate, "yyyy-MM-dd"));
-  const [site, setSite] = useState<SiteKey>("ATX");
+  const [date, setDate] = useState(() =>
+    defaultDate
+      ? formatDateKey(defaultDate)
+      : getBusinessDate(defaultSite ?? getLocations()[0].leadSiteKey)
+  );
+  const locations = useLocations();
+  const { user, permissions } = useAuth();
+  const readOnly = !permissions.enterData;
+  const [site, setSite] = useState<SiteKey>(
+    () => defaultSite ?? getLocations()[0].leadSiteKey
+  );
   const [availableAgents, setAvailableAgents] = useState("");
   const [totalBillableLeads, setTotalBillableLeads] = useState("");
   const [agentsMeetingMin, setAgentsMeetingMin] = useState("");
@@ -48,6 +76,17 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
   const [existingData, setExistingData] = useState<LeadEntryStored | null>(
     null
   );
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [editorName, setEditorName] = useState(auditService.getEditorName);
+  const [reason, setReason] = useState("");
+
+  // Holiday the selected site is closed for, if any
+  const siteLocationId = findLocation(site, locations)?.id;
+  const holiday = siteLocationId
+    ? getHolidaysOn(parseISO(date)).find((h) =>
+        h.locationIds.includes(siteLocationId)
+      )
+    : undefined;
 
   const minPerAgent = 8;
   const availableAgentsNum = parseFloat(availableAgents) || 0;
@@ -61,27 +100,31 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
       ? (agentsMeetingMinNum / availableAgentsNum) * 100
       : 0;
 
+  const showEntry = (existing: LeadEntryStored | null) => {
+    setExistingData(existing);
+    setReason("");
+
+    if (existing) {
+      setAvailableAgents(existing.availableAgents.toString());
+      setTotalBillableLeads(existing.totalBillableLeads.toString());
+      setAgentsMeetingMin(existing.agentsMeetingMin?.toString() || "");
+      setOpenOrderZeroLeads(existing.openOrderZeroLeads?.toString() || "");
+      setNotes(existing.notes || "");
+    } else {
+      // Clear form if no existing data
+      setAvailableAgents("");
+      setTotalBillableLeads("");
+      setAgentsMeetingMin("");
+      setOpenOrderZeroLeads("");
+      setNotes("");
+    }
+  };
+
   // Check for existing data when date or site changes
   useEffect(() => {
     const loadExisting = async () => {
       try {
-        const existing = await leadService.getLeadEntry(date, site);
-        setExistingData(existing);
-
-        if (existing) {
-          setAvailableAgents(existing.availableAgents.toString());
-          setTotalBillableLeads(existing.totalBillableLeads.toString());
-          setAgentsMeetingMin(existing.agentsMeetingMin?.toString() || "");
-          setOpenOrderZeroLeads(existing.openOrderZeroLeads?.toString() || "");
-          setNotes(existing.notes || "");
-        } else {
-          // Clear form if no existing data
-          setAvailableAgents("");
-          setTotalBillableLeads("");
-          setAgentsMeetingMin("");
-          setOpenOrderZeroLeads("");
-          setNotes("");
-        }
+        showEntry(await leadService.getLeadEntry(date, site));
       } catch (err) {
         console.error("Error loading existing data:", err);
       }
@@ -90,10 +133,13 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
     loadExisting();
   }, [date, site]);
 
+  // Dates after today in the site's time zone
+  const isFutureDate = date > getBusinessDate(site);
+
   const isFormValid = () => {
     if (!availableAgents || !totalBillableLeads) return false;
     if (availableAgentsNum < 0 || totalLeadsNum < 0) return false;
-    if (isAfter(parseISO(date), new Date())) return false;
+    if (isFutureDate) return false;
     return true;
   };
 
@@ -117,21 +163,29 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
     setShowSuccess(false);
 
     try {
-      await leadService.upsertLeadEntry({
-        dateISO: date,
-        site,
-        availableAgents: availableAgentsNum,
-        totalBillableLeads: totalLeadsNum,
-        minPerAgent,
-        agentsMeetingMin: agentsMeetingMin
-          ? parseFloat(agentsMeetingMin)
-          : undefined,
-        openOrderZeroLeads: openOrderZeroLeads
-          ? parseFloat(openOrderZeroLeads)
-          : undefined,
-        notes: notes || undefined,
-      });
+      auditService.setEditorName(editorName);
+      const saved = await leadService.upsertLeadEntry(
+        {
+          dateISO: date,
+          site,
+          availableAgents: availableAgentsNum,
+          totalBillableLeads: totalLeadsNum,
+          minPerAgent,
+          agentsMeetingMin: agentsMeetingMin
+            ? parseFloat(agentsMeetingMin)
+            : undefined,
+          openOrderZeroLeads: openOrderZeroLeads
+            ? parseFloat(openOrderZeroLeads)
+            : undefined,
+          notes: notes || undefined,
+        },
+        existingData ? existingData.savedAt : null,
+        reason
+      );
 
+      // Later edits are checked for conflicts against this version
+      setExistingData(saved);
+      setReason("");
       setShowSuccess(true);
       if (onEntrySuccess) onEntrySuccess();
 
@@ -147,6 +201,51 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
     }
   };
 
+  // Voids the entry; the reason field doubles as the reason for deletion
+  const handleDelete = async () => {
+    if (!existingData) return;
+    if (!window.confirm(`Move the ${site} entry for ${date} to the trash?`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      auditService.setEditorName(editorName);
+      await leadService.voidLeadEntry(date, site, existingData, reason);
+      showEntry(null);
+    } catch (err) {
+      console.error("Error deleting lead entry:", err);
+      setError("Failed to delete lead entry. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevert = async (change: AuditEntry) => {
+    try {
+      const reverted = await leadService.revertLeadChange(
+        change,
+        date,
+        site,
+        existingData
+      );
+      if (reverted) showEntry(reverted);
+    } catch (err) {
+      console.error("Error reverting lead entry:", err);
+      setError("Failed to revert the change. Please try again.");
+    }
+  };
+
+  const describeEntry = (value: AuditValue) => {
+    const entry = value as LeadEntryStored;
+    return `${entry.availableAgents} agents, ${
+      entry.totalBillableLeads
+    } leads (${(entry.derived.attainmentPct * 100).toFixed(1)}%)${
+      entry.agents ? `, ${entry.agents.length} agent rows` : ""
+    }`;
+  };
+
   return (
     <Paper
       elevation={2}
@@ -178,6 +277,21 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
           )}
         </Stack>
 
+        {readOnly && (
+          <Alert severity="info">
+            You have read-only access. Ask an admin for the Entry Clerk role to
+            enter lead data.
+          </Alert>
+        )}
+
+        {existingData?.agents && (
+          <Alert severity="info">
+            Imported from CSV with {existingData.agents.length} agent rows (
+            {existingData.agents.filter((agent) => agent.meetsMin).length} met
+            the minimum). Saving totals here replaces the agent rows.
+          </Alert>
+        )}
+
         <Grid container spacing={3}>
           <Grid xs={12} md={3}>
             <TextField
@@ -187,12 +301,14 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
               value={date}
               onChange={(e) => setDate(e.target.value)}
               InputLabelProps={{ shrink: true }}
-              error={isAfter(parseISO(date), new Date())}
+              error={isFutureDate}
               helperText={
-                isAfter(parseISO(date), new Date())
+                isFutureDate
                   ? "Cannot select future dates"
                   : isWeekend(parseISO(date))
                   ? "Weekend selected"
+                  : holiday
+                  ? `Holiday: ${holiday.name}`
                   : ""
               }
             />
@@ -206,8 +322,11 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
               value={site}
               onChange={(e) => setSite(e.target.value as SiteKey)}
             >
-              <MenuItem value="ATX">Austin (ATX)</MenuItem>
-              <MenuItem value="CLT">Charlotte (CLT)</MenuItem>
+              {locations.map((location) => (
+                <MenuItem key={location.id} value={location.leadSiteKey}>
+                  {location.name} ({location.leadSiteKey})
+                </MenuItem>
+              ))}
             </TextField>
           </Grid>
 
@@ -282,6 +401,30 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
               rows={1}
             />
           </Grid>
+
+          {existingData && (
+            <>
+              {!user && (
+                <Grid xs={12} md={3}>
+                  <TextField
+                    fullWidth
+                    label="Your Name"
+                    value={editorName}
+                    onChange={(e) => setEditorName(e.target.value)}
+                  />
+                </Grid>
+              )}
+              <Grid xs={12} md={user ? 12 : 9}>
+                <TextField
+                  fullWidth
+                  label="Reason for Change or Deletion"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  helperText="Recorded in the entry's change history"
+                />
+              </Grid>
+            </>
+          )}
         </Grid>
 
         {/* Metrics Display */}
@@ -357,11 +500,29 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
         )}
 
         <Stack direction="row" spacing={2} justifyContent="flex-end">
+          {existingData && (
+            <Button
+              variant="outlined"
+              color="error"
+              startIcon={<DeleteIcon />}
+              onClick={handleDelete}
+              disabled={saving || readOnly}
+            >
+              Delete Entry
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            startIcon={<HistoryIcon />}
+            onClick={() => setHistoryOpen(true)}
+          >
+            History
+          </Button>
           <Button
             variant="contained"
             color="primary"
             onClick={handleSave}
-            disabled={!isFormValid() || saving}
+            disabled={!isFormValid() || saving || readOnly}
             startIcon={<SaveIcon />}
           >
             {saving
@@ -411,6 +572,16 @@ export const LeadEntryForm: React.FC<LeadEntryFormProps> = ({
           </Alert>
         </Collapse>
       </Stack>
+
+      <ChangeHistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        title={`Lead History · ${site} · ${date}`}
+        subject={leadSubject(date, site)}
+        describe={describeEntry}
+        onRevert={handleRevert}
+        canRevert={!readOnly}
+      />
     </Paper>
   );
 };
@@ -0,0 +1,320 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Alert,
+  Tooltip,
+  Paper,
+  Stack,
+} from "@mui/material";
+import {
+  Place as PlaceIcon,
+  Save as SaveIcon,
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  SyncAlt as MigrateIcon,
+} from "@mui/icons-material";
+import { LocationConfig } from "../types/revenue";
+import { useLocations } from "../utils/locations";
+import { isValidTimeZone } from "../utils/dates";
+
+interface LocationSettingsProps {
+  onLocationsChange: (locations: LocationConfig[]) => Promise<void>;
+  onMigrateLegacyData: () => Promise<void>;
+}
+
+interface LocationDraft {
+  id: string;
+  name: string;
+  timeZone: string;
+  leadSiteKey: string;
+  defaultDailyTarget: string;
+  color?: string;
+  isNew: boolean;
+}
+
+const toDraft = (location: LocationConfig): LocationDraft => ({
+  id: location.id,
+  name: location.name,
+  timeZone: location.timeZone,
+  leadSiteKey: location.leadSiteKey,
+  defaultDailyTarget: location.defaultDailyTarget.toString(),
+  color: location.color,
+  isNew: false,
+});
+
+export const LocationSettings: React.FC<LocationSettingsProps> = ({
+  onLocationsChange,
+  onMigrateLegacyData,
+}) => {
+  const locations = useLocations();
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<LocationDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = () => {
+    setDrafts(locations.map(toDraft));
+    setError(null);
+    setOpen(true);
+  };
+
+  const handleClose = () => {
+    setOpen(false);
+  };
+
+  const updateDraft = (
+    index: number,
+    field: keyof LocationDraft,
+    value: string
+  ) => {
+    setDrafts((prev) =>
+      prev.map((draft, i) => (i === index ? { ...draft, [field]: value } : draft))
+    );
+  };
+
+  const handleAdd = () => {
+    setDrafts((prev) => [
+      ...prev,
+      {
+        id: "",
+        name: "",
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        leadSiteKey: "",
+        defaultDailyTarget: "",
+        isNew: true,
+      },
+    ]);
+  };
+
+  const handleRemove = (index: number) => {
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const parsed: LocationConfig[] = [];
+
+    for (const draft of drafts) {
+      const id = draft.id.trim().toLowerCase();
+      const name = draft.name.trim();
+      const leadSiteKey = draft.leadSiteKey.trim().toUpperCase();
+      const target = parseFloat(draft.defaultDailyTarget);
+
+      if (!id || !name || !leadSiteKey) {
+        setError("Each location needs an id, name and lead site key");
+        return;
+      }
+      if (!/^[a-z0-9_-]+$/.test(id)) {
+        setError(
+          `Location id "${id}" may only contain letters, numbers, "-" and "_"`
+        );
+        return;
+      }
+      if (!isValidTimeZone(draft.timeZone)) {
+        setError(`"${draft.timeZone}" is not a valid IANA time zone`);
+        return;
+      }
+      if (isNaN(target) || target <= 0) {
+        setError(`Default daily target for ${name} must be greater than zero`);
+        return;
+      }
+
+      const location: LocationConfig = {
+        id,
+        name,
+        timeZone: draft.timeZone,
+        leadSiteKey,
+        defaultDailyTarget: target,
+      };
+      if (draft.color) location.color = draft.color;
+      parsed.push(location);
+    }
+
+    if (parsed.length === 0) {
+      setError("At least one location is required");
+      return;
+    }
+
+    const ids = parsed.map((location) => location.id);
+    const siteKeys = parsed.map((location) => location.leadSiteKey);
+    if (new Set(ids).size !== ids.length) {
+      setError("Location ids must be unique");
+      return;
+    }
+    if (new Set(siteKeys).size !== siteKeys.length) {
+      setError("Lead site keys must be unique");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onLocationsChange(parsed);
+      setOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    setSaving(true);
+    try {
+      await onMigrateLegacyData();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Location Settings">
+        <IconButton
+          color="primary"
+          onClick={handleOpen}
+          data-testid="location-settings-button"
+        >
+          <PlaceIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Call Center Locations</Typography>
+            <IconButton onClick={handleClose} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Locations drive revenue entry, targets, charts and CSV columns
+            ("&lt;Name&gt; Revenue"). The id is stored with every revenue
+            record, so it cannot be changed once a location has data.
+          </Typography>
+
+          <Stack spacing={2}>
+            {drafts.map((draft, index) => (
+              <Paper key={index} variant="outlined" sx={{ p: 2 }}>
+                <Box
+                  sx={{
+                    display: "grid",
+                    gridTemplateColumns: {
+                      xs: "1fr",
+                      sm: "repeat(2, 1fr)",
+                      md: "repeat(5, 1fr) auto",
+                    },
+                    gap: 2,
+                    alignItems: "center",
+                  }}
+                >
+                  <TextField
+                    label="Id"
+                    size="small"
+                    value={draft.id}
+                    disabled={!draft.isNew}
+                    onChange={(e) => updateDraft(index, "id", e.target.value)}
+                  />
+                  <TextField
+                    label="Name"
+                    size="small"
+                    value={draft.name}
+                    onChange={(e) => updateDraft(index, "name", e.target.value)}
+                  />
+                  <TextField
+                    label="Time Zone"
+                    size="small"
+                    value={draft.timeZone}
+                    onChange={(e) =>
+                      updateDraft(index, "timeZone", e.target.value)
+                    }
+                  />
+                  <TextField
+                    label="Lead Site Key"
+                    size="small"
+                    value={draft.leadSiteKey}
+                    onChange={(e) =>
+                      updateDraft(index, "leadSiteKey", e.target.value)
+                    }
+                  />
+                  <TextField
+                    label="Default Daily Target"
+                    size="small"
+                    type="number"
+                    value={draft.defaultDailyTarget}
+                    onChange={(e) =>
+                      updateDraft(index, "defaultDailyTarget", e.target.value)
+                    }
+                  />
+                  <IconButton
+                    onClick={() => handleRemove(index)}
+                    disabled={drafts.length <= 1}
+                    size="small"
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </Box>
+              </Paper>
+            ))}
+          </Stack>
+
+          <Button startIcon={<AddIcon />} onClick={handleAdd} sx={{ mt: 2 }}>
+            Add Location
+          </Button>
+
+          <Alert
+            severity="info"
+            sx={{ mt: 3 }}
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                startIcon={<MigrateIcon />}
+                onClick={handleMigrate}
+                disabled={saving}
+              >
+                Migrate
+              </Button>
+            }
+          >
+            Revenue records saved before locations were configurable are read
+            automatically. Migrate rewrites them in the per-location format.
+          </Alert>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            variant="contained"
+            color="primary"
+            startIcon={<SaveIcon />}
+            disabled={saving}
+          >
+            Save Locations
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
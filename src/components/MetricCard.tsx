@@ -1,7 +1,11 @@
 import React from "react";
 import { Paper, Typography, Box, Divider } from "@mui/material";
 import { formatCurrency } from "../utils/formatters";
-import { TrendingUp, TrendingDown } from "@mui/icons-material";
+import {
+  TrendingUp,
+  TrendingDown,
+  TrendingFlat,
+} from "@mui/icons-material";
 
 interface MetricCardProps {
   title: string;
@@ -14,6 +18,10 @@ interface MetricCardProps {
   totalDays?: number;
   dailyPaceNeeded?: number;
   dailyTarget?: number;
+  // The prior period, when comparing
+  comparison?: { label: string; revenue: number; attainment: number };
+  // Forecast month-end revenue and its prediction interval
+  projection?: { forecast: number; lower: number; upper: number };
 }
 
 const MetricCard: React.FC<MetricCardProps> = ({
@@ -27,6 +35,8 @@ const MetricCard: React.FC<MetricCardProps> = ({
   totalDays = 0,
   dailyPaceNeeded = 0,
   dailyTarget = 0,
+  comparison,
+  projection,
 }) => {
   // Determine color based on attainment
   const getAttainmentColor = (value: number) => {
@@ -75,6 +85,40 @@ const MetricCard: React.FC<MetricCardProps> = ({
 
   const paceStatus = getDailyPaceStatus();
 
+  // Revenue change in percent (null without prior revenue) and attainment
+  // change in points
+  const getComparisonDeltas = () => {
+    if (!comparison) return null;
+    const revenueChange =
+      comparison.revenue > 0
+        ? ((revenue - comparison.revenue) / comparison.revenue) * 100
+        : null;
+    const attainmentChange = attainment - comparison.attainment;
+    const direction = revenueChange ?? attainmentChange;
+    return {
+      revenueChange,
+      attainmentChange,
+      icon:
+        direction > 0 ? (
+          <TrendingUp color="success" fontSize="small" />
+        ) : direction < 0 ? (
+          <TrendingDown color="error" fontSize="small" />
+        ) : (
+          <TrendingFlat color="action" fontSize="small" />
+        ),
+      color:
+        direction > 0
+          ? "success.main"
+          : direction < 0
+          ? "error.main"
+          : "text.secondary",
+    };
+  };
+
+  const deltas = getComparisonDeltas();
+  const formatChange = (value: number, unit: string) =>
+    `${value > 0 ? "+" : ""}${value.toFixed(1)}${unit}`;
+
   return (
     <Paper elevation={2} sx={{ p: 2, height: "100%" }}>
       <Typography variant="h6" gutterBottom>
@@ -102,6 +146,54 @@ const MetricCard: React.FC<MetricCardProps> = ({
         </Typography>
       </Box>
 
+      {projection && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Projected Month-End
+          </Typography>
+          <Typography
+            variant="h6"
+            sx={{
+              color: getAttainmentColor(
+                monthlyTarget > 0
+                  ? (projection.forecast / monthlyTarget) * 100
+                  : 0
+              ),
+            }}
+          >
+            {formatCurrency(projection.forecast)}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Likely {formatCurrency(projection.lower)} to{" "}
+            {formatCurrency(projection.upper)}
+          </Typography>
+        </Box>
+      )}
+
+      {comparison && deltas && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            vs. {comparison.label}: {formatCurrency(comparison.revenue)},{" "}
+            {Math.round(comparison.attainment)}%
+          </Typography>
+          <Typography
+            variant="body2"
+            sx={{
+              color: deltas.color,
+              display: "flex",
+              alignItems: "center",
+              gap: 0.5,
+            }}
+          >
+            {deltas.icon}
+            {deltas.revenueChange !== null
+              ? `${formatChange(deltas.revenueChange, "%")} revenue`
+              : "No prior revenue"}
+            , {formatChange(deltas.attainmentChange, " pts")} attainment
+          </Typography>
+        </Box>
+      )}
+
       {paceStatus && (
         <Box sx={{ mt: 2 }}>
           <Typography
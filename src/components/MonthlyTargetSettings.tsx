@@ -40,9 +40,22 @@ import {
 } from "@mui/icons-material";
 import {
   DailyTarget,
+  LocationId,
   MonthlyTargetAdjustment,
   TargetSettings,
 } from "../types/revenue";
+import { useLocations } from "../utils/locations";
+import { getHolidaysOn, useHolidayCalendar } from "../utils/holidays";
+import {
+  getDailyTargetsOn,
+  getDefaultWorkingDays,
+  isBusinessDay,
+} from "../utils/calculations";
+
+type LocationWorkingDays = Partial<Record<LocationId, number[]>>;
+
+// Calendar grid value for editing the working days every location shares
+const ALL_LOCATIONS = "all";
 
 interface MonthlyTargetSettingsProps {
   currentSettings: TargetSettings;
@@ -53,6 +66,8 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
   currentSettings,
   onSettingsChange,
 }) => {
+  const locations = useLocations();
+  const holidayCalendar = useHolidayCalendar();
   const [open, setOpen] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState<number>(
     new Date().getMonth()
@@ -60,9 +75,14 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
   const [selectedYear, setSelectedYear] = useState<number>(
     new Date().getFullYear()
   );
-  const [austinTarget, setAustinTarget] = useState<string>("");
-  const [charlotteTarget, setCharlotteTarget] = useState<string>("");
+  const [targetInputs, setTargetInputs] = useState<Record<string, string>>(
+    {}
+  );
   const [workingDays, setWorkingDays] = useState<number[]>([]);
+  const [locationWorkingDays, setLocationWorkingDays] =
+    useState<LocationWorkingDays>({});
+  const [calendarLocation, setCalendarLocation] =
+    useState<string>(ALL_LOCATIONS);
   const [agentCount, setAgentCount] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
@@ -83,17 +103,57 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
 
   const daysInSelectedMonth = getDaysInMonth(selectedMonth, selectedYear);
 
-  // Check if a day is a weekend
-  const isWeekend = (day: number) => {
-    const date = new Date(selectedYear, selectedMonth, day);
-    return date.getDay() === 0 || date.getDay() === 6; // 0 = Sunday, 6 = Saturday
+  // Daily targets in force at the start of the selected month
+  const defaultTargets = getDailyTargetsOn(
+    currentSettings,
+    new Date(selectedYear, selectedMonth, 1)
+  );
+
+  const calendarLocationId =
+    calendarLocation === ALL_LOCATIONS ? undefined : calendarLocation;
+
+  // Check if a day is a business day (not a weekend or holiday) for the
+  // location shown in the calendar
+  const isBusinessDayOfMonth = (day: number) =>
+    isBusinessDay(
+      new Date(selectedYear, selectedMonth, day),
+      calendarLocationId
+    );
+
+  // Working days shown in the calendar grid
+  const calendarDays = calendarLocationId
+    ? locationWorkingDays[calendarLocationId] ?? workingDays
+    : workingDays;
+
+  const setCalendarDays = (days: number[]) => {
+    if (calendarLocationId) {
+      setLocationWorkingDays((prev) => ({
+        ...prev,
+        [calendarLocationId]: days,
+      }));
+    } else {
+      setWorkingDays(days);
+    }
+  };
+
+  const applyDefaultWorkingDays = () => {
+    const defaults = getDefaultWorkingDays(selectedYear, selectedMonth);
+    setWorkingDays(defaults.workingDays);
+    setLocationWorkingDays(defaults.locationWorkingDays || {});
   };
 
-  // Initialize working days (exclude weekends)
+  // Initialize working days (exclude weekends and holidays)
   useEffect(() => {
-    const businessDays = daysInSelectedMonth.filter((day) => !isWeekend(day));
-    setWorkingDays(businessDays);
-  }, [selectedMonth, selectedYear]);
+    applyDefaultWorkingDays();
+  }, [selectedMonth, selectedYear, holidayCalendar]);
+
+  const toTargetInputs = (targets?: Partial<DailyTarget>) =>
+    Object.fromEntries(
+      Object.entries(targets || {}).map(([id, value]) => [
+        id,
+        value?.toString() || "",
+      ])
+    );
 
   // Check if there's an existing adjustment for the selected month/year
   useEffect(() => {
@@ -103,22 +163,26 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
 
     if (existingAdjustment) {
       setWorkingDays(existingAdjustment.workingDays);
-      setAustinTarget(existingAdjustment.austin?.toString() || "");
-      setCharlotteTarget(existingAdjustment.charlotte?.toString() || "");
+      setLocationWorkingDays(existingAdjustment.locationWorkingDays || {});
+      setTargetInputs(toTargetInputs(existingAdjustment.targets));
       setAgentCount(existingAdjustment.agentCount?.toString() || "");
     } else {
       // Default to business days
-      const businessDays = daysInSelectedMonth.filter((day) => !isWeekend(day));
-      setWorkingDays(businessDays);
-      setAustinTarget("");
-      setCharlotteTarget("");
+      applyDefaultWorkingDays();
+      setTargetInputs({});
       setAgentCount("");
     }
-  }, [selectedMonth, selectedYear, currentSettings.monthlyAdjustments]);
+  }, [
+    selectedMonth,
+    selectedYear,
+    currentSettings.monthlyAdjustments,
+    holidayCalendar,
+  ]);
 
   const handleOpen = () => {
     setSelectedMonth(new Date().getMonth());
     setSelectedYear(new Date().getFullYear());
+    setCalendarLocation(ALL_LOCATIONS);
     setEditMode(false);
     setEditIndex(-1);
     setError(null);
@@ -137,37 +201,49 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
         return;
       }
 
-      // Parse targets if provided
-      const austinValue = austinTarget ? parseFloat(austinTarget) : undefined;
-      const charlotteValue = charlotteTarget
-        ? parseFloat(charlotteTarget)
-        : undefined;
-
-      const agentCountValue = agentCount ? parseInt(agentCount, 10) : undefined;
-
-      if (
-        (austinTarget && isNaN(austinValue!)) ||
-        (charlotteTarget && isNaN(charlotteValue!))
-      ) {
-        setError("Target values must be valid numbers");
-        return;
+      // Keep only per-location days that differ from the shared ones
+      const sortDays = (days: number[]) => [...days].sort((a, b) => a - b);
+      const sharedDays = sortDays(workingDays);
+      const locationDays: LocationWorkingDays = {};
+      for (const location of locations) {
+        const days = locationWorkingDays[location.id];
+        if (!days || sortDays(days).join() === sharedDays.join()) continue;
+        if (days.length === 0) {
+          setError(`Select at least one working day for ${location.name}`);
+          return;
+        }
+        locationDays[location.id] = sortDays(days);
       }
 
-      if (
-        (austinValue && austinValue <= 0) ||
-        (charlotteValue && charlotteValue <= 0)
-      ) {
-        setError("Target values must be greater than zero");
-        return;
+      // Parse targets if provided
+      const targets: Partial<DailyTarget> = {};
+      for (const location of locations) {
+        const input = targetInputs[location.id];
+        if (!input) continue;
+
+        const value = parseFloat(input);
+        if (isNaN(value)) {
+          setError("Target values must be valid numbers");
+          return;
+        }
+        if (value <= 0) {
+          setError("Target values must be greater than zero");
+          return;
+        }
+        targets[location.id] = value;
       }
 
+      const agentCountValue = agentCount ? parseInt(agentCount, 10) : undefined;
+
       // Create new adjustment
       const newAdjustment: MonthlyTargetAdjustment = {
         month: selectedMonth,
         year: selectedYear,
-        workingDays: [...workingDays].sort((a, b) => a - b), // Sort days in ascending order
-        ...(austinValue && { austin: austinValue }),
-        ...(charlotteValue && { charlotte: charlotteValue }),
+        workingDays: sharedDays,
+        ...(Object.keys(locationDays).length > 0 && {
+          locationWorkingDays: locationDays,
+        }),
+        ...(Object.keys(targets).length > 0 && { targets }),
         ...(agentCountValue && { agentCount: agentCountValue }),
       };
 
@@ -215,8 +291,8 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
     setSelectedMonth(adjustment.month);
     setSelectedYear(adjustment.year);
     setWorkingDays(adjustment.workingDays);
-    setAustinTarget(adjustment.austin?.toString() || "");
-    setCharlotteTarget(adjustment.charlotte?.toString() || "");
+    setLocationWorkingDays(adjustment.locationWorkingDays || {});
+    setTargetInputs(toTargetInputs(adjustment.targets));
     setAgentCount(adjustment.agentCount?.toString() || "");
     setEditMode(true);
     setEditIndex(index);
@@ -229,22 +305,42 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
   };
 
   const handleDayToggle = (day: number) => {
-    if (workingDays.includes(day)) {
-      setWorkingDays(workingDays.filter((d) => d !== day));
+    if (calendarDays.includes(day)) {
+      setCalendarDays(calendarDays.filter((d) => d !== day));
     } else {
-      setWorkingDays([...workingDays, day]);
+      setCalendarDays([...calendarDays, day]);
     }
   };
 
   const handleSelectAllBusinessDays = () => {
-    const businessDays = daysInSelectedMonth.filter((day) => !isWeekend(day));
-    setWorkingDays(businessDays);
+    setCalendarDays(daysInSelectedMonth.filter(isBusinessDayOfMonth));
   };
 
   const handleClearAllDays = () => {
-    setWorkingDays([]);
+    setCalendarDays([]);
   };
 
+  // Drop a location's own working days so it follows the shared ones
+  const handleUseSharedDays = () => {
+    if (!calendarLocationId) return;
+    setLocationWorkingDays((prev) => {
+      const next = { ...prev };
+      delete next[calendarLocationId];
+      return next;
+    });
+  };
+
+  const describeWorkingDays = (adj: MonthlyTargetAdjustment) =>
+    [
+      adj.workingDays.length.toString(),
+      ...locations
+        .filter((location) => adj.locationWorkingDays?.[location.id])
+        .map(
+          (location) =>
+            `${location.name} ${adj.locationWorkingDays![location.id]!.length}`
+        ),
+    ].join(" · ");
+
   const formatCurrency = (value: number) =>
     new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -292,8 +388,9 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
             <Grid xs={12} md={8}>
               <Typography variant="body2" color="text.secondary" paragraph>
                 Adjust targets for specific months to account for holidays,
-                office closures, or other variations. Select working days and
-                optionally override the daily targets for each location.
+                office closures, or other variations. Select working days,
+                per location if a site closes on its own, and optionally
+                override the daily targets for each location.
               </Typography>
 
               <Grid container spacing={2} sx={{ mb: 3 }}>
@@ -335,9 +432,31 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
                 </Grid>
               </Grid>
 
-              <Typography variant="subtitle2" gutterBottom>
-                Working Days
-              </Typography>
+              <Box
+                sx={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  mb: 1,
+                }}
+              >
+                <Typography variant="subtitle2">Working Days</Typography>
+                <FormControl size="small" sx={{ minWidth: 180 }}>
+                  <InputLabel>Location</InputLabel>
+                  <Select
+                    value={calendarLocation}
+                    label="Location"
+                    onChange={(e) => setCalendarLocation(e.target.value)}
+                  >
+                    <MenuItem value={ALL_LOCATIONS}>All Locations</MenuItem>
+                    {locations.map((location) => (
+                      <MenuItem key={location.id} value={location.id}>
+                        {location.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
               <Box sx={{ mb: 2, display: "flex", gap: 1 }}>
                 <Button
                   size="small"
@@ -356,9 +475,27 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
                 >
                   Clear All
                 </Button>
+                {calendarLocationId &&
+                  locationWorkingDays[calendarLocationId] && (
+                    <Button size="small" onClick={handleUseSharedDays}>
+                      Use Shared Days
+                    </Button>
+                  )}
               </Box>
               <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                {workingDays.length} days selected
+                {calendarDays.length} days selected
+                {calendarLocationId
+                  ? locationWorkingDays[calendarLocationId]
+                    ? " for this location only"
+                    : " (shared with all locations)"
+                  : locations.some(
+                      (location) => locationWorkingDays[location.id]
+                    )
+                  ? ` (${locations
+                      .filter((location) => locationWorkingDays[location.id])
+                      .map((location) => location.name)
+                      .join(", ")} use their own days)`
+                  : ""}
               </Typography>
               {/* Calendar display */}
               <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
@@ -397,34 +534,63 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
                     const date = new Date(selectedYear, selectedMonth, day);
                     const dayOfWeek = date.getDay();
                     const isWeekendDay = dayOfWeek === 0 || dayOfWeek === 6;
-                    const isSelected = workingDays.includes(day);
+                    const isSelected = calendarDays.includes(day);
+                    const holidays = getHolidaysOn(
+                      date,
+                      holidayCalendar,
+                      locations
+                    );
+                    const isHolidayDay = holidays.some(
+                      (holiday) =>
+                        !calendarLocationId ||
+                        holiday.locationIds.includes(calendarLocationId)
+                    );
 
                     return (
                       <Grid xs={1.7} key={day}>
-                        <Button
-                          fullWidth
-                          variant={isSelected ? "contained" : "outlined"}
-                          color={isSelected ? "primary" : "inherit"}
-                          onClick={() => handleDayToggle(day)}
-                          sx={{
-                            borderColor: isWeekendDay
-                              ? "error.light"
-                              : undefined,
-                            color:
-                              isWeekendDay && !isSelected
-                                ? "error.main"
-                                : undefined,
-                            backgroundColor:
-                              isWeekendDay && !isSelected
-                                ? "error.lighter"
-                                : undefined,
-                            minWidth: "36px",
-                            height: "36px",
-                            p: 0,
-                          }}
+                        <Tooltip
+                          title={holidays
+                            .map((holiday) =>
+                              holiday.locationIds.length < locations.length
+                                ? `${holiday.name} (${locations
+                                    .filter((location) =>
+                                      holiday.locationIds.includes(location.id)
+                                    )
+                                    .map((location) => location.name)
+                                    .join(", ")})`
+                                : holiday.name
+                            )
+                            .join(", ")}
                         >
-                          {day}
-                        </Button>
+                          <Button
+                            fullWidth
+                            variant={isSelected ? "contained" : "outlined"}
+                            color={isSelected ? "primary" : "inherit"}
+                            onClick={() => handleDayToggle(day)}
+                            sx={{
+                              borderColor: isHolidayDay
+                                ? "warning.main"
+                                : isWeekendDay
+                                ? "error.light"
+                                : undefined,
+                              color:
+                                isHolidayDay && !isSelected
+                                  ? "warning.dark"
+                                  : isWeekendDay && !isSelected
+                                  ? "error.main"
+                                  : undefined,
+                              backgroundColor:
+                                isWeekendDay && !isSelected
+                                  ? "error.lighter"
+                                  : undefined,
+                              minWidth: "36px",
+                              height: "36px",
+                              p: 0,
+                            }}
+                          >
+                            {day}
+                          </Button>
+                        </Tooltip>
                       </Grid>
                     );
                   })}
@@ -437,10 +603,15 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
                 Target Overrides (Optional)
               </Typography>
               <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                Leave blank to use the default daily targets: Austin (
-                {formatCurrency(currentSettings.dailyTargets.austin)}),
-                Charlotte (
-                {formatCurrency(currentSettings.dailyTargets.charlotte)})
+                Leave blank to use the default daily targets:{" "}
+                {locations
+                  .map(
+                    (location) =>
+                      `${location.name} (${formatCurrency(
+                        defaultTargets?.[location.id] ?? 0
+                      )})`
+                  )
+                  .join(", ")}
               </Typography>
               <Alert severity="info" sx={{ mb: 2 }}>
                 <Typography variant="body2">
@@ -457,30 +628,27 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
                 </Typography>
               </Alert>
               <Grid container spacing={2}>
-                <Grid xs={12} md={6}>
-                  <TextField
-                    fullWidth
-                    label="Austin Daily Target"
-                    value={austinTarget}
-                    onChange={(e) => setAustinTarget(e.target.value)}
-                    placeholder={currentSettings.dailyTargets.austin.toString()}
-                    InputProps={{
-                      startAdornment: <Box component="span">$</Box>,
-                    }}
-                  />
-                </Grid>
-                <Grid xs={12} md={6}>
-                  <TextField
-                    fullWidth
-                    label="Charlotte Daily Target"
-                    value={charlotteTarget}
-                    onChange={(e) => setCharlotteTarget(e.target.value)}
-                    placeholder={currentSettings.dailyTargets.charlotte.toString()}
-                    InputProps={{
-                      startAdornment: <Box component="span">$</Box>,
-                    }}
-                  />
-                </Grid>
+                {locations.map((location) => (
+                  <Grid xs={12} md={6} key={location.id}>
+                    <TextField
+                      fullWidth
+                      label={`${location.name} Daily Target`}
+                      value={targetInputs[location.id] ?? ""}
+                      onChange={(e) =>
+                        setTargetInputs((prev) => ({
+                          ...prev,
+                          [location.id]: e.target.value,
+                        }))
+                      }
+                      placeholder={(
+                        defaultTargets?.[location.id] ?? ""
+                      ).toString()}
+                      InputProps={{
+                        startAdornment: <Box component="span">$</Box>,
+                      }}
+                    />
+                  </Grid>
+                ))}
               </Grid>
               <Typography variant="subtitle2" gutterBottom sx={{ mt: 2 }}>
                 Additional Metrics (Optional)
@@ -526,7 +694,7 @@ export const MonthlyTargetSettings: React.FC<MonthlyTargetSettingsProps> = ({
                           <TableCell>
                             {getMonthName(adj.month)} {adj.year}
                           </TableCell>
-                          <TableCell>{adj.workingDays.length}</TableCell>
+                          <TableCell>{describeWorkingDays(adj)}</TableCell>
                           <TableCell>
                             <IconButton
                               size="small"
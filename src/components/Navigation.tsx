@@ -1,8 +1,26 @@
-import React from "react";
-import { AppBar, Toolbar, Typography, Box, IconButton } from "@mui/material";
-import { Menu as MenuIcon } from "@mui/icons-material";
+import { useState } from "react";
+import {
+  AppBar,
+  Toolbar,
+  Typography,
+  Box,
+  IconButton,
+  Button,
+  Chip,
+} from "@mui/material";
+import {
+  Menu as MenuIcon,
+  Logout as LogoutIcon,
+  ManageAccounts as UsersIcon,
+} from "@mui/icons-material";
+import { useAuth } from "../contexts/AuthContext";
+import { ROLE_LABELS } from "../types/auth";
+import { UserManagement } from "./UserManagement";
 
 export const Navigation = () => {
+  const { authEnabled, user, role, permissions, logout } = useAuth();
+  const [usersOpen, setUsersOpen] = useState(false);
+
   return (
     <AppBar
       position="sticky"
@@ -38,10 +56,35 @@ export const Navigation = () => {
 
         <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
           <Typography variant="body2" color="text.secondary">
-            Welcome
+            {user
+              ? `Welcome, ${user.displayName || user.email}`
+              : "Welcome"}
           </Typography>
+          {authEnabled && (
+            <Chip
+              size="small"
+              label={role ? ROLE_LABELS[role] : "No access"}
+              color={role === "viewer" || !role ? "default" : "primary"}
+            />
+          )}
+          {authEnabled && permissions.manageSettings && (
+            <Button
+              size="small"
+              startIcon={<UsersIcon />}
+              onClick={() => setUsersOpen(true)}
+            >
+              Users
+            </Button>
+          )}
+          {user && (
+            <Button size="small" startIcon={<LogoutIcon />} onClick={logout}>
+              Sign Out
+            </Button>
+          )}
         </Box>
       </Toolbar>
+
+      <UserManagement open={usersOpen} onClose={() => setUsersOpen(false)} />
     </AppBar>
   );
 };
@@ -0,0 +1,47 @@
+import { Box, Button, Paper, Typography } from "@mui/material";
+import { Google as GoogleIcon } from "@mui/icons-material";
+import { useAuth } from "../contexts/AuthContext";
+
+export const SignIn = () => {
+  const { signInWithGoogle } = useAuth();
+
+  return (
+    <Box
+      sx={{
+        minHeight: "100vh",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        bgcolor: "#F3F4F6",
+      }}
+    >
+      <Paper
+        elevation={2}
+        sx={{
+          p: 5,
+          maxWidth: 420,
+          textAlign: "center",
+          borderRadius: 2,
+          border: "1px solid",
+          borderColor: "divider",
+        }}
+      >
+        <Typography variant="h5" sx={{ fontWeight: 600 }} gutterBottom>
+          Revenue Dashboard
+        </Typography>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Sign in with your company Google account. New accounts are read-only
+          until an admin assigns a role.
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<GoogleIcon />}
+          onClick={signInWithGoogle}
+          size="large"
+        >
+          Sign in with Google
+        </Button>
+      </Paper>
+    </Box>
+  );
+};
@@ -15,6 +15,7 @@ import {
   TrendingFlat as TrendingFlatIcon,
   CalendarToday as CalendarIcon,
   Assessment as AssessmentIcon,
+  CompareArrows as CompareIcon,
 } from "@mui/icons-material";
 import { RevenueData, TimeFrame, TargetSettings } from "../types/revenue";
 import {
@@ -22,9 +23,17 @@ import {
   calculateMetrics,
   filterDataByTimeFrame,
   calculateLocationMetrics,
+  PeriodComparison,
 } from "../utils/calculations";
+import { MonthEndForecast } from "../utils/forecasting";
 import MetricCard from "./MetricCard";
 import { formatCurrency } from "../utils/formatters";
+import { getNow } from "../utils/asOf";
+import {
+  findLocation,
+  sumLocationValues,
+  useLocations,
+} from "../utils/locations";
 
 interface SummaryMetricsProps {
   data: RevenueData[];
@@ -33,6 +42,8 @@ interface SummaryMetricsProps {
   startDate?: string | null;
   endDate?: string | null;
   location?: string;
+  comparison?: PeriodComparison | null; // Prior period, when comparing
+  projection?: MonthEndForecast | null; // Month-to-date only
 }
 
 const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
@@ -42,7 +53,11 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
   startDate,
   endDate,
   location,
+  comparison,
+  projection,
 }) => {
+  const locations = useLocations();
+  const selectedLocation = findLocation(location);
   const filteredData = filterDataByTimeFrame(
     data,
     timeFrame,
@@ -92,13 +107,16 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
     );
   }
 
+  // One card per location plus the total, at least a quarter row each
+  const cardColumns = Math.max(3, Math.floor(12 / (locations.length + 1)));
+
   // Format period display
   const getPeriodDisplayName = () => {
     try {
       switch (timeFrame) {
         case "MTD":
-          const currentYear = new Date().getFullYear();
-          const currentMonth = new Date().getMonth();
+          const currentYear = getNow().getFullYear();
+          const currentMonth = getNow().getMonth();
           const displayYear = periodInfo.relevantYear || currentYear;
           const displayMonth =
             periodInfo.relevantMonth !== undefined
@@ -108,16 +126,38 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
             displayYear,
             displayMonth
           ).toLocaleDateString("en-US", { month: "long", year: "numeric" })})`;
+        case "QTD":
+          return `Quarter-to-Date (${periodInfo.startDate} to ${periodInfo.endDate})`;
         case "This Week":
           return `This Week (${periodInfo.startDate} to ${periodInfo.endDate})`;
         case "last30":
           return `Last 30 Days (${periodInfo.startDate} to ${periodInfo.endDate})`;
         case "last90":
           return `Last 90 Days (${periodInfo.startDate} to ${periodInfo.endDate})`;
+        case "lastMonth":
+          return `Last Month (${periodInfo.startDate} to ${periodInfo.endDate})`;
+        case "lastQuarter":
+          return `Last Quarter (${periodInfo.startDate} to ${periodInfo.endDate})`;
+        case "samePeriodLastYear":
+          return `Same Period Last Year (${periodInfo.startDate} to ${periodInfo.endDate})`;
         case "YTD":
           return `Year-to-Date ${
-            periodInfo.relevantYear || new Date().getFullYear()
+            periodInfo.relevantYear || getNow().getFullYear()
           } (${periodInfo.startDate} to ${periodInfo.endDate})`;
+        case "FPTD":
+        case "FQTD":
+        case "FYTD": {
+          const range = periodInfo.fiscalRange;
+          const name =
+            timeFrame === "FYTD"
+              ? "Fiscal Year-to-Date"
+              : timeFrame === "FQTD"
+              ? "Fiscal Quarter-to-Date"
+              : "Fiscal Period-to-Date";
+          return range
+            ? `${name} ${range.label} (${range.start} to ${range.end})`
+            : name;
+        }
         case "custom":
           return `Custom Period (${periodInfo.startDate} to ${periodInfo.endDate})`;
         default:
@@ -165,6 +205,14 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
             color="info"
             variant="outlined"
           />
+          {comparison && (
+            <Chip
+              icon={<CompareIcon />}
+              label={`vs. ${comparison.period.label} (${comparison.period.start} to ${comparison.period.end})`}
+              color="secondary"
+              variant="outlined"
+            />
+          )}
           {periodInfo.hasMonthlyAdjustment && (
             <Chip
               label="Custom Working Days"
@@ -202,36 +250,23 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
                 {periodInfo.workingDaysInPeriod}
               </Typography>
             </Grid>
-            <Grid xs={12} sm={6} md={3}>
-              <Typography
-                variant="body2"
-                color="text.secondary"
-                sx={{ fontWeight: 500 }}
-              >
-                Daily Target - Austin
-              </Typography>
-              <Typography
-                variant="h6"
-                sx={{ fontWeight: 600, color: "success.main" }}
-              >
-                {formatCurrency(periodInfo.dailyTargets.austin)}
-              </Typography>
-            </Grid>
-            <Grid xs={12} sm={6} md={3}>
-              <Typography
-                variant="body2"
-                color="text.secondary"
-                sx={{ fontWeight: 500 }}
-              >
-                Daily Target - Charlotte
-              </Typography>
-              <Typography
-                variant="h6"
-                sx={{ fontWeight: 600, color: "success.main" }}
-              >
-                {formatCurrency(periodInfo.dailyTargets.charlotte)}
-              </Typography>
-            </Grid>
+            {locations.map((loc) => (
+              <Grid xs={12} sm={6} md={3} key={loc.id}>
+                <Typography
+                  variant="body2"
+                  color="text.secondary"
+                  sx={{ fontWeight: 500 }}
+                >
+                  Daily Target - {loc.name}
+                </Typography>
+                <Typography
+                  variant="h6"
+                  sx={{ fontWeight: 600, color: "success.main" }}
+                >
+                  {formatCurrency(periodInfo.dailyTargets[loc.id] || 0)}
+                </Typography>
+              </Grid>
+            ))}
             <Grid xs={12} sm={6} md={3}>
               <Typography
                 variant="body2"
@@ -245,9 +280,8 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
                 sx={{ fontWeight: 600, color: "info.main" }}
               >
                 {formatCurrency(
-                  periodInfo.dailyTargets.austin *
-                    periodInfo.workingDaysInPeriod +
-                    periodInfo.dailyTargets.charlotte *
+                  periodInfo.periodTarget ??
+                    sumLocationValues(periodInfo.dailyTargets, locations) *
                       periodInfo.workingDaysInPeriod
                 )}
               </Typography>
@@ -259,35 +293,36 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
       <Divider sx={{ mb: 3, borderColor: "divider" }} />
 
       <Grid container spacing={4}>
-        <Grid xs={12} md={4}>
-          <MetricCard
-            title="Austin"
-            revenue={metrics.austin.revenue}
-            target={metrics.austin.target}
-            monthlyTarget={metrics.austin.monthlyTarget}
-            attainment={metrics.austin.attainment}
-            elapsedDays={metrics.austin.elapsedDays}
-            remainingDays={metrics.austin.remainingDays}
-            totalDays={metrics.austin.totalDays}
-            dailyPaceNeeded={metrics.austin.dailyPaceNeeded}
-            dailyTarget={periodInfo.dailyTargets.austin}
-          />
-        </Grid>
-        <Grid xs={12} md={4}>
-          <MetricCard
-            title="Charlotte"
-            revenue={metrics.charlotte.revenue}
-            target={metrics.charlotte.target}
-            monthlyTarget={metrics.charlotte.monthlyTarget}
-            attainment={metrics.charlotte.attainment}
-            elapsedDays={metrics.charlotte.elapsedDays}
-            remainingDays={metrics.charlotte.remainingDays}
-            totalDays={metrics.charlotte.totalDays}
-            dailyPaceNeeded={metrics.charlotte.dailyPaceNeeded}
-            dailyTarget={periodInfo.dailyTargets.charlotte}
-          />
-        </Grid>
-        <Grid xs={12} md={4}>
+        {locations.map((loc) => {
+          const locationMetrics = metrics.locations[loc.id];
+          if (!locationMetrics) return null;
+          return (
+            <Grid xs={12} md={cardColumns} key={loc.id}>
+              <MetricCard
+                title={loc.name}
+                revenue={locationMetrics.revenue}
+                target={locationMetrics.target}
+                monthlyTarget={locationMetrics.monthlyTarget}
+                attainment={locationMetrics.attainment}
+                elapsedDays={locationMetrics.elapsedDays}
+                remainingDays={locationMetrics.remainingDays}
+                totalDays={locationMetrics.totalDays}
+                dailyPaceNeeded={locationMetrics.dailyPaceNeeded}
+                dailyTarget={periodInfo.dailyTargets[loc.id] || 0}
+                comparison={
+                  comparison
+                    ? {
+                        label: comparison.period.label,
+                        ...comparison.locations[loc.id],
+                      }
+                    : undefined
+                }
+                projection={projection?.locations[loc.id]}
+              />
+            </Grid>
+          );
+        })}
+        <Grid xs={12} md={cardColumns}>
           <MetricCard
             title="Total"
             revenue={metrics.total.revenue}
@@ -298,8 +333,16 @@ const SummaryMetrics: React.FC<SummaryMetricsProps> = ({
             remainingDays={metrics.total.remainingDays}
             totalDays={metrics.total.totalDays}
             dailyPaceNeeded={metrics.total.dailyPaceNeeded}
-            dailyTarget={
-              periodInfo.dailyTargets.austin + periodInfo.dailyTargets.charlotte
+            dailyTarget={sumLocationValues(periodInfo.dailyTargets, locations)}
+            comparison={
+              comparison
+                ? { label: comparison.period.label, ...comparison.total }
+                : undefined
+            }
+            projection={
+              selectedLocation
+                ? projection?.locations[selectedLocation.id]
+                : projection?.combined
             }
           />
         </Grid>
@@ -0,0 +1,235 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import {
+  Close as CloseIcon,
+  CloudDone as SyncedIcon,
+  CloudQueue as PendingIcon,
+  SyncProblem as ConflictIcon,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import { RevenueData } from "../types/revenue";
+import { LeadEntryStored } from "../services/leadService";
+import {
+  OutboxItem,
+  OutboxStatus,
+  outboxService,
+  useOutbox,
+} from "../services/outbox";
+import { formatCurrency } from "../utils/formatters";
+import { getLocationRevenue, useLocations } from "../utils/locations";
+
+const STATUS_CHIPS: Record<
+  OutboxStatus,
+  { label: string; color: "warning" | "success" | "error" }
+> = {
+  pending: { label: "Pending", color: "warning" },
+  synced: { label: "Synced", color: "success" },
+  conflict: { label: "Conflict", color: "error" },
+};
+
+export const SyncStatus: React.FC = () => {
+  const items = useOutbox();
+  const locations = useLocations();
+  const [open, setOpen] = useState(false);
+
+  const pendingCount = items.filter((item) => item.status === "pending").length;
+  const conflictCount = items.filter(
+    (item) => item.status === "conflict"
+  ).length;
+
+  const describeRevenue = (entry: RevenueData) =>
+    locations
+      .map(
+        (location) =>
+          `${location.name} ${formatCurrency(
+            getLocationRevenue(entry, location.id)
+          )}`
+      )
+      .join(", ");
+
+  const describeLeads = (entry: LeadEntryStored) =>
+    `${entry.availableAgents} agents, ${entry.totalBillableLeads} leads`;
+
+  const describeTitle = (item: OutboxItem) =>
+    item.write.kind === "revenue"
+      ? `Revenue · ${item.write.entry.date}`
+      : `Leads · ${item.write.site} · ${item.write.date}`;
+
+  const describeMine = (item: OutboxItem) =>
+    item.write.kind === "revenue"
+      ? describeRevenue(item.write.entry)
+      : describeLeads(item.write.entry);
+
+  const describeTheirs = (item: OutboxItem) => {
+    if (!item.remote) return "Deleted on the server";
+    return item.write.kind === "revenue"
+      ? describeRevenue(item.remote as RevenueData)
+      : describeLeads(item.remote as LeadEntryStored);
+  };
+
+  const buttonLabel =
+    conflictCount > 0
+      ? `${conflictCount} Conflict${conflictCount !== 1 ? "s" : ""}`
+      : pendingCount > 0
+      ? `${pendingCount} Pending`
+      : "Synced";
+
+  const buttonIcon =
+    conflictCount > 0 ? (
+      <ConflictIcon />
+    ) : pendingCount > 0 ? (
+      <PendingIcon />
+    ) : (
+      <SyncedIcon />
+    );
+
+  return (
+    <>
+      <Button
+        variant="contained"
+        color={conflictCount > 0 ? "error" : "secondary"}
+        startIcon={buttonIcon}
+        onClick={() => setOpen(true)}
+        data-testid="sync-status-button"
+      >
+        {buttonLabel}
+      </Button>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Offline Changes</Typography>
+            <IconButton onClick={() => setOpen(false)} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Entries are saved on this device first and sent to the server as
+            soon as it can be reached. A conflict means someone else changed
+            the same entry after you loaded it; choose which version to keep.
+          </Typography>
+
+          {items.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No queued changes.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Entry</TableCell>
+                    <TableCell>Queued</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Details</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {[...items].reverse().map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>{describeTitle(item)}</TableCell>
+                      <TableCell>
+                        {format(new Date(item.queuedAt), "MMM d, h:mm a")}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={STATUS_CHIPS[item.status].label}
+                          color={STATUS_CHIPS[item.status].color}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {item.status === "conflict" ? (
+                          <Stack spacing={0.5}>
+                            <Typography variant="caption">
+                              Mine: {describeMine(item)}
+                            </Typography>
+                            <Typography variant="caption">
+                              Theirs: {describeTheirs(item)}
+                            </Typography>
+                          </Stack>
+                        ) : (
+                          <Typography variant="caption">
+                            {item.status === "pending" && item.lastError
+                              ? `${item.lastError} (attempt ${item.attempts})`
+                              : describeMine(item)}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        {item.status === "conflict" && (
+                          <Stack
+                            direction="row"
+                            spacing={1}
+                            justifyContent="flex-end"
+                          >
+                            <Button
+                              size="small"
+                              onClick={() => outboxService.keepMine(item.id)}
+                            >
+                              Keep Mine
+                            </Button>
+                            <Button
+                              size="small"
+                              color="inherit"
+                              onClick={() => outboxService.keepTheirs(item.id)}
+                            >
+                              Keep Theirs
+                            </Button>
+                          </Stack>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => outboxService.clearSynced()}
+            disabled={!items.some((item) => item.status === "synced")}
+          >
+            Clear Synced
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => outboxService.flush()}
+            disabled={pendingCount === 0}
+          >
+            Retry Now
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -12,13 +12,33 @@ import {
   Divider,
   Alert,
   Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
 } from "@mui/material";
 import {
   Settings as SettingsIcon,
   Save as SaveIcon,
   Close as CloseIcon,
+  Delete as DeleteIcon,
 } from "@mui/icons-material";
-import { TargetSettings as TargetSettingsType } from "../types/revenue";
+import { format, parseISO } from "date-fns";
+import {
+  DailyTarget,
+  TargetSettings as TargetSettingsType,
+} from "../types/revenue";
+import { useLocations } from "../utils/locations";
+import { getBusinessDate, getBusinessNow } from "../utils/dates";
+import {
+  INITIAL_TARGET_VERSION_DATE,
+  getDailyTargetsOn,
+  withTargetVersion,
+  withoutTargetVersion,
+} from "../utils/calculations";
+import { auditService } from "../services/auditService";
 
 interface TargetSettingsProps {
   currentSettings: TargetSettingsType;
@@ -29,19 +49,31 @@ export const TargetSettings: React.FC<TargetSettingsProps> = ({
   currentSettings,
   onSettingsChange,
 }) => {
+  const locations = useLocations();
   const [open, setOpen] = useState(false);
-  const [austinTarget, setAustinTarget] = useState<string>(
-    currentSettings.dailyTargets.austin.toString()
-  );
-  const [charlotteTarget, setCharlotteTarget] = useState<string>(
-    currentSettings.dailyTargets.charlotte.toString()
+  const [targetInputs, setTargetInputs] = useState<Record<string, string>>(
+    {}
   );
+  const [effectiveFrom, setEffectiveFrom] = useState(getBusinessDate);
   const [error, setError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
 
+  // Recorded target changes, oldest first
+  const versions = currentSettings.targetVersions || [];
+
   const handleOpen = () => {
-    setAustinTarget(currentSettings.dailyTargets.austin.toString());
-    setCharlotteTarget(currentSettings.dailyTargets.charlotte.toString());
+    const inForce = getDailyTargetsOn(currentSettings, getBusinessNow());
+    setTargetInputs(
+      Object.fromEntries(
+        locations.map((location) => [
+          location.id,
+          (
+            inForce?.[location.id] ?? location.defaultDailyTarget
+          ).toString(),
+        ])
+      )
+    );
+    setEffectiveFrom(getBusinessDate());
     setError(null);
     setOpen(true);
   };
@@ -53,27 +85,36 @@ export const TargetSettings: React.FC<TargetSettingsProps> = ({
   const handleSave = () => {
     try {
       // Validate inputs
-      const austinValue = parseFloat(austinTarget);
-      const charlotteValue = parseFloat(charlotteTarget);
-
-      if (isNaN(austinValue) || isNaN(charlotteValue)) {
-        setError("Target values must be valid numbers");
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+        setError("Choose the date the new targets take effect");
         return;
       }
 
-      if (austinValue <= 0 || charlotteValue <= 0) {
-        setError("Target values must be greater than zero");
-        return;
+      const dailyTargets: DailyTarget = {};
+      for (const location of locations) {
+        const value = parseFloat(targetInputs[location.id] ?? "");
+
+        if (isNaN(value)) {
+          setError("Target values must be valid numbers");
+          return;
+        }
+
+        if (value <= 0) {
+          setError("Target values must be greater than zero");
+          return;
+        }
+
+        dailyTargets[location.id] = value;
       }
 
-      // Create new settings object, preserving monthly adjustments
-      const newSettings: TargetSettingsType = {
-        ...currentSettings,
-        dailyTargets: {
-          austin: austinValue,
-          charlotte: charlotteValue,
-        },
-      };
+      // Record the targets as a new version, preserving earlier versions
+      // (and the days they apply to) and monthly adjustments
+      const newSettings = withTargetVersion(currentSettings, {
+        effectiveFrom,
+        dailyTargets,
+        createdAt: Date.now(),
+        createdBy: auditService.describeChange().editor,
+      });
 
       onSettingsChange(newSettings);
       setShowSuccess(true);
@@ -85,6 +126,10 @@ export const TargetSettings: React.FC<TargetSettingsProps> = ({
     }
   };
 
+  const handleDeleteVersion = (versionDate: string) => {
+    onSettingsChange(withoutTargetVersion(currentSettings, versionDate));
+  };
+
   const formatCurrency = (value: number) =>
     new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -105,7 +150,7 @@ export const TargetSettings: React.FC<TargetSettingsProps> = ({
         </IconButton>
       </Tooltip>
 
-      <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
         <DialogTitle>
           <Box
             sx={{
@@ -124,7 +169,9 @@ export const TargetSettings: React.FC<TargetSettingsProps> = ({
         <DialogContent>
           <Typography variant="body2" color="text.secondary" paragraph>
             Set the default daily revenue targets for each location. These
-            targets will be used for calculating attainment percentages.
+            targets will be used for calculating attainment percentages from
+            the effective date on; earlier days keep the targets that were in
+            force at the time.
           </Typography>
           <Typography variant="body2" color="text.secondary" paragraph>
             Note: You can set monthly adjustments for specific months using the
@@ -134,27 +181,105 @@ export const TargetSettings: React.FC<TargetSettingsProps> = ({
           <Box sx={{ mt: 2 }}>
             <TextField
               fullWidth
-              label="Austin Daily Target"
-              type="number"
-              value={austinTarget}
-              onChange={(e) => setAustinTarget(e.target.value)}
-              InputProps={{
-                startAdornment: <Typography sx={{ mr: 1 }}>$</Typography>,
-              }}
+              label="Effective From"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              InputLabelProps={{ shrink: true }}
               sx={{ mb: 2 }}
             />
-            <TextField
-              fullWidth
-              label="Charlotte Daily Target"
-              type="number"
-              value={charlotteTarget}
-              onChange={(e) => setCharlotteTarget(e.target.value)}
-              InputProps={{
-                startAdornment: <Typography sx={{ mr: 1 }}>$</Typography>,
-              }}
-            />
+            {locations.map((location) => (
+              <TextField
+                key={location.id}
+                fullWidth
+                label={`${location.name} Daily Target`}
+                type="number"
+                value={targetInputs[location.id] ?? ""}
+                onChange={(e) =>
+                  setTargetInputs((prev) => ({
+                    ...prev,
+                    [location.id]: e.target.value,
+                  }))
+                }
+                InputProps={{
+                  startAdornment: <Typography sx={{ mr: 1 }}>$</Typography>,
+                }}
+                sx={{ mb: 2 }}
+              />
+            ))}
           </Box>
 
+          {versions.length > 0 && (
+            <>
+              <Typography variant="subtitle1" sx={{ fontWeight: 600, mt: 2 }}>
+                Target History
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Effective From</TableCell>
+                      {locations.map((location) => (
+                        <TableCell key={location.id} align="right">
+                          {location.name}
+                        </TableCell>
+                      ))}
+                      <TableCell>Changed By</TableCell>
+                      <TableCell align="right" />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {[...versions].reverse().map((version) => (
+                      <TableRow key={version.effectiveFrom}>
+                        <TableCell>
+                          {version.effectiveFrom === INITIAL_TARGET_VERSION_DATE
+                            ? "Initial targets"
+                            : format(
+                                parseISO(version.effectiveFrom),
+                                "MMM d, yyyy"
+                              )}
+                        </TableCell>
+                        {locations.map((location) => (
+                          <TableCell key={location.id} align="right">
+                            {version.dailyTargets[location.id] !== undefined
+                              ? formatCurrency(version.dailyTargets[location.id])
+                              : "—"}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          {version.createdBy || "—"}
+                          {version.createdAt > 0 && (
+                            <Typography
+                              variant="caption"
+                              color="text.secondary"
+                              component="div"
+                            >
+                              {format(
+                                new Date(version.createdAt),
+                                "MMM d, yyyy h:mm a"
+                              )}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">
+                          <IconButton
+                            size="small"
+                            onClick={() =>
+                              handleDeleteVersion(version.effectiveFrom)
+                            }
+                            disabled={versions.length <= 1}
+                          >
+                            <DeleteIcon />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+
           {error && (
             <Alert severity="error" sx={{ mt: 2 }}>
               {error}
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import {
+  DeleteOutline as TrashIcon,
+  Close as CloseIcon,
+  RestoreFromTrash as RestoreIcon,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import { RevenueData } from "../types/revenue";
+import { revenueService } from "../services/revenueService";
+import { DeletedLeadEntry, leadService } from "../services/leadService";
+import { formatCurrency } from "../utils/formatters";
+import { getLocationRevenue, useLocations } from "../utils/locations";
+
+const formatDeletedAt = (deletedAt?: number) =>
+  deletedAt ? format(new Date(deletedAt), "MMM d, yyyy h:mm a") : "—";
+
+// Voided revenue and lead entries, with restore
+export const Trash: React.FC = () => {
+  const locations = useLocations();
+  const [open, setOpen] = useState(false);
+  const [revenue, setRevenue] = useState<RevenueData[]>([]);
+  const [leads, setLeads] = useState<DeletedLeadEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const unsubscribeRevenue =
+      revenueService.subscribeToDeletedRevenue(setRevenue);
+    const unsubscribeLeads = leadService.subscribeToDeleted(setLeads);
+    return () => {
+      unsubscribeRevenue();
+      unsubscribeLeads();
+    };
+  }, [open]);
+
+  const handleRestoreRevenue = async (entry: RevenueData) => {
+    setError(null);
+    const restored = await revenueService.restoreRevenueEntry(entry);
+    if (!restored) {
+      setError(`Failed to restore the revenue entry for ${entry.date}`);
+    }
+  };
+
+  const handleRestoreLead = async ({
+    dateISO,
+    site,
+    entry,
+  }: DeletedLeadEntry) => {
+    setError(null);
+    try {
+      await leadService.restoreLeadEntry(dateISO, site, entry);
+    } catch (err) {
+      console.error("Error restoring lead entry:", err);
+      setError(`Failed to restore the ${site} lead entry for ${dateISO}`);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Trash">
+        <IconButton
+          color="primary"
+          onClick={() => setOpen(true)}
+          data-testid="trash-button"
+        >
+          <TrashIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <Typography variant="h6">Trash</Typography>
+            <IconButton onClick={() => setOpen(false)} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <Divider />
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Deleted entries are kept here with their change history and do not
+            count towards metrics or charts until restored.
+          </Typography>
+
+          {error && (
+            <Typography color="error" variant="body2" paragraph>
+              {error}
+            </Typography>
+          )}
+
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, mt: 2 }}>
+            Revenue Entries
+          </Typography>
+          {revenue.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No deleted revenue entries.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    {locations.map((location) => (
+                      <TableCell key={location.id} align="right">
+                        {location.name}
+                      </TableCell>
+                    ))}
+                    <TableCell>Deleted</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {revenue.map((entry) => (
+                    <TableRow key={entry.date}>
+                      <TableCell>{entry.date}</TableCell>
+                      {locations.map((location) => (
+                        <TableCell key={location.id} align="right">
+                          {formatCurrency(
+                            getLocationRevenue(entry, location.id)
+                          )}
+                        </TableCell>
+                      ))}
+                      <TableCell>{formatDeletedAt(entry.deletedAt)}</TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          startIcon={<RestoreIcon />}
+                          onClick={() => handleRestoreRevenue(entry)}
+                        >
+                          Restore
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, mt: 3 }}>
+            Lead Entries
+          </Typography>
+          {leads.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No deleted lead entries.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Site</TableCell>
+                    <TableCell align="right">Agents</TableCell>
+                    <TableCell align="right">Leads</TableCell>
+                    <TableCell>Deleted</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {leads.map((item) => (
+                    <TableRow key={`${item.dateISO}-${item.site}`}>
+                      <TableCell>{item.dateISO}</TableCell>
+                      <TableCell>{item.site}</TableCell>
+                      <TableCell align="right">
+                        {item.entry.availableAgents}
+                      </TableCell>
+                      <TableCell align="right">
+                        {item.entry.totalBillableLeads}
+                      </TableCell>
+                      <TableCell>
+                        {formatDeletedAt(item.entry.deletedAt)}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          startIcon={<RestoreIcon />}
+                          onClick={() => handleRestoreLead(item)}
+                        >
+                          Restore
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Divider,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from "@mui/material";
+import { Close as CloseIcon } from "@mui/icons-material";
+import { ROLE_LABELS, UserProfile, UserRole } from "../types/auth";
+import { userService } from "../services/userService";
+import { useAuth } from "../contexts/AuthContext";
+
+interface UserManagementProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Admin-only list of users who have signed in, with their roles
+export const UserManagement: React.FC<UserManagementProps> = ({
+  open,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<Record<string, UserProfile>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    return userService.subscribeToUsers(setUsers);
+  }, [open]);
+
+  const handleRoleChange = async (
+    uid: string,
+    profile: UserProfile,
+    role: UserRole
+  ) => {
+    setError(null);
+    const saved = await userService.setRole(uid, profile, role);
+    if (!saved) {
+      setError("Failed to update the role. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+          }}
+        >
+          <Typography variant="h6">Users</Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+      <Divider />
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Viewers can only read data. Entry clerks can also enter, import,
+          roll back imports of and delete revenue and lead data, and add
+          agents found in lead imports.
+          Admins can also change targets, locations, the agent roster and
+          roles.
+        </Typography>
+
+        {error && (
+          <Typography color="error" variant="body2" paragraph>
+            {error}
+          </Typography>
+        )}
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Email</TableCell>
+                <TableCell>Role</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {Object.entries(users).map(([uid, profile]) => (
+                <TableRow key={uid}>
+                  <TableCell>{profile.displayName || "—"}</TableCell>
+                  <TableCell>{profile.email || "—"}</TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={profile.role}
+                      disabled={uid === user?.uid}
+                      onChange={(e) =>
+                        handleRoleChange(
+                          uid,
+                          profile,
+                          e.target.value as UserRole
+                        )
+                      }
+                    >
+                      {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                        <MenuItem key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
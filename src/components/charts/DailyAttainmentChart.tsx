@@ -14,9 +14,21 @@ import { Typography, useTheme, Box, Paper, Divider } from "@mui/material";
 import { RevenueData, TimeFrame, TargetSettings } from "../../types/revenue";
 import {
   filterDataByTimeFrame,
+  getComparisonDate,
+  getComparisonEntries,
+  getComparisonPeriod,
   getTargetForDate,
 } from "../../utils/calculations";
-import { format, parseISO } from "date-fns";
+import {
+  getLocationColor,
+  getLocationRevenue,
+  getTotalRevenue,
+  sumLocationValues,
+  useLocations,
+} from "../../utils/locations";
+import { format } from "date-fns";
+import { parseDateKey } from "../../utils/dates";
+import { getNow } from "../../utils/asOf";
 
 interface DailyAttainmentChartProps {
   data: RevenueData[];
@@ -29,6 +41,7 @@ interface DailyAttainmentChartProps {
     location: string;
     startDate?: string | null;
     endDate?: string | null;
+    comparePrevious?: boolean; // Overlay the prior period's attainment
   };
   targets: TargetSettings;
 }
@@ -39,9 +52,8 @@ export const DailyAttainmentChart: React.FC<DailyAttainmentChartProps> = ({
   targets,
 }) => {
   const theme = useTheme();
+  const locations = useLocations();
   const brandColors = {
-    austin: theme.palette.primary.main,
-    charlotte: theme.palette.secondary.main,
     combined: theme.palette.success.main,
   };
 
@@ -56,42 +68,69 @@ export const DailyAttainmentChart: React.FC<DailyAttainmentChartProps> = ({
     filters.location
   );
 
+  // Prior period entries, matched to the days of this one
+  const comparisonPeriod = filters.comparePrevious
+    ? getComparisonPeriod(
+        filters.timeFrame,
+        getNow(filters.location),
+        targets,
+        filters.startDate,
+        filters.endDate
+      )
+    : null;
+  const comparisonEntries = comparisonPeriod
+    ? getComparisonEntries(data, comparisonPeriod, targets, filters.location)
+    : null;
+
+  // Combined attainment of the prior period's matching day, if it worked
+  const getPriorAttainment = (date: string) => {
+    if (!comparisonPeriod || !comparisonEntries) return null;
+    const priorDate = getComparisonDate(date, comparisonPeriod);
+    const prior = comparisonEntries.get(priorDate);
+    const priorTarget = sumLocationValues(
+      getTargetForDate(parseDateKey(priorDate), targets),
+      locations
+    );
+    if (!prior || priorTarget === 0) return null;
+    return parseFloat(
+      ((getTotalRevenue(prior, locations) / priorTarget) * 100).toFixed(1)
+    );
+  };
+
   // Transform data for the chart
   const chartData = filteredData.map((item) => {
-    const date = parseISO(item.date);
+    const date = parseDateKey(item.date);
     const dailyTarget = getTargetForDate(date, targets);
 
+    const combinedTarget = sumLocationValues(dailyTarget, locations);
+    const row: Record<string, string | number | null> = {
+      date: format(date, "MM/dd"),
+      fullDate: item.date,
+    };
+    if (comparisonPeriod) row.Prior = getPriorAttainment(item.date);
+
     // Skip days with zero targets (non-working days)
-    if (dailyTarget.austin === 0 && dailyTarget.charlotte === 0) {
-      return {
-        date: format(date, "MM/dd"),
-        fullDate: item.date,
-        Austin: null,
-        Charlotte: null,
-        Combined: null,
-      };
+    if (combinedTarget === 0) {
+      locations.forEach((loc) => {
+        row[loc.id] = null;
+      });
+      row.Combined = null;
+      return row;
     }
 
-    const austinAttainment =
-      dailyTarget.austin > 0 ? (item.austin / dailyTarget.austin) * 100 : 0;
-
-    const charlotteAttainment =
-      dailyTarget.charlotte > 0
-        ? (item.charlotte / dailyTarget.charlotte) * 100
-        : 0;
+    locations.forEach((loc) => {
+      const target = dailyTarget[loc.id] || 0;
+      const attainment =
+        target > 0 ? (getLocationRevenue(item, loc.id) / target) * 100 : 0;
+      row[loc.id] = parseFloat(attainment.toFixed(1));
+    });
 
-    const combinedTarget = dailyTarget.austin + dailyTarget.charlotte;
-    const combinedRevenue = item.austin + item.charlotte;
+    const combinedRevenue = getTotalRevenue(item, locations);
     const combinedAttainment =
       combinedTarget > 0 ? (combinedRevenue / combinedTarget) * 100 : 0;
+    row.Combined = parseFloat(combinedAttainment.toFixed(1));
 
-    return {
-      date: format(date, "MM/dd"),
-      fullDate: item.date,
-      Austin: parseFloat(austinAttainment.toFixed(1)),
-      Charlotte: parseFloat(charlotteAttainment.toFixed(1)),
-      Combined: parseFloat(combinedAttainment.toFixed(1)),
-    };
+    return row;
   });
 
   // Custom tooltip
@@ -99,7 +138,7 @@ export const DailyAttainmentChart: React.FC<DailyAttainmentChartProps> = ({
     if (active && payload && payload.length) {
       const fullDate = payload[0]?.payload?.fullDate;
       const formattedFullDate = fullDate
-        ? format(parseISO(fullDate), "MMM d, yyyy")
+        ? format(parseDateKey(fullDate), "MMM d, yyyy")
         : label;
 
       return (
@@ -149,20 +188,17 @@ export const DailyAttainmentChart: React.FC<DailyAttainmentChartProps> = ({
           <RechartsTooltip content={<CustomTooltip />} />
           <Legend />
           <ReferenceLine y={100} stroke="#666" strokeDasharray="3 3" />
-          <Line
-            type="monotone"
-            dataKey="Austin"
-            stroke={brandColors.austin}
-            activeDot={{ r: 8 }}
-            connectNulls
-          />
-          <Line
-            type="monotone"
-            dataKey="Charlotte"
-            stroke={brandColors.charlotte}
-            activeDot={{ r: 8 }}
-            connectNulls
-          />
+          {locations.map((loc) => (
+            <Line
+              key={loc.id}
+              type="monotone"
+              dataKey={loc.id}
+              name={loc.name}
+              stroke={getLocationColor(loc, locations)}
+              activeDot={{ r: 8 }}
+              connectNulls
+            />
+          ))}
           <Line
             type="monotone"
             dataKey="Combined"
@@ -170,6 +206,18 @@ export const DailyAttainmentChart: React.FC<DailyAttainmentChartProps> = ({
             activeDot={{ r: 8 }}
             connectNulls
           />
+          {comparisonPeriod && (
+            <Line
+              type="monotone"
+              dataKey="Prior"
+              name={`Combined, ${comparisonPeriod.label}`}
+              stroke={brandColors.combined}
+              strokeOpacity={0.5}
+              strokeDasharray="4 2"
+              dot={{ r: 2 }}
+              connectNulls
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
     </Box>
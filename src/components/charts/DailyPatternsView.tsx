@@ -31,6 +31,16 @@ import {
 import { RevenueData, TargetSettings } from "../../types/revenue";
 import { formatCurrency } from "../../utils/formatters";
 import { getTargetForDate } from "../../utils/calculations";
+import { compareDateKeys, parseDateKey } from "../../utils/dates";
+import {
+  createLocationValues,
+  getDefaultDailyTargets,
+  getLocationColor,
+  getLocations,
+  getTotalRevenue,
+  sumLocationValues,
+  useLocations,
+} from "../../utils/locations";
 import TrendingUpIcon from "@mui/icons-material/TrendingUp";
 import TrendingDownIcon from "@mui/icons-material/TrendingDown";
 import RemoveIcon from "@mui/icons-material/Remove";
@@ -56,6 +66,7 @@ const ChartSkeleton = () => (
 // Enhanced tooltip component with modern styling
 const EnhancedTooltip = ({ active, payload, label }: any) => {
   if (active && payload && payload.length) {
+    const locations = getLocations();
     return (
       <Paper
         elevation={8}
@@ -103,30 +114,25 @@ const EnhancedTooltip = ({ active, payload, label }: any) => {
             </Typography>
           </Box>
           <Stack direction="row" spacing={2} sx={{ mt: 1 }}>
-            <Box>
-              <Typography
-                variant="body2"
-                color="rgba(255, 255, 255, 0.7)"
-                gutterBottom
-              >
-                Austin
-              </Typography>
-              <Typography variant="body1" color="#4CAF50">
-                {formatCurrency(payload[0]?.payload?.austin || 0)}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography
-                variant="body2"
-                color="rgba(255, 255, 255, 0.7)"
-                gutterBottom
-              >
-                Charlotte
-              </Typography>
-              <Typography variant="body1" color="#7B1FA2">
-                {formatCurrency(payload[0]?.payload?.charlotte || 0)}
-              </Typography>
-            </Box>
+            {locations.map((location) => (
+              <Box key={location.id}>
+                <Typography
+                  variant="body2"
+                  color="rgba(255, 255, 255, 0.7)"
+                  gutterBottom
+                >
+                  {location.name}
+                </Typography>
+                <Typography
+                  variant="body1"
+                  color={getLocationColor(location, locations)}
+                >
+                  {formatCurrency(
+                    payload[0]?.payload?.revenue?.[location.id] || 0
+                  )}
+                </Typography>
+              </Box>
+            ))}
           </Stack>
         </Stack>
       </Paper>
@@ -147,36 +153,37 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
   isLoading = false,
 }) => {
   const theme = useTheme();
+  const locations = useLocations();
 
   // Process data for the last 30 working days
   const processedData = useMemo(() => {
     if (!data || data.length === 0) return null;
 
     // Sort data by date
-    const sortedData = [...data].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    const sortedData = [...data].sort((a, b) =>
+      compareDateKeys(a.date, b.date)
     );
 
     // Get the last 30 working days and filter out weekends
     const last30Days = sortedData.slice(-30).filter((entry) => {
-      const date = new Date(entry.date + "T00:00:00");
+      const date = parseDateKey(entry.date);
       const dayNumber = date.getDay();
       return dayNumber > 0 && dayNumber < 6;
     });
 
     // Process each entry with dynamic target calculation
     const processedEntries = last30Days.map((entry) => {
-      const date = new Date(entry.date + "T00:00:00");
+      const date = parseDateKey(entry.date);
       const dayNumber = date.getDay();
       const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
       const dayName = dayNames[dayNumber];
-      const total = (entry.austin || 0) + (entry.charlotte || 0);
+      const total = getTotalRevenue(entry, locations);
 
       // Use actual target settings if available, otherwise fallback to default
       const dailyTargets = targetSettings
         ? getTargetForDate(date, targetSettings)
-        : { austin: 53000, charlotte: 62500 };
-      const dailyTarget = dailyTargets.austin + dailyTargets.charlotte;
+        : getDefaultDailyTargets(locations);
+      const dailyTarget = sumLocationValues(dailyTargets, locations);
       const attainment = dailyTarget > 0 ? (total / dailyTarget) * 100 : 0;
 
       return {
@@ -185,8 +192,10 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
         dayName,
         total,
         attainment,
-        austin: entry.austin || 0,
-        charlotte: entry.charlotte || 0,
+        revenue: createLocationValues(
+          (location) => entry.revenue?.[location.id] || 0,
+          locations
+        ),
         target: dailyTarget,
         formattedDate: date.toLocaleDateString("en-US", {
           month: "short",
@@ -196,62 +205,21 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
     });
 
     // Calculate weekday averages and statistics
+    const createWeekdayStats = () => ({
+      count: 0,
+      totalAttainment: 0,
+      totalRevenue: createLocationValues(() => 0, locations),
+      avgAttainment: 0,
+      avgRevenue: createLocationValues(() => 0, locations),
+      bestDay: 0,
+      worstDay: 100,
+    });
     const weekdayData = {
-      Mon: {
-        count: 0,
-        totalAttainment: 0,
-        totalAustin: 0,
-        totalCharlotte: 0,
-        avgAttainment: 0,
-        avgAustin: 0,
-        avgCharlotte: 0,
-        bestDay: 0,
-        worstDay: 100,
-      },
-      Tue: {
-        count: 0,
-        totalAttainment: 0,
-        totalAustin: 0,
-        totalCharlotte: 0,
-        avgAttainment: 0,
-        avgAustin: 0,
-        avgCharlotte: 0,
-        bestDay: 0,
-        worstDay: 100,
-      },
-      Wed: {
-        count: 0,
-        totalAttainment: 0,
-        totalAustin: 0,
-        totalCharlotte: 0,
-        avgAttainment: 0,
-        avgAustin: 0,
-        avgCharlotte: 0,
-        bestDay: 0,
-        worstDay: 100,
-      },
-      Thu: {
-        count: 0,
-        totalAttainment: 0,
-        totalAustin: 0,
-        totalCharlotte: 0,
-        avgAttainment: 0,
-        avgAustin: 0,
-        avgCharlotte: 0,
-        bestDay: 0,
-        worstDay: 100,
-      },
-      Fri: {
-        count: 0,
-        totalAttainment: 0,
-        totalAustin: 0,
-        totalCharlotte: 0,
-        avgAttainment: 0,
-        avgAustin: 0,
-        avgCharlotte: 0,
-        bestDay: 0,
-        worstDay: 100,
-      },
+      Mon: createWeekdayStats(),
+      Tue: createWeekdayStats(),
+      Wed: createWeekdayStats(),
+      Thu: createWeekdayStats(),
+      Fri: createWeekdayStats(),
     };
 
     // Process entries for weekday averages and track best/worst days
@@ -260,8 +228,9 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
       if (dayData) {
         dayData.count++;
         dayData.totalAttainment += entry.attainment;
-        dayData.totalAustin += entry.austin;
-        dayData.totalCharlotte += entry.charlotte;
+        locations.forEach((location) => {
+          dayData.totalRevenue[location.id] += entry.revenue[location.id];
+        });
         dayData.bestDay = Math.max(dayData.bestDay, entry.attainment);
         dayData.worstDay = Math.min(dayData.worstDay, entry.attainment);
       }
@@ -276,8 +245,10 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
     Object.entries(weekdayData).forEach(([day, data]) => {
       if (data.count > 0) {
         data.avgAttainment = data.totalAttainment / data.count;
-        data.avgAustin = data.totalAustin / data.count;
-        data.avgCharlotte = data.totalCharlotte / data.count;
+        locations.forEach((location) => {
+          data.avgRevenue[location.id] =
+            data.totalRevenue[location.id] / data.count;
+        });
         totalDays += data.count;
         totalAttainment += data.totalAttainment;
       }
@@ -329,7 +300,7 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
       firstDate: processedEntries[0]?.date,
       lastDate: processedEntries[processedEntries.length - 1]?.date,
     };
-  }, [data, targetSettings]);
+  }, [data, targetSettings, locations]);
 
   if (isLoading) {
     return <ChartSkeleton />;
@@ -422,12 +393,12 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
                       <Typography variant="body2" color="text.secondary">
                         Avg revenue:{" "}
                         {formatCurrency(
-                          processedData.weekdayData[
-                            day as keyof typeof processedData.weekdayData
-                          ].totalAustin +
+                          sumLocationValues(
                             processedData.weekdayData[
                               day as keyof typeof processedData.weekdayData
-                            ].totalCharlotte
+                            ].totalRevenue,
+                            locations
+                          )
                         )}
                       </Typography>
                     </Box>
@@ -712,26 +683,27 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
                   margin={{ top: 20, right: 30, left: 20, bottom: 80 }}
                 >
                   <defs>
-                    <linearGradient
-                      id="colorAustin"
-                      x1="0"
-                      y1="0"
-                      x2="0"
-                      y2="1"
-                    >
-                      <stop offset="5%" stopColor="#4CAF50" stopOpacity={0.3} />
-                      <stop offset="95%" stopColor="#4CAF50" stopOpacity={0} />
-                    </linearGradient>
-                    <linearGradient
-                      id="colorCharlotte"
-                      x1="0"
-                      y1="0"
-                      x2="0"
-                      y2="1"
-                    >
-                      <stop offset="5%" stopColor="#7B1FA2" stopOpacity={0.3} />
-                      <stop offset="95%" stopColor="#7B1FA2" stopOpacity={0} />
-                    </linearGradient>
+                    {locations.map((location) => (
+                      <linearGradient
+                        key={location.id}
+                        id={`color-${location.id}`}
+                        x1="0"
+                        y1="0"
+                        x2="0"
+                        y2="1"
+                      >
+                        <stop
+                          offset="5%"
+                          stopColor={getLocationColor(location, locations)}
+                          stopOpacity={0.3}
+                        />
+                        <stop
+                          offset="95%"
+                          stopColor={getLocationColor(location, locations)}
+                          stopOpacity={0}
+                        />
+                      </linearGradient>
+                    ))}
                   </defs>
                   <CartesianGrid
                     strokeDasharray="3 3"
@@ -741,7 +713,7 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
                   <XAxis
                     dataKey="date"
                     tickFormatter={(value) =>
-                      new Date(value).toLocaleDateString()
+                      parseDateKey(value).toLocaleDateString()
                     }
                     angle={-45}
                     textAnchor="end"
@@ -872,14 +844,10 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
                       processedData.weekdayData[
                         day as keyof typeof processedData.weekdayData
                       ].avgAttainment || 0,
-                    austin:
+                    revenue:
                       processedData.weekdayData[
                         day as keyof typeof processedData.weekdayData
-                      ].avgAustin || 0,
-                    charlotte:
-                      processedData.weekdayData[
-                        day as keyof typeof processedData.weekdayData
-                      ].avgCharlotte || 0,
+                      ].avgRevenue,
                   }))}
                   margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
                 >
@@ -966,24 +934,18 @@ export const DailyPatternsView: React.FC<DailyPatternsViewProps> = ({
                       stroke: "#1976D2",
                     }}
                   />
-                  <Area
-                    type="monotone"
-                    dataKey="austin"
-                    name="Austin Revenue"
-                    yAxisId="right"
-                    fill="url(#colorAustin)"
-                    stroke="#4CAF50"
-                    strokeWidth={2}
-                  />
-                  <Area
-                    type="monotone"
-                    dataKey="charlotte"
-                    name="Charlotte Revenue"
-                    yAxisId="right"
-                    fill="url(#colorCharlotte)"
-                    stroke="#7B1FA2"
-                    strokeWidth={2}
-                  />
+                  {locations.map((location) => (
+                    <Area
+                      key={location.id}
+                      type="monotone"
+                      dataKey={`revenue.${location.id}`}
+                      name={`${location.name} Revenue`}
+                      yAxisId="right"
+                      fill={`url(#color-${location.id})`}
+                      stroke={getLocationColor(location, locations)}
+                      strokeWidth={2}
+                    />
+                  ))}
                 </ComposedChart>
               </ResponsiveContainer>
             </Box>
@@ -20,6 +20,13 @@ import {
   filterDataByTimeFrame,
   getTargetForDate,
 } from "../../utils/calculations";
+import {
+  getLocationRevenue,
+  getTotalRevenue,
+  sumLocationValues,
+  useLocations,
+} from "../../utils/locations";
+import { parseDateKey } from "../../utils/dates";
 
 interface DistributionChartsProps {
   data: RevenueData[];
@@ -42,6 +49,7 @@ export const DistributionCharts: React.FC<DistributionChartsProps> = ({
   targets,
 }) => {
   const theme = useTheme();
+  const locations = useLocations();
 
   // Simplified color scheme with more distinct colors
   const COLORS = {
@@ -79,122 +87,72 @@ export const DistributionCharts: React.FC<DistributionChartsProps> = ({
       },
     ];
 
+    type RangeCount = (typeof ranges)[number] & { count: number };
+    const createCounts = (): RangeCount[] =>
+      ranges.map((range) => ({ ...range, count: 0 }));
+    const addToCounts = (counts: RangeCount[], attainment: number) => {
+      counts.forEach((range) => {
+        if (attainment >= range.min && attainment <= range.max) {
+          range.count++;
+        }
+      });
+    };
+
     // Initialize counts
-    const austinCounts = ranges.map((range) => ({ ...range, count: 0 }));
-    const charlotteCounts = ranges.map((range) => ({ ...range, count: 0 }));
-    const combinedCounts = ranges.map((range) => ({ ...range, count: 0 }));
+    const locationCounts = Object.fromEntries(
+      locations.map((location) => [location.id, createCounts()])
+    );
+    const combinedCounts = createCounts();
 
     // Count entries in each range
     filteredData.forEach((item) => {
-      const dateParts = item.date.split("-");
-      const year = parseInt(dateParts[0]);
-      const month = parseInt(dateParts[1]) - 1;
-      const day = parseInt(dateParts[2]);
-
-      const date = new Date(year, month, day);
+      const date = parseDateKey(item.date);
       const dailyTarget = getTargetForDate(date, targets);
 
       // Skip days with zero targets (non-working days)
-      if (dailyTarget.austin === 0 && dailyTarget.charlotte === 0) {
+      const combinedTarget = sumLocationValues(dailyTarget, locations);
+      if (combinedTarget === 0) {
         return;
       }
 
-      const austinAttainment =
-        dailyTarget.austin > 0 ? (item.austin / dailyTarget.austin) * 100 : 0;
-
-      const charlotteAttainment =
-        dailyTarget.charlotte > 0
-          ? (item.charlotte / dailyTarget.charlotte) * 100
-          : 0;
-
-      const combinedTarget = dailyTarget.austin + dailyTarget.charlotte;
-      const combinedRevenue = item.austin + item.charlotte;
-      const combinedAttainment =
-        combinedTarget > 0 ? (combinedRevenue / combinedTarget) * 100 : 0;
-
       // Increment counts for each location using corrected ranges
-      austinCounts.forEach((range) => {
-        if (austinAttainment >= range.min && austinAttainment <= range.max) {
-          range.count++;
-        }
-      });
-
-      charlotteCounts.forEach((range) => {
-        if (
-          charlotteAttainment >= range.min &&
-          charlotteAttainment <= range.max
-        ) {
-          range.count++;
-        }
+      locations.forEach((location) => {
+        const target = dailyTarget[location.id] || 0;
+        const attainment =
+          target > 0 ? (getLocationRevenue(item, location.id) / target) * 100 : 0;
+        addToCounts(locationCounts[location.id], attainment);
       });
 
-      combinedCounts.forEach((range) => {
-        if (
-          combinedAttainment >= range.min &&
-          combinedAttainment <= range.max
-        ) {
-          range.count++;
-        }
-      });
+      const combinedRevenue = getTotalRevenue(item, locations);
+      addToCounts(combinedCounts, (combinedRevenue / combinedTarget) * 100);
     });
 
-    // Filter out ranges with zero count for cleaner pie charts
-    const filteredAustinCounts = austinCounts.filter(
-      (range) => range.count > 0
-    );
-    const filteredCharlotteCounts = charlotteCounts.filter(
-      (range) => range.count > 0
-    );
-    const filteredCombinedCounts = combinedCounts.filter(
-      (range) => range.count > 0
-    );
-
-    // Calculate total counts for percentage calculation
-    const austinTotal = filteredAustinCounts.reduce(
-      (sum, item) => sum + item.count,
-      0
-    );
-    const charlotteTotal = filteredCharlotteCounts.reduce(
-      (sum, item) => sum + item.count,
-      0
-    );
-    const combinedTotal = filteredCombinedCounts.reduce(
-      (sum, item) => sum + item.count,
-      0
-    );
-
-    // Add percentage to each item
-    const austinWithPercentage = filteredAustinCounts.map((item) => ({
-      ...item,
-      percentage:
-        austinTotal > 0 ? Math.round((item.count / austinTotal) * 100) : 0,
-    }));
-
-    const charlotteWithPercentage = filteredCharlotteCounts.map((item) => ({
-      ...item,
-      percentage:
-        charlotteTotal > 0
-          ? Math.round((item.count / charlotteTotal) * 100)
-          : 0,
-    }));
-
-    const combinedWithPercentage = filteredCombinedCounts.map((item) => ({
-      ...item,
-      percentage:
-        combinedTotal > 0 ? Math.round((item.count / combinedTotal) * 100) : 0,
-    }));
-
-    return {
-      austin: austinWithPercentage,
-      charlotte: charlotteWithPercentage,
-      combined: combinedWithPercentage,
-      austinTotal,
-      charlotteTotal,
-      combinedTotal,
+    // Filter out ranges with zero count for cleaner pie charts and add the
+    // percentage of days in each range
+    const toSection = (key: string, label: string, counts: RangeCount[]) => {
+      const nonEmpty = counts.filter((range) => range.count > 0);
+      const total = nonEmpty.reduce((sum, item) => sum + item.count, 0);
+      return {
+        key,
+        label,
+        total,
+        data: nonEmpty.map((item) => ({
+          ...item,
+          percentage: total > 0 ? Math.round((item.count / total) * 100) : 0,
+        })),
+      };
     };
+
+    return [
+      ...locations.map((location) =>
+        toSection(location.id, location.name, locationCounts[location.id])
+      ),
+      toSection("combined", "Combined", combinedCounts),
+    ];
   };
 
   const distribution = calculateDistribution();
+  const sectionColumns = Math.max(3, Math.floor(12 / distribution.length));
 
   // Custom tooltip
   const CustomTooltip = ({ active, payload }: any) => {
@@ -312,156 +270,58 @@ export const DistributionCharts: React.FC<DistributionChartsProps> = ({
         </Box>
       ) : (
         <Grid container spacing={3}>
-          <Grid size={{ xs: 12, md: 4 }}>
-            <Paper elevation={1} sx={{ p: 2, height: "100%" }}>
-              <Typography
-                variant="subtitle1"
-                align="center"
-                gutterBottom
-                fontWeight="bold"
-              >
-                Austin
-              </Typography>
-              <Typography
-                variant="body2"
-                align="center"
-                color="text.secondary"
-                gutterBottom
-              >
-                {distribution.austinTotal} days total
-              </Typography>
-              <Box sx={{ height: 220 }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={distribution.austin}
-                      cx="50%"
-                      cy="50%"
-                      labelLine={false}
-                      label={renderCustomizedLabel}
-                      outerRadius={80}
-                      innerRadius={40}
-                      fill="#8884d8"
-                      dataKey="count"
-                      nameKey="name"
-                      paddingAngle={4}
-                    >
-                      {distribution.austin.map((entry, index) => (
-                        <Cell
-                          key={`cell-${index}`}
-                          fill={entry.color}
-                          stroke={theme.palette.background.paper}
-                          strokeWidth={2}
-                        />
-                      ))}
-                    </Pie>
-                    <RechartsTooltip content={<CustomTooltip />} />
-                  </PieChart>
-                </ResponsiveContainer>
-              </Box>
-              <SimpleLegend data={distribution.austin} />
-            </Paper>
-          </Grid>
-          <Grid size={{ xs: 12, md: 4 }}>
-            <Paper elevation={1} sx={{ p: 2, height: "100%" }}>
-              <Typography
-                variant="subtitle1"
-                align="center"
-                gutterBottom
-                fontWeight="bold"
-              >
-                Charlotte
-              </Typography>
-              <Typography
-                variant="body2"
-                align="center"
-                color="text.secondary"
-                gutterBottom
-              >
-                {distribution.charlotteTotal} days total
-              </Typography>
-              <Box sx={{ height: 220 }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={distribution.charlotte}
-                      cx="50%"
-                      cy="50%"
-                      labelLine={false}
-                      label={renderCustomizedLabel}
-                      outerRadius={80}
-                      innerRadius={40}
-                      fill="#8884d8"
-                      dataKey="count"
-                      nameKey="name"
-                      paddingAngle={4}
-                    >
-                      {distribution.charlotte.map((entry, index) => (
-                        <Cell
-                          key={`cell-${index}`}
-                          fill={entry.color}
-                          stroke={theme.palette.background.paper}
-                          strokeWidth={2}
-                        />
-                      ))}
-                    </Pie>
-                    <RechartsTooltip content={<CustomTooltip />} />
-                  </PieChart>
-                </ResponsiveContainer>
-              </Box>
-              <SimpleLegend data={distribution.charlotte} />
-            </Paper>
-          </Grid>
-          <Grid size={{ xs: 12, md: 4 }}>
-            <Paper elevation={1} sx={{ p: 2, height: "100%" }}>
-              <Typography
-                variant="subtitle1"
-                align="center"
-                gutterBottom
-                fontWeight="bold"
-              >
-                Combined
-              </Typography>
-              <Typography
-                variant="body2"
-                align="center"
-                color="text.secondary"
-                gutterBottom
-              >
-                {distribution.combinedTotal} days total
-              </Typography>
-              <Box sx={{ height: 220 }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={distribution.combined}
-                      cx="50%"
-                      cy="50%"
-                      labelLine={false}
-                      label={renderCustomizedLabel}
-                      outerRadius={80}
-                      innerRadius={40}
-                      fill="#8884d8"
-                      dataKey="count"
-                      nameKey="name"
-                      paddingAngle={4}
-                    >
-                      {distribution.combined.map((entry, index) => (
-                        <Cell
-                          key={`cell-${index}`}
-                          fill={entry.color}
-                          stroke={theme.palette.background.paper}
-                          strokeWidth={2}
-                        />
-                      ))}
-                    </Pie>
-                    <RechartsTooltip content={<CustomTooltip />} />
-                  </PieChart>
-                </ResponsiveContainer>
-              </Box>
-              <SimpleLegend data={distribution.combined} />
-            </Paper>
-          </Grid>
+          {distribution.map((section) => (
+            <Grid key={section.key} size={{ xs: 12, md: sectionColumns }}>
+              <Paper elevation={1} sx={{ p: 2, height: "100%" }}>
+                <Typography
+                  variant="subtitle1"
+                  align="center"
+                  gutterBottom
+                  fontWeight="bold"
+                >
+                  {section.label}
+                </Typography>
+                <Typography
+                  variant="body2"
+                  align="center"
+                  color="text.secondary"
+                  gutterBottom
+                >
+                  {section.total} days total
+                </Typography>
+                <Box sx={{ height: 220 }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={section.data}
+                        cx="50%"
+                        cy="50%"
+                        labelLine={false}
+                        label={renderCustomizedLabel}
+                        outerRadius={80}
+                        innerRadius={40}
+                        fill="#8884d8"
+                        dataKey="count"
+                        nameKey="name"
+                        paddingAngle={4}
+                      >
+                        {section.data.map((entry, index) => (
+                          <Cell
+                            key={`cell-${index}`}
+                            fill={entry.color}
+                            stroke={theme.palette.background.paper}
+                            strokeWidth={2}
+                          />
+                        ))}
+                      </Pie>
+                      <RechartsTooltip content={<CustomTooltip />} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </Box>
+                <SimpleLegend data={section.data} />
+              </Paper>
+            </Grid>
+          ))}
         </Grid>
       )}
     </Paper>
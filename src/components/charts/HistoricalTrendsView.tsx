@@ -11,7 +11,6 @@ import {
   Tabs,
   Tab,
   Divider,
-  TextField,
 } from "@mui/material";
 import Grid from "@mui/material/Grid";
 import {
@@ -34,8 +33,14 @@ import { RevenueData, TargetSettings } from "../../types/revenue";
 import {
   calculateMonthlyTrends,
   calculateMovingAverage,
-  forecastWithLinearRegression,
 } from "../../utils/calculations";
+import {
+  DEFAULT_PREDICTION_LEVEL,
+  forecastPeriods,
+  getUpcomingPeriods,
+} from "../../utils/forecasting";
+import { getLocationColor, useLocations } from "../../utils/locations";
+import { getNow } from "../../utils/asOf";
 import TrendingUpIcon from "@mui/icons-material/TrendingUp";
 import TrendingDownIcon from "@mui/icons-material/TrendingDown";
 import RemoveIcon from "@mui/icons-material/Remove";
@@ -248,23 +253,13 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
   isLoading = false,
 }) => {
   const theme = useTheme();
+  const locations = useLocations();
   const [activeTab, setActiveTab] = useState(0);
-  const [futureAgentCounts, setFutureAgentCounts] = useState<{
-    [key: string]: number;
-  }>({});
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
   };
 
-  const handleAgentCountChange = (key: string, value: string) => {
-    const count = parseInt(value, 10);
-    setFutureAgentCounts((prev) => ({
-      ...prev,
-      [key]: isNaN(count) ? 0 : count,
-    }));
-  };
-
   // Memoize calculations to prevent unnecessary recalculations
   const { monthlyTrends, movingAverageData, insights, forecastData } =
     useMemo(() => {
@@ -279,7 +274,15 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
 
       const trends = calculateMonthlyTrends(data, targetSettings);
       const maData = calculateMovingAverage(trends, 3);
-      const forecast = forecastWithLinearRegression(trends, futureAgentCounts);
+      // The period under way and the next three, with the range around each
+      const now = getNow();
+      const forecast = forecastPeriods(
+        data,
+        targetSettings,
+        getUpcomingPeriods(targetSettings, 3, now),
+        undefined,
+        now
+      ).map((period) => ({ ...period, range: [period.lower, period.upper] }));
 
       // Calculate insights
       const currentMonth = trends[trends.length - 1];
@@ -296,20 +299,18 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
             previousMonth?.currentYear || 0
           ),
         },
-        austinAttainment: {
-          current: currentMonth?.austinAttainment || 0,
-          trend: calculateTrend(
-            currentMonth?.austinAttainment || 0,
-            previousMonth?.austinAttainment || 0
-          ),
-        },
-        charlotteAttainment: {
-          current: currentMonth?.charlotteAttainment || 0,
-          trend: calculateTrend(
-            currentMonth?.charlotteAttainment || 0,
-            previousMonth?.charlotteAttainment || 0
-          ),
-        },
+        locationAttainment: Object.fromEntries(
+          locations.map((location) => {
+            const current =
+              currentMonth?.locationAttainment[location.id] || 0;
+            const previous =
+              previousMonth?.locationAttainment[location.id] || 0;
+            return [
+              location.id,
+              { current, trend: calculateTrend(current, previous) },
+            ];
+          })
+        ),
         combinedAttainment: {
           current: currentMonth?.combinedAttainment || 0,
           trend: calculateTrend(
@@ -325,7 +326,7 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
         insights,
         forecastData: forecast,
       };
-    }, [data, targetSettings, futureAgentCounts]);
+    }, [data, targetSettings, locations]);
 
   // Calculate data availability flags
   const dataAvailability = useMemo(() => {
@@ -339,7 +340,8 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
     );
     const hasEnoughDataForMA = monthlyTrends.length >= 2;
     const hasAttainmentData = monthlyTrends.some(
-      (item) => item.austinAttainment > 0 || item.charlotteAttainment > 0
+      (item) =>
+        locations.some((location) => item.locationAttainment[location.id] > 0)
     );
 
     return {
@@ -348,7 +350,7 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
       performancePatterns: hasAttainmentData,
       monthCount: monthlyTrends.length,
     };
-  }, [monthlyTrends]);
+  }, [monthlyTrends, locations]);
 
   // Calculate Y-axis domains for better visualization
   const yDomains = useMemo(() => {
@@ -360,21 +362,22 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
 
     const attainmentValues = monthlyTrends
       .flatMap((item) => [
-        item.austinAttainment,
-        item.charlotteAttainment,
+        ...locations.map((location) => item.locationAttainment[location.id]),
         item.combinedAttainment,
       ])
       .filter((val) => val !== null && !isNaN(val));
 
     const maValues = movingAverageData
-      .flatMap((item) => [item.austin, item.charlotte])
+      .flatMap((item) =>
+        locations.map((location) => item.locations[location.id])
+      )
       .filter((val) => val !== null && !isNaN(val));
 
     return {
       revenue: [0, Math.max(...revenueValues) * 1.1],
       attainment: [0, Math.max(...attainmentValues, ...maValues) * 1.1],
     };
-  }, [monthlyTrends, movingAverageData]);
+  }, [monthlyTrends, movingAverageData, locations]);
 
   if (isLoading) {
     console.log("Historical trends view is loading");
@@ -422,6 +425,13 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
       compactDisplay: "short",
     }).format(value);
 
+  // Trends are grouped by fiscal period when a fiscal calendar is set
+  const isFiscal = !!targetSettings.fiscalCalendar;
+  const periodName = isFiscal ? "Period" : "Month";
+
+  // Monthly revenue + one card per location + combined
+  const insightColumns = Math.max(2, Math.floor(12 / (locations.length + 2)));
+
   const formatPercent = (value: number) =>
     new Intl.NumberFormat("en-US", {
       style: "percent",
@@ -435,36 +445,32 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
         {/* Insights Summary */}
         {insights && (
           <>
-            <Grid xs={12} md={3}>
+            <Grid xs={12} md={insightColumns}>
               <InsightCard
-                title="Monthly Revenue"
+                title={isFiscal ? "Period Revenue" : "Monthly Revenue"}
                 value={formatCurrency(insights.revenue.current)}
                 trend={insights.revenue.trend}
-                subtitle="vs. Previous Month"
+                subtitle={`vs. Previous ${periodName}`}
               />
             </Grid>
-            <Grid xs={12} md={3}>
-              <InsightCard
-                title="Austin Attainment"
-                value={formatPercent(insights.austinAttainment.current)}
-                trend={insights.austinAttainment.trend}
-                subtitle="vs. Previous Month"
-              />
-            </Grid>
-            <Grid xs={12} md={3}>
-              <InsightCard
-                title="Charlotte Attainment"
-                value={formatPercent(insights.charlotteAttainment.current)}
-                trend={insights.charlotteAttainment.trend}
-                subtitle="vs. Previous Month"
-              />
-            </Grid>
-            <Grid xs={12} md={3}>
+            {locations.map((location) => (
+              <Grid key={location.id} xs={12} md={insightColumns}>
+                <InsightCard
+                  title={`${location.name} Attainment`}
+                  value={formatPercent(
+                    insights.locationAttainment[location.id]?.current || 0
+                  )}
+                  trend={insights.locationAttainment[location.id]?.trend || 0}
+                  subtitle={`vs. Previous ${periodName}`}
+                />
+              </Grid>
+            ))}
+            <Grid xs={12} md={insightColumns}>
               <InsightCard
                 title="Combined Attainment"
                 value={formatPercent(insights.combinedAttainment.current)}
                 trend={insights.combinedAttainment.trend}
-                subtitle="vs. Previous Month"
+                subtitle={`vs. Previous ${periodName}`}
               />
             </Grid>
           </>
@@ -578,26 +584,19 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
                       barSize={60}
                     />
                     {/* Attainment Lines */}
-                    <Line
-                      yAxisId="attainment"
-                      type="monotone"
-                      dataKey="austinAttainment"
-                      name="Austin Attainment"
-                      stroke={theme.palette.info.main}
-                      strokeWidth={2}
-                      dot={{ r: 4, strokeWidth: 2 }}
-                      activeDot={{ r: 6 }}
-                    />
-                    <Line
-                      yAxisId="attainment"
-                      type="monotone"
-                      dataKey="charlotteAttainment"
-                      name="Charlotte Attainment"
-                      stroke={theme.palette.secondary.main}
-                      strokeWidth={2}
-                      dot={{ r: 4, strokeWidth: 2 }}
-                      activeDot={{ r: 6 }}
-                    />
+                    {locations.map((location) => (
+                      <Line
+                        key={location.id}
+                        yAxisId="attainment"
+                        type="monotone"
+                        dataKey={`locationAttainment.${location.id}`}
+                        name={`${location.name} Attainment`}
+                        stroke={getLocationColor(location, locations)}
+                        strokeWidth={2}
+                        dot={{ r: 4, strokeWidth: 2 }}
+                        activeDot={{ r: 6 }}
+                      />
+                    ))}
                     <Line
                       yAxisId="attainment"
                       type="monotone"
@@ -629,8 +628,8 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
                 color="text.secondary"
                 sx={{ mt: 2, textAlign: "center" }}
               >
-                Bars represent monthly revenue while lines show attainment
-                percentages
+                Bars represent {isFiscal ? "fiscal period" : "monthly"} revenue
+                while lines show attainment percentages
               </Typography>
             </Paper>
           </Grid>
@@ -656,7 +655,7 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
                   gutterBottom
                   sx={{ fontWeight: 600, color: "text.primary", mb: 3 }}
                 >
-                  3-Month Moving Average & Forecast
+                  3-{periodName} Moving Average & Forecast
                 </Typography>
                 <Box sx={{ height: 600, width: "100%", mt: 2, pb: 2 }}>
                   <ResponsiveContainer>
@@ -714,24 +713,18 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
                           </span>
                         )}
                       />
-                      <Area
-                        type="monotone"
-                        dataKey="austin"
-                        name="Austin MA"
-                        fill={theme.palette.primary.light}
-                        stroke={theme.palette.primary.main}
-                        fillOpacity={0.3}
-                        strokeWidth={2}
-                      />
-                      <Area
-                        type="monotone"
-                        dataKey="charlotte"
-                        name="Charlotte MA"
-                        fill={theme.palette.secondary.light}
-                        stroke={theme.palette.secondary.main}
-                        fillOpacity={0.3}
-                        strokeWidth={2}
-                      />
+                      {locations.map((location) => (
+                        <Area
+                          key={location.id}
+                          type="monotone"
+                          dataKey={`locations.${location.id}`}
+                          name={`${location.name} MA`}
+                          fill={getLocationColor(location, locations)}
+                          stroke={getLocationColor(location, locations)}
+                          fillOpacity={0.3}
+                          strokeWidth={2}
+                        />
+                      ))}
                       {/* Target Reference Line */}
                       <ReferenceLine
                         y={100}
@@ -752,8 +745,8 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
                   color="text.secondary"
                   sx={{ mt: 2, textAlign: "center" }}
                 >
-                  3-month moving average shows smoothed performance trends over
-                  time
+                  3-{periodName.toLowerCase()} moving average shows smoothed
+                  performance trends over time
                 </Typography>
               </Paper>
             </Grid>
@@ -776,50 +769,97 @@ export const HistoricalTrendsView: React.FC<HistoricalTrendsViewProps> = ({
                 >
                   Revenue Forecast
                 </Typography>
-                <Grid container spacing={2}>
-                  {Array.from({ length: 3 }).map((_, index) => {
-                    const date = new Date();
-                    date.setMonth(date.getMonth() + index + 1);
-                    const year = date.getFullYear();
-                    const month = date.getMonth();
-                    const key = `${year}-${month}`;
-                    return (
-                      <Grid xs={12} md={4} key={key}>
-                        <TextField
-                          fullWidth
-                          label={`${date.toLocaleString("default", {
-                            month: "long",
-                          })} ${year} - Agents`}
-                          type="number"
-                          value={futureAgentCounts[key] || ""}
-                          onChange={(e) =>
-                            handleAgentCountChange(key, e.target.value)
-                          }
-                        />
-                      </Grid>
-                    );
-                  })}
-                </Grid>
+                <Box sx={{ height: 400, width: "100%" }}>
+                  <ResponsiveContainer>
+                    <ComposedChart
+                      data={forecastData}
+                      margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                    >
+                      <CartesianGrid
+                        strokeDasharray="3 3"
+                        stroke={theme.palette.divider}
+                      />
+                      <XAxis
+                        dataKey="label"
+                        tick={{
+                          fill: theme.palette.text.secondary,
+                          fontSize: 12,
+                        }}
+                        stroke={theme.palette.divider}
+                        tickLine={false}
+                      />
+                      <YAxis
+                        tickFormatter={formatCurrency}
+                        tick={{
+                          fill: theme.palette.text.secondary,
+                          fontSize: 12,
+                        }}
+                        stroke={theme.palette.divider}
+                        tickLine={false}
+                      />
+                      <Tooltip
+                        formatter={(value: any, name: any) => [
+                          Array.isArray(value)
+                            ? `${formatCurrency(value[0])} – ${formatCurrency(
+                                value[1]
+                              )}`
+                            : formatCurrency(value),
+                          name,
+                        ]}
+                        contentStyle={{
+                          backgroundColor: theme.palette.background.paper,
+                          border: `1px solid ${theme.palette.divider}`,
+                          borderRadius: "8px",
+                        }}
+                      />
+                      <Legend verticalAlign="top" height={36} />
+                      <Area
+                        type="monotone"
+                        dataKey="range"
+                        name={`${DEFAULT_PREDICTION_LEVEL * 100}% Range`}
+                        fill={theme.palette.primary.light}
+                        stroke="none"
+                        fillOpacity={0.25}
+                      />
+                      <Bar
+                        dataKey="actual"
+                        name="Entered"
+                        fill={theme.palette.success.main}
+                        barSize={40}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="forecast"
+                        name="Forecast"
+                        stroke={theme.palette.primary.main}
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </Box>
                 {forecastData.length > 0 && (
                   <Box sx={{ mt: 3 }}>
-                    <Typography variant="h6" gutterBottom>
-                      Predicted Revenue
-                    </Typography>
                     {forecastData.map((forecast) => (
-                      <Typography
-                        key={`${forecast.year}-${forecast.month}`}
-                        variant="body1"
-                      >
-                        {new Date(forecast.year, forecast.month).toLocaleString(
-                          "default",
-                          { month: "long" }
-                        )}{" "}
-                        {forecast.year}:{" "}
-                        {formatCurrency(forecast.predictedRevenue)}
+                      <Typography key={forecast.start} variant="body1">
+                        {forecast.label}:{" "}
+                        {formatCurrency(forecast.forecast)} (
+                        {formatCurrency(forecast.lower)} –{" "}
+                        {formatCurrency(forecast.upper)})
                       </Typography>
                     ))}
                   </Box>
                 )}
+                <Typography
+                  variant="body2"
+                  color="text.secondary"
+                  sx={{ mt: 2, textAlign: "center" }}
+                >
+                  Forecast from each location's daily revenue by weekday and
+                  time of year; the {isFiscal ? "period" : "month"} total
+                  should land in the shaded range{" "}
+                  {DEFAULT_PREDICTION_LEVEL * 100}% of the time
+                </Typography>
               </Paper>
             </Grid>
           </Grid>
@@ -10,13 +10,23 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { Typography, useTheme, Box, Paper, Divider } from "@mui/material";
-import { RevenueData, TargetSettings, TimeFrame } from "../../types/revenue";
+import {
+  DailyTarget,
+  RevenueData,
+  TargetSettings,
+  TimeFrame,
+} from "../../types/revenue";
 import {
   getTargetForDate,
   filterDataByTimeFrame,
 } from "../../utils/calculations";
-import { format, parseISO } from "date-fns";
-import { toZonedTime } from "date-fns-tz";
+import {
+  findLocation,
+  getRevenueForLocation,
+  sumLocationValues,
+} from "../../utils/locations";
+import { format } from "date-fns";
+import { compareDateKeys, parseDateKey } from "../../utils/dates";
 
 interface LocationDailyChartProps {
   data: RevenueData[];
@@ -33,6 +43,7 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
 }) => {
   const theme = useTheme();
   const normalizedLocation = location.trim().toLowerCase();
+  const locationConfig = findLocation(normalizedLocation);
 
   // Early validation of input data
   if (!data || data.length === 0) {
@@ -95,6 +106,21 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
     }`,
   });
 
+  // Target and revenue for the selected location, or the sum when combined
+  const getLocationTarget = (targets: DailyTarget) =>
+    normalizedLocation === "combined"
+      ? sumLocationValues(targets)
+      : locationConfig
+      ? targets[locationConfig.id] ?? 0
+      : 0;
+
+  const getLocationEntryRevenue = (entry: RevenueData) =>
+    normalizedLocation === "combined"
+      ? getRevenueForLocation(entry)
+      : locationConfig
+      ? getRevenueForLocation(entry, locationConfig.id)
+      : 0;
+
   // Transform filtered data for chart
   let chartData = [];
 
@@ -113,34 +139,23 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
     console.log("Daily Chart - Looking for weekdays:", weekDays);
 
     chartData = weekDays.map((dateStr) => {
-      const date = toZonedTime(parseISO(dateStr), "UTC");
+      const date = parseDateKey(dateStr);
       const existingData = filteredData.find((d) => d.date === dateStr);
 
       // Log each weekday's data lookup
       console.log(`Daily Chart - Data lookup for ${dateStr}:`, {
         found: !!existingData,
         existingData,
-        dayOfWeek: date.getUTCDay(),
+        dayOfWeek: date.getDay(),
         formattedDate: format(date, "M/d"),
       });
 
       const targets = getTargetForDate(date, targetSettings);
 
-      let locationTarget = 0;
-      let locationRevenue = 0;
-
-      if (normalizedLocation === "combined") {
-        locationTarget = (targets.austin ?? 0) + (targets.charlotte ?? 0);
-        locationRevenue = existingData
-          ? (existingData.austin ?? 0) + (existingData.charlotte ?? 0)
-          : 0;
-      } else if (normalizedLocation === "austin") {
-        locationTarget = targets.austin ?? 0;
-        locationRevenue = existingData?.austin ?? 0;
-      } else if (normalizedLocation === "charlotte") {
-        locationTarget = targets.charlotte ?? 0;
-        locationRevenue = existingData?.charlotte ?? 0;
-      }
+      const locationTarget = getLocationTarget(targets);
+      const locationRevenue = existingData
+        ? getLocationEntryRevenue(existingData)
+        : 0;
 
       console.log(`Daily Chart - Data point for ${dateStr}:`, {
         revenue: locationRevenue,
@@ -148,7 +163,7 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
         location: normalizedLocation,
         rawData: existingData,
         rawTargets: targets,
-        dayOfWeek: date.getUTCDay(),
+        dayOfWeek: date.getDay(),
         formattedDate: format(date, "M/d"),
       });
 
@@ -158,36 +173,25 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
         formattedDate: format(date, "M/d"), // For tooltip use
         actual: locationRevenue,
         target: locationTarget,
-        dayNumber: date.getUTCDay(),
+        dayNumber: date.getDay(),
       };
     });
   } else {
     // For other time frames, use the existing logic
     chartData = filteredData
       .filter((entry) => {
-        const date = toZonedTime(parseISO(entry.date), "UTC");
-        const dayOfWeek = date.getUTCDay();
+        const date = parseDateKey(entry.date);
+        const dayOfWeek = date.getDay();
         // Keep only Monday (1) through Friday (5)
         return dayOfWeek >= 1 && dayOfWeek <= 5;
       })
       .map((entry) => {
-        const date = toZonedTime(parseISO(entry.date), "UTC");
-        const dayOfWeek = date.getUTCDay();
+        const date = parseDateKey(entry.date);
+        const dayOfWeek = date.getDay();
         const targets = getTargetForDate(date, targetSettings);
 
-        let locationTarget = 0;
-        let locationRevenue = 0;
-
-        if (normalizedLocation === "combined") {
-          locationTarget = (targets.austin ?? 0) + (targets.charlotte ?? 0);
-          locationRevenue = (entry.austin ?? 0) + (entry.charlotte ?? 0);
-        } else if (normalizedLocation === "austin") {
-          locationTarget = targets.austin ?? 0;
-          locationRevenue = entry.austin ?? 0;
-        } else if (normalizedLocation === "charlotte") {
-          locationTarget = targets.charlotte ?? 0;
-          locationRevenue = entry.charlotte ?? 0;
-        }
+        const locationTarget = getLocationTarget(targets);
+        const locationRevenue = getLocationEntryRevenue(entry);
 
         console.log(`Daily Chart - Data point for ${entry.date}:`, {
           revenue: locationRevenue,
@@ -211,11 +215,9 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
   }
 
   // Sort the data by date
-  chartData = chartData.sort((a, b) => {
-    const dateA = toZonedTime(parseISO(a.fullDate), "UTC");
-    const dateB = toZonedTime(parseISO(b.fullDate), "UTC");
-    return dateA.getTime() - dateB.getTime();
-  });
+  chartData = chartData.sort((a, b) =>
+    compareDateKeys(a.fullDate, b.fullDate)
+  );
 
   // Verify we have exactly 5 working days
   console.log("Daily Chart - Chart data:", {
@@ -239,7 +241,7 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0]?.payload;
-      const date = toZonedTime(parseISO(data.fullDate), "UTC");
+      const date = parseDateKey(data.fullDate);
       const formattedFullDate = format(date, "MMM d, yyyy");
 
       return (
@@ -284,8 +286,7 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
     const displayLocation =
       normalizedLocation === "combined"
         ? "Combined"
-        : normalizedLocation.charAt(0).toUpperCase() +
-          normalizedLocation.slice(1);
+        : locationConfig?.name ?? location;
 
     switch (timeFrame) {
       case "This Week":
@@ -334,7 +335,7 @@ export const LocationDailyChart: React.FC<LocationDailyChartProps> = ({
               }}
               tick={{ fontSize: 12 }}
               tickFormatter={(value) =>
-                format(toZonedTime(parseISO(value), "UTC"), "M/d")
+                format(parseDateKey(value), "M/d")
               }
             />
             <YAxis
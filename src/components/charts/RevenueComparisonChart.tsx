@@ -1,6 +1,6 @@
 import React from "react";
 import {
-  BarChart,
+  ComposedChart,
   Bar,
   XAxis,
   YAxis,
@@ -17,9 +17,19 @@ import { RevenueData, TimeFrame, TargetSettings } from "../../types/revenue";
 import {
   calculateLocationMetrics,
   filterDataByTimeFrame,
+  getComparisonDate,
+  getComparisonEntries,
+  getComparisonPeriod,
   getTargetForDate,
 } from "../../utils/calculations";
+import {
+  getLocationColor,
+  getLocationRevenue,
+  useLocations,
+} from "../../utils/locations";
 import { format } from "date-fns";
+import { compareDateKeys, parseDateKey } from "../../utils/dates";
+import { getNow } from "../../utils/asOf";
 
 interface RevenueComparisonChartProps {
   data: RevenueData[];
@@ -28,6 +38,7 @@ interface RevenueComparisonChartProps {
   startDate?: string | null;
   endDate?: string | null;
   location?: string;
+  comparePrevious?: boolean; // Overlay the prior period's revenue
 }
 
 export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
@@ -37,11 +48,11 @@ export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
   startDate,
   endDate,
   location = "Combined",
+  comparePrevious = false,
 }) => {
   const theme = useTheme();
+  const locations = useLocations();
   const brandColors = {
-    austin: theme.palette.primary.main,
-    charlotte: theme.palette.secondary.main,
     target: theme.palette.grey[500],
   };
 
@@ -57,22 +68,23 @@ export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
   );
 
   // Sort data by date to ensure correct order
-  const sortedData = [...filteredData].sort((a, b) => {
-    const aDateParts = a.date.split("-");
-    const aYear = parseInt(aDateParts[0]);
-    const aMonth = parseInt(aDateParts[1]) - 1;
-    const aDay = parseInt(aDateParts[2]);
-
-    const bDateParts = b.date.split("-");
-    const bYear = parseInt(bDateParts[0]);
-    const bMonth = parseInt(bDateParts[1]) - 1;
-    const bDay = parseInt(bDateParts[2]);
+  const sortedData = [...filteredData].sort((a, b) =>
+    compareDateKeys(a.date, b.date)
+  );
 
-    const aDate = new Date(aYear, aMonth, aDay);
-    const bDate = new Date(bYear, bMonth, bDay);
-
-    return aDate.getTime() - bDate.getTime();
-  });
+  // Prior period revenue, shown on the matching days of this one
+  const comparisonPeriod = comparePrevious
+    ? getComparisonPeriod(
+        timeFrame,
+        getNow(location),
+        targetSettings,
+        startDate,
+        endDate
+      )
+    : null;
+  const comparisonEntries = comparisonPeriod
+    ? getComparisonEntries(data, comparisonPeriod, targetSettings, location)
+    : null;
 
   // Actual dates in the data for debugging (commented out)
   // console.log(
@@ -82,14 +94,7 @@ export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
 
   // Transform data for the chart - only include dates that have actual data
   const chartData = sortedData.map((entry) => {
-    // Parse the date string correctly
-    // The date string is in format 'YYYY-MM-DD'
-    const dateParts = entry.date.split("-");
-    const year = parseInt(dateParts[0]);
-    const month = parseInt(dateParts[1]) - 1; // JavaScript months are 0-indexed
-    const day = parseInt(dateParts[2]);
-
-    const date = new Date(year, month, day);
+    const date = parseDateKey(entry.date);
     // console.log(
     //   `Original date string: ${entry.date}, Parsed date: ${date.toISOString()}`
     // );
@@ -97,17 +102,25 @@ export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
     // Use a more detailed date format that includes the year to avoid confusion
     const formattedDate = format(date, "MM/dd");
 
-    const { austin: austinTarget, charlotte: charlotteTarget } =
-      getTargetForDate(date, targetSettings);
+    const dailyTargets = getTargetForDate(date, targetSettings);
 
-    return {
+    const row: Record<string, string | number> = {
       date: formattedDate,
       fullDate: entry.date, // Store the original date string for tooltip
-      Austin: entry.austin || 0,
-      Charlotte: entry.charlotte || 0,
-      AustinTarget: austinTarget,
-      CharlotteTarget: charlotteTarget,
     };
+    locations.forEach((loc) => {
+      row[loc.id] = getLocationRevenue(entry, loc.id);
+      row[`${loc.id}Target`] = dailyTargets[loc.id] || 0;
+    });
+    if (comparisonPeriod && comparisonEntries) {
+      const prior = comparisonEntries.get(
+        getComparisonDate(entry.date, comparisonPeriod)
+      );
+      locations.forEach((loc) => {
+        row[`${loc.id}Prior`] = prior ? getLocationRevenue(prior, loc.id) : 0;
+      });
+    }
+    return row;
   });
 
   // Chart data for debugging (commented out)
@@ -119,7 +132,7 @@ export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
       // Use the full date in the tooltip for clarity
       const fullDate = payload[0]?.payload?.fullDate;
       const formattedFullDate = fullDate
-        ? format(new Date(fullDate), "MMM d, yyyy")
+        ? format(parseDateKey(fullDate), "MMM d, yyyy")
         : label;
 
       return (
@@ -167,7 +180,7 @@ export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
       <Divider sx={{ mb: 2 }} />
       <Box sx={{ height: 400, width: "100%" }}>
         <ResponsiveContainer>
-          <BarChart
+          <ComposedChart
             data={chartData}
             margin={{ top: 20, right: 30, left: 20, bottom: 70 }}
           >
@@ -194,59 +207,53 @@ export const RevenueComparisonChart: React.FC<RevenueComparisonChartProps> = ({
               ]}
             />
             <Legend />
-            <Bar
-              dataKey="Austin"
-              fill={theme.palette.primary.main}
-              name="Austin Revenue"
-            >
-              <LabelList
-                dataKey="Austin"
-                position="top"
-                formatter={(value) =>
-                  value > 0
-                    ? new Intl.NumberFormat("en-US", {
-                        notation: "compact",
-                        compactDisplay: "short",
-                      }).format(value)
-                    : ""
-                }
-              />
-            </Bar>
-            <Bar
-              dataKey="Charlotte"
-              fill={theme.palette.secondary.main}
-              name="Charlotte Revenue"
-            >
-              <LabelList
-                dataKey="Charlotte"
-                position="top"
-                formatter={(value) =>
-                  value > 0
-                    ? new Intl.NumberFormat("en-US", {
-                        notation: "compact",
-                        compactDisplay: "short",
-                      }).format(value)
-                    : ""
-                }
+            {locations.map((loc) => (
+              <Bar
+                key={loc.id}
+                dataKey={loc.id}
+                fill={getLocationColor(loc, locations)}
+                name={`${loc.name} Revenue`}
+              >
+                <LabelList
+                  dataKey={loc.id}
+                  position="top"
+                  formatter={(value) =>
+                    value > 0
+                      ? new Intl.NumberFormat("en-US", {
+                          notation: "compact",
+                          compactDisplay: "short",
+                        }).format(value)
+                      : ""
+                  }
+                />
+              </Bar>
+            ))}
+            {locations.map((loc) => (
+              <Line
+                key={`${loc.id}-target`}
+                type="monotone"
+                dataKey={`${loc.id}Target`}
+                stroke={getLocationColor(loc, locations)}
+                strokeDasharray="4 2"
+                strokeWidth={2}
+                dot={false}
+                name={`${loc.name} Target`}
               />
-            </Bar>
-            <Line
-              type="monotone"
-              dataKey="AustinTarget"
-              stroke={theme.palette.primary.dark}
-              strokeWidth={2}
-              dot={false}
-              name="Austin Target"
-            />
-            <Line
-              type="monotone"
-              dataKey="CharlotteTarget"
-              stroke={theme.palette.secondary.dark}
-              strokeWidth={2}
-              dot={false}
-              name="Charlotte Target"
-            />
-          </BarChart>
+            ))}
+            {comparisonPeriod &&
+              locations.map((loc) => (
+                <Line
+                  key={`${loc.id}-prior`}
+                  type="monotone"
+                  dataKey={`${loc.id}Prior`}
+                  stroke={getLocationColor(loc, locations)}
+                  strokeOpacity={0.5}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  name={`${loc.name} ${comparisonPeriod.label}`}
+                />
+              ))}
+          </ComposedChart>
         </ResponsiveContainer>
       </Box>
     </Paper>
@@ -12,12 +12,19 @@ import {
   LabelList,
 } from "recharts";
 import { Typography, useTheme, Box, Paper, Divider } from "@mui/material";
-import { RevenueData, TimeFrame, TargetSettings } from "../../types/revenue";
+import {
+  RevenueData,
+  TimeFrame,
+  TargetSettings,
+  WeeklyMetrics,
+} from "../../types/revenue";
 import {
   calculateTimePeriodsMetrics,
   filterDataByTimeFrame,
 } from "../../utils/calculations";
+import { getLocationColor, useLocations } from "../../utils/locations";
 import { format } from "date-fns";
+import { compareDateKeys } from "../../utils/dates";
 
 interface TimePeriodsChartProps {
   data: RevenueData[];
@@ -40,9 +47,8 @@ export const TimePeriodsChart: React.FC<TimePeriodsChartProps> = ({
   targets,
 }) => {
   const theme = useTheme();
+  const locations = useLocations();
   const brandColors = {
-    austin: theme.palette.primary.main,
-    charlotte: theme.palette.secondary.main,
     combined: theme.palette.success.main,
   };
 
@@ -58,22 +64,9 @@ export const TimePeriodsChart: React.FC<TimePeriodsChartProps> = ({
   );
 
   // Sort data by date to ensure correct order
-  const sortedData = [...filteredData].sort((a, b) => {
-    const aDateParts = a.date.split("-");
-    const aYear = parseInt(aDateParts[0]);
-    const aMonth = parseInt(aDateParts[1]) - 1;
-    const aDay = parseInt(aDateParts[2]);
-
-    const bDateParts = b.date.split("-");
-    const bYear = parseInt(bDateParts[0]);
-    const bMonth = parseInt(bDateParts[1]) - 1;
-    const bDay = parseInt(bDateParts[2]);
-
-    const aDate = new Date(aYear, aMonth, aDay);
-    const bDate = new Date(bYear, bMonth, bDay);
-
-    return aDate.getTime() - bDate.getTime();
-  });
+  const sortedData = [...filteredData].sort((a, b) =>
+    compareDateKeys(a.date, b.date)
+  );
 
   // Calculate weekly and monthly metrics
   const { weeklyMetrics, monthlyMetrics } = calculateTimePeriodsMetrics(
@@ -82,21 +75,22 @@ export const TimePeriodsChart: React.FC<TimePeriodsChartProps> = ({
   );
 
   // Transform data for the chart
-  const chartData = weeklyMetrics.map((week) => ({
-    name: week.label,
-    Austin: parseFloat(week.austinAttainment.toFixed(1)),
-    Charlotte: parseFloat(week.charlotteAttainment.toFixed(1)),
-    Combined: parseFloat(week.combinedAttainment.toFixed(1)),
-  }));
+  const toChartRow = (name: string, period: WeeklyMetrics) => {
+    const row: Record<string, string | number> = { name };
+    locations.forEach((loc) => {
+      row[loc.id] = parseFloat(
+        (period.locations[loc.id]?.attainment ?? 0).toFixed(1)
+      );
+    });
+    row.Combined = parseFloat(period.combinedAttainment.toFixed(1));
+    return row;
+  };
+
+  const chartData = weeklyMetrics.map((week) => toChartRow(week.label, week));
 
   // Add monthly total if available
   if (monthlyMetrics) {
-    chartData.push({
-      name: "Month Total",
-      Austin: parseFloat(monthlyMetrics.austinAttainment.toFixed(1)),
-      Charlotte: parseFloat(monthlyMetrics.charlotteAttainment.toFixed(1)),
-      Combined: parseFloat(monthlyMetrics.combinedAttainment.toFixed(1)),
-    });
+    chartData.push(toChartRow("Month Total", monthlyMetrics));
   }
 
   // Custom tooltip
@@ -163,20 +157,20 @@ export const TimePeriodsChart: React.FC<TimePeriodsChartProps> = ({
             <RechartsTooltip content={<CustomTooltip />} />
             <Legend />
             <ReferenceLine y={100} stroke="#666" strokeDasharray="3 3" />
-            <Bar dataKey="Austin" fill={brandColors.austin}>
-              <LabelList
-                dataKey="Austin"
-                position="top"
-                formatter={(value: number) => `${Math.round(value)}%`}
-              />
-            </Bar>
-            <Bar dataKey="Charlotte" fill={brandColors.charlotte}>
-              <LabelList
-                dataKey="Charlotte"
-                position="top"
-                formatter={(value: number) => `${Math.round(value)}%`}
-              />
-            </Bar>
+            {locations.map((loc) => (
+              <Bar
+                key={loc.id}
+                dataKey={loc.id}
+                name={loc.name}
+                fill={getLocationColor(loc, locations)}
+              >
+                <LabelList
+                  dataKey={loc.id}
+                  position="top"
+                  formatter={(value: number) => `${Math.round(value)}%`}
+                />
+              </Bar>
+            ))}
             <Bar dataKey="Combined" fill={brandColors.combined}>
               <LabelList
                 dataKey="Combined"
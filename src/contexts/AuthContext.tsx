@@ -0,0 +1,123 @@
+import React, { createContext, useContext, useState, useEffect } from "react";
+import {
+  GoogleAuthProvider,
+  signInWithPopup,
+  signOut,
+  onAuthStateChanged,
+  User,
+} from "firebase/auth";
+import { getFirebaseAuth } from "../services/firebaseApp";
+import { getDataStore } from "../services/dataStore";
+import { auditService } from "../services/auditService";
+import { userService } from "../services/userService";
+import {
+  Permissions,
+  ROLE_PERMISSIONS,
+  UserProfile,
+  UserRole,
+} from "../types/auth";
+
+interface AuthContextType {
+  // False for the localStorage and in-memory stores, which have no users;
+  // everyone then has full access
+  authEnabled: boolean;
+  user: User | null;
+  profile: UserProfile | null;
+  role: UserRole | null;
+  permissions: Permissions;
+  loading: boolean;
+  signInWithGoogle: () => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const NO_PERMISSIONS: Permissions = {
+  enterData: false,
+  manageSettings: false,
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [authEnabled] = useState(() => getDataStore().kind === "firebase");
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(authEnabled);
+
+  useEffect(() => {
+    if (!authEnabled) return;
+
+    const unsubscribe = onAuthStateChanged(getFirebaseAuth(), (user) => {
+      setUser(user);
+      if (!user) {
+        setProfile(null);
+        setLoading(false);
+      }
+      auditService.setSignedInUser(
+        user
+          ? { uid: user.uid, name: user.displayName || user.email || user.uid }
+          : null
+      );
+    });
+
+    return unsubscribe;
+  }, [authEnabled]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return userService.subscribeToProfile(
+      user.uid,
+      { email: user.email, displayName: user.displayName },
+      (profile) => {
+        setProfile(profile);
+        setLoading(false);
+      }
+    );
+  }, [user]);
+
+  const signInWithGoogle = async () => {
+    const provider = new GoogleAuthProvider();
+    try {
+      await signInWithPopup(getFirebaseAuth(), provider);
+    } catch (error) {
+      console.error("Error signing in with Google:", error);
+    }
+  };
+
+  const logout = async () => {
+    try {
+      await signOut(getFirebaseAuth());
+    } catch (error) {
+      console.error("Error signing out:", error);
+    }
+  };
+
+  const role: UserRole | null = authEnabled ? profile?.role ?? null : "admin";
+
+  const value = {
+    authEnabled,
+    user,
+    profile,
+    role,
+    permissions: role ? ROLE_PERMISSIONS[role] : NO_PERMISSIONS,
+    loading,
+    signInWithGoogle,
+    logout,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {!loading && children}
+    </AuthContext.Provider>
+  );
+};
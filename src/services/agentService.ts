@@ -0,0 +1,35 @@
+import { Agent } from "../types/agents";
+import { normalizeAgents } from "../utils/agents";
+import { getDataStore } from "./dataStore";
+
+export const agentService = {
+  // Subscribe to the agent roster, sorted by name
+  subscribeToAgents: (callback: (agents: Agent[]) => void) => {
+    try {
+      return getDataStore().subscribeToAgents(
+        (agents) => callback(normalizeAgents(agents)),
+        (error) => {
+          console.error("Error subscribing to agent roster:", error);
+          callback([]);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToAgents:", error);
+      callback([]);
+      return () => {};
+    }
+  },
+
+  // Add or update agents; used by the roster screen and by lead imports
+  // that add agents or name spellings during review
+  saveAgents: async (agents: Agent[]): Promise<boolean> => {
+    if (agents.length === 0) return true;
+    try {
+      await getDataStore().saveAgents(agents);
+      return true;
+    } catch (error) {
+      console.error("Error saving agents:", error);
+      return false;
+    }
+  },
+};
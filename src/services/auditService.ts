@@ -0,0 +1,99 @@
+import { RevenueData } from "../types/revenue";
+import { getDataStore } from "./dataStore";
+import { LeadEntryStored, SiteKey } from "./leadService";
+
+// What a change log is kept for: "revenue/{date}" or "leads/{date}/{site}"
+export type AuditSubject = string;
+
+export type AuditValue = RevenueData | LeadEntryStored;
+
+// Who made a write and why; travels with the write through the outbox.
+// editorId is the uid of the signed-in user, when there is one.
+export interface ChangeDetails {
+  editor: string;
+  editorId?: string;
+  reason?: string;
+  changedAt: number;
+}
+
+// One append-only change log record. previous is null when the change
+// created the entry.
+export interface AuditEntry extends ChangeDetails {
+  id: string;
+  subject: AuditSubject;
+  previous: AuditValue | null;
+  next: AuditValue | null;
+}
+
+const EDITOR_KEY = "revenue_dashboard_editor";
+
+let signedInUser: { uid: string; name: string } | null = null;
+
+export const revenueSubject = (date: string): AuditSubject =>
+  `revenue/${date}`;
+
+export const leadSubject = (date: string, site: SiteKey): AuditSubject =>
+  `leads/${date}/${site}`;
+
+export const auditService = {
+  // Set by AuthProvider; changes are attributed to this user when signed in
+  setSignedInUser: (user: { uid: string; name: string } | null) => {
+    signedInUser = user;
+  },
+
+  // Name recorded as the editor of changes made in this browser when
+  // nobody is signed in
+  getEditorName: (): string => {
+    try {
+      return localStorage.getItem(EDITOR_KEY) ?? "";
+    } catch {
+      return "";
+    }
+  },
+
+  setEditorName: (name: string) => {
+    try {
+      localStorage.setItem(EDITOR_KEY, name.trim());
+    } catch (error) {
+      console.error("Error saving editor name:", error);
+    }
+  },
+
+  // Details for a change made now by the current editor
+  describeChange: (reason?: string): ChangeDetails => {
+    const details: ChangeDetails = signedInUser
+      ? {
+          editor: signedInUser.name,
+          editorId: signedInUser.uid,
+          changedAt: Date.now(),
+        }
+      : {
+          editor: auditService.getEditorName() || "Unknown",
+          changedAt: Date.now(),
+        };
+    if (reason?.trim()) details.reason = reason.trim();
+    return details;
+  },
+
+  // Subscribe to the change log of one entry, newest change first
+  subscribeToHistory: (
+    subject: AuditSubject,
+    callback: (entries: AuditEntry[]) => void
+  ) => {
+    try {
+      return getDataStore().subscribeToAuditLog(
+        subject,
+        (entries) =>
+          callback([...entries].sort((a, b) => b.changedAt - a.changedAt)),
+        (error) => {
+          console.error("Error subscribing to change history:", error);
+          callback([]);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToHistory:", error);
+      callback([]);
+      return () => {};
+    }
+  },
+};
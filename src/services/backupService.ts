@@ -0,0 +1,84 @@
+import { format } from "date-fns";
+import { BackupArchive, RestoreMode, RestorePlan } from "../types/backup";
+import {
+  createBackupArchive,
+  planRestore,
+  validateBackupArchive,
+} from "../utils/backup";
+import { getDataStore } from "./dataStore";
+import { auditService } from "./auditService";
+import { outboxService } from "./outbox";
+
+export const backupService = {
+  // Everything in the store but user profiles, attributed to the editor
+  createBackup: async (): Promise<BackupArchive> => {
+    const store = getDataStore();
+    return createBackupArchive(
+      await store.exportData(),
+      auditService.describeChange().editor,
+      store.kind
+    );
+  },
+
+  downloadBackup: (archive: BackupArchive) => {
+    const blob = new Blob([JSON.stringify(archive, null, 2)], {
+      type: "application/json",
+    });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute("href", url);
+    link.setAttribute(
+      "download",
+      `revenue_dashboard_backup_${format(
+        archive.createdAt,
+        "yyyy-MM-dd_HHmm"
+      )}.json`
+    );
+    link.style.visibility = "hidden";
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+
+  // Read and check a backup file and work out what restoring it writes.
+  // Nothing is written; errors list why the file cannot be restored.
+  planRestore: async (
+    file: File,
+    mode: RestoreMode
+  ): Promise<{ plan: RestorePlan | null; errors: string[] }> => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      return { plan: null, errors: ["The file is not valid JSON"] };
+    }
+    const { archive, errors } = validateBackupArchive(parsed);
+    if (!archive) return { plan: null, errors };
+    const current = await getDataStore().exportData();
+    return { plan: planRestore(archive, current, mode), errors: [] };
+  },
+
+  // Queued edits would be written over the restored data once they sync,
+  // so a restore waits until the outbox is empty
+  hasUnsyncedChanges: () =>
+    outboxService.getItems().some((item) => item.status !== "synced"),
+
+  // The plan is worked out again against the data as it is now, in case it
+  // changed while the plan was being reviewed
+  restore: async (plan: RestorePlan): Promise<RestorePlan> => {
+    if (backupService.hasUnsyncedChanges()) {
+      throw new Error("Changes are waiting to sync; restore after they do");
+    }
+    const store = getDataStore();
+    const current = planRestore(
+      plan.archive,
+      await store.exportData(),
+      plan.mode
+    );
+    await store.replaceData(current.data);
+    return current;
+  },
+};
@@ -1,26 +1,115 @@
 import Papa from "papaparse";
-import { RevenueData, TargetSettings } from "../types/revenue";
+import { LocationConfig, RevenueData, TargetSettings } from "../types/revenue";
+import {
+  pivotLongRevenueRows,
+  RevenueCSVLayout,
+  RevenueImportPreview,
+  validateRevenueRows,
+} from "../utils/revenueImport";
 import { calculateStakeholderInsights, calculateBusinessIntelligence } from "../utils/calculations";
+import {
+  createLocationValues,
+  getLocationRevenue,
+  getLocations,
+} from "../utils/locations";
 
-interface CSVRow {
-  Date: string;
-  "Austin Revenue": string;
-  "Charlotte Revenue": string;
-}
+type CSVRow = Record<string, string>;
 
-export const importCSV = (file: File): Promise<RevenueData[]> => {
+// Headers of a long file, one row per date and location
+const LONG_COLUMNS = { date: "Date", location: "Location", revenue: "Revenue" };
+const LOCATION_HEADERS = ["location", "site"];
+const REVENUE_HEADERS = ["revenue", "amount"];
+
+export const getRevenueColumn = (location: LocationConfig): string =>
+  `${location.name} Revenue`;
+
+// Find a header by name, ignoring case and surrounding spaces
+const findHeader = (
+  headers: string[],
+  names: string[]
+): string | undefined => {
+  const wanted = names.map((name) => name.toLowerCase());
+  return headers.find((header) =>
+    wanted.includes(header.trim().toLowerCase())
+  );
+};
+
+// Find a location's revenue column in a wide file
+const findRevenueColumn = (headers: string[], location: LocationConfig) =>
+  findHeader(headers, [getRevenueColumn(location), `${location.id} Revenue`]);
+
+// Dry run of a revenue import: parse and validate every row against the
+// entries shown and the targets, without writing anything. Files with
+// Location and Revenue columns are read as long files, others as wide.
+export const previewCSVImport = (
+  file: File,
+  existing: RevenueData[],
+  targetSettings?: TargetSettings
+): Promise<RevenueImportPreview> => {
   return new Promise((resolve, reject) => {
     Papa.parse(file, {
       header: true,
       skipEmptyLines: true,
       complete: (results) => {
         try {
-          const data = (results.data as CSVRow[]).map((row) => ({
-            date: row.Date,
-            austin: parseFloat(row["Austin Revenue"]),
-            charlotte: parseFloat(row["Charlotte Revenue"]),
+          const locations = getLocations();
+          const headers = results.meta.fields ?? [];
+          const data = results.data as CSVRow[];
+          const dateHeader = findHeader(headers, ["date"]) ?? "Date";
+          const locationHeader = findHeader(headers, LOCATION_HEADERS);
+          const revenueHeader = findHeader(headers, REVENUE_HEADERS);
+
+          if (locationHeader && revenueHeader) {
+            const pivoted = pivotLongRevenueRows(
+              data.map((row) => ({
+                date: row[dateHeader],
+                location: row[locationHeader],
+                revenue: row[revenueHeader],
+              })),
+              locations
+            );
+            resolve({
+              layout: "long",
+              rows: validateRevenueRows(
+                pivoted.rows,
+                existing,
+                targetSettings,
+                locations
+              ),
+              missingColumns: [],
+              unknownLocations: pivoted.unknownLocations,
+            });
+            return;
+          }
+
+          const columns = new Map(
+            locations.map((location) => [
+              location.id,
+              findRevenueColumn(headers, location),
+            ])
+          );
+          const rows = data.map((row) => ({
+            date: row[dateHeader],
+            amounts: Object.fromEntries(
+              locations.map((location) => {
+                const header = columns.get(location.id);
+                return [location.id, header ? row[header] : undefined];
+              })
+            ),
           }));
-          resolve(data);
+          resolve({
+            layout: "wide",
+            rows: validateRevenueRows(
+              rows,
+              existing,
+              targetSettings,
+              locations
+            ),
+            missingColumns: locations
+              .filter((location) => !columns.get(location.id))
+              .map((location) => location.name),
+            unknownLocations: [],
+          });
         } catch (error) {
           reject(
             new Error("Error parsing CSV data. Please check the file format.")
@@ -34,12 +123,35 @@ export const importCSV = (file: File): Promise<RevenueData[]> => {
   });
 };
 
-export const exportCSV = (data: RevenueData[]): void => {
-  const csvData = data.map((row) => ({
-    Date: row.date,
-    "Austin Revenue": row.austin,
-    "Charlotte Revenue": row.charlotte,
-  }));
+// Rows of an export or template in either layout
+const toCSVRows = (
+  data: RevenueData[],
+  layout: RevenueCSVLayout
+): Record<string, string | number>[] => {
+  const locations = getLocations();
+  if (layout === "long") {
+    return data.flatMap((row) =>
+      locations.map((location) => ({
+        [LONG_COLUMNS.date]: row.date,
+        [LONG_COLUMNS.location]: location.name,
+        [LONG_COLUMNS.revenue]: getLocationRevenue(row, location.id),
+      }))
+    );
+  }
+  return data.map((row) => {
+    const csvRow: Record<string, string | number> = { Date: row.date };
+    locations.forEach((location) => {
+      csvRow[getRevenueColumn(location)] = getLocationRevenue(row, location.id);
+    });
+    return csvRow;
+  });
+};
+
+export const exportCSV = (
+  data: RevenueData[],
+  layout: RevenueCSVLayout = "wide"
+): void => {
+  const csvData = toCSVRows(data, layout);
 
   const csv = Papa.unparse(csvData);
   const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
@@ -49,7 +161,9 @@ export const exportCSV = (data: RevenueData[]): void => {
   link.setAttribute("href", url);
   link.setAttribute(
     "download",
-    `revenue_data_${new Date().toISOString().split("T")[0]}.csv`
+    `revenue_data${layout === "long" ? "_long" : ""}_${
+      new Date().toISOString().split("T")[0]
+    }.csv`
   );
   link.style.visibility = "hidden";
 
@@ -126,30 +240,23 @@ export const exportAnalyticsReport = (
     },
 
     // Location Analysis
-    {
-      Section: "Location Analysis",
-      Metric: "Austin Contribution",
-      Value: `${businessIntelligence.locationAnalysis.austin.contribution.toFixed(1)}%`,
-      Description: "Austin's share of total revenue",
-    },
-    {
-      Section: "Location Analysis",
-      Metric: "Austin Efficiency",
-      Value: `${businessIntelligence.locationAnalysis.austin.efficiency.toFixed(1)}%`,
-      Description: "Austin's target achievement rate",
-    },
-    {
-      Section: "Location Analysis",
-      Metric: "Charlotte Contribution",
-      Value: `${businessIntelligence.locationAnalysis.charlotte.contribution.toFixed(1)}%`,
-      Description: "Charlotte's share of total revenue",
-    },
-    {
-      Section: "Location Analysis",
-      Metric: "Charlotte Efficiency",
-      Value: `${businessIntelligence.locationAnalysis.charlotte.efficiency.toFixed(1)}%`,
-      Description: "Charlotte's target achievement rate",
-    },
+    ...getLocations().flatMap((location) => {
+      const analysis = businessIntelligence.locationAnalysis[location.id];
+      return [
+        {
+          Section: "Location Analysis",
+          Metric: `${location.name} Contribution`,
+          Value: `${(analysis?.contribution ?? 0).toFixed(1)}%`,
+          Description: `${location.name}'s share of total revenue`,
+        },
+        {
+          Section: "Location Analysis",
+          Metric: `${location.name} Efficiency`,
+          Value: `${(analysis?.efficiency ?? 0).toFixed(1)}%`,
+          Description: `${location.name}'s target achievement rate`,
+        },
+      ];
+    }),
 
     // Risk Analysis
     {
@@ -166,17 +273,21 @@ export const exportAnalyticsReport = (
     },
 
     // Forecasting
-    {
+    ...getLocations().map((location) => ({
       Section: "Forecasting",
-      Metric: "Month-End Austin Projection",
-      Value: `$${stakeholderInsights.performanceForecasting.monthEndProjection.austin.toLocaleString()}`,
-      Description: "Projected Austin month-end revenue",
-    },
+      Metric: `Month-End ${location.name} Projection`,
+      Value: `$${(
+        stakeholderInsights.performanceForecasting.monthEndProjection.locations[
+          location.id
+        ] ?? 0
+      ).toLocaleString()}`,
+      Description: `Projected ${location.name} month-end revenue`,
+    })),
     {
       Section: "Forecasting",
-      Metric: "Month-End Charlotte Projection",
-      Value: `$${stakeholderInsights.performanceForecasting.monthEndProjection.charlotte.toLocaleString()}`,
-      Description: "Projected Charlotte month-end revenue",
+      Metric: "Month-End Projection Range",
+      Value: `$${stakeholderInsights.performanceForecasting.monthEndProjection.lower.toLocaleString()} - $${stakeholderInsights.performanceForecasting.monthEndProjection.upper.toLocaleString()}`,
+      Description: "80% prediction interval for combined month-end revenue",
     },
     {
       Section: "Forecasting",
@@ -231,14 +342,18 @@ export const exportAnalyticsReport = (
   document.body.removeChild(link);
 };
 
-export const generateTemplate = (): void => {
-  const template = [
-    {
-      Date: new Date().toLocaleDateString(),
-      "Austin Revenue": "0",
-      "Charlotte Revenue": "0",
-    },
-  ];
+export const generateTemplate = (
+  layout: RevenueCSVLayout = "wide"
+): void => {
+  const template = toCSVRows(
+    [
+      {
+        date: new Date().toLocaleDateString(),
+        revenue: createLocationValues(() => 0),
+      },
+    ],
+    layout
+  );
 
   const csv = Papa.unparse(template);
   const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
@@ -246,7 +361,10 @@ export const generateTemplate = (): void => {
   const url = URL.createObjectURL(blob);
 
   link.setAttribute("href", url);
-  link.setAttribute("download", "revenue_template.csv");
+  link.setAttribute(
+    "download",
+    layout === "long" ? "revenue_template_long.csv" : "revenue_template.csv"
+  );
   link.style.visibility = "hidden";
 
   document.body.appendChild(link);
@@ -0,0 +1,202 @@
+import {
+  HolidayCalendar,
+  LocationConfig,
+  RevenueData,
+  TargetSettings,
+} from "../types/revenue";
+import { LeadEntryStored, SiteKey } from "./leadService";
+import { AuditEntry, AuditSubject } from "./auditService";
+import { UserProfile } from "../types/auth";
+import { Agent } from "../types/agents";
+import { LeadImportProfile } from "../types/leadImport";
+import { ImportBatch } from "../types/importBatch";
+import { BackupData, RestorableData } from "../types/backup";
+import { createFirebaseStore } from "./firebaseStore";
+import { createLocalStore } from "./localStore";
+import { createMemoryStore } from "./memoryStore";
+
+export type Unsubscribe = () => void;
+
+export type DataStoreKind = "firebase" | "local" | "memory";
+
+// Lead entries keyed by date (yyyy-MM-dd), then by lead site key
+export type LeadEntriesByDate = Map<string, Record<SiteKey, LeadEntryStored>>;
+
+// Storage backend used by revenueService and leadService. Implementations
+// only move data in and out; defaults, normalization and validation stay in
+// the services so every backend behaves the same.
+export interface DataStore {
+  kind: DataStoreKind;
+
+  // Revenue entries
+  subscribeToRevenue: (
+    callback: (entries: RevenueData[]) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  getRevenue: () => Promise<RevenueData[]>;
+  // Entries for one date (yyyy-MM-dd), without reading the whole table;
+  // more than one only when older entries with push ids share the date
+  getRevenueForDate: (date: string) => Promise<RevenueData[]>;
+  // Entries are keyed by date (revenue/{date}): stores the entry under its
+  // date, removes any other entries for that date and returns the entry as
+  // stored
+  upsertRevenue: (entry: RevenueData) => Promise<RevenueData>;
+  deleteRevenue: (id: string) => Promise<void>;
+  // Rewrites entries saved in the pre-registry flat format; returns the count
+  migrateLegacyRevenue: () => Promise<number>;
+
+  // Target settings (null when none have been saved)
+  subscribeToTargets: (
+    callback: (settings: TargetSettings | null) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  getTargets: () => Promise<TargetSettings | null>;
+  saveTargets: (settings: TargetSettings) => Promise<void>;
+
+  // Location registry (null when none has been saved)
+  subscribeToLocations: (
+    callback: (locations: LocationConfig[] | null) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  saveLocations: (locations: LocationConfig[]) => Promise<void>;
+
+  // Holiday calendar (null when none has been saved)
+  subscribeToHolidays: (
+    callback: (calendar: HolidayCalendar | null) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  saveHolidays: (calendar: HolidayCalendar) => Promise<void>;
+
+  // Lead attainment entries, inclusive date range
+  subscribeToLeadEntries: (
+    startDate: string,
+    endDate: string,
+    callback: (entries: LeadEntriesByDate) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  getLeadEntry: (date: string, site: SiteKey) => Promise<LeadEntryStored | null>;
+  upsertLeadEntry: (
+    date: string,
+    site: SiteKey,
+    entry: LeadEntryStored
+  ) => Promise<void>;
+  deleteLeadEntry: (date: string, site: SiteKey) => Promise<void>;
+
+  // Saved lead CSV column mappings keyed by profile id
+  subscribeToLeadImportProfiles: (
+    callback: (profiles: LeadImportProfile[]) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  saveLeadImportProfile: (profile: LeadImportProfile) => Promise<void>;
+  deleteLeadImportProfile: (id: string) => Promise<void>;
+
+  // Agent roster keyed by agent id. Agents are never removed, only given a
+  // termination date, so imported lead rows keep resolving.
+  subscribeToAgents: (
+    callback: (agents: Agent[]) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  // Adds or replaces the given agents in one write
+  saveAgents: (agents: Agent[]) => Promise<void>;
+
+  // Revenue and lead CSV imports keyed by batch id
+  subscribeToImportBatches: (
+    callback: (batches: ImportBatch[]) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  saveImportBatch: (batch: ImportBatch) => Promise<void>;
+
+  // Append-only change log per revenue date / lead entry. Entries are written
+  // under their id and never replaced, so appending the same entry twice
+  // keeps the first copy.
+  subscribeToAuditLog: (
+    subject: AuditSubject,
+    callback: (entries: AuditEntry[]) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  appendAuditEntry: (entry: AuditEntry) => Promise<void>;
+
+  // User profiles and roles keyed by uid. Only the Firebase store has
+  // signed-in users; the others keep profiles for completeness.
+  subscribeToUserProfile: (
+    uid: string,
+    callback: (profile: UserProfile | null) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  subscribeToUsers: (
+    callback: (users: Record<string, UserProfile>) => void,
+    onError?: (error: unknown) => void
+  ) => Unsubscribe;
+  saveUserProfile: (uid: string, profile: UserProfile) => Promise<void>;
+
+  // Backups: everything but the user profiles, read in one go
+  exportData: () => Promise<BackupData>;
+  // Make the restorable parts of the store match the given data in one
+  // write: records missing from it are removed, the rest are written
+  replaceData: (data: RestorableData) => Promise<void>;
+}
+
+// Plain-object copy of everything a store holds; used by the memory and
+// localStorage stores and for seeding test data
+export interface DataStoreSnapshot {
+  revenue: Record<string, RevenueData>;
+  targets: TargetSettings | null;
+  locations: LocationConfig[] | null;
+  holidays: HolidayCalendar | null;
+  leads: Record<string, Record<SiteKey, LeadEntryStored>>;
+  leadImportProfiles: Record<string, LeadImportProfile>;
+  agents: Record<string, Agent>;
+  importBatches: Record<string, ImportBatch>;
+  audit: Record<AuditSubject, Record<string, AuditEntry>>;
+  users: Record<string, UserProfile>;
+}
+
+export const createEmptySnapshot = (): DataStoreSnapshot => ({
+  revenue: {},
+  targets: null,
+  locations: null,
+  holidays: null,
+  leads: {},
+  leadImportProfiles: {},
+  agents: {},
+  importBatches: {},
+  audit: {},
+  users: {},
+});
+
+const isDataStoreKind = (value: unknown): value is DataStoreKind =>
+  value === "firebase" || value === "local" || value === "memory";
+
+// VITE_DATA_STORE picks the backend explicitly; otherwise use Firebase when
+// it is configured and fall back to the browser's localStorage
+export const resolveDataStoreKind = (): DataStoreKind => {
+  const configured = import.meta.env.VITE_DATA_STORE;
+  if (isDataStoreKind(configured)) return configured;
+  return import.meta.env.VITE_FIREBASE_DATABASE_URL ? "firebase" : "local";
+};
+
+export const createDataStore = (kind: DataStoreKind): DataStore => {
+  switch (kind) {
+    case "firebase":
+      return createFirebaseStore();
+    case "local":
+      return createLocalStore();
+    case "memory":
+      return createMemoryStore();
+  }
+};
+
+let activeStore: DataStore | null = null;
+
+export const getDataStore = (): DataStore => {
+  if (!activeStore) {
+    activeStore = createDataStore(resolveDataStoreKind());
+  }
+  return activeStore;
+};
+
+// Swap the backend, e.g. to an in-memory store seeded with fixtures.
+// Existing subscriptions keep listening to the previous store.
+export const setDataStore = (store: DataStore) => {
+  activeStore = store;
+};
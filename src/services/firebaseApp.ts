@@ -0,0 +1,31 @@
+import { FirebaseApp, initializeApp } from "firebase/app";
+import { getAnalytics } from "firebase/analytics";
+import { Auth, getAuth } from "firebase/auth";
+
+const firebaseConfig = {
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+  databaseURL: import.meta.env.VITE_FIREBASE_DATABASE_URL,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: import.meta.env.VITE_FIREBASE_APP_ID,
+  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID,
+};
+
+let app: FirebaseApp | null = null;
+
+// Shared by the Realtime Database store and authentication
+export const getFirebaseApp = (): FirebaseApp => {
+  if (!app) {
+    app = initializeApp(firebaseConfig);
+    try {
+      getAnalytics(app);
+    } catch {
+      // Analytics is optional, e.g. when the browser blocks it
+    }
+  }
+  return app;
+};
+
+export const getFirebaseAuth = (): Auth => getAuth(getFirebaseApp());
@@ -0,0 +1,409 @@
+import {
+  Database,
+  getDatabase,
+  ref,
+  set,
+  onValue,
+  update,
+  get,
+  remove,
+  query,
+  orderByChild,
+  equalTo,
+} from "firebase/database";
+import { LeadEntryStored } from "./leadService";
+import { DataStore, LeadEntriesByDate } from "./dataStore";
+import { AuditEntry } from "./auditService";
+import { LocationConfig, RevenueData } from "../types/revenue";
+import { getFirebaseApp, getFirebaseAuth } from "./firebaseApp";
+import {
+  isLegacyRevenueRecord,
+  normalizeRevenueRecord,
+} from "../utils/locations";
+
+const leadPath = (date: string, site: string) =>
+  `leadAttainment/${date}/${site}`;
+
+// The location list is stored as an object keyed by position, stamped
+// with savedBy like other writes
+const toLocationList = (value: any): LocationConfig[] | null => {
+  if (!value) return null;
+  const { savedBy: _savedBy, ...locations } = value;
+  return Object.values(locations) as LocationConfig[];
+};
+
+// Older records store one flat field per site; normalize them into the
+// per-location revenue map. Each record's id is its key, so any record can
+// be removed through deleteRevenue, including old ones saved without an id.
+const toRevenueList = (data: any): RevenueData[] =>
+  data
+    ? Object.entries(data).map(([key, item]) => ({
+        ...normalizeRevenueRecord(item),
+        id: key,
+      }))
+    : [];
+
+// Realtime Database drops null values, so restore them on read
+const toAuditEntry = (value: any): AuditEntry => ({
+  ...value,
+  previous: value.previous ?? null,
+  next: value.next ?? null,
+});
+
+// Firebase Realtime Database layout:
+//   revenue/{date}               revenue entries (older ones use push ids)
+//   settings/targets             target settings
+//   settings/locations           location registry
+//   settings/holidays            holiday calendar
+//   leadAttainment/{date}/{site} lead attainment entries, with the
+//                                per-agent rows of imported entries
+//   leadImportProfiles/{id}      saved lead CSV column mappings
+//   agents/{id}                  agent roster
+//   importBatches/{id}           revenue and lead CSV imports, with the
+//                                entries each one replaced
+//   audit/{subject}/{id}         change log, e.g. audit/revenue/{date}/{id}
+//   users/{uid}                  user profiles and roles
+// Access is enforced by database.rules.json. Every write but the change log
+// and user profiles is stamped with the signed-in user's uid (savedBy),
+// which the rules check.
+// New users sign in as viewers; the first admin is promoted by setting
+// users/{uid}/role in the Firebase console.
+export const createFirebaseStore = (): DataStore => {
+  const database: Database = getDatabase(getFirebaseApp());
+
+  // Realtime Database rejects undefined values
+  const stamp = <T extends object>(value: T): T & { savedBy?: string } =>
+    JSON.parse(
+      JSON.stringify({
+        ...value,
+        savedBy: getFirebaseAuth().currentUser?.uid,
+      })
+    );
+
+  return {
+    kind: "firebase",
+
+    subscribeToRevenue: (callback, onError) =>
+      onValue(
+        ref(database, "revenue"),
+        (snapshot) => callback(toRevenueList(snapshot.val())),
+        onError
+      ),
+
+    getRevenue: async () => {
+      const snapshot = await get(ref(database, "revenue"));
+      const data = snapshot.val();
+      return toRevenueList(data);
+    },
+
+    getRevenueForDate: async (date) => {
+      const snapshot = await get(
+        query(ref(database, "revenue"), orderByChild("date"), equalTo(date))
+      );
+      const data = snapshot.val();
+      return toRevenueList(data);
+    },
+
+    upsertRevenue: async (entry) => {
+      const stored = stamp({ ...entry, id: entry.date });
+      const updates: { [key: string]: any } = {
+        [`/revenue/${entry.date}`]: stored,
+      };
+
+      // Entries created with push ids for the same date are replaced in the
+      // same atomic update
+      const sameDate = await get(
+        query(
+          ref(database, "revenue"),
+          orderByChild("date"),
+          equalTo(entry.date)
+        )
+      );
+      sameDate.forEach((child) => {
+        if (child.key !== entry.date) {
+          updates[`/revenue/${child.key}`] = null;
+        }
+      });
+
+      await update(ref(database), updates);
+      return stored;
+    },
+
+    deleteRevenue: async (id) => {
+      await remove(ref(database, `revenue/${id}`));
+    },
+
+    migrateLegacyRevenue: async () => {
+      const snapshot = await get(ref(database, "revenue"));
+      const data = snapshot.val() || {};
+      const updates: { [key: string]: any } = {};
+
+      Object.entries(data).forEach(([key, item]) => {
+        if (!isLegacyRevenueRecord(item)) return;
+        const normalized = normalizeRevenueRecord(item);
+        updates[`/revenue/${key}`] = stamp({ ...normalized, id: key });
+      });
+
+      const migrated = Object.keys(updates).length;
+      if (migrated > 0) {
+        await update(ref(database), updates);
+      }
+      return migrated;
+    },
+
+    subscribeToTargets: (callback, onError) =>
+      onValue(
+        ref(database, "settings/targets"),
+        (snapshot) => callback(snapshot.exists() ? snapshot.val() : null),
+        onError
+      ),
+
+    getTargets: async () => {
+      const snapshot = await get(ref(database, "settings/targets"));
+      return snapshot.exists() ? snapshot.val() : null;
+    },
+
+    saveTargets: async (settings) => {
+      await set(ref(database, "settings/targets"), stamp(settings));
+    },
+
+    subscribeToLocations: (callback, onError) =>
+      onValue(
+        ref(database, "settings/locations"),
+        (snapshot) => callback(toLocationList(snapshot.val())),
+        onError
+      ),
+
+    saveLocations: async (locations) => {
+      await set(ref(database, "settings/locations"), stamp({ ...locations }));
+    },
+
+    subscribeToHolidays: (callback, onError) =>
+      onValue(
+        ref(database, "settings/holidays"),
+        (snapshot) => callback(snapshot.exists() ? snapshot.val() : null),
+        onError
+      ),
+
+    saveHolidays: async (calendar) => {
+      await set(ref(database, "settings/holidays"), stamp(calendar));
+    },
+
+    subscribeToLeadEntries: (startDate, endDate, callback, onError) =>
+      onValue(
+        ref(database, "leadAttainment"),
+        (snapshot) => {
+          const allData = snapshot.val() || {};
+          const entries: LeadEntriesByDate = new Map();
+
+          Object.keys(allData)
+            .filter((date) => date >= startDate && date <= endDate)
+            .sort()
+            .forEach((date) => entries.set(date, allData[date]));
+
+          callback(entries);
+        },
+        onError
+      ),
+
+    getLeadEntry: async (date, site) => {
+      const snapshot = await get(ref(database, leadPath(date, site)));
+      return snapshot.exists() ? (snapshot.val() as LeadEntryStored) : null;
+    },
+
+    upsertLeadEntry: async (date, site, entry) => {
+      await set(ref(database, leadPath(date, site)), stamp(entry));
+    },
+
+    deleteLeadEntry: async (date, site) => {
+      await remove(ref(database, leadPath(date, site)));
+    },
+
+    subscribeToLeadImportProfiles: (callback, onError) =>
+      onValue(
+        ref(database, "leadImportProfiles"),
+        (snapshot) => callback(Object.values(snapshot.val() || {})),
+        onError
+      ),
+
+    saveLeadImportProfile: async (profile) => {
+      await set(
+        ref(database, `leadImportProfiles/${profile.id}`),
+        stamp(profile)
+      );
+    },
+
+    deleteLeadImportProfile: async (id) => {
+      await remove(ref(database, `leadImportProfiles/${id}`));
+    },
+
+    subscribeToAgents: (callback, onError) =>
+      onValue(
+        ref(database, "agents"),
+        (snapshot) => callback(Object.values(snapshot.val() || {})),
+        onError
+      ),
+
+    saveAgents: async (agents) => {
+      const updates: { [key: string]: any } = {};
+      agents.forEach((agent) => {
+        updates[`/agents/${agent.id}`] = stamp(agent);
+      });
+      await update(ref(database), updates);
+    },
+
+    subscribeToImportBatches: (callback, onError) =>
+      onValue(
+        ref(database, "importBatches"),
+        (snapshot) => callback(Object.values(snapshot.val() || {})),
+        onError
+      ),
+
+    saveImportBatch: async (batch) => {
+      await set(ref(database, `importBatches/${batch.id}`), stamp(batch));
+    },
+
+    subscribeToAuditLog: (subject, callback, onError) =>
+      onValue(
+        ref(database, `audit/${subject}`),
+        (snapshot) => {
+          const value = snapshot.val();
+          callback(value ? Object.values(value).map(toAuditEntry) : []);
+        },
+        onError
+      ),
+
+    // The rules only allow new audit entries, so a retried append skips an
+    // id that is already there
+    appendAuditEntry: async (entry) => {
+      const entryRef = ref(database, `audit/${entry.subject}/${entry.id}`);
+      if ((await get(entryRef)).exists()) return;
+      await set(entryRef, JSON.parse(JSON.stringify(entry)));
+    },
+
+    subscribeToUserProfile: (uid, callback, onError) =>
+      onValue(
+        ref(database, `users/${uid}`),
+        (snapshot) => callback(snapshot.exists() ? snapshot.val() : null),
+        onError
+      ),
+
+    subscribeToUsers: (callback, onError) =>
+      onValue(
+        ref(database, "users"),
+        (snapshot) => callback(snapshot.val() || {}),
+        onError
+      ),
+
+    saveUserProfile: async (uid, profile) => {
+      await set(ref(database, `users/${uid}`), profile);
+    },
+
+    exportData: async () => {
+      const read = async (path: string) =>
+        (await get(ref(database, path))).val();
+      const [revenue, settings, leads, profiles, agents, batches, audit] =
+        await Promise.all(
+          [
+            "revenue",
+            "settings",
+            "leadAttainment",
+            "leadImportProfiles",
+            "agents",
+            "importBatches",
+            "audit",
+          ].map(read)
+        );
+
+      // The change log is nested by path (audit/leads/{date}/{site}/{id});
+      // group it back by subject
+      const log: Record<string, Record<string, AuditEntry>> = {};
+      const collect = (node: any) => {
+        Object.values(node || {}).forEach((child: any) => {
+          if (child && typeof child.changedAt === "number") {
+            const entry = toAuditEntry(child);
+            log[entry.subject] = { ...log[entry.subject], [entry.id]: entry };
+          } else if (child && typeof child === "object") {
+            collect(child);
+          }
+        });
+      };
+      collect(audit);
+
+      return {
+        revenue: Object.fromEntries(
+          Object.entries(revenue || {}).map(([key, item]) => [
+            key,
+            normalizeRevenueRecord(item),
+          ])
+        ),
+        targets: settings?.targets ?? null,
+        locations: toLocationList(settings?.locations),
+        holidays: settings?.holidays ?? null,
+        leads: leads || {},
+        leadImportProfiles: profiles || {},
+        agents: agents || {},
+        importBatches: batches || {},
+        audit: log,
+      };
+    },
+
+    // One multi-path update, so the rules check every record as it would a
+    // normal save and a rejected record leaves the database unchanged
+    replaceData: async (data) => {
+      const keysOf = async (path: string) =>
+        Object.keys((await get(ref(database, path))).val() || {});
+      const updates: { [key: string]: any } = {};
+
+      (await keysOf("revenue")).forEach((key) => {
+        updates[`/revenue/${key}`] = null;
+      });
+      Object.entries(data.revenue).forEach(([key, entry]) => {
+        updates[`/revenue/${key}`] = stamp(entry);
+      });
+
+      const leadSnapshot = await get(ref(database, "leadAttainment"));
+      Object.entries(leadSnapshot.val() || {}).forEach(([date, sites]) => {
+        Object.keys(sites as object).forEach((site) => {
+          updates[`/${leadPath(date, site)}`] = null;
+        });
+      });
+      Object.entries(data.leads).forEach(([date, sites]) => {
+        Object.entries(sites).forEach(([site, entry]) => {
+          updates[`/${leadPath(date, site)}`] = stamp(entry);
+        });
+      });
+
+      (await keysOf("leadImportProfiles")).forEach((id) => {
+        updates[`/leadImportProfiles/${id}`] = null;
+      });
+      Object.values(data.leadImportProfiles).forEach((profile) => {
+        updates[`/leadImportProfiles/${profile.id}`] = stamp(profile);
+      });
+
+      (await keysOf("agents")).forEach((id) => {
+        updates[`/agents/${id}`] = null;
+      });
+      Object.values(data.agents).forEach((agent) => {
+        updates[`/agents/${agent.id}`] = stamp(agent);
+      });
+
+      (await keysOf("importBatches")).forEach((id) => {
+        updates[`/importBatches/${id}`] = null;
+      });
+      Object.values(data.importBatches).forEach((batch) => {
+        updates[`/importBatches/${batch.id}`] = stamp(batch);
+      });
+
+      updates["/settings/targets"] = data.targets ? stamp(data.targets) : null;
+      updates["/settings/locations"] = data.locations
+        ? stamp({ ...data.locations })
+        : null;
+      updates["/settings/holidays"] = data.holidays
+        ? stamp(data.holidays)
+        : null;
+
+      await update(ref(database), updates);
+    },
+  };
+};
@@ -0,0 +1,131 @@
+import {
+  ImportBatch,
+  ImportBatchKind,
+  ImportRollbackResult,
+} from "../types/importBatch";
+import { RevenueData } from "../types/revenue";
+import { getDataStore } from "./dataStore";
+import { generateRecordId } from "./memoryStore";
+import { auditService } from "./auditService";
+import { revenueService } from "./revenueService";
+import { LeadEntryStored, leadService } from "./leadService";
+
+// Realtime Database drops null values and may return arrays as objects
+const normalizeBatch = (raw: any): ImportBatch => ({
+  ...raw,
+  rowCount: Number(raw.rowCount) || 0,
+  entries: Object.values(raw.entries ?? {}).map((entry: any) => ({
+    ...entry,
+    previous: entry.previous ?? null,
+  })),
+});
+
+const describeEntry = (entry: ImportBatch["entries"][number]) =>
+  entry.site ? `${entry.date} ${entry.site}` : entry.date;
+
+export const importBatchService = {
+  // A batch for an import about to be written, attributed to the current
+  // editor. Entries are added as the import writes them.
+  createBatch: (
+    kind: ImportBatchKind,
+    fileName: string,
+    rowCount: number
+  ): ImportBatch => {
+    const change = auditService.describeChange();
+    const batch: ImportBatch = {
+      id: generateRecordId(),
+      kind,
+      fileName,
+      rowCount,
+      importedBy: change.editor,
+      importedAt: change.changedAt,
+      entries: [],
+    };
+    if (change.editorId) batch.importedById = change.editorId;
+    return batch;
+  },
+
+  // Batches that wrote nothing are not kept
+  saveBatch: async (batch: ImportBatch): Promise<boolean> => {
+    if (batch.entries.length === 0) return true;
+    try {
+      await getDataStore().saveImportBatch(batch);
+      return true;
+    } catch (error) {
+      console.error("Error saving import batch:", error);
+      return false;
+    }
+  },
+
+  // Subscribe to import batches, most recent first
+  subscribeToBatches: (callback: (batches: ImportBatch[]) => void) => {
+    try {
+      return getDataStore().subscribeToImportBatches(
+        (batches) =>
+          callback(
+            batches
+              .map(normalizeBatch)
+              .sort((a, b) => b.importedAt - a.importedAt)
+          ),
+        (error) => {
+          console.error("Error subscribing to import batches:", error);
+          callback([]);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToImportBatches:", error);
+      callback([]);
+      return () => {};
+    }
+  },
+
+  // Put every entry the batch wrote back the way it was before the import.
+  // Entries changed since are skipped; the change log keeps every step.
+  rollBack: async (batch: ImportBatch): Promise<ImportRollbackResult> => {
+    const result: ImportRollbackResult = {
+      restored: [],
+      skipped: [],
+      failed: [],
+    };
+    const reason = `Rolled back import of ${batch.fileName}`;
+
+    for (const entry of batch.entries) {
+      const label = describeEntry(entry);
+      try {
+        const restored =
+          batch.kind === "leads" && entry.site
+            ? await leadService.rollBackImportedEntry(
+                entry.date,
+                entry.site,
+                entry.previous as LeadEntryStored | null,
+                batch.id,
+                reason
+              )
+            : await revenueService.rollBackImportedEntry(
+                entry.date,
+                entry.previous as RevenueData | null,
+                batch.id,
+                reason
+              );
+        (restored ? result.restored : result.skipped).push(label);
+      } catch (error) {
+        console.error("Error rolling back imported entry:", error);
+        result.failed.push(label);
+      }
+    }
+
+    if (result.failed.length === 0) {
+      const change = auditService.describeChange();
+      try {
+        await getDataStore().saveImportBatch({
+          ...batch,
+          rolledBackAt: change.changedAt,
+          rolledBackBy: change.editor,
+        });
+      } catch (error) {
+        console.error("Error saving import batch:", error);
+      }
+    }
+    return result;
+  },
+};
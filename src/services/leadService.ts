@@ -1,14 +1,21 @@
-import {
-  getDatabase,
-  ref,
-  set,
-  get,
-  onValue,
-  update,
-  off,
-} from "firebase/database";
-
-export type SiteKey = "ATX" | "CLT";
+import { getLocations } from "../utils/locations";
+import { getDataStore } from "./dataStore";
+import { outboxService } from "./outbox";
+import { AuditEntry, auditService } from "./auditService";
+import { LeadImportProfile } from "../types/leadImport";
+import { normalizeLeadImportProfiles } from "../utils/leadImport";
+
+// Lead site key of a configured location (LocationConfig.leadSiteKey), e.g. "ATX"
+export type SiteKey = string;
+
+// One agent's row from an imported lead CSV
+export interface LeadAgentRecord {
+  name: string; // As written in the file
+  agentId?: string; // Roster agent the name was resolved to
+  leads: number;
+  hasOpenOrder: boolean;
+  meetsMin: boolean;
+}
 
 export interface LeadEntryInput {
   dateISO: string; // yyyy-mm-dd
@@ -19,6 +26,8 @@ export interface LeadEntryInput {
   agentsMeetingMin?: number; // optional manual
   openOrderZeroLeads?: number; // optional manual
   notes?: string;
+  agents?: LeadAgentRecord[]; // per-agent rows; the counts are derived from them
+  importBatchId?: string; // set by CSV imports
 }
 
 export interface LeadEntryStored {
@@ -33,32 +42,95 @@ export interface LeadEntryStored {
     pctAgentsMeetingMin?: number; // 0..1 (only if agentsMeetingMin provided)
   };
   notes?: string;
+  agents?: LeadAgentRecord[]; // rows the counts were derived from, when imported
   savedAt: number;
+  deletedAt?: number; // Set when voided; kept in the trash, left out of metrics
+  savedBy?: string; // uid of the signed-in user who saved it
+  importBatchId?: string; // Import that last wrote the entry
+}
+
+// A voided entry for one date and site, as listed in the trash
+export interface DeletedLeadEntry {
+  dateISO: string;
+  site: SiteKey;
+  entry: LeadEntryStored;
 }
 
-const database = getDatabase();
+const DEFAULT_MIN_PER_AGENT = 8;
+
+// Day counts for a site derived from its agent rows. Every row counts as an
+// available agent; those with an open order and no leads (absent) are also
+// counted in openOrderZeroLeads.
+export const summarizeAgentLeads = (
+  agents: LeadAgentRecord[],
+  minPerAgent: number = DEFAULT_MIN_PER_AGENT
+) => ({
+  availableAgents: agents.length,
+  totalBillableLeads: agents.reduce((sum, agent) => sum + agent.leads, 0),
+  agentsMeetingMin: agents.filter((agent) => agent.leads >= minPerAgent)
+    .length,
+  openOrderZeroLeads: agents.filter(
+    (agent) => agent.hasOpenOrder && agent.leads === 0
+  ).length,
+});
 
-const pathFor = (dateISO: string, site: SiteKey) =>
-  `leadAttainment/${dateISO}/${site}`;
+const isActive = (entry: LeadEntryStored | null | undefined) =>
+  !!entry && !entry.deletedAt;
+
+const queueLeadWrite = async (
+  dateISO: string,
+  site: SiteKey,
+  entry: LeadEntryStored,
+  baseSavedAt: number | null | undefined,
+  reason?: string
+) => {
+  await outboxService.enqueue(
+    {
+      kind: "lead",
+      date: dateISO,
+      site,
+      entry,
+      change: auditService.describeChange(reason),
+    },
+    baseSavedAt
+  );
+};
 
 export const leadService = {
-  async upsertLeadEntry(input: LeadEntryInput): Promise<void> {
-    const minPerAgent = input.minPerAgent ?? 8;
-    const targetLeads = minPerAgent * input.availableAgents;
+  // Queued through the outbox like revenue writes. baseSavedAt is the savedAt
+  // of the entry the user was editing (null if none) for conflict detection;
+  // reason is recorded in the change log. Returns the entry as queued.
+  // The entry, agent rows included, is written as a whole, so saving replaces
+  // any agent rows from an earlier import; totals entered by hand drop them.
+  async upsertLeadEntry(
+    input: LeadEntryInput,
+    baseSavedAt?: number | null,
+    reason?: string
+  ): Promise<LeadEntryStored> {
+    const minPerAgent = input.minPerAgent ?? DEFAULT_MIN_PER_AGENT;
+    const agents = input.agents?.map((agent) => ({
+      ...agent,
+      meetsMin: agent.leads >= minPerAgent,
+    }));
+    const counts = agents
+      ? { ...input, ...summarizeAgentLeads(agents, minPerAgent) }
+      : input;
+
+    const targetLeads = minPerAgent * counts.availableAgents;
     const attainmentPct =
-      targetLeads > 0 ? input.totalBillableLeads / targetLeads : 0;
+      targetLeads > 0 ? counts.totalBillableLeads / targetLeads : 0;
 
     const pctAgentsMeetingMin =
-      input.agentsMeetingMin != null && input.availableAgents > 0
-        ? input.agentsMeetingMin / input.availableAgents
+      counts.agentsMeetingMin != null && counts.availableAgents > 0
+        ? counts.agentsMeetingMin / counts.availableAgents
         : undefined;
 
     const payload: LeadEntryStored = {
-      availableAgents: input.availableAgents,
-      totalBillableLeads: input.totalBillableLeads,
+      availableAgents: counts.availableAgents,
+      totalBillableLeads: counts.totalBillableLeads,
       minPerAgent,
-      agentsMeetingMin: input.agentsMeetingMin,
-      openOrderZeroLeads: input.openOrderZeroLeads,
+      agentsMeetingMin: counts.agentsMeetingMin,
+      openOrderZeroLeads: counts.openOrderZeroLeads,
       derived: {
         targetLeads,
         attainmentPct,
@@ -67,46 +139,132 @@ export const leadService = {
       notes: input.notes,
       savedAt: Date.now(),
     };
+    if (agents) payload.agents = agents;
+    if (input.importBatchId) payload.importBatchId = input.importBatchId;
 
-    await set(ref(database, pathFor(input.dateISO, input.site)), payload);
+    await queueLeadWrite(
+      input.dateISO,
+      input.site,
+      payload,
+      baseSavedAt,
+      reason
+    );
+    return payload;
   },
 
-  async getLeadEntry(
+  // Restore the entry a change replaced; see revenueService.revertRevenueChange
+  async revertLeadChange(
+    change: AuditEntry,
     dateISO: string,
-    site: SiteKey
+    site: SiteKey,
+    current: LeadEntryStored | null
   ): Promise<LeadEntryStored | null> {
-    const snap = await get(ref(database, pathFor(dateISO, site)));
-    return snap.exists() ? (snap.val() as LeadEntryStored) : null;
+    const previous = change.previous as LeadEntryStored | null;
+    if (!previous) return null;
+    const payload: LeadEntryStored = { ...previous, savedAt: Date.now() };
+    await queueLeadWrite(
+      dateISO,
+      site,
+      payload,
+      current ? current.savedAt : null,
+      `Reverted change by ${change.editor} from ${new Date(
+        change.changedAt
+      ).toLocaleString()}`
+    );
+    return payload;
   },
 
-  subscribeToDate(
+  // Undo an import's write to an entry: restore the entry it replaced, or
+  // void the entry it created. Returns false, leaving the entry alone, when
+  // it has been changed or deleted since the import.
+  async rollBackImportedEntry(
     dateISO: string,
-    cb: (data: Record<SiteKey, LeadEntryStored | null>) => void
-  ) {
-    const atxRef = ref(database, pathFor(dateISO, "ATX"));
-    const cltRef = ref(database, pathFor(dateISO, "CLT"));
+    site: SiteKey,
+    previous: LeadEntryStored | null,
+    batchId: string,
+    reason: string
+  ): Promise<boolean> {
+    const current = await getDataStore().getLeadEntry(dateISO, site);
+    if (!current || current.deletedAt || current.importBatchId !== batchId) {
+      return false;
+    }
+    const now = Date.now();
+    await queueLeadWrite(
+      dateISO,
+      site,
+      previous
+        ? { ...previous, savedAt: now }
+        : { ...current, savedAt: now, deletedAt: now },
+      current.savedAt,
+      reason
+    );
+    return true;
+  },
 
-    const state: Record<SiteKey, LeadEntryStored | null> = {
-      ATX: null,
-      CLT: null,
-    };
+  // Void an entry: it stays in the trash, with its history, until restored
+  async voidLeadEntry(
+    dateISO: string,
+    site: SiteKey,
+    entry: LeadEntryStored,
+    reason?: string
+  ): Promise<void> {
+    const now = Date.now();
+    await queueLeadWrite(
+      dateISO,
+      site,
+      { ...entry, savedAt: now, deletedAt: now },
+      entry.savedAt,
+      reason ? `Deleted: ${reason}` : "Deleted"
+    );
+  },
 
-    const emit = () => cb({ ...state });
+  async restoreLeadEntry(
+    dateISO: string,
+    site: SiteKey,
+    entry: LeadEntryStored
+  ): Promise<void> {
+    const { deletedAt: _deletedAt, ...restored } = entry;
+    await queueLeadWrite(
+      dateISO,
+      site,
+      { ...restored, savedAt: Date.now() },
+      entry.savedAt,
+      "Restored from trash"
+    );
+  },
 
-    const unsubATX = onValue(atxRef, (s) => {
-      state.ATX = s.exists() ? (s.val() as LeadEntryStored) : null;
-      emit();
-    });
+  // Deleted entries are treated as missing
+  async getLeadEntry(
+    dateISO: string,
+    site: SiteKey
+  ): Promise<LeadEntryStored | null> {
+    const entry = await getDataStore().getLeadEntry(dateISO, site);
+    return isActive(entry) ? entry : null;
+  },
 
-    const unsubCLT = onValue(cltRef, (s) => {
-      state.CLT = s.exists() ? (s.val() as LeadEntryStored) : null;
-      emit();
-    });
+  // Permanently remove a lead entry
+  async deleteLeadEntry(dateISO: string, site: SiteKey): Promise<void> {
+    await getDataStore().deleteLeadEntry(dateISO, site);
+  },
 
-    return () => {
-      off(atxRef);
-      off(cltRef);
-    };
+  subscribeToDate(
+    dateISO: string,
+    cb: (data: Record<SiteKey, LeadEntryStored | null>) => void
+  ) {
+    return getDataStore().subscribeToLeadEntries(
+      dateISO,
+      dateISO,
+      (entries) => {
+        const value = entries.get(dateISO) || {};
+        const state: Record<SiteKey, LeadEntryStored | null> = {};
+        getLocations().forEach((location) => {
+          const entry = value[location.leadSiteKey];
+          state[location.leadSiteKey] = isActive(entry) ? entry : null;
+        });
+        cb(state);
+      },
+      (error) => console.error("Error subscribing to lead entries:", error)
+    );
   },
 
   // Subscribe to a range of dates for historical data
@@ -115,32 +273,62 @@ export const leadService = {
     endDate: string,
     cb: (data: Map<string, Record<SiteKey, LeadEntryStored | null>>) => void
   ) {
-    const leadRef = ref(database, "leadAttainment");
-
-    const unsubscribe = onValue(leadRef, (snapshot) => {
-      const allData = snapshot.val() || {};
-      const rangeData = new Map<
-        string,
-        Record<SiteKey, LeadEntryStored | null>
-      >();
+    return getDataStore().subscribeToLeadEntries(
+      startDate,
+      endDate,
+      (entries) => {
+        const active: Map<string, Record<SiteKey, LeadEntryStored | null>> =
+          new Map();
+        entries.forEach((sites, date) => {
+          const kept = Object.fromEntries(
+            Object.entries(sites).filter(([, entry]) => isActive(entry))
+          );
+          if (Object.keys(kept).length > 0) active.set(date, kept);
+        });
+        cb(active);
+      },
+      (error) => console.error("Error subscribing to lead entries:", error)
+    );
+  },
 
-      Object.keys(allData).forEach((date) => {
-        if (date >= startDate && date <= endDate) {
-          rangeData.set(date, allData[date]);
-        }
-      });
+  // Subscribe to voided entries across all dates, most recently deleted first
+  subscribeToDeleted(cb: (entries: DeletedLeadEntry[]) => void) {
+    return getDataStore().subscribeToLeadEntries(
+      "0000-01-01",
+      "9999-12-31",
+      (entries) => {
+        const deleted: DeletedLeadEntry[] = [];
+        entries.forEach((sites, dateISO) => {
+          Object.entries(sites).forEach(([site, entry]) => {
+            if (entry?.deletedAt) deleted.push({ dateISO, site, entry });
+          });
+        });
+        cb(
+          deleted.sort(
+            (a, b) => (b.entry.deletedAt ?? 0) - (a.entry.deletedAt ?? 0)
+          )
+        );
+      },
+      (error) => console.error("Error subscribing to deleted leads:", error)
+    );
+  },
 
-      cb(rangeData);
-    });
+  // Saved CSV column mappings, sorted by report source name
+  subscribeToImportProfiles(cb: (profiles: LeadImportProfile[]) => void) {
+    return getDataStore().subscribeToLeadImportProfiles(
+      (profiles) => cb(normalizeLeadImportProfiles(profiles)),
+      (error) => {
+        console.error("Error subscribing to lead import profiles:", error);
+        cb([]);
+      }
+    );
+  },
 
-    return () => off(leadRef);
+  async saveImportProfile(profile: LeadImportProfile): Promise<void> {
+    await getDataStore().saveLeadImportProfile(profile);
   },
 
-  // Handy if you want to store a combined "daily index" under /derived/daily/{date}
-  async upsertDailyIndex(dateISO: string, indexValue: number) {
-    await update(ref(database, `derived/daily/${dateISO}`), {
-      leadSalesIndex: indexValue,
-      updatedAt: Date.now(),
-    });
+  async deleteImportProfile(id: string): Promise<void> {
+    await getDataStore().deleteLeadImportProfile(id);
   },
 };
@@ -0,0 +1,47 @@
+import {
+  createEmptySnapshot,
+  DataStore,
+  DataStoreSnapshot,
+} from "./dataStore";
+import { createMemoryStore } from "./memoryStore";
+
+const STORAGE_KEY = "revenue_dashboard_store";
+
+const loadSnapshot = (storageKey: string): DataStoreSnapshot => {
+  try {
+    const serialized = localStorage.getItem(storageKey);
+    if (!serialized) return createEmptySnapshot();
+    return { ...createEmptySnapshot(), ...JSON.parse(serialized) };
+  } catch (err) {
+    console.error("Error loading data from localStorage:", err);
+    return createEmptySnapshot();
+  }
+};
+
+const saveSnapshot = (storageKey: string, snapshot: DataStoreSnapshot) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(snapshot));
+  } catch (err) {
+    console.error("Error saving data to localStorage:", err);
+  }
+};
+
+// Persists everything in the browser's localStorage so the dashboard works
+// without a Firebase project. Changes made in other tabs are picked up
+// through the storage event.
+export const createLocalStore = (storageKey = STORAGE_KEY): DataStore => {
+  const store = createMemoryStore(loadSnapshot(storageKey), {
+    kind: "local",
+    onChange: (snapshot) => saveSnapshot(storageKey, snapshot),
+  });
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", (event) => {
+      if (event.key === storageKey) {
+        store.replaceSnapshot(loadSnapshot(storageKey));
+      }
+    });
+  }
+
+  return store;
+};
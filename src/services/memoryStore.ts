@@ -0,0 +1,251 @@
+import {
+  HolidayCalendar,
+  LocationConfig,
+  RevenueData,
+  TargetSettings,
+} from "../types/revenue";
+import {
+  createEmptySnapshot,
+  DataStore,
+  DataStoreKind,
+  DataStoreSnapshot,
+  LeadEntriesByDate,
+} from "./dataStore";
+
+export interface MemoryDataStore extends DataStore {
+  getSnapshot: () => DataStoreSnapshot;
+  // Replace all data at once and notify subscribers
+  replaceSnapshot: (snapshot: DataStoreSnapshot) => void;
+}
+
+interface MemoryStoreOptions {
+  kind?: DataStoreKind;
+  // Called with the new state after every write
+  onChange?: (snapshot: DataStoreSnapshot) => void;
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+let idCounter = 0;
+export const generateRecordId = () =>
+  `${Date.now().toString(36)}${(idCounter++).toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 6)}`;
+
+// Keeps all data in memory. Used on its own for offline demos and tests, and
+// as the base of the localStorage store.
+export const createMemoryStore = (
+  initial: Partial<DataStoreSnapshot> = {},
+  options: MemoryStoreOptions = {}
+): MemoryDataStore => {
+  let state: DataStoreSnapshot = clone({
+    ...createEmptySnapshot(),
+    ...initial,
+  });
+  const listeners = new Set<() => void>();
+
+  const listen = (listener: () => void) => {
+    listeners.add(listener);
+    listener();
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const commit = (next: DataStoreSnapshot) => {
+    state = next;
+    options.onChange?.(clone(state));
+    listeners.forEach((listener) => listener());
+  };
+
+  const getRevenueList = (): RevenueData[] =>
+    clone(
+      Object.entries(state.revenue).map(([key, entry]) => ({
+        ...entry,
+        id: key,
+      }))
+    );
+
+  const getLeadRange = (startDate: string, endDate: string) => {
+    const entries: LeadEntriesByDate = new Map();
+    Object.keys(state.leads)
+      .filter((date) => date >= startDate && date <= endDate)
+      .sort()
+      .forEach((date) => entries.set(date, clone(state.leads[date])));
+    return entries;
+  };
+
+  return {
+    kind: options.kind ?? "memory",
+
+    subscribeToRevenue: (callback) =>
+      listen(() => callback(getRevenueList())),
+
+    getRevenue: async () => getRevenueList(),
+
+    getRevenueForDate: async (date) =>
+      getRevenueList().filter((entry) => entry.date === date),
+
+    upsertRevenue: async (entry) => {
+      const stored: RevenueData = clone({ ...entry, id: entry.date });
+      const revenue = Object.fromEntries(
+        Object.entries(state.revenue).filter(
+          ([, existing]) => existing.date !== entry.date
+        )
+      );
+      commit({ ...state, revenue: { ...revenue, [entry.date]: stored } });
+      return clone(stored);
+    },
+
+    deleteRevenue: async (id) => {
+      const { [id]: _removed, ...revenue } = state.revenue;
+      commit({ ...state, revenue });
+    },
+
+    // Entries are always written in the per-location format
+    migrateLegacyRevenue: async () => 0,
+
+    subscribeToTargets: (callback) =>
+      listen(() => callback(state.targets ? clone(state.targets) : null)),
+
+    getTargets: async () => (state.targets ? clone(state.targets) : null),
+
+    saveTargets: async (settings: TargetSettings) => {
+      commit({ ...state, targets: clone(settings) });
+    },
+
+    subscribeToLocations: (callback) =>
+      listen(() => callback(state.locations ? clone(state.locations) : null)),
+
+    saveLocations: async (locations: LocationConfig[]) => {
+      commit({ ...state, locations: clone(locations) });
+    },
+
+    subscribeToHolidays: (callback) =>
+      listen(() => callback(state.holidays ? clone(state.holidays) : null)),
+
+    saveHolidays: async (calendar: HolidayCalendar) => {
+      commit({ ...state, holidays: clone(calendar) });
+    },
+
+    subscribeToLeadEntries: (startDate, endDate, callback) =>
+      listen(() => callback(getLeadRange(startDate, endDate))),
+
+    getLeadEntry: async (date, site) => {
+      const entry = state.leads[date]?.[site];
+      return entry ? clone(entry) : null;
+    },
+
+    upsertLeadEntry: async (date, site, entry) => {
+      commit({
+        ...state,
+        leads: {
+          ...state.leads,
+          [date]: { ...state.leads[date], [site]: clone(entry) },
+        },
+      });
+    },
+
+    deleteLeadEntry: async (date, site) => {
+      if (!state.leads[date]) return;
+      const { [site]: _removed, ...remaining } = state.leads[date];
+      const leads = { ...state.leads };
+      if (Object.keys(remaining).length > 0) {
+        leads[date] = remaining;
+      } else {
+        delete leads[date];
+      }
+      commit({ ...state, leads });
+    },
+
+    subscribeToLeadImportProfiles: (callback) =>
+      listen(() => callback(clone(Object.values(state.leadImportProfiles)))),
+
+    saveLeadImportProfile: async (profile) => {
+      commit({
+        ...state,
+        leadImportProfiles: {
+          ...state.leadImportProfiles,
+          [profile.id]: clone(profile),
+        },
+      });
+    },
+
+    deleteLeadImportProfile: async (id) => {
+      const { [id]: _removed, ...leadImportProfiles } =
+        state.leadImportProfiles;
+      commit({ ...state, leadImportProfiles });
+    },
+
+    subscribeToAgents: (callback) =>
+      listen(() => callback(clone(Object.values(state.agents)))),
+
+    saveAgents: async (agents) => {
+      commit({
+        ...state,
+        agents: {
+          ...state.agents,
+          ...Object.fromEntries(
+            agents.map((agent) => [agent.id, clone(agent)])
+          ),
+        },
+      });
+    },
+
+    subscribeToImportBatches: (callback) =>
+      listen(() => callback(clone(Object.values(state.importBatches)))),
+
+    saveImportBatch: async (batch) => {
+      commit({
+        ...state,
+        importBatches: { ...state.importBatches, [batch.id]: clone(batch) },
+      });
+    },
+
+    subscribeToAuditLog: (subject, callback) =>
+      listen(() =>
+        callback(clone(Object.values(state.audit[subject] ?? {})))
+      ),
+
+    appendAuditEntry: async (entry) => {
+      if (state.audit[entry.subject]?.[entry.id]) return;
+      commit({
+        ...state,
+        audit: {
+          ...state.audit,
+          [entry.subject]: {
+            ...state.audit[entry.subject],
+            [entry.id]: clone(entry),
+          },
+        },
+      });
+    },
+
+    subscribeToUserProfile: (uid, callback) =>
+      listen(() =>
+        callback(state.users[uid] ? clone(state.users[uid]) : null)
+      ),
+
+    subscribeToUsers: (callback) => listen(() => callback(clone(state.users))),
+
+    saveUserProfile: async (uid, profile) => {
+      commit({ ...state, users: { ...state.users, [uid]: clone(profile) } });
+    },
+
+    exportData: async () => {
+      const { users: _users, ...data } = clone(state);
+      return data;
+    },
+
+    replaceData: async (data) => {
+      commit({ ...state, ...clone(data) });
+    },
+
+    getSnapshot: () => clone(state),
+
+    replaceSnapshot: (snapshot) => {
+      state = clone(snapshot);
+      listeners.forEach((listener) => listener());
+    },
+  };
+};
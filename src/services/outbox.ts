@@ -0,0 +1,355 @@
+import { useSyncExternalStore } from "react";
+import { RevenueData } from "../types/revenue";
+import { LeadEntryStored, SiteKey } from "./leadService";
+import { getDataStore } from "./dataStore";
+import { generateRecordId } from "./memoryStore";
+import {
+  AuditEntry,
+  ChangeDetails,
+  leadSubject,
+  revenueSubject,
+} from "./auditService";
+
+export type OutboxStatus = "pending" | "synced" | "conflict";
+
+// change is recorded in the audit log once the write reaches the server
+export type OutboxWrite = { change?: ChangeDetails } & (
+  | { kind: "revenue"; entry: RevenueData }
+  | { kind: "lead"; date: string; site: SiteKey; entry: LeadEntryStored }
+);
+
+// A queued write. baseSavedAt is the savedAt of the record the user was
+// looking at when they made the change: null when no record existed yet,
+// undefined to skip conflict detection (e.g. CSV imports).
+export interface OutboxItem {
+  id: string;
+  write: OutboxWrite;
+  baseSavedAt?: number | null;
+  queuedAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  syncedAt?: number;
+  // Remote version that made this write conflict
+  remote?: RevenueData | LeadEntryStored | null;
+}
+
+const DB_NAME = "revenue_dashboard_outbox";
+const STORE_NAME = "writes";
+const WRITE_TIMEOUT_MS = 15000;
+const RETRY_INTERVAL_MS = 30000;
+
+// --- IndexedDB persistence -------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        console.warn("IndexedDB unavailable - outbox is kept in memory only");
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Error opening outbox database:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async (
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<any> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = action(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const persistItem = async (item: OutboxItem) => {
+  try {
+    await runTransaction("readwrite", (store) => store.put(item));
+  } catch (error) {
+    console.error("Error saving outbox item:", error);
+  }
+};
+
+const deleteItem = async (id: string) => {
+  try {
+    await runTransaction("readwrite", (store) => store.delete(id));
+  } catch (error) {
+    console.error("Error deleting outbox item:", error);
+  }
+};
+
+// --- In-memory view and subscribers ----------------------------------------
+
+let items: OutboxItem[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => {
+  items = [...items].sort((a, b) => a.queuedAt - b.queuedAt);
+  listeners.forEach((listener) => listener());
+};
+
+const saveItem = async (item: OutboxItem) => {
+  items = [...items.filter((existing) => existing.id !== item.id), item];
+  emit();
+  await persistItem(item);
+};
+
+// --- Replay ----------------------------------------------------------------
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error("Timed out waiting for the server")),
+      ms
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+// Most recently saved remote record the write would replace
+const fetchRemote = async (
+  write: OutboxWrite
+): Promise<RevenueData | LeadEntryStored | null> => {
+  const store = getDataStore();
+  if (write.kind === "lead") {
+    return store.getLeadEntry(write.date, write.site);
+  }
+
+  // Entries are keyed by date; reading the date also catches entries
+  // someone else created for the same day under a push id
+  const matches = await store.getRevenueForDate(write.entry.date);
+  return matches.reduce<RevenueData | null>(
+    (latest, entry) =>
+      !latest || (entry.savedAt ?? 0) > (latest.savedAt ?? 0) ? entry : latest,
+    null
+  );
+};
+
+// Records written before savedAt existed count as version 0. Deleted records
+// count as missing, so re-entering a voided entry is not a conflict.
+const versionOf = (record: { savedAt?: number; deletedAt?: number } | null) =>
+  record && !record.deletedAt ? record.savedAt ?? 0 : null;
+
+// remote is the record being replaced, when it has already been fetched
+const applyWrite = async (
+  item: OutboxItem,
+  remote?: RevenueData | LeadEntryStored | null
+) => {
+  const store = getDataStore();
+  const { write } = item;
+  const previous =
+    write.change && remote === undefined ? await fetchRemote(write) : remote;
+
+  if (write.kind === "lead") {
+    await store.upsertLeadEntry(write.date, write.site, write.entry);
+  } else {
+    await store.upsertRevenue(write.entry);
+  }
+
+  if (write.change) {
+    // Keyed by the outbox item so a retried write is logged once
+    const entry: AuditEntry = {
+      ...write.change,
+      id: item.id,
+      subject:
+        write.kind === "lead"
+          ? leadSubject(write.date, write.site)
+          : revenueSubject(write.entry.date),
+      previous: previous ?? null,
+      next: write.entry,
+    };
+    await store.appendAuditEntry(entry);
+  }
+};
+
+const replayItem = async (item: OutboxItem) => {
+  try {
+    let remote: RevenueData | LeadEntryStored | null | undefined;
+    if (item.baseSavedAt !== undefined) {
+      remote = await withTimeout(fetchRemote(item.write), WRITE_TIMEOUT_MS);
+      const remoteVersion = versionOf(remote);
+
+      // A previous attempt already reached the server
+      if (remote && remote.savedAt === item.write.entry.savedAt) {
+        await saveItem({ ...item, status: "synced", syncedAt: Date.now() });
+        return;
+      }
+
+      if (remoteVersion !== null && remoteVersion !== item.baseSavedAt) {
+        await saveItem({ ...item, status: "conflict", remote });
+        return;
+      }
+    }
+
+    await withTimeout(applyWrite(item, remote), WRITE_TIMEOUT_MS);
+    await saveItem({
+      ...item,
+      status: "synced",
+      attempts: item.attempts + 1,
+      lastError: undefined,
+      syncedAt: Date.now(),
+    });
+  } catch (error) {
+    await saveItem({
+      ...item,
+      attempts: item.attempts + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+let flushing: Promise<void> | null = null;
+let initialized: Promise<void> | null = null;
+
+const initialize = () => {
+  if (!initialized) {
+    initialized = (async () => {
+      try {
+        const stored: OutboxItem[] | undefined = await runTransaction(
+          "readonly",
+          (store) => store.getAll()
+        );
+        if (stored) {
+          const loadedIds = new Set(stored.map((item) => item.id));
+          items = [
+            ...stored,
+            ...items.filter((item) => !loadedIds.has(item.id)),
+          ];
+          emit();
+        }
+      } catch (error) {
+        console.error("Error loading outbox:", error);
+      }
+
+      if (typeof window !== "undefined") {
+        window.addEventListener("online", () => {
+          outboxService.flush();
+        });
+        setInterval(() => {
+          if (items.some((item) => item.status === "pending")) {
+            outboxService.flush();
+          }
+        }, RETRY_INTERVAL_MS);
+      }
+    })();
+  }
+  return initialized;
+};
+
+export const outboxService = {
+  // Load queued writes from IndexedDB and replay anything still pending
+  start: async () => {
+    await initialize();
+    await outboxService.flush();
+  },
+
+  // Queue a write and try to send it straight away. Resolves with the item
+  // after that first attempt; it stays pending if the server was unreachable.
+  enqueue: async (
+    write: OutboxWrite,
+    baseSavedAt?: number | null
+  ): Promise<OutboxItem> => {
+    await initialize();
+    const item: OutboxItem = {
+      id: generateRecordId(),
+      write,
+      baseSavedAt,
+      queuedAt: Date.now(),
+      status: "pending",
+      attempts: 0,
+    };
+    await saveItem(item);
+    await outboxService.flush();
+    return items.find((existing) => existing.id === item.id) ?? item;
+  },
+
+  // Replay pending writes in the order they were queued
+  flush: (): Promise<void> => {
+    if (!flushing) {
+      flushing = (async () => {
+        try {
+          // Also picks up writes queued while the flush is running
+          const attempted = new Set<string>();
+          let next: OutboxItem | undefined;
+          while (
+            (next = items.find(
+              (item) => item.status === "pending" && !attempted.has(item.id)
+            ))
+          ) {
+            attempted.add(next.id);
+            await replayItem(next);
+          }
+        } finally {
+          flushing = null;
+        }
+      })();
+    }
+    return flushing;
+  },
+
+  // Overwrite the remote version with the queued write
+  keepMine: async (id: string) => {
+    const item = items.find((existing) => existing.id === id);
+    if (!item || item.status !== "conflict") return;
+    await saveItem({
+      ...item,
+      status: "pending",
+      baseSavedAt: versionOf((item.remote as { savedAt?: number }) ?? null),
+      remote: undefined,
+    });
+    await outboxService.flush();
+  },
+
+  // Drop the queued write and keep the remote version
+  keepTheirs: async (id: string) => {
+    items = items.filter((existing) => existing.id !== id);
+    emit();
+    await deleteItem(id);
+  },
+
+  clearSynced: async () => {
+    const synced = items.filter((item) => item.status === "synced");
+    items = items.filter((item) => item.status !== "synced");
+    emit();
+    await Promise.all(synced.map((item) => deleteItem(item.id)));
+  },
+
+  getItems: (): OutboxItem[] => items,
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+// React hook that re-renders when the outbox changes
+export const useOutbox = (): OutboxItem[] =>
+  useSyncExternalStore(outboxService.subscribe, outboxService.getItems);
@@ -0,0 +1,513 @@
+import {
+  RevenueData,
+  TargetSettings,
+  LocationConfig,
+  RevenueImportResult,
+  HolidayCalendar,
+} from "../types/revenue";
+import {
+  DEFAULT_LOCATIONS,
+  getDefaultDailyTargets,
+  normalizeTargetSettings,
+} from "../utils/locations";
+import {
+  DEFAULT_HOLIDAY_CALENDAR,
+  normalizeHolidayCalendar,
+} from "../utils/holidays";
+import { toDateKey } from "../utils/formatters";
+import { getDataStore } from "./dataStore";
+import { OutboxStatus, outboxService } from "./outbox";
+import { AuditEntry, auditService } from "./auditService";
+import { ImportBatch } from "../types/importBatch";
+
+const getDefaultTargetSettings = (): TargetSettings => ({
+  dailyTargets: getDefaultDailyTargets(),
+  monthlyAdjustments: [],
+});
+
+// Entries saved before revenue was keyed by date can repeat a day. The most
+// recently saved one wins; without savedAt, the later one in storage order
+// (push ids sort by creation time).
+const pickLatest = (entries: RevenueData[]): RevenueData =>
+  entries.reduce((latest, entry) =>
+    (entry.savedAt ?? 0) >= (latest.savedAt ?? 0) ? entry : latest
+  );
+
+const groupByDate = (entries: RevenueData[]) => {
+  const groups = new Map<string, RevenueData[]>();
+  entries.forEach((entry) => {
+    const key = toDateKey(entry.date) ?? entry.date;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+  return groups;
+};
+
+// One entry per date, so duplicates are never counted twice
+const collapseByDate = (entries: RevenueData[]): RevenueData[] =>
+  Array.from(groupByDate(entries).values()).map(pickLatest);
+
+const isDeleted = (entry: RevenueData) => !!entry.deletedAt;
+
+const queueRevenueWrite = (
+  entry: RevenueData,
+  baseSavedAt: number | null | undefined,
+  reason?: string
+) =>
+  outboxService.enqueue(
+    {
+      kind: "revenue",
+      entry: { ...entry, savedAt: Date.now() },
+      change: auditService.describeChange(reason),
+    },
+    baseSavedAt
+  );
+
+const hasSameRevenue = (a: RevenueData, b: RevenueData) =>
+  Array.from(
+    new Set([...Object.keys(a.revenue), ...Object.keys(b.revenue)])
+  ).every((id) => (a.revenue[id] ?? 0) === (b.revenue[id] ?? 0));
+
+export const revenueService = {
+  // Subscribe to revenue data changes. Deleted entries are left out; see
+  // subscribeToDeletedRevenue.
+  subscribeToRevenueData: (callback: (data: RevenueData[]) => void) => {
+    try {
+      return getDataStore().subscribeToRevenue(
+        (data) => {
+          if (data.length === 0) {
+            console.log("No revenue data found in database");
+          }
+          const entries = collapseByDate(data);
+          if (entries.length < data.length) {
+            console.warn(
+              `Ignoring ${data.length - entries.length} duplicate revenue entries`
+            );
+          }
+          callback(entries.filter((entry) => !isDeleted(entry)));
+        },
+        (error) => {
+          console.error("Error subscribing to revenue data:", error);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToRevenueData:", error);
+      callback([]);
+      return () => {};
+    }
+  },
+
+  // Subscribe to soft-deleted entries, most recently deleted first
+  subscribeToDeletedRevenue: (callback: (data: RevenueData[]) => void) => {
+    try {
+      return getDataStore().subscribeToRevenue(
+        (data) =>
+          callback(
+            collapseByDate(data)
+              .filter(isDeleted)
+              .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+          ),
+        (error) => {
+          console.error("Error subscribing to deleted revenue:", error);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToDeletedRevenue:", error);
+      callback([]);
+      return () => {};
+    }
+  },
+
+  // Add or replace the revenue entry for a date. The write goes through the
+  // outbox, so it is kept and replayed later when the server cannot be
+  // reached. baseSavedAt is the savedAt of the entry the user saw for that
+  // date (null if none) and enables conflict detection; reason is recorded
+  // in the change log.
+  addRevenueEntry: async (
+    entry: RevenueData,
+    baseSavedAt?: number | null,
+    reason?: string
+  ) => {
+    try {
+      const date = toDateKey(entry.date);
+      if (!date) {
+        throw new Error(`Invalid revenue date: ${entry.date}`);
+      }
+      const { deletedAt: _deletedAt, ...active } = entry;
+      await queueRevenueWrite(
+        { ...active, id: date, date },
+        baseSavedAt,
+        reason
+      );
+      return true;
+    } catch (error) {
+      console.error("Error adding revenue entry:", error);
+      return false;
+    }
+  },
+
+  // Save several dates at once, e.g. from the bulk entry grid. Each entry
+  // goes through the outbox with its own conflict check; the result is the
+  // outbox status of each date after the first attempt, or "failed".
+  saveRevenueEntries: async (
+    rows: { entry: RevenueData; baseSavedAt: number | null }[],
+    reason?: string
+  ): Promise<Record<string, OutboxStatus | "failed">> => {
+    const results: Record<string, OutboxStatus | "failed"> = {};
+    for (const { entry, baseSavedAt } of rows) {
+      try {
+        const date = toDateKey(entry.date);
+        if (!date) {
+          throw new Error(`Invalid revenue date: ${entry.date}`);
+        }
+        const { deletedAt: _deletedAt, ...active } = entry;
+        const item = await queueRevenueWrite(
+          { ...active, id: date, date },
+          baseSavedAt,
+          reason
+        );
+        results[entry.date] = item.status;
+      } catch (error) {
+        console.error("Error saving revenue entry:", error);
+        results[entry.date] = "failed";
+      }
+    }
+    return results;
+  },
+
+  // Import entries against the data currently shown. Dates with the same
+  // values are skipped; a date repeated in the file keeps its last row.
+  // Written entries are tagged with the batch, which records the entries
+  // they replaced so the import can be rolled back.
+  importRevenueEntries: async (
+    entries: RevenueData[],
+    existing: RevenueData[],
+    batch?: ImportBatch
+  ): Promise<RevenueImportResult> => {
+    const result: RevenueImportResult = {
+      inserted: [],
+      updated: [],
+      skipped: [],
+      invalid: [],
+      failed: [],
+    };
+
+    // The last row for each date wins; every date is then counted once
+    const rows = new Map<string, RevenueData>();
+    entries.forEach((entry) => {
+      const date = toDateKey(entry.date);
+      if (!date) {
+        result.invalid.push(entry.date);
+        return;
+      }
+      rows.set(date, { ...entry, date });
+    });
+
+    const stored = groupByDate(existing);
+
+    for (const [date, entry] of rows) {
+      const current = stored.get(date);
+      const latest = current ? pickLatest(current) : null;
+      if (latest && current?.length === 1 && hasSameRevenue(latest, entry)) {
+        result.skipped.push(date);
+        continue;
+      }
+      const saved = await revenueService.addRevenueEntry(
+        batch ? { ...entry, importBatchId: batch.id } : entry,
+        undefined,
+        batch ? `CSV import of ${batch.fileName}` : "CSV import"
+      );
+      if (!saved) {
+        result.failed.push(date);
+        continue;
+      }
+      batch?.entries.push({ date, previous: latest });
+      if (latest) {
+        result.updated.push(date);
+      } else {
+        result.inserted.push(date);
+      }
+    }
+
+    return result;
+  },
+
+  // Undo an import's write to a date: restore the entry it replaced, or void
+  // the entry it created. Returns false, leaving the entry alone, when it
+  // has been changed or deleted since the import.
+  rollBackImportedEntry: async (
+    date: string,
+    previous: RevenueData | null,
+    batchId: string,
+    reason: string
+  ): Promise<boolean> => {
+    const matching = await getDataStore().getRevenueForDate(date);
+    const current = matching.length > 0 ? pickLatest(matching) : null;
+    if (!current || current.deletedAt || current.importBatchId !== batchId) {
+      return false;
+    }
+    await queueRevenueWrite(
+      previous
+        ? { ...previous, id: date, date }
+        : { ...current, deletedAt: Date.now() },
+      current.savedAt ?? 0,
+      reason
+    );
+    return true;
+  },
+
+  // Restore the values a change replaced. current is the entry as shown now,
+  // so a newer edit made elsewhere surfaces as a conflict.
+  revertRevenueChange: async (
+    change: AuditEntry,
+    current: RevenueData | null
+  ) => {
+    const previous = change.previous as RevenueData | null;
+    if (!previous) return false;
+    try {
+      // previous may itself be deleted, e.g. when reverting a restore
+      await queueRevenueWrite(
+        { ...previous, id: previous.date },
+        current?.savedAt ?? null,
+        `Reverted change by ${change.editor} from ${new Date(
+          change.changedAt
+        ).toLocaleString()}`
+      );
+      return true;
+    } catch (error) {
+      console.error("Error reverting revenue entry:", error);
+      return false;
+    }
+  },
+
+  // Void an entry: it is kept, with its history, in the trash and can be
+  // restored, but no longer counts towards metrics or charts
+  voidRevenueEntry: async (entry: RevenueData, reason?: string) => {
+    try {
+      await queueRevenueWrite(
+        { ...entry, deletedAt: Date.now() },
+        entry.savedAt ?? 0,
+        reason ? `Deleted: ${reason}` : "Deleted"
+      );
+      return true;
+    } catch (error) {
+      console.error("Error deleting revenue entry:", error);
+      return false;
+    }
+  },
+
+  restoreRevenueEntry: async (entry: RevenueData) => {
+    try {
+      const { deletedAt: _deletedAt, ...restored } = entry;
+      await queueRevenueWrite(
+        restored,
+        entry.savedAt ?? 0,
+        "Restored from trash"
+      );
+      return true;
+    } catch (error) {
+      console.error("Error restoring revenue entry:", error);
+      return false;
+    }
+  },
+
+  // Permanently remove a revenue entry
+  deleteRevenueEntry: async (entryId: string) => {
+    try {
+      await getDataStore().deleteRevenue(entryId);
+      return true;
+    } catch (error) {
+      console.error("Error deleting revenue entry:", error);
+      return false;
+    }
+  },
+
+  // Get all revenue data once
+  getAllRevenueData: async (): Promise<RevenueData[]> => {
+    try {
+      return collapseByDate(await getDataStore().getRevenue()).filter(
+        (entry) => !isDeleted(entry)
+      );
+    } catch (error) {
+      console.error("Error getting revenue data:", error);
+      return [];
+    }
+  },
+
+  // Rewrite records saved in the legacy flat format ({ austin, charlotte })
+  // into the per-location revenue map
+  migrateLegacyRevenueRecords: async (): Promise<{
+    success: boolean;
+    migrated: number;
+  }> => {
+    try {
+      const migrated = await getDataStore().migrateLegacyRevenue();
+      return { success: true, migrated };
+    } catch (error) {
+      console.error("Error migrating legacy revenue records:", error);
+      return { success: false, migrated: 0 };
+    }
+  },
+
+  // Merge entries that share a date into a single entry stored under that
+  // date. Returns the number of dates merged and entries removed.
+  deduplicateRevenueRecords: async (): Promise<{
+    success: boolean;
+    merged: number;
+    removed: number;
+  }> => {
+    try {
+      const store = getDataStore();
+      let merged = 0;
+      let removed = 0;
+
+      for (const [date, entries] of groupByDate(await store.getRevenue())) {
+        if (entries.length === 1 && entries[0].id === date) continue;
+        await store.upsertRevenue({ ...pickLatest(entries), date });
+        // upsertRevenue only finds duplicates whose date is already
+        // normalized, so remove the rest by id (the store reads each
+        // record's key as its id, so every record has one)
+        for (const entry of entries) {
+          if (entry.id && entry.id !== date) {
+            await store.deleteRevenue(entry.id);
+          }
+        }
+        if (entries.length > 1) {
+          merged += 1;
+          removed += entries.length - 1;
+        }
+      }
+
+      return { success: true, merged, removed };
+    } catch (error) {
+      console.error("Error deduplicating revenue records:", error);
+      return { success: false, merged: 0, removed: 0 };
+    }
+  },
+
+  // Save the location registry
+  saveLocations: async (locations: LocationConfig[]): Promise<boolean> => {
+    try {
+      await getDataStore().saveLocations(locations);
+      return true;
+    } catch (error) {
+      console.error("Error saving locations:", error);
+      return false;
+    }
+  },
+
+  // Subscribe to location registry changes
+  subscribeToLocations: (
+    callback: (locations: LocationConfig[]) => void
+  ) => {
+    try {
+      return getDataStore().subscribeToLocations(
+        (locations) => {
+          callback(
+            locations && locations.length > 0 ? locations : DEFAULT_LOCATIONS
+          );
+        },
+        (error) => {
+          console.error("Error subscribing to locations:", error);
+          callback(DEFAULT_LOCATIONS);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToLocations:", error);
+      callback(DEFAULT_LOCATIONS);
+      return () => {};
+    }
+  },
+
+  // Save the holiday calendar
+  saveHolidays: async (calendar: HolidayCalendar): Promise<boolean> => {
+    try {
+      await getDataStore().saveHolidays(calendar);
+      return true;
+    } catch (error) {
+      console.error("Error saving holiday calendar:", error);
+      return false;
+    }
+  },
+
+  // Subscribe to holiday calendar changes
+  subscribeToHolidays: (callback: (calendar: HolidayCalendar) => void) => {
+    try {
+      return getDataStore().subscribeToHolidays(
+        (calendar) => {
+          callback(
+            calendar
+              ? normalizeHolidayCalendar(calendar)
+              : DEFAULT_HOLIDAY_CALENDAR
+          );
+        },
+        (error) => {
+          console.error("Error subscribing to holiday calendar:", error);
+          callback(DEFAULT_HOLIDAY_CALENDAR);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToHolidays:", error);
+      callback(DEFAULT_HOLIDAY_CALENDAR);
+      return () => {};
+    }
+  },
+
+  // Save target settings
+  saveTargetSettings: async (settings: TargetSettings): Promise<void> => {
+    try {
+      await getDataStore().saveTargets(settings);
+    } catch (error) {
+      console.error("Error saving target settings:", error);
+      // Instead of throwing the error, we'll handle it gracefully
+      // This allows the app to continue functioning even if saving fails
+      console.log("Continuing with local settings only");
+      // We could show a notification to the user here
+    }
+  },
+
+  // Get target settings
+  getTargetSettings: async (): Promise<TargetSettings> => {
+    try {
+      const settings = await getDataStore().getTargets();
+
+      if (settings) {
+        return normalizeTargetSettings(settings);
+      } else {
+        // Return default settings if none exist
+        return getDefaultTargetSettings();
+      }
+    } catch (error) {
+      console.error("Error getting target settings:", error);
+      // Return default settings on error
+      return getDefaultTargetSettings();
+    }
+  },
+
+  // Subscribe to target settings changes
+  subscribeToTargetSettings: (callback: (settings: TargetSettings) => void) => {
+    try {
+      return getDataStore().subscribeToTargets(
+        (settings) => {
+          if (settings) {
+            callback(normalizeTargetSettings(settings));
+          } else {
+            // Use default settings if none exist
+            console.log("No target settings found, using defaults");
+            callback(getDefaultTargetSettings());
+          }
+        },
+        (error) => {
+          console.error("Error subscribing to target settings:", error);
+          // Use default settings on error
+          console.log("Using default target settings due to error");
+          callback(getDefaultTargetSettings());
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToTargetSettings:", error);
+      // Return a no-op unsubscribe function
+      callback(getDefaultTargetSettings());
+      return () => {};
+    }
+  },
+};
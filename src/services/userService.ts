@@ -0,0 +1,65 @@
+import { UserProfile, UserRole } from "../types/auth";
+import { getDataStore } from "./dataStore";
+
+export const userService = {
+  // Subscribe to a user's profile, creating a read-only one on first sign-in.
+  // Roles are raised by an admin (see UserManagement).
+  subscribeToProfile: (
+    uid: string,
+    details: { email: string | null; displayName: string | null },
+    callback: (profile: UserProfile | null) => void
+  ) => {
+    try {
+      return getDataStore().subscribeToUserProfile(
+        uid,
+        (profile) => {
+          if (profile) {
+            callback(profile);
+            return;
+          }
+          getDataStore()
+            .saveUserProfile(uid, { ...details, role: "viewer" })
+            .catch((error) => {
+              console.error("Error creating user profile:", error);
+              callback(null);
+            });
+        },
+        (error) => {
+          console.error("Error subscribing to user profile:", error);
+          callback(null);
+        }
+      );
+    } catch (error) {
+      console.error("Exception in subscribeToProfile:", error);
+      callback(null);
+      return () => {};
+    }
+  },
+
+  subscribeToUsers: (callback: (users: Record<string, UserProfile>) => void) => {
+    try {
+      return getDataStore().subscribeToUsers(callback, (error) => {
+        console.error("Error subscribing to users:", error);
+        callback({});
+      });
+    } catch (error) {
+      console.error("Exception in subscribeToUsers:", error);
+      callback({});
+      return () => {};
+    }
+  },
+
+  setRole: async (
+    uid: string,
+    profile: UserProfile,
+    role: UserRole
+  ): Promise<boolean> => {
+    try {
+      await getDataStore().saveUserProfile(uid, { ...profile, role });
+      return true;
+    } catch (error) {
+      console.error("Error saving user role:", error);
+      return false;
+    }
+  },
+};
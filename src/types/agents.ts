@@ -0,0 +1,24 @@
+import { SiteKey } from "../services/leadService";
+
+// A lead agent on the roster. Imported lead rows point at agents by id, so
+// spelling variations of one person resolve to the same agent.
+export interface Agent {
+  id: string;
+  name: string; // Display name
+  aliases?: string[]; // Other spellings of the name seen in lead CSVs
+  site: SiteKey;
+  supervisor?: string;
+  hireDate?: string; // yyyy-MM-dd
+  activeFrom?: string; // yyyy-MM-dd; first day taking leads, hireDate if omitted
+  terminatedOn?: string; // yyyy-MM-dd; last day on the roster
+}
+
+// How a CSV agent name was resolved against the roster
+export type AgentMatchStatus = "exact" | "fuzzy" | "unmatched";
+
+export interface AgentMatch {
+  status: AgentMatchStatus;
+  agent?: Agent; // Best match; unset when unmatched
+  score: number; // 0..1 similarity of the best match
+  candidates: Agent[]; // Close matches to offer during review, best first
+}
@@ -0,0 +1,26 @@
+// viewer: read-only; clerk: enters revenue and lead data; admin: also edits
+// targets, locations, the agent roster and user roles
+export type UserRole = "viewer" | "clerk" | "admin";
+
+export interface UserProfile {
+  email: string | null;
+  displayName: string | null;
+  role: UserRole;
+}
+
+export interface Permissions {
+  enterData: boolean;
+  manageSettings: boolean;
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  clerk: "Entry Clerk",
+  admin: "Admin",
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permissions> = {
+  viewer: { enterData: false, manageSettings: false },
+  clerk: { enterData: true, manageSettings: false },
+  admin: { enterData: true, manageSettings: true },
+};
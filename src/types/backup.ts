@@ -0,0 +1,43 @@
+import { DataStoreKind, DataStoreSnapshot } from "../services/dataStore";
+
+// What a backup holds: everything in the store except user profiles, which
+// belong to the sign-in accounts of one Firebase project
+export type BackupData = Omit<DataStoreSnapshot, "users">;
+
+// The parts a restore writes. The change log is append-only and signed by
+// its editors, so it is kept in archives for reference but never restored.
+export type RestorableData = Omit<BackupData, "audit">;
+
+export type BackupSection = keyof RestorableData;
+
+// A backup file, as downloaded
+export interface BackupArchive {
+  format: "revenue-dashboard-backup";
+  schemaVersion: number;
+  createdAt: number;
+  createdBy: string; // Editor name, as in the change log
+  source: DataStoreKind;
+  data: BackupData;
+}
+
+// merge: records missing from the database are added and older ones are
+// updated; nothing is removed. replace: the database is made to match the
+// archive.
+export type RestoreMode = "merge" | "replace";
+
+// Records a restore adds, updates or removes in one section
+export interface RestoreSectionSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  kept: number; // In both, with the database's copy kept
+}
+
+// What a restore will write, worked out before anything is written
+export interface RestorePlan {
+  archive: BackupArchive;
+  mode: RestoreMode;
+  data: RestorableData; // The store's data after the restore
+  summary: Record<BackupSection, RestoreSectionSummary>;
+  warnings: string[];
+}
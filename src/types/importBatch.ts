@@ -0,0 +1,34 @@
+import { RevenueData } from "./revenue";
+import { LeadEntryStored, SiteKey } from "../services/leadService";
+
+export type ImportBatchKind = "revenue" | "leads";
+
+// An entry written by an import, with the value it replaced (null when the
+// import created it)
+export interface ImportBatchEntry {
+  date: string; // yyyy-MM-dd
+  site?: SiteKey; // Lead imports only
+  previous: RevenueData | LeadEntryStored | null;
+}
+
+// One CSV import. Entries it wrote carry its id (importBatchId), so a roll
+// back only touches entries nobody has changed since.
+export interface ImportBatch {
+  id: string;
+  kind: ImportBatchKind;
+  fileName: string;
+  rowCount: number; // Rows imported from the file
+  importedBy: string; // Editor name, as in the change log
+  importedById?: string; // uid of the signed-in user
+  importedAt: number;
+  entries: ImportBatchEntry[];
+  rolledBackAt?: number;
+  rolledBackBy?: string;
+}
+
+// Outcome of a roll back, as "date" or "date site" labels
+export interface ImportRollbackResult {
+  restored: string[];
+  skipped: string[]; // Changed since the import, so left as they are
+  failed: string[];
+}
@@ -0,0 +1,18 @@
+// Fields read from each row of a lead CSV
+export type LeadImportField =
+  | "agentName"
+  | "billableLeads"
+  | "openOrder"
+  | "date"
+  | "site";
+
+// CSV header read for each field; optional fields may be left unmapped
+export type LeadColumnMapping = Partial<Record<LeadImportField, string>>;
+
+// A saved column mapping for the exports of one report source
+export interface LeadImportProfile {
+  id: string;
+  name: string; // Report source, e.g. "Dialer daily export"
+  columns: LeadColumnMapping;
+  updatedAt: number;
+}
@@ -1,8 +1,36 @@
+// Stable identifier for a call center location (e.g. "austin"). Used as the
+// key in revenue records, daily targets and monthly overrides.
+export type LocationId = string;
+
+export interface LocationConfig {
+  id: LocationId;
+  name: string; // Display name, also used for CSV column headers
+  timeZone: string; // IANA time zone, e.g. "America/Chicago"
+  leadSiteKey: string; // Key used under leadAttainment/{date}/{site}
+  defaultDailyTarget: number;
+  color?: string;
+}
+
+// Per-location numeric values keyed by location id
+export type LocationValues = Record<LocationId, number>;
+
 export interface RevenueData {
   id?: string;
   date: string;
-  austin: number;
-  charlotte: number;
+  revenue: LocationValues;
+  savedAt?: number; // ms timestamp of the last write, used to detect conflicts
+  deletedAt?: number; // Set when voided; kept in the trash, left out of metrics
+  savedBy?: string; // uid of the signed-in user who saved it
+  importBatchId?: string; // Import that last wrote the entry
+}
+
+// Outcome of a revenue import, as lists of YYYY-MM-DD dates
+export interface RevenueImportResult {
+  inserted: string[];
+  updated: string[];
+  skipped: string[]; // Same values as the stored entry
+  invalid: string[]; // Dates that could not be parsed, as written in the file
+  failed: string[];
 }
 
 export interface LocationMetric {
@@ -12,52 +40,106 @@ export interface LocationMetric {
 }
 
 export interface LocationMetrics {
-  austin: LocationMetric;
-  charlotte: LocationMetric;
+  locations: Record<LocationId, LocationMetric>;
   combined: LocationMetric;
 }
 
+export interface PeriodLocationMetrics {
+  revenue: number;
+  target: number;
+  attainment: number;
+}
+
 export interface WeeklyMetrics {
   label: string;
-  austinRevenue: number;
-  charlotteRevenue: number;
+  locations: Record<LocationId, PeriodLocationMetrics>;
   combinedRevenue: number;
-  austinTarget: number;
-  charlotteTarget: number;
   combinedTarget: number;
-  austinAttainment: number;
-  charlotteAttainment: number;
   combinedAttainment: number;
 }
 
 export interface MonthlyMetrics extends WeeklyMetrics {}
 
-export interface DailyTarget {
-  austin: number;
-  charlotte: number;
-}
+export type DailyTarget = LocationValues;
 
 export interface MonthlyTargetAdjustment {
   month: number; // 0-11 (January-December)
   year: number;
   workingDays: number[]; // Array of working days (1-31)
-  austin?: number; // Optional override for Austin's daily target this month
-  charlotte?: number; // Optional override for Charlotte's daily target this month
+  locationWorkingDays?: Partial<Record<LocationId, number[]>>; // Per-location working days; locations without an entry use workingDays
+  targets?: Partial<LocationValues>; // Optional per-location daily target overrides this month
   agentCount?: number;
 }
 
-export interface TargetSettings {
+// Daily targets in force from a date until the next version takes effect
+export interface TargetVersion {
+  effectiveFrom: string; // yyyy-MM-dd
   dailyTargets: DailyTarget;
+  createdAt: number;
+  createdBy?: string;
+}
+
+// Weeks in each of the three periods of a fiscal quarter
+export type FiscalPeriodPattern = "4-4-5" | "4-5-4" | "5-4-4";
+
+// A fiscal year starts on the first weekStartsOn day of startMonth and is
+// split into twelve periods of whole weeks; the last period takes the 53rd
+// week in years that have one
+export interface FiscalCalendar {
+  startMonth: number; // 0-11 (January-December)
+  weekStartsOn: number; // 0-6 (Sunday-Saturday)
+  pattern: FiscalPeriodPattern;
+}
+
+export interface TargetSettings {
+  dailyTargets: DailyTarget; // Targets in force when the settings were saved
   monthlyAdjustments: MonthlyTargetAdjustment[];
+  targetVersions?: TargetVersion[]; // Sorted by effectiveFrom
+  fiscalCalendar?: FiscalCalendar; // Trends are by calendar month when unset
+}
+
+export type FederalHolidayId =
+  | "newYearsDay"
+  | "mlkDay"
+  | "presidentsDay"
+  | "memorialDay"
+  | "juneteenth"
+  | "independenceDay"
+  | "laborDay"
+  | "columbusDay"
+  | "veteransDay"
+  | "thanksgiving"
+  | "christmasDay";
+
+// A company closure that is not a federal holiday
+export interface CustomHoliday {
+  date: string; // yyyy-MM-dd
+  name: string;
+  locationIds?: LocationId[]; // Closed locations; every location when omitted
+}
+
+export interface HolidayCalendar {
+  // Federal holidays each location stays open for; every other federal
+  // holiday is a day off
+  federalExceptions: Partial<Record<LocationId, FederalHolidayId[]>>;
+  customHolidays: CustomHoliday[];
 }
 
-export type Location = "Austin" | "Charlotte" | "Combined";
+// A location id, or "Combined" for all locations together
+export type Location = LocationId | "Combined";
 export type TimeFrame =
   | "MTD"
+  | "QTD"
   | "This Week"
   | "last30"
   | "last90"
+  | "lastMonth"
+  | "lastQuarter"
+  | "samePeriodLastYear" // Month to date, one year earlier
   | "YTD"
+  | "FPTD" // Fiscal period to date
+  | "FQTD" // Fiscal quarter to date
+  | "FYTD" // Fiscal year to date
   | "all"
   | "custom";
 
@@ -70,6 +152,7 @@ export interface FilterOptions {
     min: number;
     max: number;
   };
+  comparePrevious?: boolean; // Show the prior period alongside
 }
 
 export interface AppState {
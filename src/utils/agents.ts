@@ -0,0 +1,206 @@
+import { useSyncExternalStore } from "react";
+import { Agent, AgentMatch } from "../types/agents";
+import { SiteKey } from "../services/leadService";
+
+// Names at least this similar are matched automatically, pending review
+const FUZZY_MATCH_THRESHOLD = 0.85;
+// Names at least this similar are offered as candidates during review
+const CANDIDATE_THRESHOLD = 0.6;
+const MAX_CANDIDATES = 5;
+
+let currentRoster: Agent[] = [];
+const listeners = new Set<() => void>();
+
+export const getAgentRoster = (): Agent[] => currentRoster;
+
+export const setAgentRoster = (agents: Agent[]) => {
+  currentRoster = agents;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToAgentRegistry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// React hook that re-renders when the agent roster changes
+export const useAgentRoster = (): Agent[] =>
+  useSyncExternalStore(subscribeToAgentRegistry, getAgentRoster);
+
+export const findAgent = (
+  id: string | undefined,
+  roster: Agent[] = getAgentRoster()
+): Agent | undefined => roster.find((agent) => agent.id === id);
+
+// Whether an agent was on the roster on a date (yyyy-MM-dd)
+export const isAgentActiveOn = (agent: Agent, date: string): boolean => {
+  const start = agent.activeFrom ?? agent.hireDate;
+  return (
+    (!start || start <= date) &&
+    (!agent.terminatedOn || date <= agent.terminatedOn)
+  );
+};
+
+// Lower-case, accent-free form of a name used for matching. "Last, First"
+// is read as "First Last".
+export const normalizeAgentName = (name: string): string => {
+  const parts = name.split(",");
+  const ordered =
+    parts.length === 2 ? `${parts[1]} ${parts[0]}` : parts.join(" ");
+  return ordered
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+};
+
+// Edit distance counting a swap of adjacent letters as one edit
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const editSimilarity = (a: string, b: string) => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+const sortTokens = (name: string) => name.split(" ").sort().join(" ");
+
+// Similarity of two normalized names from 0 to 1, tolerant of typos and of
+// the name parts being in a different order
+export const nameSimilarity = (a: string, b: string): number =>
+  a === b
+    ? 1
+    : Math.max(
+        editSimilarity(a, b),
+        editSimilarity(sortTokens(a), sortTokens(b))
+      );
+
+const agentNameScore = (key: string, agent: Agent) =>
+  Math.max(
+    ...[agent.name, ...(agent.aliases ?? [])].map((name) =>
+      nameSimilarity(key, normalizeAgentName(name))
+    )
+  );
+
+// Resolve a CSV agent name to the roster. A name or alias that matches
+// exactly one agent at the site on the date is an exact match; otherwise the
+// closest agent above the fuzzy threshold is suggested for review. Agents
+// at other sites or off the roster on the date are never matched exactly.
+export const matchAgentName = (
+  name: string,
+  options: { site?: SiteKey; date?: string; roster?: Agent[] } = {}
+): AgentMatch => {
+  const { site, date, roster = getAgentRoster() } = options;
+  const key = normalizeAgentName(name);
+  if (!key) return { status: "unmatched", score: 0, candidates: [] };
+
+  const isEligible = (agent: Agent) =>
+    (!site || agent.site === site) && (!date || isAgentActiveOn(agent, date));
+
+  const scored = roster
+    .map((agent) => ({ agent, score: agentNameScore(key, agent) }))
+    .filter(({ score }) => score >= CANDIDATE_THRESHOLD)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(isEligible(b.agent)) - Number(isEligible(a.agent)) ||
+        a.agent.name.localeCompare(b.agent.name)
+    );
+  const candidates = scored.slice(0, MAX_CANDIDATES).map(({ agent }) => agent);
+
+  const exact = scored.filter(
+    ({ agent, score }) => score === 1 && isEligible(agent)
+  );
+  if (exact.length === 1) {
+    return { status: "exact", agent: exact[0].agent, score: 1, candidates };
+  }
+
+  const best = scored[0];
+  if (best && best.score >= FUZZY_MATCH_THRESHOLD) {
+    return {
+      status: "fuzzy",
+      agent: best.agent,
+      score: best.score,
+      candidates,
+    };
+  }
+  return { status: "unmatched", score: best?.score ?? 0, candidates };
+};
+
+// Readable id for a new agent, unique within the roster
+export const createAgentId = (
+  name: string,
+  roster: Agent[] = getAgentRoster()
+): string => {
+  const base = normalizeAgentName(name).replace(/ /g, "-") || "agent";
+  const ids = new Set(roster.map((agent) => agent.id));
+  let id = base;
+  for (let suffix = 2; ids.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+// Add a spelling to an agent's aliases unless it already matches exactly
+export const withAgentAlias = (agent: Agent, alias: string): Agent => {
+  const key = normalizeAgentName(alias);
+  if (!key || agentNameScore(key, agent) === 1) return agent;
+  return { ...agent, aliases: [...(agent.aliases ?? []), alias.trim()] };
+};
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+// Drop malformed agents and empty fields, sorted by name. Realtime Database
+// returns arrays as objects, so lists are read with Object.values.
+export const normalizeAgents = (raw: any): Agent[] =>
+  Object.values(raw || {})
+    .filter(
+      (agent: any) =>
+        typeof agent?.id === "string" &&
+        typeof agent?.name === "string" &&
+        typeof agent?.site === "string"
+    )
+    .map((agent: any) => {
+      const normalized: Agent = {
+        id: agent.id,
+        name: agent.name,
+        site: agent.site,
+      };
+      const aliases = Object.values(agent.aliases || {}).filter(
+        (alias): alias is string => typeof alias === "string" && !!alias.trim()
+      );
+      if (aliases.length > 0) normalized.aliases = aliases;
+      const fields = [
+        "supervisor",
+        "hireDate",
+        "activeFrom",
+        "terminatedOn",
+      ] as const;
+      fields.forEach((field) => {
+        const value = optionalString(agent[field]);
+        if (value) normalized[field] = value;
+      });
+      return normalized;
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,39 @@
+import { useSyncExternalStore } from "react";
+import { endOfDay } from "date-fns";
+import { formatDateKey, getBusinessNow, parseDateKey } from "./dates";
+
+// Day the dashboard is viewed as of (yyyy-MM-dd), or null for today. Metrics
+// read the current time through getNow, so every view can be shown as it
+// stood on an earlier day.
+let currentAsOfDate: string | null = null;
+const listeners = new Set<() => void>();
+
+export const getAsOfDate = (): string | null => currentAsOfDate;
+
+export const setAsOfDate = (date: string | null) => {
+  currentAsOfDate = date;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToAsOfDate = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Components re-render when the as-of date changes
+export const useAsOfDate = (): string | null =>
+  useSyncExternalStore(subscribeToAsOfDate, getAsOfDate);
+
+// The current business time at a location (see getBusinessNow), or the
+// last moment of the as-of day when one is set, so that day's entries count
+// as already entered
+export const getNow = (location?: string): Date =>
+  currentAsOfDate
+    ? endOfDay(parseDateKey(currentAsOfDate))
+    : getBusinessNow(location);
+
+// Today's business date, as a yyyy-MM-dd key
+export const getToday = (location?: string): string =>
+  formatDateKey(getNow(location));
@@ -0,0 +1,123 @@
+import {
+  LocationConfig,
+  LocationId,
+  MonthlyTargetAdjustment,
+  TargetSettings,
+} from "../types/revenue";
+import {
+  getAdjustmentWorkingDays,
+  getDefaultWorkingDays,
+  isLocationWorkingDay,
+} from "./calculations";
+import { getLocations } from "./locations";
+import { getToday } from "./asOf";
+import { addDaysToKey, parseDateKey } from "./dates";
+
+// Lead entries are looked for this many days back
+export const LEAD_BACKFILL_LOOKBACK_DAYS = 60;
+
+export interface LeadBackfillStep {
+  kind: "leads";
+  date: string; // yyyy-MM-dd
+  site: string;
+  locationId: LocationId;
+}
+
+// One date to fill in: a day of revenue, or one site's leads for a day
+export type BackfillStep = { kind: "revenue"; date: string } | LeadBackfillStep;
+
+const findAdjustment = (targetSettings: TargetSettings, date: Date) =>
+  targetSettings.monthlyAdjustments?.find(
+    (adj) => adj.month === date.getMonth() && adj.year === date.getFullYear()
+  );
+
+// Working days each site has no lead entry for, after its last entry in
+// the lookback window and up to yesterday in the site's time zone (or
+// before today, when given). As with revenue, a site with no entries at all
+// has nothing missing.
+export const calculateMissingLeadDays = (
+  datesBySite: Map<string, Set<string>>, // Dates with an entry, by site key
+  targetSettings: TargetSettings,
+  today?: string,
+  locations: LocationConfig[] = getLocations()
+): LeadBackfillStep[] => {
+  const missing: LeadBackfillStep[] = [];
+
+  locations.forEach((location) => {
+    const yesterday = addDaysToKey(today ?? getToday(location.id), -1);
+    const dates = [...(datesBySite.get(location.leadSiteKey) ?? [])].sort();
+    const lastDate = dates[dates.length - 1];
+    if (!lastDate) return;
+
+    for (
+      let date = addDaysToKey(lastDate, 1);
+      date <= yesterday;
+      date = addDaysToKey(date, 1)
+    ) {
+      const day = parseDateKey(date);
+      if (isLocationWorkingDay(day, location.id, targetSettings)) {
+        missing.push({
+          kind: "leads",
+          date,
+          site: location.leadSiteKey,
+          locationId: location.id,
+        });
+      }
+    }
+  });
+
+  return missing.sort(
+    (a, b) => a.date.localeCompare(b.date) || a.site.localeCompare(b.site)
+  );
+};
+
+// Settings with a date taken out of its month's working days: for one
+// location, or every location when omitted. A month without an adjustment
+// gets one with its default working days first.
+export const withNonWorkingDay = (
+  targetSettings: TargetSettings,
+  date: string,
+  locationId?: LocationId,
+  locations: LocationConfig[] = getLocations()
+): TargetSettings => {
+  const day = parseDateKey(date);
+  const year = day.getFullYear();
+  const month = day.getMonth();
+  const existing = findAdjustment(targetSettings, day);
+  const base: MonthlyTargetAdjustment =
+    existing && existing.workingDays.length > 0
+      ? existing
+      : { ...existing, month, year, ...getDefaultWorkingDays(year, month) };
+
+  const without = (days: number[]) =>
+    days.filter((value) => value !== day.getDate());
+  const locationWorkingDays = { ...base.locationWorkingDays };
+  let workingDays = base.workingDays;
+  if (locationId) {
+    locationWorkingDays[locationId] = without(
+      getAdjustmentWorkingDays(base, locationId)
+    );
+  } else {
+    workingDays = without(workingDays);
+    locations.forEach((loc) => {
+      const days = base.locationWorkingDays?.[loc.id];
+      if (days) locationWorkingDays[loc.id] = without(days);
+    });
+  }
+
+  const adjustment: MonthlyTargetAdjustment = {
+    ...base,
+    workingDays,
+    ...(Object.keys(locationWorkingDays).length > 0 && {
+      locationWorkingDays,
+    }),
+  };
+  const monthlyAdjustments = [
+    ...targetSettings.monthlyAdjustments.filter(
+      (adj) => !(adj.month === month && adj.year === year)
+    ),
+    adjustment,
+  ].sort((a, b) => (a.year !== b.year ? a.year - b.year : a.month - b.month));
+
+  return { ...targetSettings, monthlyAdjustments };
+};
@@ -0,0 +1,361 @@
+import {
+  BackupArchive,
+  BackupData,
+  BackupSection,
+  RestorableData,
+  RestoreMode,
+  RestorePlan,
+  RestoreSectionSummary,
+} from "../types/backup";
+import { DataStoreKind } from "../services/dataStore";
+
+export const BACKUP_FORMAT = "revenue-dashboard-backup";
+
+// Bumped when the archive layout changes; archives from newer versions are
+// rejected
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export const BACKUP_SECTIONS: { section: BackupSection; label: string }[] = [
+  { section: "revenue", label: "Revenue entries" },
+  { section: "targets", label: "Target settings" },
+  { section: "locations", label: "Locations" },
+  { section: "holidays", label: "Holiday calendar" },
+  { section: "leads", label: "Lead entries" },
+  { section: "leadImportProfiles", label: "Lead import profiles" },
+  { section: "agents", label: "Agent roster" },
+  { section: "importBatches", label: "Import history" },
+];
+
+const MAX_ERRORS = 20;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const createBackupArchive = (
+  data: BackupData,
+  createdBy: string,
+  source: DataStoreKind,
+  createdAt: number = Date.now()
+): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  createdAt,
+  createdBy,
+  source,
+  data,
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isString = (value: unknown) => typeof value === "string";
+
+// Problems with one record of a section, as messages
+const recordChecks: Record<
+  Exclude<BackupSection, "targets" | "locations" | "holidays" | "leads">,
+  (record: Record<string, any>) => string | null
+> = {
+  revenue: (entry) =>
+    !isString(entry.date) || !DATE_PATTERN.test(entry.date)
+      ? "has no yyyy-MM-dd date"
+      : !isObject(entry.revenue) ||
+        !Object.values(entry.revenue).every(isNumber)
+      ? "has revenue that is not a set of amounts"
+      : null,
+  leadImportProfiles: (profile) =>
+    isString(profile.id) && isString(profile.name) && isObject(profile.columns)
+      ? null
+      : "needs an id, name and columns",
+  agents: (agent) =>
+    isString(agent.id) && isString(agent.name) && isString(agent.site)
+      ? null
+      : "needs an id, name and site",
+  importBatches: (batch) =>
+    isString(batch.id) &&
+    (batch.kind === "revenue" || batch.kind === "leads") &&
+    isString(batch.fileName) &&
+    isNumber(batch.importedAt) &&
+    Array.isArray(batch.entries)
+      ? null
+      : "needs an id, kind, file name, import time and entries",
+};
+
+const checkLeadEntry = (entry: unknown) =>
+  isObject(entry) &&
+  isNumber(entry.availableAgents) &&
+  isNumber(entry.totalBillableLeads)
+    ? null
+    : "needs agent and billable lead counts";
+
+// Check a parsed backup file before anything is written. Returns the
+// archive when it can be restored, otherwise the problems found.
+export const validateBackupArchive = (
+  value: unknown
+): { archive: BackupArchive | null; errors: string[] } => {
+  const errors: string[] = [];
+  const fail = (message: string) => {
+    if (errors.length < MAX_ERRORS) errors.push(message);
+  };
+
+  if (!isObject(value) || value.format !== BACKUP_FORMAT) {
+    return { archive: null, errors: ["This is not a dashboard backup file"] };
+  }
+  if (
+    !Number.isInteger(value.schemaVersion) ||
+    value.schemaVersion < 1 ||
+    value.schemaVersion > BACKUP_SCHEMA_VERSION
+  ) {
+    return {
+      archive: null,
+      errors: [
+        `Backup format version ${value.schemaVersion} is not supported ` +
+          `(this dashboard reads up to version ${BACKUP_SCHEMA_VERSION})`,
+      ],
+    };
+  }
+  if (!isNumber(value.createdAt)) fail("The backup has no creation time");
+  const data = value.data;
+  if (!isObject(data)) {
+    return { archive: null, errors: ["The backup has no data"] };
+  }
+
+  (Object.keys(recordChecks) as (keyof typeof recordChecks)[]).forEach(
+    (section) => {
+      const records = data[section];
+      if (!isObject(records)) {
+        fail(`${section} is missing`);
+        return;
+      }
+      Object.entries(records).forEach(([key, record]) => {
+        const problem = isObject(record)
+          ? recordChecks[section](record)
+          : "is not a record";
+        if (problem) fail(`${section}/${key} ${problem}`);
+      });
+    }
+  );
+
+  if (!isObject(data.leads)) {
+    fail("leads is missing");
+  } else {
+    Object.entries(data.leads).forEach(([date, sites]) => {
+      if (!DATE_PATTERN.test(date) || !isObject(sites)) {
+        fail(`leads/${date} is not a date of lead entries`);
+        return;
+      }
+      Object.entries(sites).forEach(([site, entry]) => {
+        const problem = checkLeadEntry(entry);
+        if (problem) fail(`leads/${date}/${site} ${problem}`);
+      });
+    });
+  }
+
+  if (
+    data.targets !== null &&
+    !(
+      isObject(data.targets) &&
+      isObject(data.targets.dailyTargets) &&
+      Array.isArray(data.targets.monthlyAdjustments)
+    )
+  ) {
+    fail("targets needs daily targets and monthly adjustments");
+  }
+  if (
+    data.locations !== null &&
+    !(
+      Array.isArray(data.locations) &&
+      data.locations.every(
+        (location: unknown) =>
+          isObject(location) &&
+          isString(location.id) &&
+          isString(location.name) &&
+          isString(location.leadSiteKey)
+      )
+    )
+  ) {
+    fail("locations needs an id, name and lead site key for each location");
+  }
+  if (data.holidays !== null && !isObject(data.holidays)) {
+    fail("holidays is not a holiday calendar");
+  }
+  if (data.audit !== undefined && !isObject(data.audit)) {
+    fail("audit is not a change log");
+  }
+
+  if (errors.length >= MAX_ERRORS) {
+    errors.push(`Stopped after ${MAX_ERRORS} problems`);
+  }
+  if (errors.length > 0) return { archive: null, errors };
+  return {
+    archive: {
+      ...(value as BackupArchive),
+      data: { ...(data as BackupData), audit: data.audit ?? {} },
+    },
+    errors: [],
+  };
+};
+
+const emptySummary = (): RestoreSectionSummary => ({
+  added: 0,
+  updated: 0,
+  removed: 0,
+  kept: 0,
+});
+
+const sameRecord = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Version of a record used to pick between copies when merging; records
+// without one keep the database's copy
+const recordVersion = (record: any): number =>
+  record?.savedAt ?? record?.updatedAt ?? 0;
+
+const planRecords = <T>(
+  current: Record<string, T>,
+  archived: Record<string, T>,
+  mode: RestoreMode
+): { records: Record<string, T>; summary: RestoreSectionSummary } => {
+  const summary = emptySummary();
+  const records: Record<string, T> =
+    mode === "replace" ? {} : { ...current };
+
+  Object.entries(archived).forEach(([key, record]) => {
+    const existing = current[key];
+    if (existing === undefined) {
+      summary.added++;
+      records[key] = record;
+    } else if (
+      sameRecord(existing, record) ||
+      (mode === "merge" && recordVersion(record) <= recordVersion(existing))
+    ) {
+      summary.kept++;
+      records[key] = existing;
+    } else {
+      summary.updated++;
+      records[key] = record;
+    }
+  });
+  if (mode === "replace") {
+    summary.removed = Object.keys(current).filter(
+      (key) => archived[key] === undefined
+    ).length;
+  }
+  return { records, summary };
+};
+
+// Settings are replaced whole; merging fills them in only where the
+// database has none
+const planSetting = <T>(
+  current: T | null,
+  archived: T | null,
+  mode: RestoreMode
+): { value: T | null; summary: RestoreSectionSummary } => {
+  const summary = emptySummary();
+  if (current === null) {
+    if (archived !== null) summary.added++;
+    return { value: archived, summary };
+  }
+  if (mode === "merge" || sameRecord(current, archived)) {
+    summary.kept++;
+    return { value: current, summary };
+  }
+  if (archived === null) {
+    summary.removed++;
+  } else {
+    summary.updated++;
+  }
+  return { value: archived, summary };
+};
+
+const flattenLeads = (leads: BackupData["leads"]) =>
+  Object.fromEntries(
+    Object.entries(leads).flatMap(([date, sites]) =>
+      Object.entries(sites).map(([site, entry]) => [`${date}/${site}`, entry])
+    )
+  );
+
+const nestLeads = (
+  flat: ReturnType<typeof flattenLeads>
+): BackupData["leads"] => {
+  const leads: BackupData["leads"] = {};
+  Object.entries(flat).forEach(([key, entry]) => {
+    const [date, site] = key.split("/");
+    leads[date] = { ...leads[date], [site]: entry };
+  });
+  return leads;
+};
+
+// Work out what restoring an archive over the current data writes
+export const planRestore = (
+  archive: BackupArchive,
+  current: BackupData,
+  mode: RestoreMode
+): RestorePlan => {
+  const archived = archive.data;
+  const revenue = planRecords(current.revenue, archived.revenue, mode);
+  const leads = planRecords(
+    flattenLeads(current.leads),
+    flattenLeads(archived.leads),
+    mode
+  );
+  const leadImportProfiles = planRecords(
+    current.leadImportProfiles,
+    archived.leadImportProfiles,
+    mode
+  );
+  const agents = planRecords(current.agents, archived.agents, mode);
+  const importBatches = planRecords(
+    current.importBatches,
+    archived.importBatches,
+    mode
+  );
+  const targets = planSetting(current.targets, archived.targets, mode);
+  const locations = planSetting(current.locations, archived.locations, mode);
+  const holidays = planSetting(current.holidays, archived.holidays, mode);
+
+  const data: RestorableData = {
+    revenue: revenue.records,
+    targets: targets.value,
+    locations: locations.value,
+    holidays: holidays.value,
+    leads: nestLeads(leads.records),
+    leadImportProfiles: leadImportProfiles.records,
+    agents: agents.records,
+    importBatches: importBatches.records,
+  };
+
+  const warnings: string[] = [];
+  const locationIds = new Set((data.locations ?? []).map((loc) => loc.id));
+  const unknownIds = new Set(
+    Object.values(data.revenue).flatMap((entry) =>
+      Object.keys(entry.revenue).filter((id) => !locationIds.has(id))
+    )
+  );
+  if (data.locations && unknownIds.size > 0) {
+    warnings.push(
+      `Revenue entries have amounts for locations that are not configured: ` +
+        `${[...unknownIds].join(", ")}`
+    );
+  }
+  if (mode === "replace" && archived.targets === null) {
+    warnings.push("The backup has no target settings; they will be cleared");
+  }
+
+  return {
+    archive,
+    mode,
+    data,
+    summary: {
+      revenue: revenue.summary,
+      targets: targets.summary,
+      locations: locations.summary,
+      holidays: holidays.summary,
+      leads: leads.summary,
+      leadImportProfiles: leadImportProfiles.summary,
+      agents: agents.summary,
+      importBatches: importBatches.summary,
+    },
+    warnings,
+  };
+};
@@ -1,12 +1,14 @@
 import {
   RevenueData,
   DailyTarget,
-  LocationMetrics,
   TimeFrame,
   WeeklyMetrics,
   MonthlyMetrics,
   TargetSettings,
+  TargetVersion,
   MonthlyTargetAdjustment,
+  LocationId,
+  PeriodLocationMetrics,
 } from "../types/revenue";
 import {
   startOfWeek,
@@ -22,12 +24,47 @@ import {
   getWeekOfMonth,
   isWeekend,
   format,
+  differenceInCalendarDays,
+  sub,
+  subMonths,
+  subQuarters,
+  subYears,
+  Duration,
 } from "date-fns";
+import {
+  DEFAULT_LOCATIONS,
+  createLocationValues,
+  findLocation,
+  getDefaultDailyTargets,
+  getLocationRevenue,
+  getLocations,
+  getTotalRevenue,
+  sumLocationValues,
+} from "./locations";
+import { isHoliday } from "./holidays";
+import { getNow } from "./asOf";
+import {
+  addDaysToKey,
+  compareDateKeys,
+  formatDateKey,
+  getBusinessNow,
+  parseDateKey,
+} from "./dates";
+import {
+  FiscalRange,
+  formatFiscalPeriod,
+  getFiscalCalendar,
+  getFiscalPeriodOn,
+  getFiscalRange,
+  isFiscalTimeFrame,
+} from "./fiscalCalendar";
+import { forecastMonthEnd } from "./forecasting";
 
-export const TARGETS: DailyTarget = {
-  austin: 53000,
-  charlotte: 62500,
-};
+export const TARGETS: DailyTarget = getDefaultDailyTargets(DEFAULT_LOCATIONS);
+
+// Voided entries are kept for the trash view but never counted
+export const excludeDeletedEntries = (data: RevenueData[]): RevenueData[] =>
+  data.filter((item) => !item.deletedAt);
 
 export const calculateAttainment = (actual: number, target: number): number => {
   return target > 0 ? (actual / target) * 100 : 0;
@@ -46,18 +83,23 @@ export const calculateOptimizedAttainment = (
   );
 };
 
-// Helper function to check if a date is a business day (not a weekend)
-export const isBusinessDay = (date: Date): boolean => {
-  return !isWeekend(date);
+// Helper function to check if a date is a business day: not a weekend and
+// not a holiday for the location (or for every location when omitted)
+export const isBusinessDay = (date: Date, locationId?: LocationId): boolean => {
+  return !isWeekend(date) && !isHoliday(date, locationId);
 };
 
 // Helper function to count business days in a date range
-export const countBusinessDays = (startDate: Date, endDate: Date): number => {
+export const countBusinessDays = (
+  startDate: Date,
+  endDate: Date,
+  locationId?: LocationId
+): number => {
   let count = 0;
   const currentDate = new Date(startDate);
 
   while (currentDate <= endDate) {
-    if (isBusinessDay(currentDate)) {
+    if (isBusinessDay(currentDate, locationId)) {
       count++;
     }
     currentDate.setDate(currentDate.getDate() + 1);
@@ -69,12 +111,13 @@ export const countBusinessDays = (startDate: Date, endDate: Date): number => {
 // Helper function to get all business days in a month
 export const getBusinessDaysInMonth = (
   year: number,
-  month: number
+  month: number,
+  locationId?: LocationId
 ): number[] => {
   const date = new Date(year, month, 1);
   const days = [];
   while (date.getMonth() === month) {
-    if (isBusinessDay(date)) {
+    if (isBusinessDay(date, locationId)) {
       days.push(date.getDate());
     }
     date.setDate(date.getDate() + 1);
@@ -82,48 +125,128 @@ export const getBusinessDaysInMonth = (
   return days;
 };
 
-// Shared business days calculation
+// Working days of a monthly adjustment for a location, or the days any
+// location works when omitted
+export const getAdjustmentWorkingDays = (
+  adjustment: MonthlyTargetAdjustment,
+  locationId?: LocationId
+): number[] => {
+  if (locationId) {
+    return (
+      adjustment.locationWorkingDays?.[locationId] ?? adjustment.workingDays
+    );
+  }
+  const days = new Set(
+    getLocations().flatMap((loc) =>
+      getAdjustmentWorkingDays(adjustment, loc.id)
+    )
+  );
+  return [...days].sort((a, b) => a - b);
+};
+
+// Days of a month any location works: from the month's adjustment when one
+// has been saved, otherwise each location's business days
+export const getWorkingDaysInMonth = (
+  year: number,
+  month: number,
+  targetSettings?: TargetSettings
+): number[] => {
+  const adjustment = targetSettings?.monthlyAdjustments?.find(
+    (adj) => adj.month === month && adj.year === year
+  );
+  if (adjustment) return getAdjustmentWorkingDays(adjustment);
+  const days = new Set(
+    getLocations().flatMap((loc) => getBusinessDaysInMonth(year, month, loc.id))
+  );
+  return [...days].sort((a, b) => a - b);
+};
+
+// Default working days for a month: business days shared by the locations,
+// plus per-location lists for locations whose holidays differ
+export const getDefaultWorkingDays = (
+  year: number,
+  month: number
+): Pick<MonthlyTargetAdjustment, "workingDays" | "locationWorkingDays"> => {
+  const workingDays = getBusinessDaysInMonth(year, month);
+  const locationWorkingDays: Partial<Record<LocationId, number[]>> = {};
+  getLocations().forEach((loc) => {
+    const days = getBusinessDaysInMonth(year, month, loc.id);
+    if (days.join() !== workingDays.join()) {
+      locationWorkingDays[loc.id] = days;
+    }
+  });
+  return Object.keys(locationWorkingDays).length > 0
+    ? { workingDays, locationWorkingDays }
+    : { workingDays };
+};
+
+// Whether a location works a day: the month's adjustment when one has
+// working days, otherwise its business days
+export const isLocationWorkingDay = (
+  date: Date,
+  locationId: LocationId,
+  targetSettings: TargetSettings
+): boolean => {
+  const adjustment = targetSettings.monthlyAdjustments?.find(
+    (adj) => adj.month === date.getMonth() && adj.year === date.getFullYear()
+  );
+  if (adjustment && adjustment.workingDays.length > 0) {
+    return getAdjustmentWorkingDays(adjustment, locationId).includes(
+      date.getDate()
+    );
+  }
+  return isBusinessDay(date, locationId);
+};
+
+// Shared business days calculation, for one location or all of them
 const calculateBusinessDaysInfo = (
   timeFrame: TimeFrame,
   monthlyAdjustment: MonthlyTargetAdjustment | undefined,
-  currentDay: number
+  now: Date,
+  locationId?: LocationId
 ): {
   totalBusinessDays: number;
   elapsedBusinessDays: number;
   remainingBusinessDays: number;
 } => {
+  const currentDay = now.getDate();
   let totalBusinessDays = 0;
   let elapsedBusinessDays = 0;
   let remainingBusinessDays = 0;
 
   if (timeFrame === "MTD") {
-    if (monthlyAdjustment && monthlyAdjustment.workingDays.length > 0) {
+    const workingDays = monthlyAdjustment
+      ? getAdjustmentWorkingDays(monthlyAdjustment, locationId)
+      : [];
+
+    if (workingDays.length > 0) {
       // Use monthly adjustment working days
-      totalBusinessDays = monthlyAdjustment.workingDays.length;
+      totalBusinessDays = workingDays.length;
 
       // Count elapsed days (days up to but not including today)
-      elapsedBusinessDays = monthlyAdjustment.workingDays.filter(
+      elapsedBusinessDays = workingDays.filter(
         (day) => day < currentDay
       ).length;
 
       // Count remaining days (including today)
-      remainingBusinessDays = monthlyAdjustment.workingDays.filter(
+      remainingBusinessDays = workingDays.filter(
         (day) => day >= currentDay
       ).length;
     } else {
       // Calculate standard business days
-      const now = new Date();
       const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
       const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
 
-      totalBusinessDays = countBusinessDays(firstDay, lastDay);
+      totalBusinessDays = countBusinessDays(firstDay, lastDay, locationId);
       elapsedBusinessDays = countBusinessDays(
         firstDay,
-        new Date(now.getFullYear(), now.getMonth(), currentDay - 1)
+        new Date(now.getFullYear(), now.getMonth(), currentDay - 1),
+        locationId
       );
       remainingBusinessDays = countBusinessDays(
         new Date(now.getFullYear(), now.getMonth(), currentDay),
-        lastDay
+        lastDay,
+        locationId
       );
     }
   }
@@ -135,15 +258,369 @@ const calculateBusinessDaysInfo = (
   };
 };
 
+export interface LocationPeriodInfo {
+  startDate: string;
+  endDate: string;
+  periodType: TimeFrame;
+  workingDaysInPeriod: number;
+  actualDataDays: number;
+  relevantMonth: number;
+  relevantYear: number;
+  hasMonthlyAdjustment: boolean;
+  dailyTargets: DailyTarget;
+  fiscalRange?: FiscalRange; // Fiscal time frames only
+  periodTarget?: number; // Target for the whole range, when paced by day
+}
+
+export interface LocationPeriodMetric {
+  revenue: number;
+  target: number;
+  monthlyTarget: number;
+  attainment: number;
+  elapsedDays: number;
+  remainingDays: number;
+  totalDays: number;
+  dailyPaceNeeded: number;
+  periodInfo: LocationPeriodInfo;
+}
+
+// Effective date of the targets that were in force before the first change
+// was recorded; they apply to every earlier day
+export const INITIAL_TARGET_VERSION_DATE = "0000-01-01";
+
+// Daily targets in force on a date: the latest version effective on or
+// before it, or dailyTargets when no versions have been saved
+export const getDailyTargetsOn = (
+  targetSettings: TargetSettings | undefined,
+  date: Date
+): DailyTarget | undefined => {
+  const versions = targetSettings?.targetVersions;
+  if (!versions || versions.length === 0 || isNaN(date.getTime())) {
+    return targetSettings?.dailyTargets;
+  }
+  const key = formatDateKey(date);
+  const inForce = versions.filter((version) => version.effectiveFrom <= key);
+  return (inForce[inForce.length - 1] ?? versions[0]).dailyTargets;
+};
+
+// Keep dailyTargets in step with the version in force today
+const withCurrentTargets = (targetSettings: TargetSettings): TargetSettings => ({
+  ...targetSettings,
+  dailyTargets: {
+    ...targetSettings.dailyTargets,
+    ...getDailyTargetsOn(targetSettings, getBusinessNow()),
+  },
+});
+
+// Add or replace the version taking effect on a date. The first time, the
+// current daily targets are kept as the initial version so past days keep
+// the targets they had.
+export const withTargetVersion = (
+  targetSettings: TargetSettings,
+  version: TargetVersion
+): TargetSettings => {
+  const existing =
+    targetSettings.targetVersions && targetSettings.targetVersions.length > 0
+      ? targetSettings.targetVersions
+      : [
+          {
+            effectiveFrom: INITIAL_TARGET_VERSION_DATE,
+            dailyTargets: targetSettings.dailyTargets,
+            createdAt: Date.now(),
+          },
+        ];
+  const targetVersions = [
+    ...existing.filter((v) => v.effectiveFrom !== version.effectiveFrom),
+    version,
+  ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+  return withCurrentTargets({ ...targetSettings, targetVersions });
+};
+
+// Remove a version; the one before it stays in force for its dates
+export const withoutTargetVersion = (
+  targetSettings: TargetSettings,
+  effectiveFrom: string
+): TargetSettings => {
+  const targetVersions = (targetSettings.targetVersions || []).filter(
+    (version) => version.effectiveFrom !== effectiveFrom
+  );
+  if (targetVersions.length === 0) return targetSettings;
+  return withCurrentTargets({ ...targetSettings, targetVersions });
+};
+
+// Resolve the daily target for a location on a date, applying any monthly
+// override
+const resolveDailyTarget = (
+  locationId: LocationId,
+  targetSettings: TargetSettings | undefined,
+  monthlyAdjustment: MonthlyTargetAdjustment | undefined,
+  date: Date = getNow()
+): number => {
+  const override = monthlyAdjustment?.targets?.[locationId];
+  if (override !== undefined) return override;
+  return (
+    getDailyTargetsOn(targetSettings, date)?.[locationId] ??
+    findLocation(locationId)?.defaultDailyTarget ??
+    0
+  );
+};
+
+export interface PeriodRange {
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd, included
+}
+
+// Time frames paced day by day over their whole range rather than by month
+const RANGE_PACED_TIME_FRAMES: TimeFrame[] = [
+  "QTD",
+  "lastMonth",
+  "lastQuarter",
+  "samePeriodLastYear",
+  "FPTD",
+  "FQTD",
+  "FYTD",
+];
+
+// The whole range a time frame covers on a day: the week, month, quarter,
+// year or fiscal period it falls in, or the days counted back from it.
+// Entries are shown up to that day; targets are paced over the range.
+export const getTimeFrameRange = (
+  timeFrame: TimeFrame,
+  now: Date,
+  targetSettings?: TargetSettings,
+  startDate?: string | null,
+  endDate?: string | null
+): PeriodRange | null => {
+  const today = formatDateKey(now);
+  const range = (start: Date, end: Date): PeriodRange => ({
+    start: formatDateKey(start),
+    end: formatDateKey(end),
+  });
+
+  switch (timeFrame) {
+    case "This Week":
+      return range(
+        startOfWeek(now, { weekStartsOn: 1 }),
+        endOfWeek(now, { weekStartsOn: 1 })
+      );
+    case "MTD":
+      return range(startOfMonth(now), endOfMonth(now));
+    case "QTD":
+      return range(startOfQuarter(now), endOfQuarter(now));
+    case "YTD":
+      return range(startOfYear(now), endOfYear(now));
+    case "last30":
+      return { start: addDaysToKey(today, -30), end: today };
+    case "last90":
+      return { start: addDaysToKey(today, -90), end: today };
+    case "lastMonth": {
+      const month = subMonths(startOfMonth(now), 1);
+      return range(month, endOfMonth(month));
+    }
+    case "lastQuarter": {
+      const quarter = subQuarters(startOfQuarter(now), 1);
+      return range(quarter, endOfQuarter(quarter));
+    }
+    case "samePeriodLastYear": {
+      const lastYear = subYears(now, 1);
+      return range(startOfMonth(lastYear), lastYear);
+    }
+    case "FPTD":
+    case "FQTD":
+    case "FYTD": {
+      const fiscalRange = getFiscalRange(
+        timeFrame,
+        now,
+        getFiscalCalendar(targetSettings)
+      );
+      return { start: fiscalRange.start, end: fiscalRange.end };
+    }
+    case "custom":
+      return startDate && endDate ? { start: startDate, end: endDate } : null;
+    default:
+      return null;
+  }
+};
+
+export interface ComparisonPeriod extends PeriodRange {
+  label: string;
+  shift: Duration; // From a day of the current period to its match
+}
+
+const COMPARISON_LABELS: Partial<Record<TimeFrame, string>> = {
+  MTD: "Prior Month",
+  QTD: "Prior Quarter",
+  "This Week": "Prior Week",
+  last30: "Prior 30 Days",
+  last90: "Prior 90 Days",
+  lastMonth: "Month Before",
+  lastQuarter: "Quarter Before",
+  samePeriodLastYear: "Year Before",
+  YTD: "Prior Year",
+  FPTD: "Prior Fiscal Period",
+  FQTD: "Prior Fiscal Quarter",
+  FYTD: "Prior Fiscal Year",
+  custom: "Prior Period",
+};
+
+// The period a time frame is compared with: the one before it, up to the
+// same point, so a month to date is compared with the same days of the
+// month before. Custom ranges and rolling days use the days just before.
+export const getComparisonPeriod = (
+  timeFrame: TimeFrame,
+  now: Date,
+  targetSettings?: TargetSettings,
+  startDate?: string | null,
+  endDate?: string | null
+): ComparisonPeriod | null => {
+  const current = getTimeFrameRange(
+    timeFrame,
+    now,
+    targetSettings,
+    startDate,
+    endDate
+  );
+  const label = COMPARISON_LABELS[timeFrame];
+  if (!current || !label) return null;
+
+  const today = formatDateKey(now);
+  const currentEnd = current.end < today ? current.end : today;
+  let shift: Duration;
+  // Past months and quarters are compared whole; fiscal periods can be a
+  // week shorter than the current one
+  let lastDay: ((start: Date) => Date) | undefined;
+  let latestEnd: string | undefined;
+
+  switch (timeFrame) {
+    case "This Week":
+      shift = { weeks: 1 };
+      break;
+    case "MTD":
+      shift = { months: 1 };
+      break;
+    case "lastMonth":
+      shift = { months: 1 };
+      lastDay = endOfMonth;
+      break;
+    case "QTD":
+      shift = { months: 3 };
+      break;
+    case "lastQuarter":
+      shift = { months: 3 };
+      lastDay = endOfQuarter;
+      break;
+    case "YTD":
+    case "samePeriodLastYear":
+      shift = { years: 1 };
+      break;
+    case "FPTD":
+    case "FQTD":
+    case "FYTD": {
+      const prior = getFiscalRange(
+        timeFrame,
+        parseDateKey(addDaysToKey(current.start, -1)),
+        getFiscalCalendar(targetSettings)
+      );
+      shift = {
+        days: differenceInCalendarDays(
+          parseDateKey(current.start),
+          parseDateKey(prior.start)
+        ),
+      };
+      latestEnd = prior.end;
+      break;
+    }
+    default:
+      shift = {
+        days:
+          differenceInCalendarDays(
+            parseDateKey(current.end),
+            parseDateKey(current.start)
+          ) + 1,
+      };
+  }
+
+  const start = formatDateKey(sub(parseDateKey(current.start), shift));
+  let end = lastDay
+    ? formatDateKey(lastDay(parseDateKey(start)))
+    : formatDateKey(sub(parseDateKey(currentEnd), shift));
+  if (latestEnd && end > latestEnd) end = latestEnd;
+  return { label, start, end, shift };
+};
+
+// The day of a comparison period matching a day of the current period
+export const getComparisonDate = (
+  date: string,
+  period: ComparisonPeriod
+): string => formatDateKey(sub(parseDateKey(date), period.shift));
+
+// Working days and targets over a range, with the days before today
+// elapsed. Without a location, a day counts when any location works it.
+const calculateRangePacing = (
+  range: PeriodRange,
+  now: Date,
+  targetSettings: TargetSettings | undefined,
+  locationId?: LocationId
+) => {
+  const today = formatDateKey(now);
+  const locationIds = locationId
+    ? [locationId]
+    : getLocations().map((loc) => loc.id);
+  const pacing = {
+    totalBusinessDays: 0,
+    elapsedBusinessDays: 0,
+    remainingBusinessDays: 0,
+    periodTarget: 0,
+    onPaceTarget: 0,
+  };
+
+  for (let key = range.start; key <= range.end; key = addDaysToKey(key, 1)) {
+    const day = parseDateKey(key);
+    const working = locationIds.filter((id) =>
+      targetSettings
+        ? isLocationWorkingDay(day, id, targetSettings)
+        : isBusinessDay(day, id)
+    );
+    if (working.length === 0) continue;
+
+    const monthlyAdjustment = targetSettings?.monthlyAdjustments?.find(
+      (adj) => adj.month === day.getMonth() && adj.year === day.getFullYear()
+    );
+    const target = working.reduce(
+      (sum, id) =>
+        sum + resolveDailyTarget(id, targetSettings, monthlyAdjustment, day),
+      0
+    );
+    pacing.totalBusinessDays++;
+    pacing.periodTarget += target;
+    if (key < today) {
+      pacing.elapsedBusinessDays++;
+      pacing.onPaceTarget += target;
+    } else {
+      pacing.remainingBusinessDays++;
+    }
+  }
+
+  return pacing;
+};
+
 // Update calculateLocationMetrics to use the shared function
 export const calculateLocationMetrics = (
-  data: RevenueData[],
+  entries: RevenueData[],
   targetSettings?: TargetSettings,
   location?: string,
-  timeFrame: TimeFrame = "MTD"
-) => {
+  timeFrame: TimeFrame = "MTD",
+  now?: Date // Each location's business time when omitted
+): {
+  locations: Record<LocationId, LocationPeriodMetric>;
+  total: LocationPeriodMetric;
+} => {
+  const locations = getLocations();
+  const data = excludeDeletedEntries(entries ?? []);
+
   if (!data || data.length === 0) {
-    const emptyPeriodInfo = {
+    const emptyPeriodInfo: LocationPeriodInfo = {
       startDate: "",
       endDate: "",
       periodType: timeFrame,
@@ -152,161 +629,81 @@ export const calculateLocationMetrics = (
       relevantMonth: 0,
       relevantYear: 0,
       hasMonthlyAdjustment: false,
-      dailyTargets: {
-        austin: 0,
-        charlotte: 0,
-      },
+      dailyTargets: createLocationValues(() => 0, locations),
     };
+    const emptyMetric = (): LocationPeriodMetric => ({
+      revenue: 0,
+      target: 0,
+      monthlyTarget: 0,
+      attainment: 0,
+      elapsedDays: 0,
+      remainingDays: 0,
+      totalDays: 0,
+      dailyPaceNeeded: 0,
+      periodInfo: emptyPeriodInfo,
+    });
 
     return {
-      austin: {
-        revenue: 0,
-        target: 0,
-        monthlyTarget: 0,
-        attainment: 0,
-        elapsedDays: 0,
-        remainingDays: 0,
-        totalDays: 0,
-        dailyPaceNeeded: 0,
-        periodInfo: emptyPeriodInfo,
-      },
-      charlotte: {
-        revenue: 0,
-        target: 0,
-        monthlyTarget: 0,
-        attainment: 0,
-        elapsedDays: 0,
-        remainingDays: 0,
-        totalDays: 0,
-        dailyPaceNeeded: 0,
-        periodInfo: emptyPeriodInfo,
-      },
-      total: {
-        revenue: 0,
-        target: 0,
-        monthlyTarget: 0,
-        attainment: 0,
-        elapsedDays: 0,
-        remainingDays: 0,
-        totalDays: 0,
-        dailyPaceNeeded: 0,
-        periodInfo: emptyPeriodInfo,
-      },
+      locations: Object.fromEntries(
+        locations.map((loc) => [loc.id, emptyMetric()])
+      ),
+      total: emptyMetric(),
     };
   }
 
   // Get current date information
-  const now = new Date();
-  const currentMonth = now.getMonth();
-  const currentYear = now.getFullYear();
-  const currentDay = now.getDate();
+  const periodNow = now ?? getNow(location);
+  const currentMonth = periodNow.getMonth();
+  const currentYear = periodNow.getFullYear();
 
   // Get monthly adjustment if available
   const monthlyAdjustment = targetSettings?.monthlyAdjustments?.find(
     (adj) => adj.month === currentMonth && adj.year === currentYear
   );
 
+  // Quarters, past periods and fiscal periods pace against their whole
+  // range day by day, since those are not the current calendar month
+  const fiscalRange = isFiscalTimeFrame(timeFrame)
+    ? getFiscalRange(timeFrame, periodNow, getFiscalCalendar(targetSettings))
+    : undefined;
+  const pacingRange = RANGE_PACED_TIME_FRAMES.includes(timeFrame)
+    ? getTimeFrameRange(timeFrame, periodNow, targetSettings)
+    : null;
+  const rangePacing = pacingRange
+    ? Object.fromEntries(
+        locations.map((loc) => [
+          loc.id,
+          calculateRangePacing(
+            pacingRange,
+            now ?? getNow(loc.id),
+            targetSettings,
+            loc.id
+          ),
+        ])
+      )
+    : undefined;
+
   // Calculate business days using shared function
-  const businessDaysInfo = calculateBusinessDaysInfo(
-    timeFrame,
-    monthlyAdjustment,
-    currentDay
-  );
+  const businessDaysInfo = pacingRange
+    ? calculateRangePacing(pacingRange, periodNow, targetSettings)
+    : calculateBusinessDaysInfo(timeFrame, monthlyAdjustment, periodNow);
   const { totalBusinessDays, elapsedBusinessDays, remainingBusinessDays } =
     businessDaysInfo;
 
-  // Calculate daily targets
-  let dailyAustinTarget =
-    targetSettings?.dailyTargets?.austin ?? TARGETS.austin;
-  let dailyCharlotteTarget =
-    targetSettings?.dailyTargets?.charlotte ?? TARGETS.charlotte;
-
-  // Apply monthly adjustments if available
-  if (monthlyAdjustment) {
-    if (monthlyAdjustment.austin !== undefined) {
-      dailyAustinTarget = monthlyAdjustment.austin;
-    }
-    if (monthlyAdjustment.charlotte !== undefined) {
-      dailyCharlotteTarget = monthlyAdjustment.charlotte;
-    }
-  }
-
-  // Calculate monthly targets
-  const monthlyAustinTarget = dailyAustinTarget * totalBusinessDays;
-  const monthlyCharlotteTarget = dailyCharlotteTarget * totalBusinessDays;
-
-  // Calculate total revenue
-  const totalAustin = data.reduce((sum, entry) => sum + (entry.austin || 0), 0);
-  const totalCharlotte = data.reduce(
-    (sum, entry) => sum + (entry.charlotte || 0),
-    0
-  );
-  const totalRevenue = totalAustin + totalCharlotte;
-
-  // Calculate on-pace targets based on elapsed days (excluding today)
-  const onPaceAustinTarget = dailyAustinTarget * elapsedBusinessDays;
-  const onPaceCharlotteTarget = dailyCharlotteTarget * elapsedBusinessDays;
-
-  // Calculate daily pace needed based on remaining revenue and days
-  const austinDailyPaceNeeded =
-    remainingBusinessDays > 0
-      ? (monthlyAustinTarget - totalAustin) / remainingBusinessDays
-      : 0;
-  const charlotteDailyPaceNeeded =
-    remainingBusinessDays > 0
-      ? (monthlyCharlotteTarget - totalCharlotte) / remainingBusinessDays
-      : 0;
-
-  // Calculate attainment percentages using optimized function
-  const austinAttainment = calculateOptimizedAttainment(
-    totalAustin,
-    onPaceAustinTarget
-  );
-  const charlotteAttainment = calculateOptimizedAttainment(
-    totalCharlotte,
-    onPaceCharlotteTarget
-  );
-  const totalOnPaceTarget = onPaceAustinTarget + onPaceCharlotteTarget;
-  const totalAttainment = calculateOptimizedAttainment(
-    totalRevenue,
-    totalOnPaceTarget
-  );
-
-  // Apply location filtering to monthly targets for display consistency
-  const getLocationFilteredTarget = (
-    austinTarget: number,
-    charlotteTarget: number
-  ) => {
-    if (!location || location === "Combined") {
-      return austinTarget + charlotteTarget;
-    }
-    if (location === "Austin") {
-      return austinTarget;
-    }
-    if (location === "Charlotte") {
-      return charlotteTarget;
-    }
-    return 0;
-  };
-
-  const filteredMonthlyTarget = getLocationFilteredTarget(
-    monthlyAustinTarget,
-    monthlyCharlotteTarget
-  );
-  const filteredDailyPaceNeeded = getLocationFilteredTarget(
-    austinDailyPaceNeeded,
-    charlotteDailyPaceNeeded
+  // Calculate daily targets, applying monthly adjustments if available
+  const dailyTargets = createLocationValues(
+    (loc) =>
+      resolveDailyTarget(loc.id, targetSettings, monthlyAdjustment, periodNow),
+    locations
   );
 
   // Get date range from data
-  const dates = data
-    .map((item) => new Date(item.date))
-    .sort((a, b) => a.getTime() - b.getTime());
-  const startDate = dates[0]?.toISOString().split("T")[0] || "";
-  const endDate = dates[dates.length - 1]?.toISOString().split("T")[0] || "";
+  const dates = data.map((item) => item.date).sort(compareDateKeys);
+  const startDate = dates[0] || "";
+  const endDate = dates[dates.length - 1] || "";
 
   // Create period info
-  const periodInfo = {
+  const periodInfo: LocationPeriodInfo = {
     startDate,
     endDate,
     periodType: timeFrame,
@@ -315,74 +712,198 @@ export const calculateLocationMetrics = (
     relevantMonth: currentMonth,
     relevantYear: currentYear,
     hasMonthlyAdjustment: !!monthlyAdjustment,
-    dailyTargets: {
-      austin: dailyAustinTarget,
-      charlotte: dailyCharlotteTarget,
-    },
+    dailyTargets,
+    ...(fiscalRange && { fiscalRange }),
+    ...(rangePacing && {
+      periodTarget: locations.reduce(
+        (sum, loc) => sum + rangePacing[loc.id].periodTarget,
+        0
+      ),
+    }),
   };
 
-  // console.log("=== Target Calculations ===");
-  // console.log("Daily Targets:", {
-  //   austin: dailyAustinTarget,
-  //   charlotte: dailyCharlotteTarget,
-  //   hasMonthlyAdjustment: !!monthlyAdjustment,
-  // });
-  // console.log("Working Days:", {
-  //   totalBusinessDays,
-  //   elapsedBusinessDays,
-  //   remainingBusinessDays,
-  // });
-  // console.log("Monthly Targets:", {
-  //   austin: monthlyAustinTarget,
-  //   charlotte: monthlyCharlotteTarget,
-  //   total: monthlyAustinTarget + monthlyCharlotteTarget,
-  // });
-
-  return {
-    austin: {
-      revenue: totalAustin,
-      target: onPaceAustinTarget,
-      monthlyTarget: monthlyAustinTarget,
-      attainment: austinAttainment,
-      elapsedDays: elapsedBusinessDays,
-      remainingDays: remainingBusinessDays,
-      totalDays: totalBusinessDays,
-      dailyPaceNeeded: austinDailyPaceNeeded,
-      periodInfo,
-    },
-    charlotte: {
-      revenue: totalCharlotte,
-      target: onPaceCharlotteTarget,
-      monthlyTarget: monthlyCharlotteTarget,
-      attainment: charlotteAttainment,
+  const locationMetrics: Record<LocationId, LocationPeriodMetric> = {};
+  locations.forEach((loc) => {
+    // Locations can have their own working days and holidays
+    const pacing = rangePacing?.[loc.id];
+    const {
+      totalBusinessDays,
+      elapsedBusinessDays,
+      remainingBusinessDays,
+    } =
+      pacing ??
+      calculateBusinessDaysInfo(
+        timeFrame,
+        monthlyAdjustment,
+        now ?? getNow(loc.id),
+        loc.id
+      );
+    const dailyTarget = dailyTargets[loc.id];
+    const monthlyTarget =
+      pacing?.periodTarget ?? dailyTarget * totalBusinessDays;
+    const revenue = data.reduce(
+      (sum, entry) => sum + getLocationRevenue(entry, loc.id),
+      0
+    );
+    // On-pace target based on elapsed days (excluding today)
+    const onPaceTarget =
+      pacing?.onPaceTarget ?? dailyTarget * elapsedBusinessDays;
+
+    locationMetrics[loc.id] = {
+      revenue,
+      target: onPaceTarget,
+      monthlyTarget,
+      attainment: calculateOptimizedAttainment(revenue, onPaceTarget),
       elapsedDays: elapsedBusinessDays,
       remainingDays: remainingBusinessDays,
       totalDays: totalBusinessDays,
-      dailyPaceNeeded: charlotteDailyPaceNeeded,
+      dailyPaceNeeded:
+        remainingBusinessDays > 0
+          ? (monthlyTarget - revenue) / remainingBusinessDays
+          : 0,
       periodInfo,
-    },
+    };
+  });
+
+  const allMetrics = Object.values(locationMetrics);
+  const totalRevenue = allMetrics.reduce((sum, m) => sum + m.revenue, 0);
+  const totalOnPaceTarget = allMetrics.reduce((sum, m) => sum + m.target, 0);
+
+  // Apply location filtering to monthly targets for display consistency
+  const selectedLocation =
+    location && location !== "Combined" ? findLocation(location) : undefined;
+  const getLocationFilteredTarget = (
+    key: "monthlyTarget" | "dailyPaceNeeded"
+  ) => {
+    if (!location || location === "Combined") {
+      return allMetrics.reduce((sum, m) => sum + m[key], 0);
+    }
+    return selectedLocation ? locationMetrics[selectedLocation.id][key] : 0;
+  };
+
+  return {
+    locations: locationMetrics,
     total: {
       revenue: totalRevenue,
       target: totalOnPaceTarget,
-      monthlyTarget: filteredMonthlyTarget,
-      attainment: totalAttainment,
+      monthlyTarget: getLocationFilteredTarget("monthlyTarget"),
+      attainment: calculateOptimizedAttainment(totalRevenue, totalOnPaceTarget),
       elapsedDays: elapsedBusinessDays,
       remainingDays: remainingBusinessDays,
       totalDays: totalBusinessDays,
-      dailyPaceNeeded: filteredDailyPaceNeeded,
+      dailyPaceNeeded: getLocationFilteredTarget("dailyPaceNeeded"),
       periodInfo,
     },
   };
 };
 
+export interface PeriodTotals {
+  revenue: number;
+  target: number; // For every working day of the period
+  attainment: number;
+}
+
+export interface PeriodComparison {
+  period: ComparisonPeriod;
+  locations: Record<LocationId, PeriodTotals>;
+  total: PeriodTotals;
+}
+
+// Entries of a comparison period by date, to look up the day matching each
+// day of the current period (see getComparisonDate)
+export const getComparisonEntries = (
+  entries: RevenueData[],
+  period: ComparisonPeriod,
+  targetSettings?: TargetSettings,
+  location?: string
+): Map<string, RevenueData> =>
+  new Map(
+    filterDataByTimeFrame(
+      entries,
+      "custom",
+      undefined,
+      targetSettings,
+      period.start,
+      period.end,
+      location
+    ).map((entry) => [entry.date, entry])
+  );
+
+// Revenue against target over the period a time frame is compared with,
+// per location and in total (the selected location's, when there is one)
+export const calculatePeriodComparison = (
+  entries: RevenueData[],
+  timeFrame: TimeFrame,
+  targetSettings?: TargetSettings,
+  location?: string,
+  startDate?: string | null,
+  endDate?: string | null,
+  now: Date = getNow(location)
+): PeriodComparison | null => {
+  const period = getComparisonPeriod(
+    timeFrame,
+    now,
+    targetSettings,
+    startDate,
+    endDate
+  );
+  if (!period) return null;
+
+  const data = filterDataByTimeFrame(
+    entries,
+    "custom",
+    undefined,
+    targetSettings,
+    period.start,
+    period.end,
+    location,
+    now
+  );
+  const afterPeriod = parseDateKey(addDaysToKey(period.end, 1));
+  const toTotals = (revenue: number, target: number): PeriodTotals => ({
+    revenue,
+    target,
+    attainment: calculateOptimizedAttainment(revenue, target),
+  });
+
+  const locations = getLocations();
+  const locationTotals: Record<LocationId, PeriodTotals> = Object.fromEntries(
+    locations.map((loc) => [
+      loc.id,
+      toTotals(
+        data.reduce((sum, entry) => sum + getLocationRevenue(entry, loc.id), 0),
+        calculateRangePacing(period, afterPeriod, targetSettings, loc.id)
+          .periodTarget
+      ),
+    ])
+  );
+
+  const selected =
+    location && location !== "Combined" ? findLocation(location) : undefined;
+  const included = Object.entries(locationTotals)
+    .filter(([id]) => !selected || id === selected.id)
+    .map(([, totals]) => totals);
+
+  return {
+    period,
+    locations: locationTotals,
+    total: toTotals(
+      included.reduce((sum, totals) => sum + totals.revenue, 0),
+      included.reduce((sum, totals) => sum + totals.target, 0)
+    ),
+  };
+};
+
 // Get the appropriate target for a specific date
 export const getTargetForDate = (
   date: Date,
   targetSettings?: TargetSettings
-): { austin: number; charlotte: number } => {
+): DailyTarget => {
+  const locations = getLocations();
+
   // If no target settings provided, return default targets
   if (!targetSettings) {
-    return { austin: TARGETS.austin, charlotte: TARGETS.charlotte };
+    return getDefaultDailyTargets(locations);
   }
 
   const month = date.getMonth();
@@ -394,64 +915,47 @@ export const getTargetForDate = (
     (adj) => adj.month === month && adj.year === year
   );
 
-  // If there's a monthly adjustment and this day is not in the working days, return zero targets
-  if (monthlyAdjustment && !monthlyAdjustment.workingDays.includes(day)) {
-    return { austin: 0, charlotte: 0 };
-  }
-
-  // If there's a monthly adjustment with custom targets, use those
-  if (monthlyAdjustment) {
-    return {
-      austin:
-        monthlyAdjustment.austin !== undefined
-          ? monthlyAdjustment.austin
-          : targetSettings.dailyTargets.austin,
-      charlotte:
-        monthlyAdjustment.charlotte !== undefined
-          ? monthlyAdjustment.charlotte
-          : targetSettings.dailyTargets.charlotte,
-    };
-  }
-
-  // Otherwise, use the default daily targets
-  return { ...targetSettings.dailyTargets };
+  // Locations that do not work this day (per the monthly adjustment, or a
+  // holiday without one) have no target; the others use monthly overrides
+  // where set, otherwise the default daily targets
+  return createLocationValues((loc) => {
+    const isWorkingDay = monthlyAdjustment
+      ? getAdjustmentWorkingDays(monthlyAdjustment, loc.id).includes(day)
+      : !isHoliday(date, loc.id);
+    return isWorkingDay
+      ? resolveDailyTarget(loc.id, targetSettings, monthlyAdjustment, date)
+      : 0;
+  }, locations);
 };
 
 // Filter data by time frame and attainment threshold
 export const filterDataByTimeFrame = (
-  data: RevenueData[],
+  entries: RevenueData[],
   timeFrame: TimeFrame,
   attainmentThreshold?: { min: number; max: number },
   targetSettings?: TargetSettings,
   startDate?: string | null,
   endDate?: string | null,
-  location?: string
+  location?: string,
+  now: Date = getNow(location)
 ): RevenueData[] => {
-  if (!data || data.length === 0) return [];
-
-  // Default target settings if not provided
-  const targets = targetSettings || {
-    dailyTargets: TARGETS,
-    monthlyAdjustments: [],
-  };
+  const data = excludeDeletedEntries(entries ?? []);
+  if (data.length === 0) return [];
 
-  // Optimized date creation function
-  const createDate = (dateStr: string): Date => {
-    const [year, month, day] = dateStr.split("-").map(Number);
-    return new Date(year, month - 1, day);
-  };
+  const createDate = parseDateKey;
 
   // Get current date info for consistent filtering
-  const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
   // Apply location filtering first if specified
   let locationFilteredData = data;
   if (location && location !== "Combined") {
+    const selected = findLocation(location);
     locationFilteredData = data.map((item) => ({
       date: item.date,
-      austin: location.toLowerCase() === "austin" ? item.austin : 0,
-      charlotte: location.toLowerCase() === "charlotte" ? item.charlotte : 0,
+      revenue: createLocationValues((loc) =>
+        loc.id === selected?.id ? getLocationRevenue(item, loc.id) : 0
+      ),
     }));
   }
 
@@ -535,17 +1039,30 @@ export const filterDataByTimeFrame = (
       break;
     }
 
+    case "QTD":
+    case "lastMonth":
+    case "lastQuarter":
+    case "samePeriodLastYear":
+    case "FPTD":
+    case "FQTD":
+    case "FYTD": {
+      const range = getTimeFrameRange(timeFrame, today, targetSettings);
+      const todayKey = formatDateKey(today);
+      const end = range && range.end < todayKey ? range.end : todayKey;
+
+      filteredData = locationFilteredData.filter(
+        (item) => range && item.date >= range.start && item.date <= end
+      );
+      break;
+    }
+
     default:
       filteredData = locationFilteredData;
       break;
   }
 
   // Sort by date for consistent ordering
-  filteredData.sort((a, b) => {
-    const aDate = createDate(a.date);
-    const bDate = createDate(b.date);
-    return aDate.getTime() - bDate.getTime();
-  });
+  filteredData.sort((a, b) => compareDateKeys(a.date, b.date));
 
   // Apply attainment threshold filtering if specified
   if (
@@ -557,8 +1074,8 @@ export const filterDataByTimeFrame = (
         createDate(item.date),
         targetSettings
       );
-      const totalRevenue = (item.austin || 0) + (item.charlotte || 0);
-      const totalTarget = dailyTargets.austin + dailyTargets.charlotte;
+      const totalRevenue = getTotalRevenue(item);
+      const totalTarget = sumLocationValues(dailyTargets);
 
       if (totalTarget === 0) return true; // Include days with no target
 
@@ -575,75 +1092,66 @@ export const filterDataByTimeFrame = (
 
 // Calculate metrics for a given dataset
 export const calculateMetrics = (
-  data: RevenueData[],
+  entries: RevenueData[],
   targetSettings: TargetSettings
 ) => {
+  const locations = getLocations();
+  const data = excludeDeletedEntries(entries ?? []);
+
   if (!data || data.length === 0) {
     return {
       totalRevenue: 0,
-      austinRevenue: 0,
-      charlotteRevenue: 0,
-      austinAttainment: 0,
-      charlotteAttainment: 0,
+      locationRevenue: createLocationValues(() => 0, locations),
+      locationAttainment: createLocationValues(() => 0, locations),
       combinedAttainment: 0,
       daysAboveTarget: 0,
       totalDays: 0,
     };
   }
 
-  let austinTotal = 0;
-  let charlotteTotal = 0;
-  let austinTargetTotal = 0;
-  let charlotteTargetTotal = 0;
+  const revenueTotals = createLocationValues(() => 0, locations);
+  const targetTotals = createLocationValues(() => 0, locations);
   let daysAboveTarget = 0;
+  let workingDays = 0;
 
   data.forEach((item) => {
-    const itemDate = new Date(item.date);
+    const itemDate = parseDateKey(item.date);
     const dailyTarget = getTargetForDate(itemDate, targetSettings);
 
-    austinTotal += item.austin;
-    charlotteTotal += item.charlotte;
+    locations.forEach((loc) => {
+      revenueTotals[loc.id] += getLocationRevenue(item, loc.id);
+    });
 
-    // Only add to target totals if it's a working day
-    if (dailyTarget.austin > 0 || dailyTarget.charlotte > 0) {
-      austinTargetTotal += dailyTarget.austin;
-      charlotteTargetTotal += dailyTarget.charlotte;
+    // Only add to target totals if it's a working day (non-zero target)
+    const combinedTarget = sumLocationValues(dailyTarget, locations);
+    if (combinedTarget > 0) {
+      workingDays++;
+      locations.forEach((loc) => {
+        targetTotals[loc.id] += dailyTarget[loc.id];
+      });
 
       // Check if combined attainment is above 100%
-      const combinedRevenue = item.austin + item.charlotte;
-      const combinedTarget = dailyTarget.austin + dailyTarget.charlotte;
-      if (combinedTarget > 0 && combinedRevenue / combinedTarget >= 1) {
+      const combinedRevenue = getTotalRevenue(item, locations);
+      if (combinedRevenue / combinedTarget >= 1) {
         daysAboveTarget++;
       }
     }
   });
 
-  const totalRevenue = austinTotal + charlotteTotal;
-  const totalTarget = austinTargetTotal + charlotteTargetTotal;
+  const totalRevenue = sumLocationValues(revenueTotals, locations);
+  const totalTarget = sumLocationValues(targetTotals, locations);
 
   // Calculate attainment percentages
-  const austinAttainment =
-    austinTargetTotal > 0 ? (austinTotal / austinTargetTotal) * 100 : 0;
-  const charlotteAttainment =
-    charlotteTargetTotal > 0
-      ? (charlotteTotal / charlotteTargetTotal) * 100
-      : 0;
-  const combinedAttainment =
-    totalTarget > 0 ? (totalRevenue / totalTarget) * 100 : 0;
-
-  // Count working days (days with non-zero targets)
-  const workingDays = data.filter((item) => {
-    const itemDate = new Date(item.date);
-    const dailyTarget = getTargetForDate(itemDate, targetSettings);
-    return dailyTarget.austin > 0 || dailyTarget.charlotte > 0;
-  }).length;
+  const locationAttainment = createLocationValues(
+    (loc) => calculateAttainment(revenueTotals[loc.id], targetTotals[loc.id]),
+    locations
+  );
+  const combinedAttainment = calculateAttainment(totalRevenue, totalTarget);
 
   return {
     totalRevenue,
-    austinRevenue: austinTotal,
-    charlotteRevenue: charlotteTotal,
-    austinAttainment,
-    charlotteAttainment,
+    locationRevenue: revenueTotals,
+    locationAttainment,
     combinedAttainment,
     daysAboveTarget,
     totalDays: workingDays,
@@ -663,23 +1171,7 @@ export const calculateTimePeriodsMetrics = (
   }
 
   // Sort data by date
-  const sortedData = [...data].sort((a, b) => {
-    // Parse the date strings correctly
-    const aDateParts = a.date.split("-");
-    const aYear = parseInt(aDateParts[0]);
-    const aMonth = parseInt(aDateParts[1]) - 1;
-    const aDay = parseInt(aDateParts[2]);
-
-    const bDateParts = b.date.split("-");
-    const bYear = parseInt(bDateParts[0]);
-    const bMonth = parseInt(bDateParts[1]) - 1;
-    const bDay = parseInt(bDateParts[2]);
-
-    const aDate = new Date(aYear, aMonth, aDay);
-    const bDate = new Date(bYear, bMonth, bDay);
-
-    return aDate.getTime() - bDate.getTime();
-  });
+  const sortedData = [...data].sort((a, b) => compareDateKeys(a.date, b.date));
 
   // Group data by week
   const weeklyData: { [key: string]: RevenueData[] } = {};
@@ -688,19 +1180,8 @@ export const calculateTimePeriodsMetrics = (
   const firstEntry = sortedData[0];
   const lastEntry = sortedData[sortedData.length - 1];
 
-  // Parse the date strings correctly
-  const firstDateParts = firstEntry.date.split("-");
-  const firstYear = parseInt(firstDateParts[0]);
-  const firstMonth = parseInt(firstDateParts[1]) - 1;
-  const firstDay = parseInt(firstDateParts[2]);
-
-  const lastDateParts = lastEntry.date.split("-");
-  const lastYear = parseInt(lastDateParts[0]);
-  const lastMonth = parseInt(lastDateParts[1]) - 1;
-  const lastDay = parseInt(lastDateParts[2]);
-
-  const firstEntryDate = new Date(firstYear, firstMonth, firstDay);
-  const lastEntryDate = new Date(lastYear, lastMonth, lastDay);
+  const firstEntryDate = parseDateKey(firstEntry.date);
+  const lastEntryDate = parseDateKey(lastEntry.date);
 
   // Define week boundaries based on actual data range
   const weekBoundaries: Array<{
@@ -738,13 +1219,7 @@ export const calculateTimePeriodsMetrics = (
 
   // Group data into weeks
   sortedData.forEach((entry) => {
-    // Parse the date string correctly
-    const dateParts = entry.date.split("-");
-    const year = parseInt(dateParts[0]);
-    const month = parseInt(dateParts[1]) - 1;
-    const day = parseInt(dateParts[2]);
-
-    const entryDate = new Date(year, month, day);
+    const entryDate = parseDateKey(entry.date);
 
     // Find which week this entry belongs to
     const weekIndex = weekBoundaries.findIndex(
@@ -761,6 +1236,42 @@ export const calculateTimePeriodsMetrics = (
     }
   });
 
+  // Sum revenue and targets per location over a set of entries
+  const aggregatePeriod = (
+    entries: RevenueData[]
+  ): Omit<WeeklyMetrics, "label"> => {
+    const locations = getLocations();
+    const periodLocations: Record<LocationId, PeriodLocationMetrics> = {};
+    locations.forEach((loc) => {
+      periodLocations[loc.id] = { revenue: 0, target: 0, attainment: 0 };
+    });
+
+    entries.forEach((entry) => {
+      const entryDate = parseDateKey(entry.date);
+      const dailyTarget = getTargetForDate(entryDate, targetSettings);
+
+      locations.forEach((loc) => {
+        periodLocations[loc.id].revenue += getLocationRevenue(entry, loc.id);
+        periodLocations[loc.id].target += dailyTarget[loc.id] || 0;
+      });
+    });
+
+    let combinedRevenue = 0;
+    let combinedTarget = 0;
+    Object.values(periodLocations).forEach((metrics) => {
+      metrics.attainment = calculateAttainment(metrics.revenue, metrics.target);
+      combinedRevenue += metrics.revenue;
+      combinedTarget += metrics.target;
+    });
+
+    return {
+      locations: periodLocations,
+      combinedRevenue,
+      combinedTarget,
+      combinedAttainment: calculateAttainment(combinedRevenue, combinedTarget),
+    };
+  };
+
   // Calculate metrics for each week
   const weeklyMetrics: WeeklyMetrics[] = [];
 
@@ -769,107 +1280,22 @@ export const calculateTimePeriodsMetrics = (
     const weekData = weeklyData[weekKey] || [];
 
     if (weekData.length > 0) {
-      let austinRevenue = 0;
-      let charlotteRevenue = 0;
-      let austinTarget = 0;
-      let charlotteTarget = 0;
-
-      weekData.forEach((entry) => {
-        // Parse the date string correctly - same as used elsewhere in the code
-        const dateParts = entry.date.split("-");
-        const year = parseInt(dateParts[0]);
-        const month = parseInt(dateParts[1]) - 1;
-        const day = parseInt(dateParts[2]);
-        const entryDate = new Date(year, month, day);
-
-        const dailyTarget = getTargetForDate(entryDate, targetSettings);
-
-        austinRevenue += entry.austin;
-        charlotteRevenue += entry.charlotte;
-        austinTarget += dailyTarget.austin;
-        charlotteTarget += dailyTarget.charlotte;
-      });
-
-      const combinedRevenue = austinRevenue + charlotteRevenue;
-      const combinedTarget = austinTarget + charlotteTarget;
-
-      const austinAttainment =
-        austinTarget > 0 ? (austinRevenue / austinTarget) * 100 : 0;
-      const charlotteAttainment =
-        charlotteTarget > 0 ? (charlotteRevenue / charlotteTarget) * 100 : 0;
-      const combinedAttainment =
-        combinedTarget > 0 ? (combinedRevenue / combinedTarget) * 100 : 0;
-
       // Format date range for the label
       const startDateStr = format(week.start, "MMM d");
       const endDateStr = format(week.end, "MMM d");
 
       weeklyMetrics.push({
         label: `${startDateStr}-${endDateStr}`,
-        austinRevenue,
-        charlotteRevenue,
-        combinedRevenue,
-        austinTarget,
-        charlotteTarget,
-        combinedTarget,
-        austinAttainment,
-        charlotteAttainment,
-        combinedAttainment,
+        ...aggregatePeriod(weekData),
       });
     }
   });
 
   // Calculate monthly metrics
   if (weeklyMetrics.length > 0) {
-    let monthlyAustinRevenue = 0;
-    let monthlyCharlotteRevenue = 0;
-    let monthlyAustinTarget = 0;
-    let monthlyCharlotteTarget = 0;
-
-    sortedData.forEach((entry) => {
-      // Parse the date string correctly - same as used elsewhere in the code
-      const dateParts = entry.date.split("-");
-      const year = parseInt(dateParts[0]);
-      const month = parseInt(dateParts[1]) - 1;
-      const day = parseInt(dateParts[2]);
-      const entryDate = new Date(year, month, day);
-
-      const dailyTarget = getTargetForDate(entryDate, targetSettings);
-
-      monthlyAustinRevenue += entry.austin;
-      monthlyCharlotteRevenue += entry.charlotte;
-      monthlyAustinTarget += dailyTarget.austin;
-      monthlyCharlotteTarget += dailyTarget.charlotte;
-    });
-
-    const monthlyCombinedRevenue =
-      monthlyAustinRevenue + monthlyCharlotteRevenue;
-    const monthlyCombinedTarget = monthlyAustinTarget + monthlyCharlotteTarget;
-
-    const monthlyAustinAttainment =
-      monthlyAustinTarget > 0
-        ? (monthlyAustinRevenue / monthlyAustinTarget) * 100
-        : 0;
-    const monthlyCharlotteAttainment =
-      monthlyCharlotteTarget > 0
-        ? (monthlyCharlotteRevenue / monthlyCharlotteTarget) * 100
-        : 0;
-    const monthlyCombinedAttainment =
-      monthlyCombinedTarget > 0
-        ? (monthlyCombinedRevenue / monthlyCombinedTarget) * 100
-        : 0;
-
     const monthlyMetrics: MonthlyMetrics = {
       label: format(firstEntryDate, "MMMM yyyy"),
-      austinRevenue: monthlyAustinRevenue,
-      charlotteRevenue: monthlyCharlotteRevenue,
-      combinedRevenue: monthlyCombinedRevenue,
-      austinTarget: monthlyAustinTarget,
-      charlotteTarget: monthlyCharlotteTarget,
-      combinedTarget: monthlyCombinedTarget,
-      austinAttainment: monthlyAustinAttainment,
-      charlotteAttainment: monthlyCharlotteAttainment,
-      combinedAttainment: monthlyCombinedAttainment,
+      ...aggregatePeriod(sortedData),
     };
 
     return { weeklyMetrics, monthlyMetrics };
@@ -904,44 +1330,57 @@ export const calculateTrend = (
   return "stable";
 };
 
+export interface MonthlyTrend {
+  month: string;
+  date: string;
+  currentYear: number | null;
+  previousYear: number | null;
+  locationAttainment: DailyTarget;
+  combinedAttainment: number;
+}
+
 export const calculateMonthlyTrends = (
   data: RevenueData[],
   targetSettings: TargetSettings
-) => {
-  // console.log("\n=== Monthly Trends Calculation ===");
-  // console.log(`Input data points: ${data.length}`);
+): MonthlyTrend[] => {
+  const locations = getLocations();
+  const fiscalCalendar = targetSettings.fiscalCalendar;
 
-  // Group data by month and year
+  // Group data by month and year, or by fiscal period and fiscal year when
+  // a fiscal calendar is set
   const monthlyData = data.reduce((acc: any, entry) => {
-    const date = new Date(entry.date);
-    const year = date.getFullYear();
-    const month = date.toLocaleString("default", { month: "short" });
+    const date = parseDateKey(entry.date);
+    const fiscalPeriod =
+      fiscalCalendar && getFiscalPeriodOn(date, fiscalCalendar);
+    const year = fiscalPeriod ? fiscalPeriod.fiscalYear : date.getFullYear();
+    const month = fiscalPeriod
+      ? formatFiscalPeriod(fiscalPeriod)
+      : date.toLocaleString("default", { month: "short" });
     const key = `${month}-${year}`;
 
     if (!acc[key]) {
       acc[key] = {
         month,
         year,
-        austin: 0,
-        charlotte: 0,
-        austinTarget: 0,
-        charlotteTarget: 0,
+        revenue: createLocationValues(() => 0, locations),
+        target: createLocationValues(() => 0, locations),
         count: 0,
-        date: date.toISOString().split("T")[0],
+        date: entry.date,
         agentCount: 0,
       };
     }
 
     const dailyTarget = getTargetForDate(date, targetSettings);
     const monthlyAdjustment = targetSettings.monthlyAdjustments.find(
-      (adj) => adj.month === month && adj.year === year
+      (adj) =>
+        adj.month === date.getMonth() && adj.year === date.getFullYear()
     );
 
     // Sum up daily values
-    acc[key].austin += entry.austin || 0;
-    acc[key].charlotte += entry.charlotte || 0;
-    acc[key].austinTarget += dailyTarget.austin;
-    acc[key].charlotteTarget += dailyTarget.charlotte;
+    locations.forEach((loc) => {
+      acc[key].revenue[loc.id] += getLocationRevenue(entry, loc.id);
+      acc[key].target[loc.id] += dailyTarget[loc.id] || 0;
+    });
     if (monthlyAdjustment?.agentCount) {
       acc[key].agentCount = monthlyAdjustment.agentCount;
     }
@@ -950,132 +1389,68 @@ export const calculateMonthlyTrends = (
     return acc;
   }, {});
 
-  // console.log("\nMonthly Aggregates:");
-  // Object.entries(monthlyData).forEach(([key, data]: [string, any]) => {
-  //   console.log(`${key}:
-  //   Revenue: Austin=$${data.austin.toLocaleString()}, Charlotte=$${data.charlotte.toLocaleString()}
-  //   Targets: Austin=$${data.austinTarget.toLocaleString()}/day, Charlotte=$${data.charlotteTarget.toLocaleString()}/day
-  //   Days: ${data.count}
-  //   Monthly Target: Austin=$${(
-  //     data.austinTarget * data.count
-  //   ).toLocaleString()}, Charlotte=$${(
-  //     data.charlotteTarget * data.count
-  //   ).toLocaleString()}`);
-  // });
-
   // Convert to array and sort by date
-  const sortedData = Object.values(monthlyData).sort(
-    (a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  const sortedData = Object.values(monthlyData).sort((a: any, b: any) =>
+    compareDateKeys(a.date, b.date)
   );
 
   // Calculate year-over-year comparison
-  const currentYear = new Date().getFullYear();
+  const currentYear = fiscalCalendar
+    ? getFiscalPeriodOn(getNow(), fiscalCalendar).fiscalYear
+    : getNow().getFullYear();
   const processedData = sortedData.map((month: any) => {
-    // Calculate monthly totals
-    const monthlyAustin = month.austin;
-    const monthlyCharlotte = month.charlotte;
-    const monthlyTotal = monthlyAustin + monthlyCharlotte;
-
-    // Calculate monthly targets using daily targets * number of days
-    const monthlyAustinTarget = month.austinTarget;
-    const monthlyCharlotteTarget = month.charlotteTarget;
+    // Calculate monthly totals (targets are daily targets summed over the month)
+    const monthlyTotal = sumLocationValues(month.revenue, locations);
+    const combinedTarget = sumLocationValues(month.target, locations);
 
     // Calculate attainment percentages
-    const austinAttainment = (monthlyAustin / monthlyAustinTarget) * 100;
-    const charlotteAttainment =
-      (monthlyCharlotte / monthlyCharlotteTarget) * 100;
-    const combinedTarget = monthlyAustinTarget + monthlyCharlotteTarget;
+    const locationAttainment = createLocationValues(
+      (loc) => (month.revenue[loc.id] / month.target[loc.id]) * 100,
+      locations
+    );
     const combinedAttainment = (monthlyTotal / combinedTarget) * 100;
 
-    const result = {
+    return {
       month: month.month,
       date: month.date,
       currentYear: month.year === currentYear ? monthlyTotal : null,
       previousYear: month.year === currentYear - 1 ? monthlyTotal : null,
-      austinAttainment,
-      charlotteAttainment,
+      locationAttainment,
       combinedAttainment,
     };
-
-    // console.log(`\nProcessed ${month.month}-${month.year}:
-    // Monthly Revenue: Austin=$${monthlyAustin.toLocaleString()}, Charlotte=$${monthlyCharlotte.toLocaleString()}
-    // Monthly Targets: Austin=$${monthlyAustinTarget.toLocaleString()}, Charlotte=$${monthlyCharlotteTarget.toLocaleString()}
-    // Attainment: Austin=${austinAttainment.toFixed(
-    //   1
-    // )}%, Charlotte=${charlotteAttainment.toFixed(
-    //   1
-    // )}%, Combined=${combinedAttainment.toFixed(1)}%
-    // YoY Data: Current=${
-    //   result.currentYear?.toLocaleString() || "N/A"
-    // }, Previous=${result.previousYear?.toLocaleString() || "N/A"}`);
-
-    return result;
   });
 
   return processedData;
 };
 
-export const calculateMovingAverage = (data: any[], periods: number) => {
-  // console.log("\n=== Moving Average Calculation ===");
-  // console.log(`Periods: ${periods}, Data points: ${data.length}`);
-
+export const calculateMovingAverage = (
+  data: MonthlyTrend[],
+  periods: number
+): { month: string; locations: DailyTarget }[] => {
   if (!data || data.length === 0) {
-    // console.log("No data provided for moving average calculation");
     return [];
   }
 
+  const locations = getLocations();
+
   const result = data.map((item, index) => {
     // Calculate the window size based on available data
     const windowSize = Math.min(periods, index + 1);
     const startIndex = Math.max(0, index - windowSize + 1);
     const window = data.slice(startIndex, index + 1);
 
-    if (window.length === 0) {
-      // console.log(`${item.month}: No data in window`);
-      return {
-        month: item.month,
-        austin: 0,
-        charlotte: 0,
-      };
-    }
-
-    // Log the window data
-    // console.log(`\nCalculating MA for ${item.month}:
-    // Window Size: ${window.length}
-    // Window Data: ${window
-    //   .map(
-    //     (entry) =>
-    //       `${entry.month}[A=${entry.austinAttainment?.toFixed(
-    //         1
-    //       )}%, C=${entry.charlotteAttainment?.toFixed(1)}%]`
-    //   )
-    //   .join(", ")}`);
-
     // Calculate moving averages for attainment percentages
-    const austinMA =
-      window.reduce((sum, entry) => {
-        const value = entry.austinAttainment || 0;
-        return sum + value;
-      }, 0) / window.length;
-
-    const charlotteMA =
-      window.reduce((sum, entry) => {
-        const value = entry.charlotteAttainment || 0;
-        return sum + value;
-      }, 0) / window.length;
-
-    const resultItem = {
+    return {
       month: item.month,
-      austin: austinMA,
-      charlotte: charlotteMA,
+      locations: createLocationValues(
+        (loc) =>
+          window.reduce(
+            (sum, entry) => sum + (entry.locationAttainment[loc.id] || 0),
+            0
+          ) / window.length,
+        locations
+      ),
     };
-
-    // console.log(
-    //   `Result for ${item.month}: Austin MA=${austinMA.toFixed(
-    //     1
-    //   )}%, Charlotte MA=${charlotteMA.toFixed(1)}%`
-    // );
-    return resultItem;
   });
 
   return result;
@@ -1092,6 +1467,7 @@ export const validateDataIntegrity = (
 } => {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const locations = getLocations();
 
   if (!data || data.length === 0) {
     errors.push("No data provided for validation");
@@ -1108,33 +1484,29 @@ export const validateDataIntegrity = (
     }
 
     // Check if date is valid
-    const date = new Date(entry.date);
+    const date = parseDateKey(entry.date);
     if (isNaN(date.getTime())) {
       errors.push(`Invalid date at index ${index}: ${entry.date}`);
       return;
     }
 
     // Check revenue values
-    if (typeof entry.austin !== "number" || entry.austin < 0) {
-      errors.push(`Invalid Austin revenue at index ${index}: ${entry.austin}`);
-    }
-    if (typeof entry.charlotte !== "number" || entry.charlotte < 0) {
-      errors.push(
-        `Invalid Charlotte revenue at index ${index}: ${entry.charlotte}`
-      );
-    }
+    locations.forEach((loc) => {
+      const value = entry.revenue?.[loc.id];
+      if (typeof value !== "number" || value < 0) {
+        errors.push(`Invalid ${loc.name} revenue at index ${index}: ${value}`);
+      }
+    });
 
-    // Check for future dates
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    if (date > today) {
+    // Check for future dates, against the real date rather than the as-of one
+    if (entry.date > formatDateKey(getBusinessNow())) {
       warnings.push(`Future date found at index ${index}: ${entry.date}`);
     }
 
     // Validate against targets
     const dailyTarget = getTargetForDate(date, targetSettings);
-    const totalRevenue = entry.austin + entry.charlotte;
-    const totalTarget = dailyTarget.austin + dailyTarget.charlotte;
+    const totalRevenue = getTotalRevenue(entry, locations);
+    const totalTarget = sumLocationValues(dailyTarget, locations);
 
     if (totalTarget > 0) {
       const attainment = (totalRevenue / totalTarget) * 100;
@@ -1169,12 +1541,11 @@ export const validateDataIntegrity = (
   if (!targetSettings.dailyTargets) {
     errors.push("Daily targets not configured");
   } else {
-    if (targetSettings.dailyTargets.austin <= 0) {
-      errors.push("Austin daily target must be greater than 0");
-    }
-    if (targetSettings.dailyTargets.charlotte <= 0) {
-      errors.push("Charlotte daily target must be greater than 0");
-    }
+    locations.forEach((loc) => {
+      if (!(targetSettings.dailyTargets[loc.id] > 0)) {
+        errors.push(`${loc.name} daily target must be greater than 0`);
+      }
+    });
   }
 
   // Validate monthly adjustments
@@ -1195,16 +1566,23 @@ export const validateDataIntegrity = (
           }
         });
       }
-      if (adj.austin !== undefined && adj.austin <= 0) {
-        errors.push(
-          `Invalid Austin target in adjustment ${index}: ${adj.austin}`
-        );
-      }
-      if (adj.charlotte !== undefined && adj.charlotte <= 0) {
-        errors.push(
-          `Invalid Charlotte target in adjustment ${index}: ${adj.charlotte}`
-        );
-      }
+      Object.entries(adj.locationWorkingDays || {}).forEach(([id, days]) => {
+        (days || []).forEach((day) => {
+          if (day < 1 || day > 31) {
+            errors.push(
+              `Invalid ${id} working day in adjustment ${index}: ${day}`
+            );
+          }
+        });
+      });
+      locations.forEach((loc) => {
+        const override = adj.targets?.[loc.id];
+        if (override !== undefined && override <= 0) {
+          errors.push(
+            `Invalid ${loc.name} target in adjustment ${index}: ${override}`
+          );
+        }
+      });
     });
   }
 
@@ -1218,7 +1596,8 @@ export const validateDataIntegrity = (
 // Calculate missing data days
 export const calculateMissingDataDays = (
   data: RevenueData[],
-  targetSettings: TargetSettings
+  targetSettings: TargetSettings,
+  now: Date = getNow()
 ): {
   missingDays: number;
   totalExpectedDays: number;
@@ -1234,26 +1613,12 @@ export const calculateMissingDataDays = (
     };
   }
 
-  // Get the last data date with proper date parsing for sorting
-  const sortedData = [...data].sort((a, b) => {
-    const [aYear, aMonth, aDay] = a.date.split("-").map((num) => parseInt(num));
-    const [bYear, bMonth, bDay] = b.date.split("-").map((num) => parseInt(num));
-    const aDate = new Date(aYear, aMonth - 1, aDay);
-    const bDate = new Date(bYear, bMonth - 1, bDay);
-    // console.log(`Comparing dates: ${a.date} (${aDate.getTime()}) vs ${b.date} (${bDate.getTime()})`);
-    return bDate.getTime() - aDate.getTime();
-  });
+  // Get the last data date
+  const sortedData = [...data].sort((a, b) => compareDateKeys(b.date, a.date));
   const lastDataDate = sortedData[0].date;
-  // console.log(`Identified last data date: ${lastDataDate}`);
-
-  // Parse last data date (ensure consistent date parsing)
-  const [lastYear, lastMonth, lastDay] = lastDataDate
-    .split("-")
-    .map((num) => parseInt(num));
-  const lastDate = new Date(lastYear, lastMonth - 1, lastDay);
+  const lastDate = parseDateKey(lastDataDate);
 
   // Get yesterday (don't count today since the day isn't over)
-  const now = new Date();
   const yesterday = new Date(
     now.getFullYear(),
     now.getMonth(),
@@ -1294,13 +1659,12 @@ export const calculateMissingDataDays = (
     let isWorkingDay = false;
 
     if (monthlyAdjustment && monthlyAdjustment.workingDays.length > 0) {
-      // Use working days from monthly adjustment
-      isWorkingDay = monthlyAdjustment.workingDays.includes(day);
+      // Use working days from monthly adjustment; data is expected when any
+      // location works
+      isWorkingDay = getAdjustmentWorkingDays(monthlyAdjustment).includes(day);
     } else {
-      // Use standard business days (weekdays only - no weekends)
-      // getDay(): 0=Sunday, 1=Monday, 2=Tuesday, 3=Wednesday, 4=Thursday, 5=Friday, 6=Saturday
-      const dayOfWeek = currentDate.getDay();
-      isWorkingDay = dayOfWeek >= 1 && dayOfWeek <= 5; // Only Monday(1) through Friday(5)
+      // Use standard business days (no weekends or holidays)
+      isWorkingDay = isBusinessDay(currentDate);
     }
 
     const dateStr = currentDate.toISOString().split("T")[0];
@@ -1365,9 +1729,10 @@ export const calculateStakeholderInsights = (
   };
   performanceForecasting: {
     monthEndProjection: {
-      austin: number;
-      charlotte: number;
+      locations: DailyTarget;
       combined: number;
+      lower: number; // Prediction interval around the combined projection
+      upper: number;
       confidence: number;
     };
     quarterProjection: {
@@ -1388,10 +1753,7 @@ export const calculateStakeholderInsights = (
     mitigation: string[];
   };
   competitivePositioning: {
-    marketShare: {
-      austin: number;
-      charlotte: number;
-    };
+    marketShare: DailyTarget;
     growthRate: number;
     benchmarkComparison: "above" | "at" | "below";
   };
@@ -1406,12 +1768,17 @@ export const calculateStakeholderInsights = (
     shortTerm: string[];
     longTerm: string[];
     resourceAllocation: {
-      austin: "increase" | "maintain" | "decrease";
-      charlotte: "increase" | "maintain" | "decrease";
+      locations: Record<LocationId, "increase" | "maintain" | "decrease">;
       reasoning: string;
     };
   };
 } => {
+  const locations = getLocations();
+  const maintainAll = () =>
+    Object.fromEntries(
+      locations.map((loc) => [loc.id, "maintain" as const])
+    );
+
   if (!data || data.length === 0) {
     return {
       executiveSummary: {
@@ -1423,9 +1790,10 @@ export const calculateStakeholderInsights = (
       },
       performanceForecasting: {
         monthEndProjection: {
-          austin: 0,
-          charlotte: 0,
+          locations: createLocationValues(() => 0, locations),
           combined: 0,
+          lower: 0,
+          upper: 0,
           confidence: 0,
         },
         quarterProjection: {
@@ -1446,10 +1814,7 @@ export const calculateStakeholderInsights = (
         mitigation: ["Begin data collection"],
       },
       competitivePositioning: {
-        marketShare: {
-          austin: 0,
-          charlotte: 0,
-        },
+        marketShare: createLocationValues(() => 0, locations),
         growthRate: 0,
         benchmarkComparison: "below",
       },
@@ -1464,8 +1829,7 @@ export const calculateStakeholderInsights = (
         shortTerm: ["Analyze initial trends"],
         longTerm: ["Develop comprehensive strategy"],
         resourceAllocation: {
-          austin: "maintain",
-          charlotte: "maintain",
+          locations: maintainAll(),
           reasoning: "Insufficient data for allocation decisions",
         },
       },
@@ -1473,14 +1837,14 @@ export const calculateStakeholderInsights = (
   }
 
   // Get current date information
-  const now = new Date();
+  const now = getNow();
   const currentMonth = now.getMonth();
   const currentYear = now.getFullYear();
   const currentDay = now.getDate();
 
   // Filter data for MTD (current month only)
   const mtdData = data.filter((entry) => {
-    const entryDate = new Date(entry.date);
+    const entryDate = parseDateKey(entry.date);
     return (
       entryDate.getMonth() === currentMonth &&
       entryDate.getFullYear() === currentYear &&
@@ -1500,9 +1864,10 @@ export const calculateStakeholderInsights = (
       },
       performanceForecasting: {
         monthEndProjection: {
-          austin: 0,
-          charlotte: 0,
+          locations: createLocationValues(() => 0, locations),
           combined: 0,
+          lower: 0,
+          upper: 0,
           confidence: 0,
         },
         quarterProjection: {
@@ -1523,10 +1888,7 @@ export const calculateStakeholderInsights = (
         mitigation: ["Begin data collection for current month"],
       },
       competitivePositioning: {
-        marketShare: {
-          austin: 0,
-          charlotte: 0,
-        },
+        marketShare: createLocationValues(() => 0, locations),
         growthRate: 0,
         benchmarkComparison: "below",
       },
@@ -1541,42 +1903,28 @@ export const calculateStakeholderInsights = (
         shortTerm: ["Monitor daily performance"],
         longTerm: ["Establish consistent tracking"],
         resourceAllocation: {
-          austin: "maintain",
-          charlotte: "maintain",
+          locations: maintainAll(),
           reasoning: "No current month data for allocation decisions",
         },
       },
     };
   }
 
-  // Get monthly adjustment if available
-  const monthlyAdjustment = targetSettings?.monthlyAdjustments?.find(
-    (adj) => adj.month === currentMonth && adj.year === currentYear
-  );
-
-  // Calculate business days using shared function
-  const businessDaysInfo = calculateBusinessDaysInfo(
-    "MTD",
-    monthlyAdjustment,
-    currentDay
-  );
-  const { totalBusinessDays, elapsedBusinessDays, remainingBusinessDays } =
-    businessDaysInfo;
-
   // Get location metrics using MTD data
   const locationMetrics = calculateLocationMetrics(
     mtdData,
     targetSettings,
     undefined,
-    "MTD"
+    "MTD",
+    now
   );
 
   // Calculate current performance (attainment)
   const currentPerformance = locationMetrics.total.attainment;
 
   // Sort MTD data chronologically
-  const sortedData = [...mtdData].sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  const sortedData = [...mtdData].sort((a, b) =>
+    compareDateKeys(a.date, b.date)
   );
 
   // Calculate recent performance (last 5 business days from MTD data)
@@ -1584,7 +1932,7 @@ export const calculateStakeholderInsights = (
   const recentPerformance =
     recentData.length > 0
       ? recentData.reduce(
-          (sum, entry) => sum + (entry.austin || 0) + (entry.charlotte || 0),
+          (sum, entry) => sum + getTotalRevenue(entry, locations),
           0
         ) / recentData.length
       : 0;
@@ -1597,14 +1945,14 @@ export const calculateStakeholderInsights = (
   const firstHalfAvg =
     firstHalf.length > 0
       ? firstHalf.reduce(
-          (sum, entry) => sum + (entry.austin || 0) + (entry.charlotte || 0),
+          (sum, entry) => sum + getTotalRevenue(entry, locations),
           0
         ) / firstHalf.length
       : 0;
   const secondHalfAvg =
     secondHalf.length > 0
       ? secondHalf.reduce(
-          (sum, entry) => sum + (entry.austin || 0) + (entry.charlotte || 0),
+          (sum, entry) => sum + getTotalRevenue(entry, locations),
           0
         ) / secondHalf.length
       : 0;
@@ -1614,50 +1962,13 @@ export const calculateStakeholderInsights = (
       ? ((secondHalfAvg - firstHalfAvg) / firstHalfAvg) * 100
       : 0;
 
-  // Calculate daily averages with more weight on recent performance
-  const recentWeight = 0.7; // 70% weight on recent performance
-  const historicalWeight = 0.3; // 30% weight on historical performance
-
-  const historicalAustinAvg =
-    sortedData.length > 0
-      ? sortedData.reduce((sum, entry) => sum + (entry.austin || 0), 0) /
-        sortedData.length
-      : 0;
-  const historicalCharlotteAvg =
-    sortedData.length > 0
-      ? sortedData.reduce((sum, entry) => sum + (entry.charlotte || 0), 0) /
-        sortedData.length
-      : 0;
-
-  const recentAustinAvg =
-    recentData.length > 0
-      ? recentData.reduce((sum, entry) => sum + (entry.austin || 0), 0) /
-        recentData.length
-      : 0;
-  const recentCharlotteAvg =
-    recentData.length > 0
-      ? recentData.reduce((sum, entry) => sum + (entry.charlotte || 0), 0) /
-        recentData.length
-      : 0;
-
-  const weightedAustinAvg =
-    recentAustinAvg * recentWeight + historicalAustinAvg * historicalWeight;
-  const weightedCharlotteAvg =
-    recentCharlotteAvg * recentWeight +
-    historicalCharlotteAvg * historicalWeight;
-
-  // Apply trend adjustment (capped at ±10%)
-  const cappedTrendVelocity = Math.max(Math.min(trendVelocity, 10), -10);
-  const trendMultiplier = 1 + cappedTrendVelocity / 100;
-
-  // Project end of month revenue
-  const projectedAustin =
-    locationMetrics.austin.revenue +
-    weightedAustinAvg * trendMultiplier * remainingBusinessDays;
-  const projectedCharlotte =
-    locationMetrics.charlotte.revenue +
-    weightedCharlotteAvg * trendMultiplier * remainingBusinessDays;
-  const projectedCombined = projectedAustin + projectedCharlotte;
+  // Project month-end revenue from each location's seasonal forecast
+  const monthEnd = forecastMonthEnd(data, targetSettings, now);
+  const projectedByLocation = createLocationValues(
+    (loc) => monthEnd.locations[loc.id].forecast,
+    locations
+  );
+  const projectedCombined = monthEnd.combined.forecast;
 
   // Calculate month-end projection attainment
   const monthEndProjectionAttainment =
@@ -1665,21 +1976,17 @@ export const calculateStakeholderInsights = (
       ? (projectedCombined / locationMetrics.total.monthlyTarget) * 100
       : 0;
 
-  // Calculate confidence based on multiple factors
+  // Confidence follows the width of the projection's prediction interval:
+  // each 1% of the projection either side of it costs two points
   const performanceStability = calculatePerformanceStability(sortedData);
-  const historicalAccuracy = calculateHistoricalAccuracy(
-    mtdData,
-    targetSettings
-  );
-  const daysRemaining = remainingBusinessDays / totalBusinessDays;
-
-  // Confidence decreases as more days remain and if performance is unstable
-  const baseConfidence = 100 - daysRemaining * 30; // Max 30% reduction based on days remaining
-  const stabilityImpact = performanceStability * 0.3; // Max 30% impact from stability
-  const accuracyImpact = historicalAccuracy * 0.4; // Max 40% impact from historical accuracy
-
+  const relativeMargin =
+    projectedCombined > 0
+      ? (monthEnd.combined.upper - monthEnd.combined.lower) /
+        2 /
+        projectedCombined
+      : 1;
   const confidence = Math.min(
-    Math.max(Math.round(baseConfidence + stabilityImpact + accuracyImpact), 30),
+    Math.max(Math.round(100 - relativeMargin * 200), 30),
     95
   );
 
@@ -1706,7 +2013,7 @@ export const calculateStakeholderInsights = (
   const dailyAverage =
     sortedData.length > 0
       ? sortedData.reduce(
-          (sum, entry) => sum + (entry.austin || 0) + (entry.charlotte || 0),
+          (sum, entry) => sum + getTotalRevenue(entry, locations),
           0
         ) / sortedData.length
       : 0;
@@ -1721,10 +2028,19 @@ export const calculateStakeholderInsights = (
     criticalFactors.push("Performance significantly below target");
   if (trendVelocity < -5) criticalFactors.push("Declining performance trend");
   if (confidence < 60) criticalFactors.push("High performance variability");
-  if (locationMetrics.austin.attainment < 80)
-    criticalFactors.push("Austin location underperforming");
-  if (locationMetrics.charlotte.attainment < 80)
-    criticalFactors.push("Charlotte location underperforming");
+  locations.forEach((loc) => {
+    if (locationMetrics.locations[loc.id].attainment < 80)
+      criticalFactors.push(`${loc.name} location underperforming`);
+  });
+
+  // Gap between a location's attainment and the best of the other locations
+  const gapToBestOther = (locationId: LocationId) => {
+    const others = locations
+      .filter((loc) => loc.id !== locationId)
+      .map((loc) => locationMetrics.locations[loc.id].attainment);
+    if (others.length === 0) return 0;
+    return Math.max(...others) - locationMetrics.locations[locationId].attainment;
+  };
 
   // Generate recommendations based on performance
   const immediate: string[] = [];
@@ -1739,18 +2055,13 @@ export const calculateStakeholderInsights = (
     immediate.push("Investigate root causes of declining performance");
     shortTerm.push("Develop performance recovery strategy");
   }
-  if (
-    locationMetrics.austin.attainment <
-    locationMetrics.charlotte.attainment - 10
-  ) {
-    shortTerm.push("Analyze and address Austin location performance gaps");
-  }
-  if (
-    locationMetrics.charlotte.attainment <
-    locationMetrics.austin.attainment - 10
-  ) {
-    shortTerm.push("Analyze and address Charlotte location performance gaps");
-  }
+  locations.forEach((loc) => {
+    if (gapToBestOther(loc.id) > 10) {
+      shortTerm.push(
+        `Analyze and address ${loc.name} location performance gaps`
+      );
+    }
+  });
 
   longTerm.push("Establish predictive analytics for proactive management");
   longTerm.push("Develop location-specific optimization strategies");
@@ -1765,9 +2076,10 @@ export const calculateStakeholderInsights = (
     },
     performanceForecasting: {
       monthEndProjection: {
-        austin: projectedAustin,
-        charlotte: projectedCharlotte,
+        locations: projectedByLocation,
         combined: projectedCombined,
+        lower: monthEnd.combined.lower,
+        upper: monthEnd.combined.upper,
         confidence,
       },
       quarterProjection: calculateQuarterProjection(mtdData, targetSettings),
@@ -1797,19 +2109,15 @@ export const calculateStakeholderInsights = (
       ],
     },
     competitivePositioning: {
-      marketShare: {
-        austin:
-          locationMetrics.total.revenue > 0
-            ? (locationMetrics.austin.revenue / locationMetrics.total.revenue) *
-              100
-            : 0,
-        charlotte:
+      marketShare: createLocationValues(
+        (loc) =>
           locationMetrics.total.revenue > 0
-            ? (locationMetrics.charlotte.revenue /
+            ? (locationMetrics.locations[loc.id].revenue /
                 locationMetrics.total.revenue) *
               100
             : 0,
-      },
+        locations
+      ),
       growthRate: trendVelocity,
       benchmarkComparison:
         currentPerformance > 105
@@ -1834,19 +2142,17 @@ export const calculateStakeholderInsights = (
       longTerm:
         longTerm.length > 0 ? longTerm : ["Develop long-term growth strategy"],
       resourceAllocation: {
-        austin:
-          locationMetrics.austin.attainment <
-          locationMetrics.charlotte.attainment - 15
-            ? "increase"
-            : "maintain",
-        charlotte:
-          locationMetrics.charlotte.attainment <
-          locationMetrics.austin.attainment - 15
-            ? "increase"
-            : "maintain",
+        locations: Object.fromEntries(
+          locations.map((loc) => [
+            loc.id,
+            gapToBestOther(loc.id) > 15
+              ? ("increase" as const)
+              : ("maintain" as const),
+          ])
+        ),
         reasoning:
           currentPerformance > 100
-            ? "Strong performance across both locations"
+            ? "Strong performance across all locations"
             : "Focus resources on underperforming areas",
       },
     },
@@ -1858,7 +2164,7 @@ const calculatePerformanceStability = (data: RevenueData[]): number => {
   if (data.length < 2) return 0;
 
   const dailyRevenues = data.map(
-    (entry) => (entry.austin || 0) + (entry.charlotte || 0)
+    (entry) => getTotalRevenue(entry)
   );
   const mean =
     dailyRevenues.reduce((sum, val) => sum + val, 0) / dailyRevenues.length;
@@ -1888,32 +2194,6 @@ const calculatePerformanceStability = (data: RevenueData[]): number => {
   return stability;
 };
 
-// Helper function to calculate historical projection accuracy (0-100)
-const calculateHistoricalAccuracy = (
-  data: RevenueData[],
-  targetSettings: TargetSettings
-): number => {
-  // Start with a base accuracy of 80% if we don't have enough historical data
-  if (data.length < 10) return 80;
-
-  // Calculate the average accuracy of our daily projections vs actuals
-  const accuracyScores = data.slice(1).map((entry, index) => {
-    const projected = (data[index].austin || 0) + (data[index].charlotte || 0);
-    const actual = (entry.austin || 0) + (entry.charlotte || 0);
-    const accuracy = Math.min(Math.abs(projected - actual) / projected, 1);
-    return (1 - accuracy) * 100;
-  });
-
-  return Math.max(
-    0,
-    Math.min(
-      100,
-      accuracyScores.reduce((sum, score) => sum + score, 0) /
-        accuracyScores.length
-    )
-  );
-};
-
 // Helper function to determine risk level
 const determineRiskLevel = (
   currentPerformance: number,
@@ -1999,20 +2279,15 @@ export const calculateBusinessIntelligence = (
     growthRate: number;
     efficiency: number;
   };
-  locationAnalysis: {
-    austin: {
-      contribution: number;
-      growth: number;
-      consistency: number;
-      efficiency: number;
-    };
-    charlotte: {
+  locationAnalysis: Record<
+    LocationId,
+    {
       contribution: number;
       growth: number;
       consistency: number;
       efficiency: number;
-    };
-  };
+    }
+  >;
   timeSeriesAnalysis: {
     weeklyTrends: Array<{
       week: string;
@@ -2042,20 +2317,12 @@ export const calculateBusinessIntelligence = (
         growthRate: 0,
         efficiency: 0,
       },
-      locationAnalysis: {
-        austin: {
-          contribution: 0,
-          growth: 0,
-          consistency: 0,
-          efficiency: 0,
-        },
-        charlotte: {
-          contribution: 0,
-          growth: 0,
-          consistency: 0,
-          efficiency: 0,
-        },
-      },
+      locationAnalysis: Object.fromEntries(
+        getLocations().map((loc) => [
+          loc.id,
+          { contribution: 0, growth: 0, consistency: 0, efficiency: 0 },
+        ])
+      ),
       timeSeriesAnalysis: {
         weeklyTrends: [],
         monthlyPatterns: [],
@@ -2070,13 +2337,11 @@ export const calculateBusinessIntelligence = (
   }
 
   // Sort data chronologically
-  const sortedData = [...data].sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-  );
+  const sortedData = [...data].sort((a, b) => compareDateKeys(a.date, b.date));
 
   // Performance Metrics
   const dailyRevenues = sortedData.map(
-    (entry) => (entry.austin || 0) + (entry.charlotte || 0)
+    (entry) => getTotalRevenue(entry)
   );
   const averageDailyRevenue =
     dailyRevenues.reduce((sum, val) => sum + val, 0) / dailyRevenues.length;
@@ -2104,12 +2369,12 @@ export const calculateBusinessIntelligence = (
   // Growth rate calculation
   const firstWeekAvg =
     sortedData.slice(0, 7).reduce((sum, entry) => {
-      return sum + (entry.austin || 0) + (entry.charlotte || 0);
+      return sum + getTotalRevenue(entry);
     }, 0) / Math.min(7, sortedData.length);
 
   const lastWeekAvg =
     sortedData.slice(-7).reduce((sum, entry) => {
-      return sum + (entry.austin || 0) + (entry.charlotte || 0);
+      return sum + getTotalRevenue(entry);
     }, 0) / Math.min(7, sortedData.length);
 
   const growthRate =
@@ -2117,42 +2382,33 @@ export const calculateBusinessIntelligence = (
 
   // Efficiency calculation (revenue per target ratio)
   const totalRevenue = dailyRevenues.reduce((sum, val) => sum + val, 0);
-  const totalTarget =
-    sortedData.length *
-    ((targetSettings?.dailyTargets?.austin || TARGETS.austin) +
-      (targetSettings?.dailyTargets?.charlotte || TARGETS.charlotte));
+  const totalTarget = sortedData.length * getCombinedDailyTarget(targetSettings);
   const efficiency = totalTarget > 0 ? (totalRevenue / totalTarget) * 100 : 0;
 
   // Location Analysis
-  const austinRevenues = sortedData.map((entry) => entry.austin || 0);
-  const charlotteRevenues = sortedData.map((entry) => entry.charlotte || 0);
-
-  const austinTotal = austinRevenues.reduce((sum, val) => sum + val, 0);
-  const charlotteTotal = charlotteRevenues.reduce((sum, val) => sum + val, 0);
-
-  const locationAnalysis = {
-    austin: {
-      contribution: totalRevenue > 0 ? (austinTotal / totalRevenue) * 100 : 0,
-      growth: calculateLocationGrowth(austinRevenues),
-      consistency: calculateLocationConsistency(austinRevenues),
-      efficiency: calculateLocationEfficiency(
-        austinTotal,
-        sortedData.length *
-          (targetSettings?.dailyTargets?.austin || TARGETS.austin)
-      ),
-    },
-    charlotte: {
-      contribution:
-        totalRevenue > 0 ? (charlotteTotal / totalRevenue) * 100 : 0,
-      growth: calculateLocationGrowth(charlotteRevenues),
-      consistency: calculateLocationConsistency(charlotteRevenues),
-      efficiency: calculateLocationEfficiency(
-        charlotteTotal,
-        sortedData.length *
-          (targetSettings?.dailyTargets?.charlotte || TARGETS.charlotte)
-      ),
-    },
-  };
+  const locationAnalysis = Object.fromEntries(
+    getLocations().map((loc) => {
+      const revenues = sortedData.map((entry) =>
+        getLocationRevenue(entry, loc.id)
+      );
+      const locationTotal = revenues.reduce((sum, val) => sum + val, 0);
+      return [
+        loc.id,
+        {
+          contribution:
+            totalRevenue > 0 ? (locationTotal / totalRevenue) * 100 : 0,
+          growth: calculateLocationGrowth(revenues),
+          consistency: calculateLocationConsistency(revenues),
+          efficiency: calculateLocationEfficiency(
+            locationTotal,
+            sortedData.length *
+              (getDailyTargetsOn(targetSettings, getNow())?.[loc.id] ||
+                loc.defaultDailyTarget)
+          ),
+        },
+      ];
+    })
+  );
 
   // Time Series Analysis
   const weeklyTrends = calculateWeeklyTrends(sortedData, targetSettings);
@@ -2184,6 +2440,15 @@ export const calculateBusinessIntelligence = (
 };
 
 // Helper functions for location analysis
+const getCombinedDailyTarget = (targetSettings?: TargetSettings): number =>
+  getLocations().reduce(
+    (sum, loc) =>
+      sum +
+      (getDailyTargetsOn(targetSettings, getNow())?.[loc.id] ||
+        loc.defaultDailyTarget),
+    0
+  );
+
 const calculateLocationGrowth = (revenues: number[]): number => {
   if (revenues.length < 2) return 0;
   const firstWeek = revenues.slice(0, 7);
@@ -2223,15 +2488,13 @@ const calculateWeeklyTrends = (
   growth: number;
 }> => {
   const trends = [];
-  const dailyTarget =
-    (targetSettings?.dailyTargets?.austin || TARGETS.austin) +
-    (targetSettings?.dailyTargets?.charlotte || TARGETS.charlotte);
+  const dailyTarget = getCombinedDailyTarget(targetSettings);
 
   for (let i = 0; i < data.length; i += 7) {
     const weekData = data.slice(i, i + 7);
     if (weekData.length > 0) {
       const weekRevenue = weekData.reduce(
-        (sum, entry) => sum + (entry.austin || 0) + (entry.charlotte || 0),
+        (sum, entry) => sum + getTotalRevenue(entry),
         0
       );
       const weekAttainment =
@@ -2242,8 +2505,7 @@ const calculateWeeklyTrends = (
           ? data
               .slice(Math.max(0, i - 7), i)
               .reduce(
-                (sum, entry) =>
-                  sum + (entry.austin || 0) + (entry.charlotte || 0),
+                (sum, entry) => sum + getTotalRevenue(entry),
                 0
               )
           : 0;
@@ -2280,14 +2542,12 @@ const calculateMonthlyPatterns = (
     attainmentRate: number;
   }> = [];
   const dayGroups: { [key: number]: number[] } = {};
-  const dailyTarget =
-    (targetSettings?.dailyTargets?.austin || TARGETS.austin) +
-    (targetSettings?.dailyTargets?.charlotte || TARGETS.charlotte);
+  const dailyTarget = getCombinedDailyTarget(targetSettings);
 
   data.forEach((entry) => {
-    const day = new Date(entry.date).getDate();
+    const day = parseDateKey(entry.date).getDate();
     if (!dayGroups[day]) dayGroups[day] = [];
-    dayGroups[day].push((entry.austin || 0) + (entry.charlotte || 0));
+    dayGroups[day].push(getTotalRevenue(entry));
   });
 
   Object.entries(dayGroups).forEach(([day, revenues]) => {
@@ -2317,12 +2577,10 @@ const calculatePredictiveIndicators = (
   riskFactors: string[];
   opportunities: string[];
 } => {
-  const dailyTarget =
-    (targetSettings?.dailyTargets?.austin || TARGETS.austin) +
-    (targetSettings?.dailyTargets?.charlotte || TARGETS.charlotte);
+  const dailyTarget = getCombinedDailyTarget(targetSettings);
 
   const dailyRevenues = data.map(
-    (entry) => (entry.austin || 0) + (entry.charlotte || 0)
+    (entry) => getTotalRevenue(entry)
   );
   const avgRevenue =
     dailyRevenues.reduce((sum, val) => sum + val, 0) / dailyRevenues.length;
@@ -2347,17 +2605,22 @@ const calculatePredictiveIndicators = (
   }
 
   // Check location-specific opportunities
-  const austinRevenues = data.map((entry) => entry.austin || 0);
-  const charlotteRevenues = data.map((entry) => entry.charlotte || 0);
-  const austinGrowth = calculateLocationGrowth(austinRevenues);
-  const charlotteGrowth = calculateLocationGrowth(charlotteRevenues);
+  const locationGrowth = getLocations().map((loc) => ({
+    name: loc.name,
+    growth: calculateLocationGrowth(
+      data.map((entry) => getLocationRevenue(entry, loc.id))
+    ),
+  }));
 
-  if (austinGrowth > charlotteGrowth + 5) {
-    opportunities.push("Apply Austin growth strategies to Charlotte");
-  }
-  if (charlotteGrowth > austinGrowth + 5) {
-    opportunities.push("Apply Charlotte growth strategies to Austin");
-  }
+  locationGrowth.forEach((leader) => {
+    locationGrowth.forEach((other) => {
+      if (leader.growth > other.growth + 5) {
+        opportunities.push(
+          `Apply ${leader.name} growth strategies to ${other.name}`
+        );
+      }
+    });
+  });
 
   return {
     probabilityOfTarget,
@@ -2437,8 +2700,8 @@ export const validateDataConsistency = (
 
   // Check for data gaps
   if (dates.length > 1) {
-    const startDate = new Date(dates[0]);
-    const endDate = new Date(dates[dates.length - 1]);
+    const startDate = parseDateKey(dates[0]);
+    const endDate = parseDateKey(dates[dates.length - 1]);
     const expectedBusinessDays = countBusinessDays(startDate, endDate);
 
     if (filteredData.length < expectedBusinessDays * 0.8) {
@@ -2460,67 +2723,45 @@ export const validateDataConsistency = (
     );
 
     if (monthlyAdjustment && periodInfo.hasMonthlyAdjustment) {
-      const expectedAustinMonthly =
-        (monthlyAdjustment.austin ??
-          targetSettings.dailyTargets?.austin ??
-          TARGETS.austin) * periodInfo.workingDaysInPeriod;
-      const expectedCharlotteMonthly =
-        (monthlyAdjustment.charlotte ??
-          targetSettings.dailyTargets?.charlotte ??
-          TARGETS.charlotte) * periodInfo.workingDaysInPeriod;
-
-      if (
-        Math.abs(metrics.austin.monthlyTarget - expectedAustinMonthly) > 0.01
-      ) {
-        errors.push(
-          `Austin monthly target mismatch: calculated ${metrics.austin.monthlyTarget}, expected ${expectedAustinMonthly}`
-        );
-        monthlyGoalConsistency = false;
-      }
-
-      if (
-        Math.abs(metrics.charlotte.monthlyTarget - expectedCharlotteMonthly) >
-        0.01
-      ) {
-        errors.push(
-          `Charlotte monthly target mismatch: calculated ${metrics.charlotte.monthlyTarget}, expected ${expectedCharlotteMonthly}`
-        );
-        monthlyGoalConsistency = false;
-      }
+      getLocations().forEach((loc) => {
+        const expectedMonthly =
+          (monthlyAdjustment.targets?.[loc.id] ??
+            getDailyTargetsOn(targetSettings, getNow())?.[loc.id] ??
+            loc.defaultDailyTarget) *
+          getAdjustmentWorkingDays(monthlyAdjustment, loc.id).length;
+        const calculatedMonthly = metrics.locations[loc.id].monthlyTarget;
+
+        if (Math.abs(calculatedMonthly - expectedMonthly) > 0.01) {
+          errors.push(
+            `${loc.name} monthly target mismatch: calculated ${calculatedMonthly}, expected ${expectedMonthly}`
+          );
+          monthlyGoalConsistency = false;
+        }
+      });
     }
   }
 
   // Validate target calculation accuracy
   let targetCalculationAccuracy = true;
 
-  if (
-    metrics.austin.target > 0 &&
-    (metrics.austin.attainment < 0 || metrics.austin.attainment > 1000)
-  ) {
-    warnings.push(
-      `Austin attainment percentage seems unusual: ${metrics.austin.attainment.toFixed(
-        1
-      )}%`
-    );
-    targetCalculationAccuracy = false;
-  }
-
-  if (
-    metrics.charlotte.target > 0 &&
-    (metrics.charlotte.attainment < 0 || metrics.charlotte.attainment > 1000)
-  ) {
-    warnings.push(
-      `Charlotte attainment percentage seems unusual: ${metrics.charlotte.attainment.toFixed(
-        1
-      )}%`
-    );
-    targetCalculationAccuracy = false;
-  }
+  getLocations().forEach((loc) => {
+    const locationMetric = metrics.locations[loc.id];
+    if (
+      locationMetric.target > 0 &&
+      (locationMetric.attainment < 0 || locationMetric.attainment > 1000)
+    ) {
+      warnings.push(
+        `${loc.name} attainment percentage seems unusual: ${locationMetric.attainment.toFixed(
+          1
+        )}%`
+      );
+      targetCalculationAccuracy = false;
+    }
+  });
 
   // Check for negative revenue values
   const negativeRevenue = filteredData.filter(
-    (item) =>
-      (item.austin && item.austin < 0) || (item.charlotte && item.charlotte < 0)
+    (item) => Object.values(item.revenue || {}).some((value) => value < 0)
   );
 
   if (negativeRevenue.length > 0) {
@@ -2530,22 +2771,17 @@ export const validateDataConsistency = (
   }
 
   // Validate location filtering
-  if (filters.location === "Austin") {
-    const hasCharlotteRevenue = filteredData.some(
-      (item) => item.charlotte && item.charlotte > 0
+  const selectedLocation =
+    filters.location !== "Combined" ? findLocation(filters.location) : undefined;
+  if (selectedLocation) {
+    const otherLocation = getLocations().find(
+      (loc) =>
+        loc.id !== selectedLocation.id &&
+        filteredData.some((item) => getLocationRevenue(item, loc.id) > 0)
     );
-    if (hasCharlotteRevenue) {
+    if (otherLocation) {
       errors.push(
-        "Austin location filter not working correctly - Charlotte revenue found"
-      );
-    }
-  } else if (filters.location === "Charlotte") {
-    const hasAustinRevenue = filteredData.some(
-      (item) => item.austin && item.austin > 0
-    );
-    if (hasAustinRevenue) {
-      errors.push(
-        "Charlotte location filter not working correctly - Austin revenue found"
+        `${selectedLocation.name} location filter not working correctly - ${otherLocation.name} revenue found`
       );
     }
   }
@@ -2567,9 +2803,9 @@ export const validateDataConsistency = (
 // Optimized monthly goal recalculation function
 export const recalculateMonthlyGoals = (
   targetSettings: TargetSettings,
-  forceRecalculate: boolean = false
+  forceRecalculate: boolean = false,
+  now: Date = getNow()
 ): TargetSettings => {
-  const now = new Date();
   const currentMonth = now.getMonth();
   const currentYear = now.getFullYear();
 
@@ -2592,85 +2828,15 @@ export const recalculateMonthlyGoals = (
       !adjustment.workingDays ||
       adjustment.workingDays.length === 0
     ) {
-      // Recalculate working days for current month
-      const firstDay = new Date(currentYear, currentMonth, 1);
-      const lastDay = new Date(currentYear, currentMonth + 1, 0);
-      const workingDays: number[] = [];
-
-      let currentDay = new Date(firstDay);
-      while (currentDay <= lastDay) {
-        // Skip weekends
-        if (currentDay.getDay() !== 0 && currentDay.getDay() !== 6) {
-          workingDays.push(currentDay.getDate());
-        }
-        currentDay.setDate(currentDay.getDate() + 1);
-      }
-
-      // Update the adjustment
+      // Recalculate working days for current month, skipping weekends and
+      // holidays
+      const { locationWorkingDays: _previous, ...rest } = adjustment;
       updatedSettings.monthlyAdjustments[currentAdjustmentIndex] = {
-        ...adjustment,
-        workingDays,
+        ...rest,
+        ...getDefaultWorkingDays(currentYear, currentMonth),
       };
     }
   }
 
   return updatedSettings;
 };
-
-export const forecastWithLinearRegression = (
-  monthlyTrends: any[],
-  futureAgentCounts: { [key: string]: number }
-) => {
-  const historicalData = monthlyTrends.filter(
-    (entry) => entry.currentYear && entry.agentCount
-  );
-
-  if (historicalData.length < 2) {
-    return []; // Not enough data for regression
-  }
-
-  // Calculate revenue per agent
-  const dataForRegression = historicalData.map((entry) => ({
-    agents: entry.agentCount,
-    revenue: entry.currentYear,
-    revenuePerAgent: entry.currentYear / entry.agentCount,
-  }));
-
-  // Perform linear regression: y = mx + b
-  // where y = revenuePerAgent, x = index (time)
-  const n = dataForRegression.length;
-  const sumX = (n * (n - 1)) / 2;
-  const sumY = dataForRegression.reduce(
-    (sum, entry) => sum + entry.revenuePerAgent,
-    0
-  );
-  const sumXY = dataForRegression.reduce(
-    (sum, entry, index) => sum + index * entry.revenuePerAgent,
-    0
-  );
-  const sumX2 = dataForRegression.reduce(
-    (sum, _, index) => sum + index * index,
-    0
-  );
-
-  const m = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX); // slope
-  const b = (sumY - m * sumX) / n; // intercept
-
-  const forecast = Object.keys(futureAgentCounts).map((key, index) => {
-    const [year, monthStr] = key.split("-");
-    const month = parseInt(monthStr, 10);
-    const futureIndex = n + index;
-    const predictedRevenuePerAgent = m * futureIndex + b;
-    const agentCount = futureAgentCounts[key];
-    const predictedRevenue = predictedRevenuePerAgent * agentCount;
-
-    return {
-      year: parseInt(year, 10),
-      month,
-      agentCount,
-      predictedRevenue,
-    };
-  });
-
-  return forecast;
-};
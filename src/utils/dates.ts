@@ -0,0 +1,63 @@
+import { addDays, format, isValid, parseISO } from "date-fns";
+import { toZonedTime } from "date-fns-tz";
+import { findLocation, getLocations } from "./locations";
+
+// Revenue and lead entries are keyed by calendar date (yyyy-MM-dd): the
+// business day at the site, not an instant. Keys are turned into Dates at
+// local midnight so getDate, getMonth and date-fns all read the same day;
+// new Date("yyyy-MM-dd") is UTC midnight, the previous day in US time zones.
+
+export const DATE_KEY_FORMAT = "yyyy-MM-dd";
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDateKey = (value: string): boolean =>
+  DATE_KEY_PATTERN.test(value) && isValid(parseISO(value));
+
+// Local midnight of a yyyy-MM-dd date
+export const parseDateKey = (date: string): Date => parseISO(date);
+
+export const formatDateKey = (date: Date): string =>
+  format(date, DATE_KEY_FORMAT);
+
+export const addDaysToKey = (date: string, days: number): string =>
+  formatDateKey(addDays(parseDateKey(date), days));
+
+// Keys sort as strings in date order
+export const compareDateKeys = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock time in a time zone, as a Date whose local fields read it;
+// zones that cannot be read fall back to this device's
+const zonedTime = (instant: Date, timeZone: string): Date =>
+  isValidTimeZone(timeZone) ? toZonedTime(instant, timeZone) : instant;
+
+// Current wall-clock time at a location (by id, name or lead site key).
+// Without one, the earliest of the locations' times, so a business day
+// only counts as over once every site has closed it.
+export const getBusinessNow = (
+  location?: string,
+  instant: Date = new Date()
+): Date => {
+  const selected = findLocation(location);
+  const zones = selected
+    ? [selected.timeZone]
+    : getLocations().map((loc) => loc.timeZone);
+  const times = zones.map((timeZone) => zonedTime(instant, timeZone));
+  return times.length > 0
+    ? times.reduce((earliest, time) => (time < earliest ? time : earliest))
+    : instant;
+};
+
+// Today's business date at a location, or at the latest-closing one
+export const getBusinessDate = (location?: string): string =>
+  formatDateKey(getBusinessNow(location));
@@ -0,0 +1,135 @@
+import { addDays, addWeeks } from "date-fns";
+import {
+  FiscalCalendar,
+  FiscalPeriodPattern,
+  TargetSettings,
+  TimeFrame,
+} from "../types/revenue";
+import { formatDateKey } from "./dates";
+
+// Used for the fiscal time frames until a fiscal calendar has been saved
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendar = {
+  startMonth: 0,
+  weekStartsOn: 0,
+  pattern: "4-4-5",
+};
+
+export const FISCAL_PERIOD_PATTERNS: FiscalPeriodPattern[] = [
+  "4-4-5",
+  "4-5-4",
+  "5-4-4",
+];
+
+const PATTERN_WEEKS: Record<FiscalPeriodPattern, number[]> = {
+  "4-4-5": [4, 4, 5],
+  "4-5-4": [4, 5, 4],
+  "5-4-4": [5, 4, 4],
+};
+
+export type FiscalTimeFrame = Extract<TimeFrame, "FPTD" | "FQTD" | "FYTD">;
+
+export const isFiscalTimeFrame = (
+  timeFrame: TimeFrame
+): timeFrame is FiscalTimeFrame =>
+  timeFrame === "FPTD" || timeFrame === "FQTD" || timeFrame === "FYTD";
+
+export interface FiscalPeriod {
+  fiscalYear: number;
+  period: number; // 1-12
+  quarter: number; // 1-4
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd, included
+}
+
+// First and last days of a fiscal period, quarter or year
+export interface FiscalRange {
+  label: string;
+  start: string;
+  end: string;
+}
+
+export const getFiscalCalendar = (
+  targetSettings?: TargetSettings
+): FiscalCalendar => targetSettings?.fiscalCalendar ?? DEFAULT_FISCAL_CALENDAR;
+
+// First day of a fiscal year. Years starting in January are named for the
+// calendar year they start in, others for the one they end in.
+export const getFiscalYearStart = (
+  fiscalYear: number,
+  calendar: FiscalCalendar
+): Date => {
+  const calendarYear =
+    calendar.startMonth === 0 ? fiscalYear : fiscalYear - 1;
+  const first = new Date(calendarYear, calendar.startMonth, 1);
+  return addDays(first, (calendar.weekStartsOn - first.getDay() + 7) % 7);
+};
+
+export const getFiscalPeriods = (
+  fiscalYear: number,
+  calendar: FiscalCalendar
+): FiscalPeriod[] => {
+  const weeks = PATTERN_WEEKS[calendar.pattern];
+  const yearEnd = addDays(getFiscalYearStart(fiscalYear + 1, calendar), -1);
+  let start = getFiscalYearStart(fiscalYear, calendar);
+
+  return Array.from({ length: 12 }, (_, index) => {
+    const end =
+      index === 11 ? yearEnd : addDays(addWeeks(start, weeks[index % 3]), -1);
+    const period: FiscalPeriod = {
+      fiscalYear,
+      period: index + 1,
+      quarter: Math.floor(index / 3) + 1,
+      start: formatDateKey(start),
+      end: formatDateKey(end),
+    };
+    start = addDays(end, 1);
+    return period;
+  });
+};
+
+export const getFiscalPeriodOn = (
+  date: Date,
+  calendar: FiscalCalendar
+): FiscalPeriod => {
+  const key = formatDateKey(date);
+  // The fiscal year starting in the date's calendar year, or the one before
+  let fiscalYear = date.getFullYear() + (calendar.startMonth === 0 ? 0 : 1);
+  if (key < formatDateKey(getFiscalYearStart(fiscalYear, calendar))) {
+    fiscalYear--;
+  }
+  const periods = getFiscalPeriods(fiscalYear, calendar);
+  return (
+    periods.find((period) => key >= period.start && key <= period.end) ??
+    periods[periods.length - 1]
+  );
+};
+
+export const formatFiscalPeriod = (period: FiscalPeriod): string =>
+  `FY${period.fiscalYear} P${period.period}`;
+
+// The whole fiscal period, quarter or year a date falls in
+export const getFiscalRange = (
+  timeFrame: FiscalTimeFrame,
+  date: Date,
+  calendar: FiscalCalendar
+): FiscalRange => {
+  const current = getFiscalPeriodOn(date, calendar);
+  const periods = getFiscalPeriods(current.fiscalYear, calendar).filter(
+    (period) =>
+      timeFrame === "FYTD" ||
+      (timeFrame === "FQTD"
+        ? period.quarter === current.quarter
+        : period.period === current.period)
+  );
+  const label =
+    timeFrame === "FYTD"
+      ? `FY${current.fiscalYear}`
+      : timeFrame === "FQTD"
+      ? `FY${current.fiscalYear} Q${current.quarter}`
+      : formatFiscalPeriod(current);
+  return {
+    label,
+    start: periods[0].start,
+    end: periods[periods.length - 1].end,
+  };
+};
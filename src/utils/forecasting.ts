@@ -0,0 +1,487 @@
+import { LocationId, RevenueData, TargetSettings } from "../types/revenue";
+import {
+  excludeDeletedEntries,
+  isLocationWorkingDay,
+  PeriodRange,
+} from "./calculations";
+import { addDaysToKey, formatDateKey, parseDateKey } from "./dates";
+import { findLocation, getLocationRevenue, getLocations } from "./locations";
+import {
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  startOfMonth,
+} from "date-fns";
+import { getNow } from "./asOf";
+import {
+  formatFiscalPeriod,
+  getFiscalCalendar,
+  getFiscalPeriodOn,
+} from "./fiscalCalendar";
+
+// Daily revenue is forecast per location with damped additive Holt-Winters
+// smoothing over a day-of-week season, after dividing out month-of-year
+// factors once a year of history has been seen. Days a location does not
+// work are forecast as zero and left out of the fit; working days without
+// an entry are skipped. Prediction intervals come from the spread of the
+// one-step-ahead errors, carried forward through the model.
+
+const SEASON_LENGTH = 7;
+const HISTORY_DAYS = 730;
+const MIN_OBSERVATIONS = 14; // Fewer days are forecast at their average
+const DAMPING = 0.98;
+
+// Smoothing weights tried for each location; the best one-step fit wins
+const ALPHAS = [0.1, 0.3, 0.5];
+const BETAS = [0.01, 0.05];
+const GAMMAS = [0.05, 0.15, 0.3];
+
+export type PredictionLevel = 0.8 | 0.9 | 0.95;
+export const DEFAULT_PREDICTION_LEVEL: PredictionLevel = 0.8;
+
+const Z_SCORES: Record<PredictionLevel, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+};
+
+// Revenue over a period: what has been entered through today plus the
+// forecast for the rest, with the prediction interval around the total
+export interface RevenueForecast {
+  actual: number;
+  forecast: number; // Expected total, including the actual revenue
+  lower: number;
+  upper: number;
+}
+
+export interface PeriodForecast extends RevenueForecast, PeriodRange {
+  label: string;
+}
+
+export interface MonthEndForecast {
+  locations: Record<LocationId, RevenueForecast>;
+  combined: RevenueForecast;
+}
+
+interface HistoryDay {
+  key: string;
+  dayOfWeek: number;
+  month: number;
+  value?: number; // Working days with an entry only
+}
+
+interface LocationModel {
+  level: number;
+  trend: number;
+  seasonal: number[];
+  alpha: number;
+  beta: number;
+  gamma: number;
+  sigma: number; // Standard deviation of the one-step errors
+  monthFactors: number[];
+  isWorkingDay: (key: string) => boolean;
+  actuals: Map<string, number>;
+  // Last day counted as entered: today once it has an entry, otherwise
+  // yesterday, so an unentered today is forecast
+  lastActual: string;
+}
+
+// Mean and variance of a location's revenue over the days still to come
+interface FutureEstimate {
+  actual: number;
+  mean: number;
+  variance: number;
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+
+// phi + phi^2 + ... + phi^h
+const dampedSum = (h: number) =>
+  (DAMPING * (1 - Math.pow(DAMPING, h))) / (1 - DAMPING);
+
+// Each calendar month's average working-day revenue relative to the
+// average month, kept within 0.5-1.5; 1 until a year has been seen
+const getMonthFactors = (history: HistoryDay[]): number[] => {
+  const observed = history.filter((day) => day.value !== undefined);
+  const factors = Array<number>(12).fill(1);
+  if (
+    observed.length === 0 ||
+    differenceInCalendarDays(
+      parseDateKey(observed[observed.length - 1].key),
+      parseDateKey(observed[0].key)
+    ) < 365
+  ) {
+    return factors;
+  }
+
+  const byMonth = new Map<string, number[]>();
+  observed.forEach((day) => {
+    const key = day.key.slice(0, 7);
+    byMonth.set(key, [...(byMonth.get(key) ?? []), day.value!]);
+  });
+  const monthMeans = [...byMonth.entries()].map(([key, values]) => ({
+    month: parseDateKey(`${key}-01`).getMonth(),
+    mean: average(values),
+  }));
+  const overall = average(monthMeans.map((entry) => entry.mean));
+  if (overall <= 0) return factors;
+
+  return factors.map((factor, month) => {
+    const means = monthMeans.filter((entry) => entry.month === month);
+    if (means.length === 0) return factor;
+    const ratio = average(means.map((entry) => entry.mean)) / overall;
+    return Math.min(Math.max(ratio, 0.5), 1.5);
+  });
+};
+
+// Run the smoothing over the history, returning the final state and the
+// squared one-step errors after the warm-up days
+const runSmoothing = (
+  history: HistoryDay[],
+  monthFactors: number[],
+  alpha: number,
+  beta: number,
+  gamma: number
+) => {
+  const adjusted = (day: HistoryDay) => day.value! / monthFactors[day.month];
+  const observed = history.filter((day) => day.value !== undefined);
+
+  // Start from the average of the first observations and how each weekday
+  // differed from it over the first four weeks
+  let level = average(observed.slice(0, MIN_OBSERVATIONS).map(adjusted));
+  let trend = 0;
+  const seasonal = Array.from({ length: SEASON_LENGTH }, (_, dayOfWeek) => {
+    const values = history
+      .slice(0, SEASON_LENGTH * 4)
+      .filter((day) => day.value !== undefined && day.dayOfWeek === dayOfWeek)
+      .map(adjusted);
+    return values.length > 0 ? average(values) - level : 0;
+  });
+
+  let seen = 0;
+  let squaredErrors = 0;
+  let errorCount = 0;
+  history.forEach((day) => {
+    if (day.value === undefined) {
+      level += DAMPING * trend;
+      trend *= DAMPING;
+      return;
+    }
+    const error =
+      adjusted(day) - (level + DAMPING * trend + seasonal[day.dayOfWeek]);
+    level += DAMPING * trend + alpha * error;
+    trend = DAMPING * trend + beta * error;
+    seasonal[day.dayOfWeek] += gamma * error;
+
+    if (seen >= MIN_OBSERVATIONS) {
+      squaredErrors += error * error;
+      errorCount++;
+    }
+    seen++;
+  });
+
+  return { level, trend, seasonal, squaredErrors, errorCount };
+};
+
+const fitLocationModel = (
+  entries: RevenueData[],
+  locationId: LocationId,
+  targetSettings: TargetSettings,
+  today: string
+): LocationModel | null => {
+  const actuals = new Map(
+    entries.map((entry) => [
+      entry.date,
+      getLocationRevenue(entry, locationId),
+    ])
+  );
+  const workingDays = new Map<string, boolean>();
+  const isWorkingDay = (key: string) => {
+    if (!workingDays.has(key)) {
+      workingDays.set(
+        key,
+        isLocationWorkingDay(parseDateKey(key), locationId, targetSettings)
+      );
+    }
+    return workingDays.get(key)!;
+  };
+
+  const lastActual = actuals.has(today) ? today : addDaysToKey(today, -1);
+  const earliest = addDaysToKey(today, 1 - HISTORY_DAYS);
+  const first = entries.find((entry) => entry.date >= earliest)?.date;
+  if (!first) return null;
+
+  const history: HistoryDay[] = [];
+  for (let key = first; key <= lastActual; key = addDaysToKey(key, 1)) {
+    const date = parseDateKey(key);
+    history.push({
+      key,
+      dayOfWeek: date.getDay(),
+      month: date.getMonth(),
+      value: isWorkingDay(key) ? actuals.get(key) : undefined,
+    });
+  }
+
+  const monthFactors = getMonthFactors(history);
+  const observed = history
+    .filter((day) => day.value !== undefined)
+    .map((day) => day.value! / monthFactors[day.month]);
+  if (observed.length === 0) return null;
+
+  // Too little history for a season: the average day, with the spread of
+  // the days seen (or a quarter of the average with only one)
+  if (observed.length < MIN_OBSERVATIONS) {
+    const level = average(observed);
+    const variance =
+      observed.length > 1
+        ? observed.reduce((sum, value) => sum + (value - level) ** 2, 0) /
+          (observed.length - 1)
+        : (level * 0.25) ** 2;
+    return {
+      level,
+      trend: 0,
+      seasonal: Array<number>(SEASON_LENGTH).fill(0),
+      alpha: 0,
+      beta: 0,
+      gamma: 0,
+      sigma: Math.sqrt(variance),
+      monthFactors,
+      isWorkingDay,
+      actuals,
+      lastActual,
+    };
+  }
+
+  let best: LocationModel | null = null;
+  let bestError = Infinity;
+  ALPHAS.forEach((alpha) =>
+    BETAS.forEach((beta) =>
+      GAMMAS.forEach((gamma) => {
+        const run = runSmoothing(history, monthFactors, alpha, beta, gamma);
+        const meanError =
+          run.errorCount > 0 ? run.squaredErrors / run.errorCount : 0;
+        if (meanError < bestError) {
+          bestError = meanError;
+          best = {
+            level: run.level,
+            trend: run.trend,
+            seasonal: run.seasonal,
+            alpha,
+            beta,
+            gamma,
+            sigma: Math.sqrt(meanError),
+            monthFactors,
+            isWorkingDay,
+            actuals,
+            lastActual,
+          };
+        }
+      })
+    )
+  );
+  return best;
+};
+
+// Forecast mean and variance of a location's revenue over a range: days
+// through the last entered day count as entered, later working days
+// (today included until it is entered) are forecast
+const estimateRange = (
+  model: LocationModel,
+  range: PeriodRange
+): FutureEstimate => {
+  const origin = model.lastActual;
+  let actual = 0;
+  // Days after the last entered day in the range that the location works,
+  // as the number of days ahead, with the month factor of each
+  const ahead: { h: number; factor: number; mean: number }[] = [];
+
+  for (let key = range.start; key <= range.end; key = addDaysToKey(key, 1)) {
+    if (key <= origin) {
+      actual += model.actuals.get(key) ?? 0;
+      continue;
+    }
+    if (!model.isWorkingDay(key)) continue;
+    const date = parseDateKey(key);
+    const h = differenceInCalendarDays(date, parseDateKey(origin));
+    const factor = model.monthFactors[date.getMonth()];
+    const mean =
+      (model.level +
+        dampedSum(h) * model.trend +
+        model.seasonal[date.getDay()]) *
+      factor;
+    ahead.push({ h, factor, mean: Math.max(mean, 0) });
+  }
+
+  if (ahead.length === 0) return { actual, mean: 0, variance: 0 };
+
+  // Working days from the first forecast day to the range's last each bring
+  // a new error, which carries into every later day of the range through
+  // the level, trend and weekday of the model
+  const lastH = ahead[ahead.length - 1].h;
+  const carry = (j: number) =>
+    model.alpha +
+    model.beta * dampedSum(j) +
+    (j % SEASON_LENGTH === 0 ? model.gamma : 0);
+  const inRange = new Map(ahead.map((day) => [day.h, day.factor]));
+
+  let weights = 0;
+  for (let k = 1; k <= lastH; k++) {
+    if (!model.isWorkingDay(addDaysToKey(origin, k))) continue;
+    let weight = inRange.get(k) ?? 0;
+    ahead.forEach((day) => {
+      if (day.h > k) weight += day.factor * carry(day.h - k);
+    });
+    weights += weight * weight;
+  }
+
+  return {
+    actual,
+    mean: ahead.reduce((sum, day) => sum + day.mean, 0),
+    variance: model.sigma * model.sigma * weights,
+  };
+};
+
+// Locations are treated as independent when their forecasts are added up
+const toForecast = (
+  estimates: FutureEstimate[],
+  level: PredictionLevel
+): RevenueForecast => {
+  const actual = estimates.reduce((sum, estimate) => sum + estimate.actual, 0);
+  const forecast =
+    actual + estimates.reduce((sum, estimate) => sum + estimate.mean, 0);
+  const margin =
+    Z_SCORES[level] *
+    Math.sqrt(estimates.reduce((sum, estimate) => sum + estimate.variance, 0));
+  return {
+    actual,
+    forecast,
+    lower: Math.max(forecast - margin, actual),
+    upper: forecast + margin,
+  };
+};
+
+const fitModels = (
+  entries: RevenueData[],
+  targetSettings: TargetSettings,
+  today: string,
+  locationIds: LocationId[]
+): Map<LocationId, LocationModel> => {
+  const history = excludeDeletedEntries(entries)
+    .filter((entry) => entry.date <= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const models = new Map<LocationId, LocationModel>();
+  locationIds.forEach((locationId) => {
+    const model = fitLocationModel(
+      history,
+      locationId,
+      targetSettings,
+      today
+    );
+    if (model) models.set(locationId, model);
+  });
+  return models;
+};
+
+// The month or fiscal period under way and the ones after it, labelled
+// as the historical trends are
+export const getUpcomingPeriods = (
+  targetSettings: TargetSettings,
+  count: number,
+  now: Date = getNow()
+): (PeriodRange & { label: string })[] => {
+  if (targetSettings.fiscalCalendar) {
+    const calendar = getFiscalCalendar(targetSettings);
+    let period = getFiscalPeriodOn(now, calendar);
+    return Array.from({ length: count + 1 }, (_, index) => {
+      if (index > 0) {
+        period = getFiscalPeriodOn(
+          parseDateKey(addDaysToKey(period.end, 1)),
+          calendar
+        );
+      }
+      return {
+        label: formatFiscalPeriod(period),
+        start: period.start,
+        end: period.end,
+      };
+    });
+  }
+
+  return Array.from({ length: count + 1 }, (_, index) => {
+    const month = addMonths(startOfMonth(now), index);
+    return {
+      label: format(month, "MMM yyyy"),
+      start: formatDateKey(month),
+      end: formatDateKey(endOfMonth(month)),
+    };
+  });
+};
+
+// Revenue forecasts for periods, for one location or all of them together
+export const forecastPeriods = (
+  entries: RevenueData[],
+  targetSettings: TargetSettings,
+  periods: (PeriodRange & { label: string })[],
+  location?: string,
+  now: Date = getNow(location),
+  level: PredictionLevel = DEFAULT_PREDICTION_LEVEL
+): PeriodForecast[] => {
+  const today = formatDateKey(now);
+  const selected =
+    location && location !== "Combined" ? findLocation(location) : undefined;
+  const locationIds = selected
+    ? [selected.id]
+    : getLocations().map((loc) => loc.id);
+  const models = fitModels(entries, targetSettings, today, locationIds);
+
+  return periods.map((period) => ({
+    ...period,
+    ...toForecast(
+      [...models.values()].map((model) =>
+        estimateRange(model, period)
+      ),
+      level
+    ),
+  }));
+};
+
+// Month-end revenue per location and combined
+export const forecastMonthEnd = (
+  entries: RevenueData[],
+  targetSettings: TargetSettings,
+  now: Date = getNow(),
+  level: PredictionLevel = DEFAULT_PREDICTION_LEVEL
+): MonthEndForecast => {
+  const today = formatDateKey(now);
+  const month: PeriodRange = {
+    start: formatDateKey(startOfMonth(now)),
+    end: formatDateKey(endOfMonth(now)),
+  };
+  const locations = getLocations();
+  const models = fitModels(
+    entries,
+    targetSettings,
+    today,
+    locations.map((loc) => loc.id)
+  );
+  const estimates = new Map(
+    [...models.entries()].map(([locationId, model]) => [
+      locationId,
+      estimateRange(model, month),
+    ])
+  );
+
+  return {
+    locations: Object.fromEntries(
+      locations.map((loc) => {
+        const estimate = estimates.get(loc.id);
+        return [loc.id, toForecast(estimate ? [estimate] : [], level)];
+      })
+    ),
+    combined: toForecast([...estimates.values()], level),
+  };
+};
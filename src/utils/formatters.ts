@@ -1,3 +1,6 @@
+import { isValid } from "date-fns";
+import { formatDateKey, isDateKey, parseDateKey } from "./dates";
+
 /**
  * Format a number as currency (USD)
  */
@@ -25,10 +28,22 @@ export const formatPercentage = (value: number): string => {
  * Format a date string (YYYY-MM-DD) to a more readable format (MMM D, YYYY)
  */
 export const formatDate = (dateString: string): string => {
-  const date = new Date(dateString);
+  const date = parseDateKey(dateString);
   return new Intl.DateTimeFormat("en-US", {
     month: "short",
     day: "numeric",
     year: "numeric",
   }).format(date);
 };
+
+/**
+ * Normalize a date string (YYYY-MM-DD, M/D/YYYY, ...) to the YYYY-MM-DD key
+ * revenue entries are stored under. Returns null if it cannot be parsed.
+ */
+export const toDateKey = (dateString: string): string | null => {
+  const trimmed = dateString?.trim();
+  if (!trimmed) return null;
+  // Other layouts are read by the browser, in local time like date keys
+  const date = isDateKey(trimmed) ? parseDateKey(trimmed) : new Date(trimmed);
+  return isValid(date) ? formatDateKey(date) : null;
+};
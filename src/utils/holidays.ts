@@ -0,0 +1,269 @@
+import { useSyncExternalStore } from "react";
+import {
+  CustomHoliday,
+  FederalHolidayId,
+  HolidayCalendar,
+  LocationConfig,
+  LocationId,
+} from "../types/revenue";
+import { getLocations } from "./locations";
+import { formatDateKey } from "./dates";
+
+interface FederalHolidayRule {
+  id: FederalHolidayId;
+  name: string;
+  // Date the holiday is observed in a year, or null if it was not yet a
+  // federal holiday
+  getDate: (year: number) => Date | null;
+}
+
+// A holiday resolved to a date, with the locations that are closed for it
+export interface Holiday {
+  date: string; // yyyy-MM-dd
+  name: string;
+  federalId?: FederalHolidayId;
+  locationIds: LocationId[];
+}
+
+// nth weekday (0 = Sunday) of a month; n = -1 for the last one
+const nthWeekday = (
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+): Date => {
+  if (n < 0) {
+    const date = new Date(year, month + 1, 0);
+    date.setDate(date.getDate() - ((date.getDay() - weekday + 7) % 7));
+    return date;
+  }
+  const date = new Date(year, month, 1);
+  date.setDate(1 + ((weekday - date.getDay() + 7) % 7) + (n - 1) * 7);
+  return date;
+};
+
+// Fixed-date holidays on a Saturday are observed the Friday before and on a
+// Sunday the Monday after
+const observed = (year: number, month: number, day: number): Date => {
+  const date = new Date(year, month, day);
+  if (date.getDay() === 6) return new Date(year, month, day - 1);
+  if (date.getDay() === 0) return new Date(year, month, day + 1);
+  return date;
+};
+
+export const FEDERAL_HOLIDAYS: FederalHolidayRule[] = [
+  {
+    id: "newYearsDay",
+    name: "New Year's Day",
+    getDate: (year) => observed(year, 0, 1),
+  },
+  {
+    id: "mlkDay",
+    name: "Martin Luther King Jr. Day",
+    getDate: (year) => nthWeekday(year, 0, 1, 3),
+  },
+  {
+    id: "presidentsDay",
+    name: "Presidents' Day",
+    getDate: (year) => nthWeekday(year, 1, 1, 3),
+  },
+  {
+    id: "memorialDay",
+    name: "Memorial Day",
+    getDate: (year) => nthWeekday(year, 4, 1, -1),
+  },
+  {
+    id: "juneteenth",
+    name: "Juneteenth",
+    getDate: (year) => (year >= 2021 ? observed(year, 5, 19) : null),
+  },
+  {
+    id: "independenceDay",
+    name: "Independence Day",
+    getDate: (year) => observed(year, 6, 4),
+  },
+  {
+    id: "laborDay",
+    name: "Labor Day",
+    getDate: (year) => nthWeekday(year, 8, 1, 1),
+  },
+  {
+    id: "columbusDay",
+    name: "Columbus Day",
+    getDate: (year) => nthWeekday(year, 9, 1, 2),
+  },
+  {
+    id: "veteransDay",
+    name: "Veterans Day",
+    getDate: (year) => observed(year, 10, 11),
+  },
+  {
+    id: "thanksgiving",
+    name: "Thanksgiving Day",
+    getDate: (year) => nthWeekday(year, 10, 4, 4),
+  },
+  {
+    id: "christmasDay",
+    name: "Christmas Day",
+    getDate: (year) => observed(year, 11, 25),
+  },
+];
+
+const FEDERAL_HOLIDAY_IDS = new Set<string>(
+  FEDERAL_HOLIDAYS.map((rule) => rule.id)
+);
+
+export const DEFAULT_HOLIDAY_CALENDAR: HolidayCalendar = {
+  federalExceptions: {},
+  customHolidays: [],
+};
+
+let currentCalendar: HolidayCalendar = DEFAULT_HOLIDAY_CALENDAR;
+const listeners = new Set<() => void>();
+
+export const getHolidayCalendar = (): HolidayCalendar => currentCalendar;
+
+export const setHolidayCalendar = (calendar: HolidayCalendar) => {
+  currentCalendar = calendar;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToHolidayRegistry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// React hook that re-renders when the holiday calendar changes
+export const useHolidayCalendar = (): HolidayCalendar =>
+  useSyncExternalStore(subscribeToHolidayRegistry, getHolidayCalendar);
+
+const federalDatesByYear = new Map<
+  number,
+  { rule: FederalHolidayRule; date: string }[]
+>();
+
+// Federal holidays observed within a calendar year. New Year's Day of the
+// following year is observed on December 31 when it falls on a Saturday.
+const getFederalDates = (year: number) => {
+  let dates = federalDatesByYear.get(year);
+  if (!dates) {
+    dates = [year, year + 1].flatMap((ruleYear) =>
+      FEDERAL_HOLIDAYS.flatMap((rule) => {
+        const date = rule.getDate(ruleYear);
+        return date && date.getFullYear() === year
+          ? [{ rule, date: formatDateKey(date) }]
+          : [];
+      })
+    );
+    federalDatesByYear.set(year, dates);
+  }
+  return dates;
+};
+
+const resolveCustomHoliday = (
+  holiday: CustomHoliday,
+  locations: LocationConfig[]
+): Holiday => ({
+  date: holiday.date,
+  name: holiday.name,
+  locationIds:
+    holiday.locationIds && holiday.locationIds.length > 0
+      ? locations
+          .filter((location) => holiday.locationIds!.includes(location.id))
+          .map((location) => location.id)
+      : locations.map((location) => location.id),
+});
+
+// Every holiday in a year, federal and custom, in date order. Holidays no
+// location is closed for are left out.
+export const getHolidaysInYear = (
+  year: number,
+  calendar: HolidayCalendar = getHolidayCalendar(),
+  locations: LocationConfig[] = getLocations()
+): Holiday[] => {
+  const federal: Holiday[] = getFederalDates(year).map(({ rule, date }) => ({
+    date,
+    name: rule.name,
+    federalId: rule.id,
+    locationIds: locations
+      .filter(
+        (location) =>
+          !calendar.federalExceptions[location.id]?.includes(rule.id)
+      )
+      .map((location) => location.id),
+  }));
+  const custom = calendar.customHolidays
+    .filter((holiday) => holiday.date.startsWith(`${year}-`))
+    .map((holiday) => resolveCustomHoliday(holiday, locations));
+
+  return [...federal, ...custom]
+    .filter((holiday) => holiday.locationIds.length > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const getHolidaysOn = (
+  date: Date,
+  calendar: HolidayCalendar = getHolidayCalendar(),
+  locations: LocationConfig[] = getLocations()
+): Holiday[] => {
+  if (isNaN(date.getTime())) return [];
+  const key = formatDateKey(date);
+  return getHolidaysInYear(date.getFullYear(), calendar, locations).filter(
+    (holiday) => holiday.date === key
+  );
+};
+
+// Whether a location is closed for a holiday on a date. Without a location,
+// only holidays every location is closed for count.
+export const isHoliday = (
+  date: Date,
+  locationId?: LocationId,
+  calendar: HolidayCalendar = getHolidayCalendar(),
+  locations: LocationConfig[] = getLocations()
+): boolean => {
+  const closed = new Set(
+    getHolidaysOn(date, calendar, locations).flatMap(
+      (holiday) => holiday.locationIds
+    )
+  );
+  if (locationId) return closed.has(locationId);
+  return (
+    locations.length > 0 &&
+    locations.every((location) => closed.has(location.id))
+  );
+};
+
+// Drop unknown federal holiday ids and malformed custom dates. Realtime
+// Database returns sparse arrays as objects, so lists are read with
+// Object.values.
+export const normalizeHolidayCalendar = (raw: any): HolidayCalendar => {
+  const federalExceptions: HolidayCalendar["federalExceptions"] = {};
+  Object.entries(raw?.federalExceptions || {}).forEach(([id, value]) => {
+    const exceptions = Object.values(value || {}).filter(
+      (holidayId): holidayId is FederalHolidayId =>
+        typeof holidayId === "string" && FEDERAL_HOLIDAY_IDS.has(holidayId)
+    );
+    if (exceptions.length > 0) federalExceptions[id] = exceptions;
+  });
+
+  const customHolidays: CustomHoliday[] = Object.values(
+    raw?.customHolidays || {}
+  )
+    .filter(
+      (holiday: any) =>
+        typeof holiday?.date === "string" &&
+        /^\d{4}-\d{2}-\d{2}$/.test(holiday.date) &&
+        typeof holiday?.name === "string"
+    )
+    .map((holiday: any) => {
+      const custom: CustomHoliday = { date: holiday.date, name: holiday.name };
+      const locationIds = Object.values(holiday.locationIds || {}).map(String);
+      if (locationIds.length > 0) custom.locationIds = locationIds;
+      return custom;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { federalExceptions, customHolidays };
+};
@@ -0,0 +1,244 @@
+import { isValid, parse } from "date-fns";
+import {
+  LeadColumnMapping,
+  LeadImportField,
+  LeadImportProfile,
+} from "../types/leadImport";
+import { LocationConfig } from "../types/revenue";
+import { SiteKey } from "../services/leadService";
+import { findLocation, getLocations } from "./locations";
+import { DATE_KEY_FORMAT, formatDateKey } from "./dates";
+
+interface LeadImportFieldConfig {
+  field: LeadImportField;
+  label: string;
+  required: boolean;
+  // Headers recognized without a saved profile, compared ignoring case,
+  // spacing and punctuation
+  guesses: string[];
+}
+
+export const LEAD_IMPORT_FIELDS: LeadImportFieldConfig[] = [
+  {
+    field: "agentName",
+    label: "Agent Name",
+    required: true,
+    guesses: ["agent_name", "Agent Name", "Agent", "Name"],
+  },
+  {
+    field: "billableLeads",
+    label: "Billable Leads",
+    required: true,
+    guesses: ["billable_leads", "Billable Leads", "Leads"],
+  },
+  {
+    field: "openOrder",
+    label: "Open Order",
+    required: false,
+    guesses: ["open_order", "Open Order"],
+  },
+  {
+    field: "date",
+    label: "Date",
+    required: false,
+    guesses: ["date", "Report Date", "Day"],
+  },
+  {
+    field: "site",
+    label: "Site",
+    required: false,
+    guesses: ["site", "Location", "Center"],
+  },
+];
+
+// A lead CSV row after mapping; rows with errors are not imported
+export interface ParsedLeadRow {
+  rowNumber: number; // Line in the file, counting the header as line 1
+  name: string;
+  leads: number;
+  hasOpenOrder: boolean;
+  date?: string; // yyyy-MM-dd, when the file has a date column
+  site?: SiteKey; // When the file has a site column
+  errors: Partial<Record<LeadImportField, string>>;
+}
+
+// The rows of one lead entry in a file covering several dates or sites
+export interface LeadImportGroup {
+  key: string;
+  date: string; // yyyy-MM-dd
+  site: SiteKey;
+  rows: ParsedLeadRow[];
+}
+
+const headerKey = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const createLeadImportProfileId = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "profile";
+
+// Map fields to headers from the built-in list of known column names
+export const guessLeadColumns = (headers: string[]): LeadColumnMapping => {
+  const mapping: LeadColumnMapping = {};
+  LEAD_IMPORT_FIELDS.forEach(({ field, guesses }) => {
+    const keys = guesses.map(headerKey);
+    const header = headers.find((header) => keys.includes(headerKey(header)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+};
+
+// Fields the mapping cannot read from a file with these headers: required
+// fields left unmapped and fields mapped to a header the file lacks
+export const getUnmappedLeadFields = (
+  mapping: LeadColumnMapping,
+  headers: string[]
+): LeadImportField[] =>
+  LEAD_IMPORT_FIELDS.filter(({ field, required }) => {
+    const header = mapping[field];
+    return header ? !headers.includes(header) : required;
+  }).map(({ field }) => field);
+
+// The most recently saved profile whose columns are all in the file
+export const findLeadImportProfile = (
+  headers: string[],
+  profiles: LeadImportProfile[]
+): LeadImportProfile | undefined =>
+  [...profiles]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .find(
+      (profile) => getUnmappedLeadFields(profile.columns, headers).length === 0
+    );
+
+const TRUE_VALUES = ["yes", "y", "true", "1", "x"];
+const FALSE_VALUES = ["no", "n", "false", "0", ""];
+
+const DATE_FORMATS = [DATE_KEY_FORMAT, "M/d/yyyy", "M/d/yy", "yyyy/M/d"];
+
+// A date as written in a report, as yyyy-MM-dd; null if unrecognized
+export const parseImportDate = (value: string): string | null => {
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date) && date.getFullYear() >= 1000) {
+      return formatDateKey(date);
+    }
+  }
+  return null;
+};
+
+export const parseLeadRows = (
+  rows: Record<string, string | undefined>[],
+  mapping: LeadColumnMapping,
+  locations: LocationConfig[] = getLocations()
+): ParsedLeadRow[] =>
+  rows.map((row, index) => {
+    const read = (field: LeadImportField) => {
+      const header = mapping[field];
+      return header ? String(row[header] ?? "").trim() : "";
+    };
+    const errors: ParsedLeadRow["errors"] = {};
+
+    const name = read("agentName");
+    if (!name) errors.agentName = "Missing agent name";
+
+    // An empty value is an absent agent with 0 leads
+    const leadsValue = read("billableLeads").replace(/,/g, "");
+    const leads = leadsValue === "" ? 0 : Number(leadsValue);
+    if (!Number.isInteger(leads) || leads < 0) {
+      errors.billableLeads = `"${read("billableLeads")}" is not a lead count`;
+    }
+
+    // Without an open order column every agent in the file has one
+    let hasOpenOrder = true;
+    if (mapping.openOrder) {
+      const value = read("openOrder").toLowerCase();
+      hasOpenOrder = TRUE_VALUES.includes(value);
+      if (!hasOpenOrder && !FALSE_VALUES.includes(value)) {
+        errors.openOrder = `"${read("openOrder")}" is not yes or no`;
+      }
+    }
+
+    const parsed: ParsedLeadRow = {
+      rowNumber: index + 2,
+      name,
+      leads: Number.isInteger(leads) && leads >= 0 ? leads : 0,
+      hasOpenOrder,
+      errors,
+    };
+
+    if (mapping.date) {
+      const date = parseImportDate(read("date"));
+      if (date) {
+        parsed.date = date;
+      } else {
+        errors.date = `"${read("date")}" is not a date`;
+      }
+    }
+
+    // Sites may be written as a location's id, name or lead site key
+    if (mapping.site) {
+      const location = findLocation(read("site"), locations);
+      if (location) {
+        parsed.site = location.leadSiteKey;
+      } else {
+        errors.site = `"${read("site")}" is not a configured site`;
+      }
+    }
+
+    return parsed;
+  });
+
+export const getLeadImportKey = (date: string, site: SiteKey) =>
+  `${date}|${site}`;
+
+// Split rows into lead entries by date and site, in date order. Rows without
+// a date or site column use the ones picked for the whole file.
+export const groupLeadRows = (
+  rows: ParsedLeadRow[],
+  defaults: { date: string; site: SiteKey }
+): LeadImportGroup[] => {
+  const groups = new Map<string, LeadImportGroup>();
+  rows.forEach((row) => {
+    const date = row.date ?? defaults.date;
+    const site = row.site ?? defaults.site;
+    const key = getLeadImportKey(date, site);
+    const group = groups.get(key) ?? { key, date, site, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.site.localeCompare(b.site)
+  );
+};
+
+export const hasLeadRowErrors = (row: ParsedLeadRow) =>
+  Object.keys(row.errors).length > 0;
+
+// Drop malformed profiles and unknown fields, sorted by name
+export const normalizeLeadImportProfiles = (raw: any): LeadImportProfile[] =>
+  Object.values(raw || {})
+    .filter(
+      (profile: any) =>
+        typeof profile?.id === "string" &&
+        typeof profile?.name === "string" &&
+        !!profile?.columns &&
+        typeof profile.columns === "object"
+    )
+    .map((profile: any) => {
+      const columns: LeadColumnMapping = {};
+      LEAD_IMPORT_FIELDS.forEach(({ field }) => {
+        if (typeof profile.columns[field] === "string") {
+          columns[field] = profile.columns[field];
+        }
+      });
+      return {
+        id: profile.id,
+        name: profile.name,
+        columns,
+        updatedAt: Number(profile.updatedAt) || 0,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
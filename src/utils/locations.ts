@@ -0,0 +1,255 @@
+import { useSyncExternalStore } from "react";
+import {
+  LocationConfig,
+  LocationId,
+  LocationValues,
+  MonthlyTargetAdjustment,
+  RevenueData,
+  TargetSettings,
+  TargetVersion,
+} from "../types/revenue";
+
+// Locations used until settings/locations has been loaded from Firebase
+export const DEFAULT_LOCATIONS: LocationConfig[] = [
+  {
+    id: "austin",
+    name: "Austin",
+    timeZone: "America/Chicago",
+    leadSiteKey: "ATX",
+    defaultDailyTarget: 53000,
+    color: "#1E40AF",
+  },
+  {
+    id: "charlotte",
+    name: "Charlotte",
+    timeZone: "America/New_York",
+    leadSiteKey: "CLT",
+    defaultDailyTarget: 62500,
+    color: "#F97316",
+  },
+];
+
+// Fallback colors for locations without one configured
+const LOCATION_PALETTE = [
+  "#1E40AF",
+  "#F97316",
+  "#7B1FA2",
+  "#00897B",
+  "#C62828",
+  "#6D4C41",
+];
+
+let currentLocations: LocationConfig[] = DEFAULT_LOCATIONS;
+const listeners = new Set<() => void>();
+
+export const getLocations = (): LocationConfig[] => currentLocations;
+
+export const setLocations = (locations: LocationConfig[]) => {
+  currentLocations = locations.length > 0 ? locations : DEFAULT_LOCATIONS;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToLocationRegistry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// React hook that re-renders when the location registry changes
+export const useLocations = (): LocationConfig[] =>
+  useSyncExternalStore(subscribeToLocationRegistry, getLocations);
+
+export const getLocationIds = (
+  locations: LocationConfig[] = getLocations()
+): LocationId[] => locations.map((location) => location.id);
+
+// Look up a location by id, display name or lead site key (case-insensitive)
+export const findLocation = (
+  key: string | undefined | null,
+  locations: LocationConfig[] = getLocations()
+): LocationConfig | undefined => {
+  if (!key) return undefined;
+  const normalized = key.trim().toLowerCase();
+  return locations.find(
+    (location) =>
+      location.id.toLowerCase() === normalized ||
+      location.name.toLowerCase() === normalized ||
+      location.leadSiteKey.toLowerCase() === normalized
+  );
+};
+
+export const getLocationName = (id: LocationId): string =>
+  findLocation(id)?.name ?? id;
+
+export const getLocationColor = (
+  location: LocationConfig,
+  locations: LocationConfig[] = getLocations()
+): string => {
+  if (location.color) return location.color;
+  const index = Math.max(
+    0,
+    locations.findIndex((l) => l.id === location.id)
+  );
+  return LOCATION_PALETTE[index % LOCATION_PALETTE.length];
+};
+
+export const getDefaultDailyTargets = (
+  locations: LocationConfig[] = getLocations()
+): LocationValues =>
+  Object.fromEntries(
+    locations.map((location) => [location.id, location.defaultDailyTarget])
+  );
+
+// Build a value map with an entry for every location
+export const createLocationValues = (
+  getValue: (location: LocationConfig) => number = () => 0,
+  locations: LocationConfig[] = getLocations()
+): LocationValues =>
+  Object.fromEntries(
+    locations.map((location) => [location.id, getValue(location)])
+  );
+
+export const sumLocationValues = (
+  values: Partial<LocationValues> | undefined,
+  locations: LocationConfig[] = getLocations()
+): number =>
+  locations.reduce((sum, location) => sum + (values?.[location.id] || 0), 0);
+
+export const getLocationRevenue = (
+  entry: RevenueData,
+  locationId: LocationId
+): number => entry.revenue?.[locationId] || 0;
+
+export const getTotalRevenue = (
+  entry: RevenueData,
+  locations: LocationConfig[] = getLocations()
+): number => sumLocationValues(entry.revenue, locations);
+
+// Revenue for a single location, or the total when "Combined" / unset
+export const getRevenueForLocation = (
+  entry: RevenueData,
+  location?: string
+): number => {
+  if (!location || location === "Combined") return getTotalRevenue(entry);
+  const config = findLocation(location);
+  return config ? getLocationRevenue(entry, config.id) : 0;
+};
+
+// Records written before the location registry stored one flat numeric field
+// per site ("austin" / "austinRevenue") instead of a nested revenue map.
+export const isLegacyRevenueRecord = (raw: any): boolean =>
+  !!raw && (typeof raw.revenue !== "object" || raw.revenue === null);
+
+export const normalizeRevenueRecord = (
+  raw: any,
+  locations: LocationConfig[] = getLocations()
+): RevenueData => {
+  const revenue: LocationValues = {};
+
+  if (raw?.revenue && typeof raw.revenue === "object") {
+    Object.entries(raw.revenue).forEach(([id, value]) => {
+      revenue[id] = Number(value) || 0;
+    });
+  }
+
+  locations.forEach((location) => {
+    if (revenue[location.id] !== undefined) return;
+    const legacyValue =
+      raw?.[`${location.id}Revenue`] !== undefined
+        ? raw[`${location.id}Revenue`]
+        : raw?.[location.id];
+    revenue[location.id] = Number(legacyValue) || 0;
+  });
+
+  const record: RevenueData = { date: raw?.date, revenue };
+  if (raw?.id) record.id = raw.id;
+  if (raw?.savedAt) record.savedAt = Number(raw.savedAt);
+  if (raw?.deletedAt) record.deletedAt = Number(raw.deletedAt);
+  if (raw?.savedBy) record.savedBy = String(raw.savedBy);
+  if (raw?.importBatchId) record.importBatchId = String(raw.importBatchId);
+  return record;
+};
+
+// Fill in targets for every location and move legacy per-site monthly
+// overrides (adjustment.austin / adjustment.charlotte) into adjustment.targets
+export const normalizeTargetSettings = (
+  raw: any,
+  locations: LocationConfig[] = getLocations()
+): TargetSettings => {
+  const dailyTargets = createLocationValues((location) => {
+    const value = raw?.dailyTargets?.[location.id];
+    return value !== undefined ? Number(value) : location.defaultDailyTarget;
+  }, locations);
+
+  const monthlyAdjustments: MonthlyTargetAdjustment[] = (
+    raw?.monthlyAdjustments || []
+  ).map((adj: any) => {
+    const targets: Partial<LocationValues> = { ...(adj.targets || {}) };
+    locations.forEach((location) => {
+      if (targets[location.id] === undefined && adj[location.id] != null) {
+        targets[location.id] = Number(adj[location.id]);
+      }
+    });
+
+    const adjustment: MonthlyTargetAdjustment = {
+      month: adj.month,
+      year: adj.year,
+      workingDays: adj.workingDays || [],
+    };
+    if (adj.locationWorkingDays) {
+      adjustment.locationWorkingDays = Object.fromEntries(
+        Object.entries(adj.locationWorkingDays).map(([id, days]) => [
+          id,
+          Object.values(days || {}).map(Number),
+        ])
+      );
+    }
+    if (Object.keys(targets).length > 0) adjustment.targets = targets;
+    if (adj.agentCount !== undefined) adjustment.agentCount = adj.agentCount;
+    return adjustment;
+  });
+
+  const settings: TargetSettings = { dailyTargets, monthlyAdjustments };
+
+  const targetVersions: TargetVersion[] = Object.values(
+    raw?.targetVersions || {}
+  )
+    .filter((version: any) => typeof version?.effectiveFrom === "string")
+    .map((version: any) => {
+      const normalized: TargetVersion = {
+        effectiveFrom: version.effectiveFrom,
+        dailyTargets: Object.fromEntries(
+          Object.entries(version.dailyTargets || {}).map(([id, value]) => [
+            id,
+            Number(value),
+          ])
+        ),
+        createdAt: Number(version.createdAt) || 0,
+      };
+      if (version.createdBy) normalized.createdBy = String(version.createdBy);
+      return normalized;
+    })
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  if (targetVersions.length > 0) settings.targetVersions = targetVersions;
+
+  const fiscal = raw?.fiscalCalendar;
+  if (
+    fiscal &&
+    Number.isInteger(fiscal.startMonth) &&
+    fiscal.startMonth >= 0 &&
+    fiscal.startMonth <= 11 &&
+    Number.isInteger(fiscal.weekStartsOn) &&
+    fiscal.weekStartsOn >= 0 &&
+    fiscal.weekStartsOn <= 6 &&
+    ["4-4-5", "4-5-4", "5-4-4"].includes(fiscal.pattern)
+  ) {
+    settings.fiscalCalendar = {
+      startMonth: fiscal.startMonth,
+      weekStartsOn: fiscal.weekStartsOn,
+      pattern: fiscal.pattern,
+    };
+  }
+
+  return settings;
+};
@@ -0,0 +1,249 @@
+import { format, isWeekend, parseISO } from "date-fns";
+import {
+  LocationConfig,
+  LocationValues,
+  RevenueData,
+  TargetSettings,
+} from "../types/revenue";
+import { getTargetForDate, isBusinessDay } from "./calculations";
+import { toDateKey } from "./formatters";
+import { parseImportDate } from "./leadImport";
+import { findLocation, getLocations } from "./locations";
+
+export type RevenueImportStatus = "new" | "update" | "unchanged";
+
+// Errors keep a row out of the import; warnings need the user to accept it
+export interface RevenueImportIssue {
+  level: "error" | "warning";
+  message: string;
+  locationId?: string; // Set when the issue is about one location's amount
+}
+
+// A revenue CSV row after validation, before anything is written
+export interface RevenueImportRow {
+  rowNumber: number; // Line in the file, counting the header as line 1
+  rawDate: string;
+  date: string | null; // yyyy-MM-dd; null when the date is invalid
+  revenue: LocationValues;
+  status: RevenueImportStatus;
+  issues: RevenueImportIssue[];
+}
+
+// "wide": a Date column and one "<Location> Revenue" column per location.
+// "long": Date, Location and Revenue columns, one row per date and location.
+export type RevenueCSVLayout = "wide" | "long";
+
+// The cells for one date; an amount is undefined when the file has none for
+// the location
+export interface RevenueCSVValues {
+  date: string;
+  amounts: Record<string, string | undefined>;
+  rowNumber?: number; // First line of the date in a long file
+  issues?: RevenueImportIssue[]; // Found while reading the file
+  keepsStoredAmounts?: boolean; // Locations without an amount are unchanged
+}
+
+export interface RevenueImportPreview {
+  layout: RevenueCSVLayout;
+  rows: RevenueImportRow[];
+  missingColumns: string[]; // Location names without a revenue column
+  unknownLocations: string[]; // Long files: location names as written
+}
+
+// One row of a long file, as written
+export interface LongRevenueCSVRow {
+  date: string;
+  location: string;
+  revenue: string;
+}
+
+// A day above this multiple of its target is flagged as a likely typo
+export const OUTLIER_TARGET_MULTIPLE = 3;
+
+// An amount as written in a report: "$1,234.50" or "1234.5". Empty cells
+// are 0; null when it is not a non-negative number.
+export const parseRevenueAmount = (
+  value: string | undefined
+): number | null => {
+  if (!value?.trim()) return 0;
+  const cleaned = value.replace(/[$,\s]/g, "");
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+export const hasRevenueImportErrors = (row: RevenueImportRow) =>
+  row.issues.some((issue) => issue.level === "error");
+
+export const hasRevenueImportWarnings = (row: RevenueImportRow) =>
+  row.issues.some((issue) => issue.level === "warning");
+
+// Rows accepted without review: valid, unflagged and changing something
+export const isRevenueRowAcceptedByDefault = (row: RevenueImportRow) =>
+  !hasRevenueImportErrors(row) &&
+  !hasRevenueImportWarnings(row) &&
+  row.status !== "unchanged";
+
+const sameRevenue = (a: LocationValues, b: LocationValues) =>
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).every(
+    (id) => (a[id] ?? 0) === (b[id] ?? 0)
+  );
+
+// Validate CSV rows against the stored entries and targets
+export const validateRevenueRows = (
+  rows: RevenueCSVValues[],
+  existing: RevenueData[],
+  targetSettings?: TargetSettings,
+  locations: LocationConfig[] = getLocations()
+): RevenueImportRow[] => {
+  const stored = new Map<string, RevenueData>();
+  existing.forEach((entry) => {
+    const date = toDateKey(entry.date);
+    if (date) stored.set(date, entry);
+  });
+
+  const validated = rows.map((row, index): RevenueImportRow => {
+    const issues: RevenueImportIssue[] = [...(row.issues ?? [])];
+    const rawDate = (row.date ?? "").trim();
+    const date = parseImportDate(rawDate);
+    if (!date) {
+      issues.push({
+        level: "error",
+        message: rawDate ? `"${rawDate}" is not a date` : "Missing date",
+      });
+    }
+
+    // Long files may hold only some locations for a date; the others keep
+    // what is stored rather than being zeroed
+    const current = date ? stored.get(date) : undefined;
+    const kept = new Set<string>();
+    const revenue: LocationValues = {};
+    locations.forEach((location) => {
+      const raw = row.amounts[location.id];
+      if (raw === undefined && row.keepsStoredAmounts && current) {
+        revenue[location.id] = current.revenue?.[location.id] ?? 0;
+        kept.add(location.id);
+        return;
+      }
+      const amount = parseRevenueAmount(raw);
+      if (amount === null) {
+        issues.push({
+          level: "error",
+          message: `${location.name}: "${raw}" is not an amount`,
+          locationId: location.id,
+        });
+      }
+      revenue[location.id] = amount ?? 0;
+    });
+
+    let status: RevenueImportStatus = "new";
+    if (date) {
+      const day = parseISO(date);
+      if (isWeekend(day)) {
+        issues.push({
+          level: "warning",
+          message: `Falls on a ${format(day, "EEEE")}`,
+        });
+      }
+      const targets = getTargetForDate(day, targetSettings);
+      locations.forEach((location) => {
+        if (kept.has(location.id)) return;
+        const amount = revenue[location.id];
+        const target = targets[location.id] ?? 0;
+        const isHoliday = !isWeekend(day) && !isBusinessDay(day, location.id);
+        if (amount > 0 && isHoliday) {
+          issues.push({
+            level: "warning",
+            message: `${location.name} is closed for a holiday`,
+            locationId: location.id,
+          });
+        } else if (target > 0 && amount > target * OUTLIER_TARGET_MULTIPLE) {
+          issues.push({
+            level: "warning",
+            message: `${location.name} is ${(amount / target).toFixed(
+              1
+            )}× its daily target`,
+            locationId: location.id,
+          });
+        }
+      });
+
+      if (current) {
+        status = sameRevenue(current.revenue, revenue)
+          ? "unchanged"
+          : "update";
+      }
+    }
+
+    const rowNumber = row.rowNumber ?? index + 2;
+    return { rowNumber, rawDate, date, revenue, status, issues };
+  });
+
+  // A date repeated in the file imports its last row only
+  const lastRow = new Map<string, number>();
+  validated.forEach((row) => {
+    if (row.date) lastRow.set(row.date, row.rowNumber);
+  });
+  validated.forEach((row) => {
+    const last = row.date ? lastRow.get(row.date) : undefined;
+    if (last !== undefined && last !== row.rowNumber) {
+      row.issues.push({
+        level: "error",
+        message: `Date repeated on row ${last}, which is imported instead`,
+      });
+    }
+  });
+
+  return validated;
+};
+
+// Pivot a long file into one set of values per date. Location names match
+// a location's name, id or lead site key, ignoring case; rows for other
+// locations are left out and their names reported. Locations without a row
+// for a date keep their stored amount.
+export const pivotLongRevenueRows = (
+  rows: LongRevenueCSVRow[],
+  locations: LocationConfig[] = getLocations()
+): { rows: RevenueCSVValues[]; unknownLocations: string[] } => {
+  const byDate = new Map<string, RevenueCSVValues>();
+  const lines = new Map<string, number>(); // First line of each date+location
+  const unknown = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const rawDate = (row.date ?? "").trim();
+    const key = parseImportDate(rawDate) ?? rawDate;
+    const name = (row.location ?? "").trim();
+    const location = findLocation(name, locations);
+    if (!location) {
+      unknown.add(name || "(blank)");
+      return;
+    }
+
+    // Dates only get a row once a known location names them, so a date
+    // with unknown locations alone is not imported as zeros
+    let values = byDate.get(key);
+    if (!values) {
+      values = {
+        date: rawDate,
+        amounts: {},
+        rowNumber: line,
+        issues: [],
+        keepsStoredAmounts: true,
+      };
+      byDate.set(key, values);
+    }
+    const first = lines.get(`${key}|${location.id}`);
+    if (first !== undefined) {
+      values.issues?.push({
+        level: "error",
+        message: `${location.name} is on rows ${first} and ${line}`,
+        locationId: location.id,
+      });
+      return;
+    }
+    lines.set(`${key}|${location.id}`, line);
+    values.amounts[location.id] = row.revenue;
+  });
+
+  return { rows: [...byDate.values()], unknownLocations: [...unknown] };
+};